@@ -1,18 +1,81 @@
+/**
+ * API route for analyzing a relationship
+ *
+ * The pipeline itself lives in lib/analysis.ts. The request body is
+ * { relationship_id, window?, prompt_version? }:
+ * - window: "all" (default) or a number of days like "30d" (see lib/analysisContext.ts)
+ * - prompt_version: prompt template to use for this request only, overriding
+ *   the relationship's pin and the latest version (see lib/prompts)
+ *
+ * This route supports two response modes:
+ *
+ * - JSON (default): responds once with the validated insight, or with
+ *   { error, fields?, raw? } and an error status.
+ * - Streaming: send `Accept: text/event-stream` and the response is a
+ *   Server-Sent Events stream. Each progress stage (summarizing, context,
+ *   model, summary, retry, validated, saved) arrives as an event named after
+ *   the stage, followed by a final `done` event with the insight, or an
+ *   `error` event with { error, status, fields?, raw? }. If the client
+ *   disconnects, the analysis still runs to the end and the insight is saved.
+ *
+ * Problems found before analysis starts (not signed in, bad body,
+ * provider misconfigured) are plain JSON errors in both modes.
+ */
+
 import { NextResponse } from 'next/server';
-import { supabase } from '@/lib/supabaseClient';
+import { getSessionContext } from '@/lib/supabaseClient';
+import { getLLMProvider, LLMConfigError, LLMError, LLMProvider } from '@/lib/llm';
+import { AnalysisError, runAnalysis } from '@/lib/analysis';
+import { parseAnalysisWindow } from '@/lib/analysisContext';
+import { parsePromptPin } from '@/lib/prompts';
+import { createServerSentEventResponse } from '@/lib/sse';
+
+/**
+ * Convert an error thrown during analysis into a status and response body
+ */
+function describeAnalysisError(err: unknown): { status: number; body: Record<string, unknown> } {
+  if (err instanceof AnalysisError) {
+    return { status: err.status, body: { error: err.message, ...err.details } };
+  }
+  if (err instanceof LLMError) {
+    console.error('LLM provider error:', err.message);
+    return { status: err.status, body: { error: err.message } };
+  }
+
+  console.error('Unexpected error in /api/analyze:', err);
+  console.error('Error stack:', err instanceof Error ? err.stack : undefined);
+  return {
+    status: 500,
+    body: { error: err instanceof Error ? err.message : 'Unknown server error' },
+  };
+}
 
 export async function POST(request: Request) {
   try {
-    // 1. Ensure API key is present
-    const apiKey = process.env.GROQ_API_KEY;
-    if (!apiKey) {
-      console.error('Missing GROQ_API_KEY environment variable');
+    // 0. Only signed-in users can analyze their relationships
+    const { supabase, user } = await getSessionContext();
+    if (!user) {
       return NextResponse.json(
-        { error: 'Missing GROQ_API_KEY' },
-        { status: 500 }
+        { error: 'Not signed in' },
+        { status: 401 }
       );
     }
 
+    // 1. Resolve the configured LLM provider (Groq, OpenAI-compatible or mock)
+    let provider: LLMProvider;
+    try {
+      provider = getLLMProvider();
+    } catch (err) {
+      if (err instanceof LLMConfigError) {
+        console.error('LLM provider configuration error:', err.message);
+        return NextResponse.json(
+          { error: err.message },
+          { status: 500 }
+        );
+      }
+      throw err;
+    }
+
     // 2. Read and validate body
     const body = await request.json().catch((err) => {
       console.error('Request body parse error:', err);
@@ -28,223 +91,63 @@ export async function POST(request: Request) {
       );
     }
 
-    console.log('Analyzing relationship:', relationship_id);
-
-    // 3. Fetch relationship from Supabase
-    const { data: relationship, error: relError } = await supabase
-      .from('relationships')
-      .select('*')
-      .eq('id', relationship_id)
-      .single();
-
-    if (relError) {
-      console.error('Relationship fetch error:', relError);
-      return NextResponse.json(
-        { error: relError.message },
-        { status: 500 }
-      );
-    }
-
-    if (!relationship) {
-      console.error('Relationship not found:', relationship_id);
+    const window = parseAnalysisWindow(body?.window);
+    if (!window) {
       return NextResponse.json(
-        { error: 'Relationship not found' },
-        { status: 404 }
-      );
-    }
-
-    console.log('Fetched relationship:', relationship.person_name);
-
-    // 4. Fetch recent events for that relationship
-    const { data: events, error: eventsError } = await supabase
-      .from('events')
-      .select('*')
-      .eq('relationship_id', relationship_id)
-      .order('created_at', { ascending: false })
-      .limit(10);
-
-    if (eventsError) {
-      console.error('Events fetch error:', eventsError);
-      return NextResponse.json(
-        { error: eventsError.message },
-        { status: 500 }
-      );
-    }
-
-    const eventsText =
-      events && events.length > 0
-        ? events
-            .map(
-              (e) =>
-                `- [${e.created_at}] (${e.event_type}) ${e.description ?? ''}`
-            )
-            .join('\n')
-        : 'No events logged.';
-
-    console.log('Fetched events count:', events?.length ?? 0);
-
-    // 5. Fetch recent chat messages for this relationship as additional context.
-    // We use the relationship_id as the thread_id so that all chat messages
-    // related to this relationship can be grouped together.
-    const { data: messages, error: messagesError } = await supabase
-      .from('messages')
-      .select('*')
-      .eq('thread_id', relationship_id)
-      .order('timestamp', { ascending: false })
-      .limit(20);
-
-    // If there's an error fetching messages, log it but don't fail the whole request.
-    // The model can still analyze the relationship using only events.
-    if (messagesError) {
-      console.error('Messages fetch error:', messagesError);
-    }
-
-    // Build a human-readable text version of the messages for the prompt.
-    // Each line looks like: [timestamp] ME/THEM: text
-    const messagesText =
-      messages && messages.length > 0
-        ? messages
-            .map((m) => {
-              const who = m.from_me ? 'ME' : 'THEM';
-              return `[${m.timestamp}] ${who}: ${m.text ?? ''}`;
-            })
-            .join('\n')
-        : 'No chat messages available.';
-
-    console.log('Fetched messages count:', messages?.length ?? 0);
-
-    // 6. Build prompt for Groq
-    // NOTE: We now provide both Events and Messages to give the model richer context.
-    const promptText = `
-You are a relationship analysis engine. Analyze the relationship, events, and chat messages below.
-Respond ONLY with valid JSON in this shape:
-{
-  "summary": string,
-  "pattern": string,
-  "risk_score": number,
-  "growth_score": number,
-  "recommended_action": string,
-  "suggested_message": string
-}
-
-Relationship:
-Name: ${relationship.person_name ?? 'Unknown'}
-Type: ${relationship.type ?? 'Not specified'}
-Notes: ${relationship.notes ?? 'None'}
-
-Events:
-${eventsText}
-
-Messages:
-${messagesText}
-    `;
-
-    console.log('Calling Groq API...');
-
-    // 7. Call Groq API using fetch
-    const groqResponse = await fetch(
-      'https://api.groq.com/openai/v1/chat/completions',
-      {
-        method: 'POST',
-        headers: {
-          'Content-Type': 'application/json',
-          Authorization: `Bearer ${apiKey}`,
-        },
-        body: JSON.stringify({
-          model: 'llama-3.1-8b-instant',
-          messages: [
-            {
-              role: 'system',
-              content:
-                'You are a precise relationship analysis engine. Respond ONLY with valid JSON.',
-            },
-            { role: 'user', content: promptText },
-          ],
-        }),
-      }
-    );
-
-    if (!groqResponse.ok) {
-      const errorBody = await groqResponse.json().catch(() => null);
-      console.error('Groq error response:', errorBody);
-      
-      const message =
-        errorBody?.error?.message ||
-        errorBody?.message ||
-        `Groq HTTP ${groqResponse.status}`;
-      
-      return NextResponse.json(
-        { error: message },
-        { status: groqResponse.status }
+        { error: 'window must be "all" or a number of days like "30d"' },
+        { status: 400 }
       );
     }
 
-    const groqJson = await groqResponse.json().catch((err) => {
-      console.error('Groq response JSON parse error:', err);
-      return null;
-    });
-
-    if (!groqJson) {
+    const promptVersion = body?.prompt_version ?? null;
+    if (promptVersion !== null && (typeof promptVersion !== 'string' || !parsePromptPin(promptVersion))) {
       return NextResponse.json(
-        { error: 'Failed to parse Groq response' },
-        { status: 500 }
+        { error: 'prompt_version must be a known prompt template version' },
+        { status: 400 }
       );
     }
 
-    const aiText = groqJson.choices?.[0]?.message?.content || '';
-    console.log('Groq raw response:', aiText);
-
-    if (!aiText) {
-      console.error('Empty response from Groq:', groqJson);
-      return NextResponse.json(
-        { error: 'Empty response from Groq', raw: groqJson },
-        { status: 500 }
-      );
+    console.log('Analyzing relationship:', relationship_id, `(${window.description})`);
+
+    // 3a. Streaming mode: forward every progress stage as an SSE event
+    if (request.headers.get('accept')?.includes('text/event-stream')) {
+      return createServerSentEventResponse(async (send) => {
+        try {
+          const insight = await runAnalysis(supabase, {
+            userId: user.id,
+            relationshipId: relationship_id,
+            window,
+            provider,
+            promptVersion,
+            onProgress: (progress) => send(progress.stage, progress),
+          });
+          send('done', insight);
+        } catch (err) {
+          const { status, body } = describeAnalysisError(err);
+          send('error', { ...body, status });
+        }
+      });
     }
 
-    // 8. Parse Groq JSON safely
-    let parsed: any;
+    // 3b. JSON mode: run the analysis and return the parsed insight
     try {
-      parsed = JSON.parse(aiText);
+      const insight = await runAnalysis(supabase, {
+        userId: user.id,
+        relationshipId: relationship_id,
+        window,
+        provider,
+        promptVersion,
+      });
+      return NextResponse.json(insight);
     } catch (err) {
-      console.error('Groq JSON parse error:', err);
-      console.error('Raw AI text that failed to parse:', aiText);
-      return NextResponse.json(
-        { error: 'Groq JSON parse error', raw: aiText },
-        { status: 500 }
-      );
+      const { status, body } = describeAnalysisError(err);
+      return NextResponse.json(body, { status });
     }
-
-    console.log('Parsed insight:', parsed);
-
-    // 9. Insert insight into Supabase
-    const { error: insertError } = await supabase.from('insights').insert({
-      relationship_id,
-      summary: parsed.summary,
-      pattern: parsed.pattern,
-      risk_score: parsed.risk_score,
-      growth_score: parsed.growth_score,
-      recommended_action: parsed.recommended_action,
-      suggested_message: parsed.suggested_message,
-    });
-
-    if (insertError) {
-      console.error('Error inserting insight:', insertError);
-      return NextResponse.json(
-        { error: insertError.message },
-        { status: 500 }
-      );
-    }
-
-    console.log('Successfully inserted insight for relationship:', relationship_id);
-
-    // 10. Return parsed insight to the client
-    return NextResponse.json(parsed);
-  } catch (err: any) {
+  } catch (err) {
     console.error('Unexpected error in /api/analyze:', err);
-    console.error('Error stack:', err?.stack);
+    console.error('Error stack:', err instanceof Error ? err.stack : undefined);
     return NextResponse.json(
-      { error: err?.message ?? 'Unknown server error' },
+      { error: err instanceof Error ? err.message : 'Unknown server error' },
       { status: 500 }
     );
   }
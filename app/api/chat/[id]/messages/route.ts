@@ -0,0 +1,108 @@
+/**
+ * API route for asking a question in a chat session
+ *
+ * The request body is { content }. The answer is grounded in the
+ * relationship's context and past insights (see lib/relationshipChat.ts),
+ * and both the question and the answer are stored in the session.
+ *
+ * Like /api/analyze, this route supports two response modes:
+ *
+ * - JSON (default): responds once with { session, user_message, assistant_message }.
+ * - Streaming: send `Accept: text/event-stream` and the answer arrives as
+ *   `token` events ({ text }) while the model writes it, followed by a
+ *   `done` event with the same body as the JSON mode, or an `error` event
+ *   with { error, status }. If the client disconnects, the answer is still
+ *   written and stored.
+ *
+ * Problems found before the model is called (not signed in, bad body,
+ * provider misconfigured) are plain JSON errors in both modes.
+ */
+
+import { NextResponse } from 'next/server';
+import { getSessionContext } from '@/lib/supabaseClient';
+import { getLLMProvider, LLMConfigError, LLMProvider } from '@/lib/llm';
+import { describeChatError, MAX_CHAT_MESSAGE_CHARS, replyInChatSession } from '@/lib/relationshipChat';
+import { createServerSentEventResponse } from '@/lib/sse';
+
+type RouteContext = {
+  params: Promise<{ id: string }>;
+};
+
+export async function POST(request: Request, { params }: RouteContext) {
+  // 0. Only signed-in users can chat about their relationships
+  const { supabase, user } = await getSessionContext();
+  if (!user) {
+    return NextResponse.json(
+      { error: 'Not signed in' },
+      { status: 401 }
+    );
+  }
+
+  const { id } = await params;
+
+  // 1. Read and validate body
+  const body = await request.json().catch(() => null);
+  const content = typeof body?.content === 'string' ? body.content.trim() : '';
+  if (!content || content.length > MAX_CHAT_MESSAGE_CHARS) {
+    return NextResponse.json(
+      { error: `content must be a non-empty string of at most ${MAX_CHAT_MESSAGE_CHARS} characters` },
+      { status: 400 }
+    );
+  }
+
+  // 2. Resolve the configured LLM provider
+  let provider: LLMProvider;
+  try {
+    provider = getLLMProvider();
+  } catch (err) {
+    if (err instanceof LLMConfigError) {
+      console.error('LLM provider configuration error:', err.message);
+      return NextResponse.json(
+        { error: err.message },
+        { status: 500 }
+      );
+    }
+    throw err;
+  }
+
+  // 3a. Streaming mode: forward the answer as it's written
+  if (request.headers.get('accept')?.includes('text/event-stream')) {
+    return createServerSentEventResponse(async (send) => {
+      try {
+        const result = await replyInChatSession(supabase, {
+          userId: user.id,
+          sessionId: id,
+          content,
+          provider,
+          onToken: (text) => send('token', { text }),
+        });
+        send('done', {
+          session: result.session,
+          user_message: result.userMessage,
+          assistant_message: result.assistantMessage,
+        });
+      } catch (err) {
+        const { status, error } = describeChatError(err);
+        send('error', { error, status });
+      }
+    });
+  }
+
+  // 3b. JSON mode: respond once the answer is stored
+  try {
+    const result = await replyInChatSession(supabase, {
+      userId: user.id,
+      sessionId: id,
+      content,
+      provider,
+    });
+    return NextResponse.json({
+      session: result.session,
+      user_message: result.userMessage,
+      assistant_message: result.assistantMessage,
+    });
+  } catch (err) {
+    const { status, error } = describeChatError(err);
+    return NextResponse.json({ error }, { status });
+  }
+}
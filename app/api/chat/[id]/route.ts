@@ -0,0 +1,162 @@
+/**
+ * API route for a single chat session
+ *
+ * This file handles HTTP requests for one session, identified by the [id]
+ * segment of the URL:
+ * - GET: The session and all of its turns, oldest first
+ * - PATCH: Rename the session
+ * - DELETE: Delete the session and its turns
+ */
+
+import { NextResponse } from 'next/server';
+import { getSessionContext } from '@/lib/supabaseClient';
+
+type RouteContext = {
+  params: Promise<{ id: string }>;
+};
+
+/**
+ * Handle GET requests to /api/chat/[id]
+ *
+ * Responds with { session, messages }.
+ */
+export async function GET(_request: Request, { params }: RouteContext) {
+  // Only signed-in users can access their data
+  const { supabase, user } = await getSessionContext();
+  if (!user) {
+    return NextResponse.json(
+      { error: 'Not signed in' },
+      { status: 401 }
+    );
+  }
+
+  const { id } = await params;
+
+  const { data: session, error: sessionError } = await supabase
+    .from('chat_sessions')
+    .select('*')
+    .eq('id', id)
+    .eq('user_id', user.id)
+    .maybeSingle();
+
+  if (sessionError) {
+    return NextResponse.json(
+      { error: sessionError.message },
+      { status: 500 }
+    );
+  }
+
+  if (!session) {
+    return NextResponse.json(
+      { error: 'Chat session not found' },
+      { status: 404 }
+    );
+  }
+
+  const { data: messages, error: messagesError } = await supabase
+    .from('chat_messages')
+    .select('*')
+    .eq('session_id', id)
+    .eq('user_id', user.id)
+    .order('created_at', { ascending: true });
+
+  if (messagesError) {
+    return NextResponse.json(
+      { error: messagesError.message },
+      { status: 500 }
+    );
+  }
+
+  return NextResponse.json({ session, messages });
+}
+
+/**
+ * Handle PATCH requests to /api/chat/[id]
+ *
+ * JSON body: { title: string }
+ */
+export async function PATCH(request: Request, { params }: RouteContext) {
+  // Only signed-in users can access their data
+  const { supabase, user } = await getSessionContext();
+  if (!user) {
+    return NextResponse.json(
+      { error: 'Not signed in' },
+      { status: 401 }
+    );
+  }
+
+  const { id } = await params;
+
+  const body = await request.json().catch(() => null);
+  const title = typeof body?.title === 'string' ? body.title.trim() : '';
+  if (!title) {
+    return NextResponse.json(
+      { error: 'title must be a non-empty string' },
+      { status: 400 }
+    );
+  }
+
+  const { data, error } = await supabase
+    .from('chat_sessions')
+    .update({ title })
+    .eq('id', id)
+    .eq('user_id', user.id)
+    .select('*')
+    .maybeSingle();
+
+  if (error) {
+    return NextResponse.json(
+      { error: error.message },
+      { status: 500 }
+    );
+  }
+
+  if (!data) {
+    return NextResponse.json(
+      { error: 'Chat session not found' },
+      { status: 404 }
+    );
+  }
+
+  return NextResponse.json(data);
+}
+
+/**
+ * Handle DELETE requests to /api/chat/[id]
+ */
+export async function DELETE(_request: Request, { params }: RouteContext) {
+  // Only signed-in users can access their data
+  const { supabase, user } = await getSessionContext();
+  if (!user) {
+    return NextResponse.json(
+      { error: 'Not signed in' },
+      { status: 401 }
+    );
+  }
+
+  const { id } = await params;
+
+  const { data, error } = await supabase
+    .from('chat_sessions')
+    .delete()
+    .eq('id', id)
+    .eq('user_id', user.id)
+    .select('id')
+    .maybeSingle();
+
+  if (error) {
+    return NextResponse.json(
+      { error: error.message },
+      { status: 500 }
+    );
+  }
+
+  if (!data) {
+    return NextResponse.json(
+      { error: 'Chat session not found' },
+      { status: 404 }
+    );
+  }
+
+  return NextResponse.json({ success: true, id: data.id });
+}
@@ -0,0 +1,131 @@
+/**
+ * API route for chat sessions about a relationship
+ *
+ * This file handles HTTP requests related to chat sessions (see lib/relationshipChat.ts):
+ * - GET: List a relationship's chat sessions
+ * - POST: Start a new chat session
+ *
+ * Reading, renaming and deleting one session live in app/api/chat/[id];
+ * asking a question lives in app/api/chat/[id]/messages.
+ */
+
+import { NextResponse } from 'next/server';
+import { getSessionContext } from '@/lib/supabaseClient';
+
+/**
+ * Handle GET requests to /api/chat?relationship_id=...
+ *
+ * Sessions are returned most recently active first.
+ */
+export async function GET(request: Request) {
+  // Only signed-in users can access their data
+  const { supabase, user } = await getSessionContext();
+  if (!user) {
+    return NextResponse.json(
+      { error: 'Not signed in' },
+      { status: 401 }
+    );
+  }
+
+  const { searchParams } = new URL(request.url);
+  const relationshipId = searchParams.get('relationship_id');
+
+  if (!relationshipId) {
+    return NextResponse.json(
+      { error: 'relationship_id is required' },
+      { status: 400 }
+    );
+  }
+
+  const { data, error } = await supabase
+    .from('chat_sessions')
+    .select('*')
+    .eq('user_id', user.id)
+    .eq('relationship_id', relationshipId)
+    .order('updated_at', { ascending: false });
+
+  if (error) {
+    return NextResponse.json(
+      { error: error.message },
+      { status: 500 }
+    );
+  }
+
+  return NextResponse.json(data);
+}
+
+/**
+ * Handle POST requests to /api/chat
+ *
+ * JSON body:
+ * - relationship_id: relationship to chat about (required)
+ * - title: optional title (by default the first question becomes the title)
+ */
+export async function POST(request: Request) {
+  // Only signed-in users can access their data
+  const { supabase, user } = await getSessionContext();
+  if (!user) {
+    return NextResponse.json(
+      { error: 'Not signed in' },
+      { status: 401 }
+    );
+  }
+
+  // 1. Read and validate body
+  const body = await request.json().catch(() => null);
+  if (!body?.relationship_id) {
+    return NextResponse.json(
+      { error: 'relationship_id is required' },
+      { status: 400 }
+    );
+  }
+
+  if (body.title !== undefined && body.title !== null && typeof body.title !== 'string') {
+    return NextResponse.json(
+      { error: 'title must be a string' },
+      { status: 400 }
+    );
+  }
+
+  // 2. Make sure the relationship is the user's
+  const { data: relationship, error: relError } = await supabase
+    .from('relationships')
+    .select('id')
+    .eq('id', body.relationship_id)
+    .eq('user_id', user.id)
+    .maybeSingle();
+
+  if (relError) {
+    return NextResponse.json(
+      { error: relError.message },
+      { status: 500 }
+    );
+  }
+
+  if (!relationship) {
+    return NextResponse.json(
+      { error: 'Relationship not found' },
+      { status: 404 }
+    );
+  }
+
+  // 3. Create the session
+  const { data, error } = await supabase
+    .from('chat_sessions')
+    .insert({
+      user_id: user.id,
+      relationship_id: relationship.id,
+      title: body.title?.trim() || null,
+    })
+    .select('*')
+    .single();
+
+  if (error) {
+    return NextResponse.json(
+      { error: error.message },
+      { status: 500 }
+    );
+  }
+
+  return NextResponse.json(data);
+}
@@ -0,0 +1,75 @@
+/**
+ * API route for refining a message draft
+ *
+ * - POST: Rewrite the draft following an instruction ("shorter", "mention
+ *   the concert"). The result is stored as a new draft whose parent_id is
+ *   this one, so the original stays available.
+ */
+
+import { NextResponse } from 'next/server';
+import { getSessionContext } from '@/lib/supabaseClient';
+import { getLLMProvider, LLMConfigError, LLMProvider } from '@/lib/llm';
+import { describeDraftError, MAX_INSTRUCTION_CHARS, refineDraft } from '@/lib/drafts';
+
+type RouteContext = {
+  params: Promise<{ id: string }>;
+};
+
+/**
+ * Handle POST requests to /api/drafts/[id]/refine
+ *
+ * JSON body: { instruction: string }
+ *
+ * Responds with the new draft.
+ */
+export async function POST(request: Request, { params }: RouteContext) {
+  // Only signed-in users can access their data
+  const { supabase, user } = await getSessionContext();
+  if (!user) {
+    return NextResponse.json(
+      { error: 'Not signed in' },
+      { status: 401 }
+    );
+  }
+
+  const { id } = await params;
+
+  // 1. Read and validate body
+  const body = await request.json().catch(() => null);
+  const instruction = typeof body?.instruction === 'string' ? body.instruction.trim() : '';
+  if (!instruction || instruction.length > MAX_INSTRUCTION_CHARS) {
+    return NextResponse.json(
+      { error: `instruction must be a non-empty string of at most ${MAX_INSTRUCTION_CHARS} characters` },
+      { status: 400 }
+    );
+  }
+
+  // 2. Resolve the configured LLM provider
+  let provider: LLMProvider;
+  try {
+    provider = getLLMProvider();
+  } catch (err) {
+    if (err instanceof LLMConfigError) {
+      console.error('LLM provider configuration error:', err.message);
+      return NextResponse.json(
+        { error: err.message },
+        { status: 500 }
+      );
+    }
+    throw err;
+  }
+
+  // 3. Refine and store the new draft
+  try {
+    const draft = await refineDraft(supabase, {
+      userId: user.id,
+      draftId: id,
+      instruction,
+      provider,
+    });
+    return NextResponse.json(draft);
+  } catch (err) {
+    const { status, error } = describeDraftError(err);
+    return NextResponse.json({ error }, { status });
+  }
+}
@@ -0,0 +1,67 @@
+/**
+ * API route for sending a message draft
+ *
+ * - POST: Record that the user sent this draft. The text is stored as a
+ *   from_me message for the relationship and the draft is marked as sent,
+ *   so it's clear which of the alternatives was actually used.
+ *
+ * Nothing is delivered to the other person from here; the user sends the
+ * message on their own platform and this records it.
+ */
+
+import { NextResponse } from 'next/server';
+import { getSessionContext } from '@/lib/supabaseClient';
+import { describeDraftError, sendDraft } from '@/lib/drafts';
+
+type RouteContext = {
+  params: Promise<{ id: string }>;
+};
+
+/**
+ * Handle POST requests to /api/drafts/[id]/send
+ *
+ * Optional JSON body:
+ * - text: the final text, if the user edited it before sending
+ * - platform, thread_id: where to record the message (default: the
+ *   relationship's most recent chat thread)
+ *
+ * Responds with { draft, message }, or 409 if the draft was already sent.
+ */
+export async function POST(request: Request, { params }: RouteContext) {
+  // Only signed-in users can access their data
+  const { supabase, user } = await getSessionContext();
+  if (!user) {
+    return NextResponse.json(
+      { error: 'Not signed in' },
+      { status: 401 }
+    );
+  }
+
+  const { id } = await params;
+
+  // 1. Read and validate the (optional) body
+  const body = await request.json().catch(() => ({}));
+  for (const field of ['text', 'platform', 'thread_id']) {
+    if (body?.[field] !== undefined && body[field] !== null && typeof body[field] !== 'string') {
+      return NextResponse.json(
+        { error: `${field} must be a string` },
+        { status: 400 }
+      );
+    }
+  }
+
+  // 2. Store the message and mark the draft as sent
+  try {
+    const result = await sendDraft(supabase, {
+      userId: user.id,
+      draftId: id,
+      text: body?.text ?? undefined,
+      platform: body?.platform ?? undefined,
+      threadId: body?.thread_id ?? undefined,
+    });
+    return NextResponse.json(result);
+  } catch (err) {
+    const { status, error } = describeDraftError(err);
+    return NextResponse.json({ error }, { status });
+  }
+}
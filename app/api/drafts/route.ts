@@ -0,0 +1,153 @@
+/**
+ * API route for message drafts
+ *
+ * This file handles HTTP requests related to drafts (see lib/drafts.ts):
+ * - GET: List drafts for an insight or a relationship
+ * - POST: Generate drafts for an insight in several tones and lengths
+ *
+ * Refining and sending a draft live in app/api/drafts/[id]/refine and
+ * app/api/drafts/[id]/send.
+ */
+
+import { NextResponse } from 'next/server';
+import { getSessionContext } from '@/lib/supabaseClient';
+import { getLLMProvider, LLMConfigError, LLMProvider } from '@/lib/llm';
+import { describeDraftError, generateDrafts, isDraftLength, isDraftTone } from '@/lib/drafts';
+import { DRAFT_LENGTHS, DRAFT_TONES } from '@/lib/prompts/drafts';
+import type { DraftLength, DraftTone } from '@/lib/types';
+
+// Generated when the request doesn't pick: every tone, short and medium
+const DEFAULT_TONES = Object.keys(DRAFT_TONES) as DraftTone[];
+const DEFAULT_LENGTHS: DraftLength[] = ['short', 'medium'];
+
+/**
+ * Handle GET requests to /api/drafts
+ *
+ * Query parameters (one of them is required):
+ * - insight_id: drafts written for this insight
+ * - relationship_id: drafts for this relationship
+ *
+ * Drafts are returned newest first, refinements included (see parent_id).
+ */
+export async function GET(request: Request) {
+  // Only signed-in users can access their data
+  const { supabase, user } = await getSessionContext();
+  if (!user) {
+    return NextResponse.json(
+      { error: 'Not signed in' },
+      { status: 401 }
+    );
+  }
+
+  const { searchParams } = new URL(request.url);
+  const insightId = searchParams.get('insight_id');
+  const relationshipId = searchParams.get('relationship_id');
+
+  if (!insightId && !relationshipId) {
+    return NextResponse.json(
+      { error: 'insight_id or relationship_id is required' },
+      { status: 400 }
+    );
+  }
+
+  let query = supabase
+    .from('message_drafts')
+    .select('*')
+    .eq('user_id', user.id)
+    .order('created_at', { ascending: false });
+
+  if (insightId) {
+    query = query.eq('insight_id', insightId);
+  }
+  if (relationshipId) {
+    query = query.eq('relationship_id', relationshipId);
+  }
+
+  const { data, error } = await query;
+
+  if (error) {
+    return NextResponse.json(
+      { error: error.message },
+      { status: 500 }
+    );
+  }
+
+  return NextResponse.json(data);
+}
+
+/**
+ * Handle POST requests to /api/drafts
+ *
+ * JSON body:
+ * - insight_id: insight to write drafts for (required)
+ * - tones: tones to write in (default: all of "warm", "direct", "playful", "apologetic")
+ * - lengths: lengths to write at (default: "short" and "medium"; "long" is also available)
+ *
+ * One draft is generated per tone and length combination. Responds with the
+ * stored drafts.
+ */
+export async function POST(request: Request) {
+  // Only signed-in users can access their data
+  const { supabase, user } = await getSessionContext();
+  if (!user) {
+    return NextResponse.json(
+      { error: 'Not signed in' },
+      { status: 401 }
+    );
+  }
+
+  // 1. Read and validate body
+  const body = await request.json().catch(() => null);
+  if (!body?.insight_id) {
+    return NextResponse.json(
+      { error: 'insight_id is required' },
+      { status: 400 }
+    );
+  }
+
+  const tones = body.tones ?? DEFAULT_TONES;
+  if (!Array.isArray(tones) || tones.length === 0 || !tones.every(isDraftTone)) {
+    return NextResponse.json(
+      { error: `tones must be a non-empty array of ${Object.keys(DRAFT_TONES).join(', ')}` },
+      { status: 400 }
+    );
+  }
+
+  const lengths = body.lengths ?? DEFAULT_LENGTHS;
+  if (!Array.isArray(lengths) || lengths.length === 0 || !lengths.every(isDraftLength)) {
+    return NextResponse.json(
+      { error: `lengths must be a non-empty array of ${Object.keys(DRAFT_LENGTHS).join(', ')}` },
+      { status: 400 }
+    );
+  }
+
+  // 2. Resolve the configured LLM provider
+  let provider: LLMProvider;
+  try {
+    provider = getLLMProvider();
+  } catch (err) {
+    if (err instanceof LLMConfigError) {
+      console.error('LLM provider configuration error:', err.message);
+      return NextResponse.json(
+        { error: err.message },
+        { status: 500 }
+      );
+    }
+    throw err;
+  }
+
+  // 3. Generate and store the drafts
+  try {
+    const drafts = await generateDrafts(supabase, {
+      userId: user.id,
+      insightId: body.insight_id,
+      tones: [...new Set(tones)],
+      lengths: [...new Set(lengths)],
+      provider,
+    });
+    return NextResponse.json(drafts);
+  } catch (err) {
+    const { status, error } = describeDraftError(err);
+    return NextResponse.json({ error }, { status });
+  }
+}
@@ -0,0 +1,77 @@
+/**
+ * API route for accepting an event candidate
+ *
+ * - POST: Write the proposed event to the relationship's events, optionally
+ *   with the user's edits, and mark the candidate accepted.
+ */
+
+import { NextResponse } from 'next/server';
+import { getSessionContext } from '@/lib/supabaseClient';
+import { toIsoTimestamp } from '@/lib/dates';
+import { acceptEventCandidate, describeEventCandidateError } from '@/lib/eventExtraction';
+
+type RouteContext = {
+  params: Promise<{ id: string }>;
+};
+
+/**
+ * Handle POST requests to /api/event-candidates/[id]/accept
+ *
+ * Optional JSON body, to change the proposal before it's logged:
+ * - event_type, description: replacement text
+ * - occurred_at: when it happened (defaults to the proposed date, else the
+ *   latest message it came from)
+ *
+ * Responds with { candidate, event }, or 409 if it was already reviewed.
+ */
+export async function POST(request: Request, { params }: RouteContext) {
+  // Only signed-in users can access their data
+  const { supabase, user } = await getSessionContext();
+  if (!user) {
+    return NextResponse.json(
+      { error: 'Not signed in' },
+      { status: 401 }
+    );
+  }
+
+  const { id } = await params;
+
+  // 1. Read and validate the (optional) body
+  const body = await request.json().catch(() => ({}));
+  for (const field of ['event_type', 'description']) {
+    const value = body?.[field];
+    if (value !== undefined && value !== null && (typeof value !== 'string' || value.trim() === '')) {
+      return NextResponse.json(
+        { error: `${field} must be a non-empty string` },
+        { status: 400 }
+      );
+    }
+  }
+
+  let occurredAt: string | undefined;
+  if (body?.occurred_at !== undefined && body?.occurred_at !== null) {
+    const timestamp = toIsoTimestamp(body.occurred_at);
+    if (!timestamp) {
+      return NextResponse.json(
+        { error: 'occurred_at must be a valid date' },
+        { status: 400 }
+      );
+    }
+    occurredAt = timestamp;
+  }
+
+  // 2. Log the event and mark the candidate
+  try {
+    const result = await acceptEventCandidate(supabase, {
+      userId: user.id,
+      candidateId: id,
+      eventType: body?.event_type?.trim() || undefined,
+      description: body?.description?.trim() || undefined,
+      occurredAt,
+    });
+    return NextResponse.json(result);
+  } catch (err) {
+    const { status, error } = describeEventCandidateError(err);
+    return NextResponse.json({ error }, { status });
+  }
+}
@@ -0,0 +1,40 @@
+/**
+ * API route for rejecting an event candidate
+ *
+ * - POST: Mark the proposed event as rejected. Nothing is logged; the
+ *   candidate is kept (status "rejected") rather than deleted.
+ */
+
+import { NextResponse } from 'next/server';
+import { getSessionContext } from '@/lib/supabaseClient';
+import { describeEventCandidateError, rejectEventCandidate } from '@/lib/eventExtraction';
+
+type RouteContext = {
+  params: Promise<{ id: string }>;
+};
+
+/**
+ * Handle POST requests to /api/event-candidates/[id]/reject
+ *
+ * Responds with the updated candidate, or 409 if it was already reviewed.
+ */
+export async function POST(_request: Request, { params }: RouteContext) {
+  // Only signed-in users can access their data
+  const { supabase, user } = await getSessionContext();
+  if (!user) {
+    return NextResponse.json(
+      { error: 'Not signed in' },
+      { status: 401 }
+    );
+  }
+
+  const { id } = await params;
+
+  try {
+    const candidate = await rejectEventCandidate(supabase, { userId: user.id, candidateId: id });
+    return NextResponse.json(candidate);
+  } catch (err) {
+    const { status, error } = describeEventCandidateError(err);
+    return NextResponse.json({ error }, { status });
+  }
+}
@@ -0,0 +1,108 @@
+/**
+ * API route for event candidates
+ *
+ * Candidates are events proposed from ingested chat messages (see
+ * lib/eventExtraction.ts); they're created by /api/messages and /api/import.
+ * - GET: List a relationship's candidates, with the messages each came from
+ *
+ * Accepting and rejecting a candidate live in
+ * app/api/event-candidates/[id]/accept and app/api/event-candidates/[id]/reject.
+ */
+
+import { NextResponse } from 'next/server';
+import { getSessionContext } from '@/lib/supabaseClient';
+import type { EventCandidate, Message } from '@/lib/types';
+
+const CANDIDATE_STATUSES = ['pending', 'accepted', 'rejected', 'all'];
+
+/**
+ * Handle GET requests to /api/event-candidates
+ *
+ * Query parameters:
+ * - relationship_id: the relationship, required
+ * - status: "pending" (default), "accepted", "rejected" or "all"
+ *
+ * Candidates are returned in the order they happen (undated last), each
+ * with source_messages: the messages it was found in, oldest first.
+ */
+export async function GET(request: Request) {
+  // Only signed-in users can access their data
+  const { supabase, user } = await getSessionContext();
+  if (!user) {
+    return NextResponse.json(
+      { error: 'Not signed in' },
+      { status: 401 }
+    );
+  }
+
+  const { searchParams } = new URL(request.url);
+  const relationshipId = searchParams.get('relationship_id');
+  const status = searchParams.get('status') ?? 'pending';
+
+  if (!relationshipId) {
+    return NextResponse.json(
+      { error: 'relationship_id is required' },
+      { status: 400 }
+    );
+  }
+
+  if (!CANDIDATE_STATUSES.includes(status)) {
+    return NextResponse.json(
+      { error: 'status must be one of "pending", "accepted", "rejected" or "all"' },
+      { status: 400 }
+    );
+  }
+
+  let query = supabase
+    .from('event_candidates')
+    .select('*')
+    .eq('user_id', user.id)
+    .eq('relationship_id', relationshipId)
+    .order('occurred_at', { ascending: true, nullsFirst: false })
+    .order('created_at', { ascending: true });
+
+  if (status !== 'all') {
+    query = query.eq('status', status);
+  }
+
+  const { data, error } = await query;
+
+  if (error) {
+    return NextResponse.json(
+      { error: error.message },
+      { status: 500 }
+    );
+  }
+
+  // Attach the source messages so the user can see why each was proposed
+  const candidates = (data ?? []) as EventCandidate[];
+  const messageIds = [...new Set(candidates.flatMap((c) => c.message_ids))];
+  let messagesById = new Map<string, Message>();
+
+  if (messageIds.length > 0) {
+    const { data: messages, error: messagesError } = await supabase
+      .from('messages')
+      .select('id, from_me, text, timestamp')
+      .eq('user_id', user.id)
+      .in('id', messageIds);
+
+    if (messagesError) {
+      return NextResponse.json(
+        { error: messagesError.message },
+        { status: 500 }
+      );
+    }
+
+    messagesById = new Map(((messages ?? []) as Message[]).map((m) => [m.id!, m]));
+  }
+
+  return NextResponse.json(
+    candidates.map((candidate) => ({
+      ...candidate,
+      source_messages: candidate.message_ids
+        .map((id) => messagesById.get(id))
+        .filter((m): m is Message => m !== undefined)
+        .sort((a, b) => (a.timestamp ?? '').localeCompare(b.timestamp ?? '')),
+    }))
+  );
+}
@@ -0,0 +1,152 @@
+/**
+ * API route for a single event
+ *
+ * This file handles HTTP requests for one event, identified by the [id]
+ * segment of the URL:
+ * - PATCH: Update event_type, description or occurred_at
+ * - DELETE: Delete the event
+ */
+
+import { NextResponse } from 'next/server';
+import { getSessionContext } from '@/lib/supabaseClient';
+import { toIsoTimestamp } from '@/lib/dates';
+
+type RouteContext = {
+  params: Promise<{ id: string }>;
+};
+
+/**
+ * Handle PATCH requests to /api/events/[id]
+ *
+ * Accepts any of these fields in the JSON body:
+ * - event_type: new event type (must not be empty)
+ * - description: new description
+ * - occurred_at: when the event actually happened
+ */
+export async function PATCH(request: Request, { params }: RouteContext) {
+  // Only signed-in users can access their data
+  const { supabase, user } = await getSessionContext();
+  if (!user) {
+    return NextResponse.json(
+      { error: 'Not signed in' },
+      { status: 401 }
+    );
+  }
+
+  const { id } = await params;
+
+  // Parse the JSON request body
+  const body = await request.json().catch(() => null);
+  if (!body || typeof body !== 'object') {
+    return NextResponse.json(
+      { error: 'Request body must be a JSON object' },
+      { status: 400 }
+    );
+  }
+
+  // Build the update from the fields that were provided
+  const updates: Record<string, string | null> = {};
+
+  if (body.event_type !== undefined) {
+    if (typeof body.event_type !== 'string' || body.event_type.trim() === '') {
+      return NextResponse.json(
+        { error: 'event_type must be a non-empty string' },
+        { status: 400 }
+      );
+    }
+    updates.event_type = body.event_type.trim();
+  }
+
+  if (body.description !== undefined) {
+    if (body.description !== null && typeof body.description !== 'string') {
+      return NextResponse.json(
+        { error: 'description must be a string or null' },
+        { status: 400 }
+      );
+    }
+    updates.description = body.description || null;
+  }
+
+  if (body.occurred_at !== undefined) {
+    const occurredAt = toIsoTimestamp(body.occurred_at);
+    if (!occurredAt) {
+      return NextResponse.json(
+        { error: 'occurred_at must be a valid date' },
+        { status: 400 }
+      );
+    }
+    updates.occurred_at = occurredAt;
+  }
+
+  if (Object.keys(updates).length === 0) {
+    return NextResponse.json(
+      { error: 'No updatable fields provided' },
+      { status: 400 }
+    );
+  }
+
+  // Apply the update and return the updated row
+  const { data, error } = await supabase
+    .from('events')
+    .update(updates)
+    .eq('id', id)
+    .eq('user_id', user.id)
+    .select()
+    .maybeSingle();
+
+  if (error) {
+    return NextResponse.json(
+      { error: error.message },
+      { status: 500 }
+    );
+  }
+
+  if (!data) {
+    return NextResponse.json(
+      { error: 'Event not found' },
+      { status: 404 }
+    );
+  }
+
+  return NextResponse.json(data);
+}
+
+/**
+ * Handle DELETE requests to /api/events/[id]
+ */
+export async function DELETE(_request: Request, { params }: RouteContext) {
+  // Only signed-in users can access their data
+  const { supabase, user } = await getSessionContext();
+  if (!user) {
+    return NextResponse.json(
+      { error: 'Not signed in' },
+      { status: 401 }
+    );
+  }
+
+  const { id } = await params;
+
+  const { data, error } = await supabase
+    .from('events')
+    .delete()
+    .eq('id', id)
+    .eq('user_id', user.id)
+    .select('id')
+    .maybeSingle();
+
+  if (error) {
+    return NextResponse.json(
+      { error: error.message },
+      { status: 500 }
+    );
+  }
+
+  if (!data) {
+    return NextResponse.json(
+      { error: 'Event not found' },
+      { status: 404 }
+    );
+  }
+
+  return NextResponse.json({ success: true, id: data.id });
+}
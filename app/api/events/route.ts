@@ -4,22 +4,34 @@
  * This file handles HTTP requests related to relationship events:
  * - GET: Retrieve events for a specific relationship
  * - POST: Create a new event for a relationship
+ *
+ * Updating and deleting a single event lives in app/api/events/[id]/route.ts.
  * 
  * In Next.js App Router, route handlers are defined in route.ts files.
  * The file name "route.ts" tells Next.js this is an API endpoint.
  */
 
 import { NextResponse } from 'next/server';
-import { supabase } from '@/lib/supabaseClient';
+import { getSessionContext } from '@/lib/supabaseClient';
+import { toIsoTimestamp } from '@/lib/dates';
 
 /**
  * Handle GET requests to /api/events
  * 
  * Retrieves all events for a specific relationship from the database,
- * ordered by creation date (newest first).
+ * ordered by when they happened (most recent first).
  * Requires a relationship_id query parameter.
  */
 export async function GET(request: Request) {
+  // Only signed-in users can access their data
+  const { supabase, user } = await getSessionContext();
+  if (!user) {
+    return NextResponse.json(
+      { error: 'Not signed in' },
+      { status: 401 }
+    );
+  }
+
   // Get the relationship_id from the query string
   const { searchParams } = new URL(request.url);
   const relationshipId = searchParams.get('relationship_id');
@@ -36,8 +48,9 @@ export async function GET(request: Request) {
   const { data, error } = await supabase
     .from('events')
     .select('*')
+    .eq('user_id', user.id)
     .eq('relationship_id', relationshipId)
-    .order('created_at', { ascending: false });
+    .order('occurred_at', { ascending: false });
 
   // If there's an error, return a 500 status with the error message
   if (error) {
@@ -56,11 +69,23 @@ export async function GET(request: Request) {
  * 
  * Creates a new event in the database for a relationship
  * with the provided relationship_id, event_type, and description.
+ *
+ * occurred_at is optional and records when the event actually happened
+ * (e.g. a dinner last week); it defaults to now.
  */
 export async function POST(request: Request) {
+  // Only signed-in users can access their data
+  const { supabase, user } = await getSessionContext();
+  if (!user) {
+    return NextResponse.json(
+      { error: 'Not signed in' },
+      { status: 401 }
+    );
+  }
+
   // Parse the JSON request body
   const body = await request.json();
-  const { relationship_id, event_type, description } = body;
+  const { relationship_id, event_type, description, occurred_at } = body;
 
   // Validate that required fields are provided
   if (!relationship_id) {
@@ -77,13 +102,24 @@ export async function POST(request: Request) {
     );
   }
 
+  // Validate occurred_at if one was provided
+  const occurredAt = occurred_at ? toIsoTimestamp(occurred_at) : new Date().toISOString();
+  if (!occurredAt) {
+    return NextResponse.json(
+      { error: 'occurred_at must be a valid date' },
+      { status: 400 }
+    );
+  }
+
   // Insert the new event into Supabase
   const { data, error } = await supabase
     .from('events')
     .insert({
+      user_id: user.id,
       relationship_id,
       event_type,
       description: description || null,
+      occurred_at: occurredAt,
     })
     .select()
     .single();
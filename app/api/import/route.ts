@@ -0,0 +1,268 @@
+/**
+ * API route for importing chat exports
+ *
+ * Accepts an export file as multipart form data, parses it with the
+ * importer for the chosen platform (see lib/importers) and stores the
+ * messages through the same idempotent ingestion as /api/messages.
+ *
+ * Supported platforms: whatsapp (.txt/.zip), telegram (JSON export),
+ * imessage (chat.db) and csv (with a column mapping).
+ *
+ * Importing is a two-step flow:
+ * 1. Upload without `me` (or with dry_run): nothing is stored; the response
+ *    lists the chat's participants and a preview of the parsed messages so
+ *    the user can check them and pick which participant is them.
+ * 2. Upload again with `me` set: messages from that participant become
+ *    from_me: true, everyone else's from_me: false, and the thread is
+ *    attached to the chosen relationship. Exports that already record who
+ *    sent each message (iMessage, CSV with a from_me column) skip `me`.
+ *
+ * If the importer needs a choice first (which chat in a multi-chat export,
+ * how CSV columns map to fields) the response is a 400 with `field` and
+ * `choices` so the dashboard can ask for it.
+ *
+ * Re-importing the same (or a longer) export only adds the new messages.
+ * Once stored, new messages are read for events to propose, as with
+ * /api/messages (event_candidates in the response).
+ */
+
+import { NextResponse } from 'next/server';
+import { getSessionContext } from '@/lib/supabaseClient';
+import { ingestMessages } from '@/lib/messageIngest';
+import { extractEventCandidatesAfterIngest } from '@/lib/eventExtraction';
+import { getImporter, IMPORTERS } from '@/lib/importers';
+import { CsvColumnMapping, ImporterInputError, ParsedChat } from '@/lib/importers/types';
+
+const DEFAULT_PREVIEW_LIMIT = 20;
+const MAX_PREVIEW_LIMIT = 200;
+
+/**
+ * Handle POST requests to /api/import
+ *
+ * Form fields:
+ * - file: the export, required
+ * - relationship_id: relationship to attach the thread to, required
+ * - platform: "whatsapp" (default), "telegram", "imessage" or "csv"
+ * - me: the participant name that is the signed-in user (omit to preview)
+ * - dry_run: "true" to preview even when `me` is set
+ * - preview_limit: how many messages to include in the preview (default 20)
+ * - thread_id: optional thread id (defaults to "<platform>:<chat name>")
+ * - chat_id: which chat to import from multi-chat exports (Telegram, iMessage)
+ * - columns: CSV column mapping as JSON, e.g. {"timestamp":"Date","sender":"From","text":"Message"}
+ * - date_order: "DMY" or "MDY", used only when the export's dates are ambiguous
+ * - tz_offset_minutes: the exporting device's Date.getTimezoneOffset() (defaults to 0)
+ */
+export async function POST(request: Request) {
+  try {
+    // Only signed-in users can import messages
+    const { supabase, user } = await getSessionContext();
+    if (!user) {
+      return NextResponse.json(
+        { error: 'Not signed in' },
+        { status: 401 }
+      );
+    }
+
+    const form = await request.formData().catch(() => null);
+    if (!form) {
+      return NextResponse.json(
+        { error: 'Request must be multipart form data' },
+        { status: 400 }
+      );
+    }
+
+    const file = form.get('file');
+    const relationshipId = form.get('relationship_id');
+    const platformField = form.get('platform');
+    const me = form.get('me');
+    const dryRun = form.get('dry_run') === 'true';
+    const previewLimitField = form.get('preview_limit');
+    const threadIdField = form.get('thread_id');
+    const chatId = form.get('chat_id');
+    const columnsField = form.get('columns');
+    const dateOrder = form.get('date_order');
+    const tzOffsetField = form.get('tz_offset_minutes');
+
+    // Validate the form fields
+    if (!(file instanceof File)) {
+      return NextResponse.json(
+        { error: 'file is required' },
+        { status: 400 }
+      );
+    }
+
+    if (typeof relationshipId !== 'string' || !relationshipId) {
+      return NextResponse.json(
+        { error: 'relationship_id is required' },
+        { status: 400 }
+      );
+    }
+
+    const platform = typeof platformField === 'string' && platformField ? platformField : 'whatsapp';
+    const importer = getImporter(platform);
+    if (!importer) {
+      return NextResponse.json(
+        { error: `platform must be one of: ${IMPORTERS.map((i) => i.platform).join(', ')}` },
+        { status: 400 }
+      );
+    }
+
+    if (dateOrder !== null && dateOrder !== 'DMY' && dateOrder !== 'MDY') {
+      return NextResponse.json(
+        { error: 'date_order must be "DMY" or "MDY"' },
+        { status: 400 }
+      );
+    }
+
+    const tzOffsetMinutes = tzOffsetField === null ? 0 : Number(tzOffsetField);
+    if (!Number.isFinite(tzOffsetMinutes)) {
+      return NextResponse.json(
+        { error: 'tz_offset_minutes must be a number' },
+        { status: 400 }
+      );
+    }
+
+    const previewLimit = previewLimitField === null ? DEFAULT_PREVIEW_LIMIT : Number(previewLimitField);
+    if (!Number.isInteger(previewLimit) || previewLimit < 0 || previewLimit > MAX_PREVIEW_LIMIT) {
+      return NextResponse.json(
+        { error: `preview_limit must be an integer between 0 and ${MAX_PREVIEW_LIMIT}` },
+        { status: 400 }
+      );
+    }
+
+    let columns: CsvColumnMapping | undefined;
+    if (typeof columnsField === 'string' && columnsField) {
+      try {
+        columns = JSON.parse(columnsField);
+      } catch {
+        columns = undefined;
+      }
+      if (!columns || typeof columns !== 'object' || Array.isArray(columns)) {
+        return NextResponse.json(
+          { error: 'columns must be a JSON object mapping fields to CSV headers' },
+          { status: 400 }
+        );
+      }
+    }
+
+    // Make sure the relationship exists (and belongs to this user)
+    const { data: relationship, error: relError } = await supabase
+      .from('relationships')
+      .select('id')
+      .eq('id', relationshipId)
+      .eq('user_id', user.id)
+      .maybeSingle();
+
+    if (relError) {
+      console.error('Relationship lookup error:', relError);
+      return NextResponse.json(
+        { error: relError.message },
+        { status: 500 }
+      );
+    }
+
+    if (!relationship) {
+      return NextResponse.json(
+        { error: 'Relationship not found' },
+        { status: 404 }
+      );
+    }
+
+    // Parse the export
+    let chat: ParsedChat;
+    try {
+      const bytes = new Uint8Array(await file.arrayBuffer());
+      chat = await importer.parse(file.name, bytes, {
+        dateOrder: dateOrder ?? undefined,
+        tzOffsetMinutes,
+        chatId: typeof chatId === 'string' && chatId ? chatId : undefined,
+        columns,
+      });
+    } catch (err) {
+      if (err instanceof ImporterInputError) {
+        return NextResponse.json(
+          { error: err.message, field: err.field, choices: err.choices },
+          { status: 400 }
+        );
+      }
+      return NextResponse.json(
+        { error: `Could not read export: ${err instanceof Error ? err.message : 'unknown error'}` },
+        { status: 400 }
+      );
+    }
+
+    if (chat.messages.length === 0) {
+      return NextResponse.json(
+        { error: 'No messages found in the export' },
+        { status: 400 }
+      );
+    }
+
+    const threadId =
+      typeof threadIdField === 'string' && threadIdField
+        ? threadIdField
+        : `${platform}:${chat.thread_name ?? file.name}`;
+
+    // Exports that say who sent each message don't need a participant choice
+    const knowsFromMe = chat.messages.every((m) => m.from_me !== undefined);
+    const chosenMe = typeof me === 'string' && me ? me : null;
+
+    // Step 1: nothing to commit yet, so report what was parsed
+    if (dryRun || (!chosenMe && !knowsFromMe)) {
+      return NextResponse.json({
+        committed: false,
+        platform,
+        thread_id: threadId,
+        participants: chat.participants,
+        total: chat.messages.length,
+        needs_me: !knowsFromMe,
+        preview: chat.messages.slice(0, previewLimit),
+        columns: chat.columns,
+        column_mapping: chat.column_mapping,
+      });
+    }
+
+    if (chosenMe && !chat.participants.includes(chosenMe)) {
+      return NextResponse.json(
+        { error: `"${chosenMe}" is not a participant in this chat`, participants: chat.participants },
+        { status: 400 }
+      );
+    }
+
+    // Step 2: map senders to from_me and store the messages
+    const result = await ingestMessages(
+      supabase,
+      { userId: user.id, relationshipId, platform, threadId },
+      chat.messages.map((m) => ({
+        from_me: chosenMe ? m.sender === chosenMe : m.from_me === true,
+        text: m.text,
+        timestamp: m.timestamp,
+        external_id: m.external_id,
+      }))
+    );
+
+    // Propose events from the new messages, as /api/messages does
+    const { insertedIds, ...counts } = result;
+    const extraction = await extractEventCandidatesAfterIngest(supabase, {
+      userId: user.id,
+      relationshipId,
+      messageIds: insertedIds,
+    });
+
+    return NextResponse.json({
+      committed: true,
+      platform,
+      thread_id: threadId,
+      participants: chat.participants,
+      ...counts,
+      event_candidates: extraction.proposed,
+      ...(extraction.error ? { event_extraction_error: extraction.error } : {}),
+    });
+  } catch (err) {
+    console.error('Unexpected error in /api/import:', err);
+    return NextResponse.json(
+      { error: err instanceof Error ? err.message : 'Failed to import chat' },
+      { status: 500 }
+    );
+  }
+}
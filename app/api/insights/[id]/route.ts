@@ -0,0 +1,96 @@
+/**
+ * API route for a single insight
+ *
+ * This file handles HTTP requests for one insight, identified by the [id]
+ * segment of the URL:
+ * - GET: The insight with its full provenance, for the dashboard's "why" view
+ */
+
+import { NextResponse } from 'next/server';
+import { getSessionContext } from '@/lib/supabaseClient';
+
+type RouteContext = {
+  params: Promise<{ id: string }>;
+};
+
+/**
+ * Handle GET requests to /api/insights/[id]
+ *
+ * Responds with { insight, events, messages }:
+ * - insight: every column, including the exact prompt_text sent to the model
+ * - events / messages: the rows listed in event_ids / message_ids, oldest
+ *   first. Rows deleted since the analysis are simply missing.
+ */
+export async function GET(_request: Request, { params }: RouteContext) {
+  // Only signed-in users can access their data
+  const { supabase, user } = await getSessionContext();
+  if (!user) {
+    return NextResponse.json(
+      { error: 'Not signed in' },
+      { status: 401 }
+    );
+  }
+
+  const { id } = await params;
+
+  const { data: insight, error } = await supabase
+    .from('insights')
+    .select('*')
+    .eq('id', id)
+    .eq('user_id', user.id)
+    .maybeSingle();
+
+  if (error) {
+    console.error('Supabase error:', error);
+    return NextResponse.json(
+      { error: error.message },
+      { status: 500 }
+    );
+  }
+
+  if (!insight) {
+    return NextResponse.json(
+      { error: 'Insight not found' },
+      { status: 404 }
+    );
+  }
+
+  // Load the events and messages that were in the prompt
+  const eventIds: string[] = insight.event_ids ?? [];
+  const messageIds: string[] = insight.message_ids ?? [];
+
+  const [eventsResult, messagesResult] = await Promise.all([
+    eventIds.length > 0
+      ? supabase
+          .from('events')
+          .select('*')
+          .eq('user_id', user.id)
+          .in('id', eventIds)
+          .order('occurred_at', { ascending: true })
+      : Promise.resolve({ data: [], error: null }),
+    messageIds.length > 0
+      ? supabase
+          .from('messages')
+          .select('*')
+          .eq('user_id', user.id)
+          .in('id', messageIds)
+          .order('timestamp', { ascending: true })
+          .order('message_index', { ascending: true })
+      : Promise.resolve({ data: [], error: null }),
+  ]);
+
+  const lookupError = eventsResult.error ?? messagesResult.error;
+  if (lookupError) {
+    console.error('Supabase error:', lookupError);
+    return NextResponse.json(
+      { error: lookupError.message },
+      { status: 500 }
+    );
+  }
+
+  return NextResponse.json({
+    insight,
+    events: eventsResult.data ?? [],
+    messages: messagesResult.data ?? [],
+  });
+}
@@ -9,7 +9,8 @@
  */
 
 import { NextResponse } from 'next/server';
-import { supabase } from '@/lib/supabaseClient';
+import { getSessionContext } from '@/lib/supabaseClient';
+import { INSIGHT_COLUMNS } from '@/lib/analysis';
 
 /**
  * Handle GET requests to /api/insights
@@ -21,6 +22,15 @@ import { supabase } from '@/lib/supabaseClient';
  * Example usage: /api/insights?relationship_id=123
  */
 export async function GET(request: Request) {
+  // Only signed-in users can access their data
+  const { supabase, user } = await getSessionContext();
+  if (!user) {
+    return NextResponse.json(
+      { error: 'Not signed in' },
+      { status: 401 }
+    );
+  }
+
   // Extract the query string from the request URL
   // The URL object helps us parse query parameters easily
   const { searchParams } = new URL(request.url);
@@ -41,14 +51,17 @@ export async function GET(request: Request) {
 
   // Query insights from Supabase database
   // - .from('insights') selects the insights table
-  // - .select('*') gets all columns for matching rows
+  // - .select(INSIGHT_COLUMNS) gets every column except the stored prompt
+  //   text, which is only needed by the "why" view (/api/insights/[id])
+  // - .eq('user_id', user.id) keeps results to the signed-in user's insights
   // - .eq('relationship_id', relationshipId) filters to only rows where
   //   the relationship_id column matches the provided value
   // - .order('created_at', { ascending: false }) sorts results by
   //   created_at in descending order (newest first)
   const { data, error } = await supabase
     .from('insights')
-    .select('*')
+    .select(INSIGHT_COLUMNS)
+    .eq('user_id', user.id)
     .eq('relationship_id', relationshipId)
     .order('created_at', { ascending: false });
 
@@ -0,0 +1,88 @@
+/**
+ * API route for scheduled re-analysis
+ *
+ * Meant to be called by a cron job rather than by the dashboard:
+ * - POST (or GET, for cron services that only send GET): analyze every
+ *   relationship that is due, within the rate limits (see lib/reanalysis.ts)
+ *
+ * Requests must send `Authorization: Bearer <CRON_SECRET>`. Add
+ * `?dry_run=true` to see what would run without calling the model.
+ *
+ * Example crontab entry (every 15 minutes):
+ *   0,15,30,45 * * * * curl -s -X POST -H "Authorization: Bearer $CRON_SECRET" http://localhost:3000/api/jobs/reanalyze
+ */
+
+import { NextResponse } from 'next/server';
+import type { SupabaseClient } from '@supabase/supabase-js';
+import { getLLMProvider, LLMConfigError, LLMProvider } from '@/lib/llm';
+import { runReanalysisJobs } from '@/lib/reanalysis';
+import { createSupabaseServiceClient } from '@/lib/supabaseServiceClient';
+
+async function handleReanalyze(request: Request) {
+  // 0. Only the cron job may trigger runs
+  const secret = process.env.CRON_SECRET;
+  if (!secret) {
+    console.error('CRON_SECRET is not set; scheduled re-analysis is disabled');
+    return NextResponse.json(
+      { error: 'Scheduled re-analysis is not configured' },
+      { status: 500 }
+    );
+  }
+
+  if (request.headers.get('authorization') !== `Bearer ${secret}`) {
+    return NextResponse.json(
+      { error: 'Unauthorized' },
+      { status: 401 }
+    );
+  }
+
+  // 1. Resolve the LLM provider and the service role client
+  let provider: LLMProvider;
+  try {
+    provider = getLLMProvider();
+  } catch (err) {
+    if (err instanceof LLMConfigError) {
+      console.error('LLM provider configuration error:', err.message);
+      return NextResponse.json(
+        { error: err.message },
+        { status: 500 }
+      );
+    }
+    throw err;
+  }
+
+  let supabase: SupabaseClient;
+  try {
+    supabase = createSupabaseServiceClient();
+  } catch (err) {
+    console.error('Service client error:', err);
+    return NextResponse.json(
+      { error: err instanceof Error ? err.message : 'Service client unavailable' },
+      { status: 500 }
+    );
+  }
+
+  // 2. Run the due analyses
+  const { searchParams } = new URL(request.url);
+  try {
+    const result = await runReanalysisJobs(supabase, {
+      provider,
+      dryRun: searchParams.get('dry_run') === 'true',
+    });
+    return NextResponse.json(result);
+  } catch (err) {
+    console.error('Re-analysis run failed:', err);
+    return NextResponse.json(
+      { error: err instanceof Error ? err.message : 'Re-analysis run failed' },
+      { status: 500 }
+    );
+  }
+}
+
+export async function POST(request: Request) {
+  return handleReanalyze(request);
+}
+
+export async function GET(request: Request) {
+  return handleReanalyze(request);
+}
@@ -1,16 +1,199 @@
 /**
- * API route for ingesting chat messages into the database.
+ * API route for ingesting and reading chat messages.
  *
- * This route expects a POST request with JSON describing a batch of messages
- * for a single user / platform / thread, and saves them into the `messages` table
- * in Supabase.
+ * - GET: Read messages with filters and cursor pagination
+ * - POST: Ingest a batch of messages for a single platform / thread and save
+ *   them into the `messages` table in Supabase, owned by the signed-in user.
+ *   Ingestion is idempotent: re-posting a batch doesn't create duplicates
+ *   (see lib/messageIngest.ts). New messages are then read for events to
+ *   propose (see lib/eventExtraction.ts).
+ *
+ * Every batch names the relationship it belongs to. A relationship can own
+ * many threads (e.g. a WhatsApp chat and a Telegram chat with the same person),
+ * and /api/analyze reads messages by relationship_id across all of them.
  *
  * In the Next.js App Router, any `route.ts` file inside `app/api/...` defines
  * an API endpoint. This file handles requests to `/api/messages`.
  */
 
 import { NextResponse } from 'next/server';
-import { supabase } from '@/lib/supabaseClient';
+import { getSessionContext } from '@/lib/supabaseClient';
+import { toIsoTimestamp } from '@/lib/dates';
+import type { Message } from '@/lib/types';
+import { ingestMessages, IngestResult } from '@/lib/messageIngest';
+import { extractEventCandidatesAfterIngest } from '@/lib/eventExtraction';
+
+// Page size limits for GET /api/messages
+const DEFAULT_PAGE_SIZE = 50;
+const MAX_PAGE_SIZE = 200;
+
+const UUID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+/**
+ * Position of the last message on a page, used to fetch the next page
+ */
+type MessageCursor = {
+  timestamp: string | null;
+  message_index: number;
+  id: string;
+};
+
+/**
+ * Encode a cursor as an opaque URL-safe string
+ */
+function encodeCursor(cursor: MessageCursor): string {
+  return Buffer.from(JSON.stringify(cursor)).toString('base64url');
+}
+
+/**
+ * Decode a cursor from the query string, or return null if it's invalid
+ *
+ * Cursors come from the client and end up in a PostgREST filter string, so
+ * every field is checked strictly rather than trusted.
+ */
+function decodeCursor(value: string): MessageCursor | null {
+  try {
+    const parsed = JSON.parse(Buffer.from(value, 'base64url').toString('utf8'));
+    if (typeof parsed?.id !== 'string' || !UUID_PATTERN.test(parsed.id)) {
+      return null;
+    }
+    if (!Number.isInteger(parsed.message_index)) {
+      return null;
+    }
+
+    let timestamp: string | null = null;
+    if (parsed.timestamp !== null) {
+      timestamp = typeof parsed.timestamp === 'string' ? toIsoTimestamp(parsed.timestamp) : null;
+      if (!timestamp) {
+        return null;
+      }
+    }
+
+    return { id: parsed.id, timestamp, message_index: parsed.message_index };
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Handle GET requests to /api/messages
+ *
+ * Returns the signed-in user's messages, newest first, one page at a time.
+ *
+ * Optional query parameters:
+ * - relationship_id, thread_id, platform: filter by exact value
+ * - since, until: only messages sent in this time range (inclusive)
+ * - limit: page size (default 50, max 200)
+ * - cursor: the next_cursor value from the previous page
+ *
+ * Response: { messages: Message[], next_cursor: string | null }
+ */
+export async function GET(request: Request) {
+  // Only signed-in users can access their data
+  const { supabase, user } = await getSessionContext();
+  if (!user) {
+    return NextResponse.json(
+      { error: 'Not signed in' },
+      { status: 401 }
+    );
+  }
+
+  const { searchParams } = new URL(request.url);
+
+  // Validate the page size
+  const limitParam = searchParams.get('limit');
+  const limit = limitParam ? Number(limitParam) : DEFAULT_PAGE_SIZE;
+  if (!Number.isInteger(limit) || limit < 1 || limit > MAX_PAGE_SIZE) {
+    return NextResponse.json(
+      { error: `limit must be an integer between 1 and ${MAX_PAGE_SIZE}` },
+      { status: 400 }
+    );
+  }
+
+  // Build the query, newest first. Messages without a timestamp sort last.
+  // Messages sharing a timestamp keep their batch order (message_index),
+  // and id breaks any remaining ties so pagination is stable.
+  let query = supabase
+    .from('messages')
+    .select('*')
+    .eq('user_id', user.id)
+    .order('timestamp', { ascending: false, nullsFirst: false })
+    .order('message_index', { ascending: false })
+    .order('id', { ascending: false })
+    .limit(limit + 1);
+
+  for (const field of ['relationship_id', 'thread_id', 'platform']) {
+    const value = searchParams.get(field);
+    if (value) {
+      query = query.eq(field, value);
+    }
+  }
+
+  // Validate and apply the date range
+  for (const [param, operator] of [['since', 'gte'], ['until', 'lte']] as const) {
+    const value = searchParams.get(param);
+    if (!value) {
+      continue;
+    }
+    const timestamp = toIsoTimestamp(value);
+    if (!timestamp) {
+      return NextResponse.json(
+        { error: `${param} must be a valid date` },
+        { status: 400 }
+      );
+    }
+    query = operator === 'gte' ? query.gte('timestamp', timestamp) : query.lte('timestamp', timestamp);
+  }
+
+  // Continue after the cursor position, if one was given
+  const cursorParam = searchParams.get('cursor');
+  if (cursorParam) {
+    const cursor = decodeCursor(cursorParam);
+    if (!cursor) {
+      return NextResponse.json(
+        { error: 'cursor is invalid' },
+        { status: 400 }
+      );
+    }
+
+    // Rows that sort after the cursor: earlier in the same position group,
+    // or in a later group (older timestamp, or no timestamp at all)
+    const samePosition = `message_index.lt.${cursor.message_index},and(message_index.eq.${cursor.message_index},id.lt.${cursor.id})`;
+
+    if (cursor.timestamp) {
+      const ts = `"${cursor.timestamp}"`;
+      query = query.or(
+        `timestamp.lt.${ts},and(timestamp.eq.${ts},or(${samePosition})),timestamp.is.null`
+      );
+    } else {
+      query = query.is('timestamp', null).or(samePosition);
+    }
+  }
+
+  const { data, error } = await query;
+
+  if (error) {
+    console.error('Error reading messages:', error);
+    return NextResponse.json(
+      { error: error.message },
+      { status: 500 }
+    );
+  }
+
+  // We asked for one extra row to know whether another page exists
+  const rows = (data ?? []) as Message[];
+  const page = rows.slice(0, limit);
+  const last = page[page.length - 1];
+  const nextCursor =
+    rows.length > limit && last?.id
+      ? encodeCursor({ timestamp: last.timestamp, message_index: last.message_index ?? 0, id: last.id })
+      : null;
+
+  return NextResponse.json({
+    messages: page,
+    next_cursor: nextCursor,
+  });
+}
 
 /**
  * Handle POST requests to /api/messages
@@ -18,11 +201,12 @@ import { supabase } from '@/lib/supabaseClient';
  * The expected request body JSON looks like this:
  *
  * {
- *   "user_id": "some-user-id",
+ *   "relationship_id": "relationship-uuid",
  *   "platform": "whatsapp",
  *   "thread_id": "thread-123",
  *   "messages": [
  *     {
+ *       "external_id": "wamid.123",   // optional platform message id
  *       "from_me": true,
  *       "text": "hey, what's up?",
  *       "timestamp": "2025-11-29T14:35:00Z"
@@ -34,18 +218,35 @@ import { supabase } from '@/lib/supabaseClient';
  *     }
  *   ]
  * }
+ *
+ * Response: { success: true, total, inserted, skipped, event_candidates }
+ *
+ * After storing, the new messages are read for events worth logging (see
+ * lib/eventExtraction.ts); event_candidates is how many were proposed for
+ * review. If that fails, the messages are still stored and
+ * event_extraction_error says why.
  */
 export async function POST(request: Request) {
   try {
+    // Only signed-in users can ingest messages; they are stored under the
+    // session's user id, never one supplied by the caller.
+    const { supabase, user } = await getSessionContext();
+    if (!user) {
+      return NextResponse.json(
+        { error: 'Not signed in' },
+        { status: 401 }
+      );
+    }
+
     // Parse the JSON body from the incoming request
     const body = await request.json();
 
-    const { user_id, platform, thread_id, messages } = body || {};
+    const { relationship_id, platform, thread_id, messages } = body || {};
 
     // Basic validation: check required top-level fields
-    if (!user_id || typeof user_id !== 'string') {
+    if (!relationship_id || typeof relationship_id !== 'string') {
       return NextResponse.json(
-        { error: 'user_id is required and must be a string' },
+        { error: 'relationship_id is required and must be a string' },
         { status: 400 }
       );
     }
@@ -72,49 +273,62 @@ export async function POST(request: Request) {
       );
     }
 
-    // Transform the incoming messages array into rows for the `messages` table.
-    // Each message row will include user_id, platform, thread_id, from_me, text, and timestamp.
-    const rows = messages.map((msg: any, index: number) => {
-      // Very simple per-message validation to avoid inserting clearly invalid rows.
-      // We keep this lightweight: if something is missing, we fall back to null / empty values.
-      const from_me = Boolean(msg?.from_me);
-      const text = typeof msg?.text === 'string' ? msg.text : '';
-
-      // Ensure timestamp is a string; if not provided, we set it to null and let
-      // the database default handle it (if configured).
-      const timestamp =
-        typeof msg?.timestamp === 'string' ? msg.timestamp : null;
-
-      return {
-        user_id,
-        platform,
-        thread_id,
-        from_me,
-        text,
-        // Pass through as an ISO string (Supabase / Postgres will parse it)
-        timestamp,
-        // Optionally we could also store an index to preserve original order
-        // in case timestamps are identical:
-        // message_index: index,
-      };
-    });
+    // Make sure the relationship exists (and belongs to this user) before
+    // linking messages to it
+    const { data: relationship, error: relError } = await supabase
+      .from('relationships')
+      .select('id')
+      .eq('id', relationship_id)
+      .eq('user_id', user.id)
+      .maybeSingle();
 
-    // Insert all messages in a single call to Supabase.
-    const { error } = await supabase.from('messages').insert(rows);
+    if (relError) {
+      console.error('Relationship lookup error:', relError);
+      return NextResponse.json(
+        { error: relError.message },
+        { status: 500 }
+      );
+    }
+
+    if (!relationship) {
+      return NextResponse.json(
+        { error: 'Relationship not found' },
+        { status: 404 }
+      );
+    }
 
-    // If Supabase returns an error, log it and return a 500 response.
-    if (error) {
+    // Store the batch. Messages that were already ingested (same external_id,
+    // or same thread/timestamp/sender/text) are skipped rather than duplicated.
+    let result: IngestResult;
+    try {
+      result = await ingestMessages(
+        supabase,
+        { userId: user.id, relationshipId: relationship_id, platform, threadId: thread_id },
+        messages
+      );
+    } catch (error) {
+      // If Supabase returns an error, log it and return a 500 response.
       console.error('Error inserting messages:', error);
       return NextResponse.json(
-        { error: error.message },
+        { error: error instanceof Error ? error.message : 'Failed to insert messages' },
         { status: 500 }
       );
     }
 
-    // On success, return how many rows we attempted to insert.
+    // Propose events from the new messages for the user to review
+    const { insertedIds, ...counts } = result;
+    const extraction = await extractEventCandidatesAfterIngest(supabase, {
+      userId: user.id,
+      relationshipId: relationship_id,
+      messageIds: insertedIds,
+    });
+
+    // On success, report how many messages were new vs. already stored.
     return NextResponse.json({
       success: true,
-      inserted: rows.length,
+      ...counts,
+      event_candidates: extraction.proposed,
+      ...(extraction.error ? { event_extraction_error: extraction.error } : {}),
     });
   } catch (err) {
     // If anything unexpected goes wrong (e.g., invalid JSON), log it and
@@ -0,0 +1,86 @@
+/**
+ * API route for communication metrics
+ *
+ * - GET: Metrics for one relationship computed from its messages (volume,
+ *   who starts conversations, reply times, conversation length and
+ *   silences; see lib/communicationMetrics.ts), with a message volume
+ *   series for charting
+ */
+
+import { NextResponse } from 'next/server';
+import { getSessionContext } from '@/lib/supabaseClient';
+import { parseAnalysisWindow } from '@/lib/analysisContext';
+import { loadCommunicationMetrics } from '@/lib/communicationMetrics';
+
+/**
+ * Handle GET requests to /api/metrics
+ *
+ * Query parameters:
+ * - relationship_id: the relationship, required
+ * - window: "all" (default) or a number of days such as "30d", as for /api/analyze
+ */
+export async function GET(request: Request) {
+  // Only signed-in users can access their data
+  const { supabase, user } = await getSessionContext();
+  if (!user) {
+    return NextResponse.json(
+      { error: 'Not signed in' },
+      { status: 401 }
+    );
+  }
+
+  const { searchParams } = new URL(request.url);
+  const relationshipId = searchParams.get('relationship_id');
+
+  if (!relationshipId) {
+    return NextResponse.json(
+      { error: 'relationship_id is required' },
+      { status: 400 }
+    );
+  }
+
+  const window = parseAnalysisWindow(searchParams.get('window'));
+  if (!window) {
+    return NextResponse.json(
+      { error: 'window must be "all" or a number of days like "30d"' },
+      { status: 400 }
+    );
+  }
+
+  // Make sure the relationship exists (and belongs to this user)
+  const { data: relationship, error: relError } = await supabase
+    .from('relationships')
+    .select('id')
+    .eq('id', relationshipId)
+    .eq('user_id', user.id)
+    .maybeSingle();
+
+  if (relError) {
+    return NextResponse.json(
+      { error: relError.message },
+      { status: 500 }
+    );
+  }
+
+  if (!relationship) {
+    return NextResponse.json(
+      { error: 'Relationship not found' },
+      { status: 404 }
+    );
+  }
+
+  try {
+    const metrics = await loadCommunicationMetrics(supabase, {
+      userId: user.id,
+      relationshipId,
+      window,
+    });
+    return NextResponse.json(metrics);
+  } catch (err) {
+    console.error('Error computing communication metrics:', err);
+    return NextResponse.json(
+      { error: err instanceof Error ? err.message : 'Failed to compute metrics' },
+      { status: 500 }
+    );
+  }
+}
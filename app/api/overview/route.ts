@@ -0,0 +1,127 @@
+/**
+ * API route for the portfolio overview
+ *
+ * - GET: Every relationship with its latest insight, risk change since the
+ *   previous insight and last event / message time, ranked by how much
+ *   attention it needs (see lib/overview.ts)
+ */
+
+import { NextResponse } from 'next/server';
+import { getSessionContext } from '@/lib/supabaseClient';
+import {
+  buildOverview,
+  filterOverview,
+  OVERVIEW_SORTS,
+  OverviewSort,
+  RelationshipActivity,
+  sortOverview,
+} from '@/lib/overview';
+
+/**
+ * Read an optional non-negative integer query parameter.
+ *
+ * Returns undefined when the parameter is missing and null when it is invalid.
+ */
+function readCount(searchParams: URLSearchParams, name: string): number | null | undefined {
+  const raw = searchParams.get(name);
+  if (raw === null || raw === '') {
+    return undefined;
+  }
+  const value = Number(raw);
+  return Number.isInteger(value) && value >= 0 ? value : null;
+}
+
+/**
+ * Handle GET requests to /api/overview
+ *
+ * Optional query parameters:
+ * - sort: "attention" (default), "risk", "growth", "stale" or "name"
+ * - reverse: "true" to flip the sort's natural order (most attention, risk,
+ *   growth or staleness first; names A-Z)
+ * - type: only relationships of this type
+ * - min_risk: only relationships whose latest risk is at least this (0-100)
+ * - stale_days: only relationships with no events or messages for at least this many days
+ * - jumped: "true" for only relationships whose risk jumped since the previous insight
+ * - archived: "false" (default), "true" or "all", as for /api/relationships
+ */
+export async function GET(request: Request) {
+  // Only signed-in users can access their data
+  const { supabase, user } = await getSessionContext();
+  if (!user) {
+    return NextResponse.json(
+      { error: 'Not signed in' },
+      { status: 401 }
+    );
+  }
+
+  // 1. Read and validate the query
+  const { searchParams } = new URL(request.url);
+  const sort = (searchParams.get('sort') ?? 'attention') as OverviewSort;
+  const archived = searchParams.get('archived') ?? 'false';
+  const minRisk = readCount(searchParams, 'min_risk');
+  const staleDays = readCount(searchParams, 'stale_days');
+
+  if (!OVERVIEW_SORTS.includes(sort)) {
+    return NextResponse.json(
+      { error: `sort must be one of ${OVERVIEW_SORTS.map((s) => `"${s}"`).join(', ')}` },
+      { status: 400 }
+    );
+  }
+
+  if (!['true', 'false', 'all'].includes(archived)) {
+    return NextResponse.json(
+      { error: 'archived must be one of "true", "false" or "all"' },
+      { status: 400 }
+    );
+  }
+
+  if (minRisk === null || staleDays === null) {
+    return NextResponse.json(
+      { error: 'min_risk and stale_days must be whole numbers of at least 0' },
+      { status: 400 }
+    );
+  }
+
+  // 2. Load relationships, their two newest insights and last activity
+  let relationshipsQuery = supabase
+    .from('relationships')
+    .select('*')
+    .eq('user_id', user.id);
+
+  if (archived === 'false') {
+    relationshipsQuery = relationshipsQuery.is('archived_at', null);
+  } else if (archived === 'true') {
+    relationshipsQuery = relationshipsQuery.not('archived_at', 'is', null);
+  }
+
+  const [relationshipsResult, insightsResult, activityResult] = await Promise.all([
+    relationshipsQuery,
+    supabase.rpc('latest_insights', { per_relationship: 2 }),
+    supabase.rpc('relationship_activity'),
+  ]);
+
+  const loadError = relationshipsResult.error ?? insightsResult.error ?? activityResult.error;
+  if (loadError) {
+    console.error('Supabase error:', loadError);
+    return NextResponse.json(
+      { error: loadError.message },
+      { status: 500 }
+    );
+  }
+
+  // 3. Rank, then filter
+  const rows = buildOverview(
+    relationshipsResult.data ?? [],
+    insightsResult.data ?? [],
+    (activityResult.data ?? []) as RelationshipActivity[]
+  );
+
+  const filtered = filterOverview(rows, {
+    type: searchParams.get('type'),
+    minRisk,
+    staleDays,
+    jumpedOnly: searchParams.get('jumped') === 'true',
+  });
+
+  return NextResponse.json(sortOverview(filtered, sort, searchParams.get('reverse') === 'true'));
+}
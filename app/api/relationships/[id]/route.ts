@@ -0,0 +1,244 @@
+/**
+ * API route for a single relationship
+ *
+ * This file handles HTTP requests for one relationship, identified by the
+ * [id] segment of the URL:
+ * - GET: Retrieve the relationship
+ * - PATCH: Update person_name, type, notes, the pinned prompt version or the
+ *   re-analysis cadence, or archive / unarchive it
+ * - DELETE: Permanently delete the relationship
+ *
+ * Archiving is the non-destructive option: the relationship and all of its
+ * events, insights and messages are kept, it is just hidden from the default
+ * list. Deleting removes the relationship and, through ON DELETE CASCADE
+ * foreign keys, its events, insights and messages.
+ */
+
+import { NextResponse } from 'next/server';
+import { getSessionContext } from '@/lib/supabaseClient';
+import { parsePromptPin } from '@/lib/prompts';
+
+type RouteContext = {
+  params: Promise<{ id: string }>;
+};
+
+/**
+ * Handle GET requests to /api/relationships/[id]
+ *
+ * Returns the relationship, or 404 if it doesn't exist for this user.
+ */
+export async function GET(_request: Request, { params }: RouteContext) {
+  // Only signed-in users can access their data
+  const { supabase, user } = await getSessionContext();
+  if (!user) {
+    return NextResponse.json(
+      { error: 'Not signed in' },
+      { status: 401 }
+    );
+  }
+
+  const { id } = await params;
+
+  const { data, error } = await supabase
+    .from('relationships')
+    .select('*')
+    .eq('id', id)
+    .eq('user_id', user.id)
+    .maybeSingle();
+
+  if (error) {
+    return NextResponse.json(
+      { error: error.message },
+      { status: 500 }
+    );
+  }
+
+  if (!data) {
+    return NextResponse.json(
+      { error: 'Relationship not found' },
+      { status: 404 }
+    );
+  }
+
+  return NextResponse.json(data);
+}
+
+/**
+ * Handle PATCH requests to /api/relationships/[id]
+ *
+ * Accepts any of these fields in the JSON body:
+ * - person_name: new name (must not be empty)
+ * - type: new relationship type
+ * - notes: new notes (empty string clears them)
+ * - prompt_version: analysis prompt template to pin ("analyze-v1",
+ *   "analyze-v2:ex", ...), or null to follow the latest version
+ * - reanalyze_every_days: re-analyze automatically at least this often
+ *   (a whole number of days), or null for only when there's new activity
+ * - archived: true to archive, false to unarchive
+ */
+export async function PATCH(request: Request, { params }: RouteContext) {
+  // Only signed-in users can access their data
+  const { supabase, user } = await getSessionContext();
+  if (!user) {
+    return NextResponse.json(
+      { error: 'Not signed in' },
+      { status: 401 }
+    );
+  }
+
+  const { id } = await params;
+
+  // Parse the JSON request body
+  const body = await request.json().catch(() => null);
+  if (!body || typeof body !== 'object') {
+    return NextResponse.json(
+      { error: 'Request body must be a JSON object' },
+      { status: 400 }
+    );
+  }
+
+  // Build the update from the fields that were provided
+  const updates: Record<string, string | number | null> = {};
+
+  if (body.person_name !== undefined) {
+    if (typeof body.person_name !== 'string' || body.person_name.trim() === '') {
+      return NextResponse.json(
+        { error: 'person_name must be a non-empty string' },
+        { status: 400 }
+      );
+    }
+    updates.person_name = body.person_name.trim();
+  }
+
+  if (body.type !== undefined) {
+    if (typeof body.type !== 'string' || body.type.trim() === '') {
+      return NextResponse.json(
+        { error: 'type must be a non-empty string' },
+        { status: 400 }
+      );
+    }
+    updates.type = body.type.trim();
+  }
+
+  if (body.notes !== undefined) {
+    if (body.notes !== null && typeof body.notes !== 'string') {
+      return NextResponse.json(
+        { error: 'notes must be a string or null' },
+        { status: 400 }
+      );
+    }
+    updates.notes = body.notes || null;
+  }
+
+  if (body.prompt_version !== undefined) {
+    if (
+      body.prompt_version !== null &&
+      (typeof body.prompt_version !== 'string' || !parsePromptPin(body.prompt_version))
+    ) {
+      return NextResponse.json(
+        { error: 'prompt_version must be a known prompt template version or null' },
+        { status: 400 }
+      );
+    }
+    updates.prompt_version = body.prompt_version || null;
+  }
+
+  if (body.reanalyze_every_days !== undefined) {
+    if (
+      body.reanalyze_every_days !== null &&
+      (!Number.isInteger(body.reanalyze_every_days) || body.reanalyze_every_days < 1)
+    ) {
+      return NextResponse.json(
+        { error: 'reanalyze_every_days must be a whole number of days (at least 1) or null' },
+        { status: 400 }
+      );
+    }
+    updates.reanalyze_every_days = body.reanalyze_every_days;
+  }
+
+  if (body.archived !== undefined) {
+    if (typeof body.archived !== 'boolean') {
+      return NextResponse.json(
+        { error: 'archived must be a boolean' },
+        { status: 400 }
+      );
+    }
+    updates.archived_at = body.archived ? new Date().toISOString() : null;
+  }
+
+  if (Object.keys(updates).length === 0) {
+    return NextResponse.json(
+      { error: 'No updatable fields provided' },
+      { status: 400 }
+    );
+  }
+
+  // Apply the update and return the updated row
+  const { data, error } = await supabase
+    .from('relationships')
+    .update(updates)
+    .eq('id', id)
+    .eq('user_id', user.id)
+    .select()
+    .maybeSingle();
+
+  if (error) {
+    return NextResponse.json(
+      { error: error.message },
+      { status: 500 }
+    );
+  }
+
+  if (!data) {
+    return NextResponse.json(
+      { error: 'Relationship not found' },
+      { status: 404 }
+    );
+  }
+
+  return NextResponse.json(data);
+}
+
+/**
+ * Handle DELETE requests to /api/relationships/[id]
+ *
+ * Permanently deletes the relationship. The database cascades the delete
+ * to its events, insights and messages. Use PATCH { archived: true } to
+ * hide a relationship while keeping its history.
+ */
+export async function DELETE(_request: Request, { params }: RouteContext) {
+  // Only signed-in users can access their data
+  const { supabase, user } = await getSessionContext();
+  if (!user) {
+    return NextResponse.json(
+      { error: 'Not signed in' },
+      { status: 401 }
+    );
+  }
+
+  const { id } = await params;
+
+  const { data, error } = await supabase
+    .from('relationships')
+    .delete()
+    .eq('id', id)
+    .eq('user_id', user.id)
+    .select('id')
+    .maybeSingle();
+
+  if (error) {
+    return NextResponse.json(
+      { error: error.message },
+      { status: 500 }
+    );
+  }
+
+  if (!data) {
+    return NextResponse.json(
+      { error: 'Relationship not found' },
+      { status: 404 }
+    );
+  }
+
+  return NextResponse.json({ success: true, id: data.id });
+}
@@ -4,27 +4,65 @@
  * This file handles HTTP requests related to relationships:
  * - GET: Retrieve all relationships from the database
  * - POST: Create a new relationship
+ *
+ * Single-relationship operations (detail, update, archive, delete) live in
+ * app/api/relationships/[id]/route.ts.
  * 
  * In Next.js App Router, route handlers are defined in route.ts files.
  * The file name "route.ts" tells Next.js this is an API endpoint.
  */
 
 import { NextResponse } from 'next/server';
-import { supabase } from '@/lib/supabaseClient';
+import { getSessionContext } from '@/lib/supabaseClient';
 
 /**
  * Handle GET requests to /api/relationships
  * 
- * Retrieves all relationships from the database,
+ * Retrieves the signed-in user's relationships from the database,
  * ordered by creation date (newest first).
+ *
+ * Optional query parameter `archived`:
+ * - "false" (default): only active relationships
+ * - "true": only archived relationships
+ * - "all": both
  */
-export async function GET() {
-  // Query all relationships from Supabase, ordered by created_at descending
-  const { data, error } = await supabase
+export async function GET(request: Request) {
+  // Only signed-in users can access their data
+  const { supabase, user } = await getSessionContext();
+  if (!user) {
+    return NextResponse.json(
+      { error: 'Not signed in' },
+      { status: 401 }
+    );
+  }
+
+  // Read and validate the archived filter
+  const { searchParams } = new URL(request.url);
+  const archived = searchParams.get('archived') ?? 'false';
+
+  if (!['true', 'false', 'all'].includes(archived)) {
+    return NextResponse.json(
+      { error: 'archived must be one of "true", "false" or "all"' },
+      { status: 400 }
+    );
+  }
+
+  // Query the user's relationships from Supabase, ordered by created_at descending
+  let query = supabase
     .from('relationships')
     .select('*')
+    .eq('user_id', user.id)
     .order('created_at', { ascending: false });
 
+  // Archived relationships have an archived_at timestamp
+  if (archived === 'false') {
+    query = query.is('archived_at', null);
+  } else if (archived === 'true') {
+    query = query.not('archived_at', 'is', null);
+  }
+
+  const { data, error } = await query;
+
   // If there's an error, return a 500 status with the error message
   if (error) {
     return NextResponse.json(
@@ -41,14 +79,23 @@ export async function GET() {
  * Handle POST requests to /api/relationships
  * 
  * Creates a new relationship in the database with the provided
- * person_name, type, and notes.
+ * person_name, type, and notes, owned by the signed-in user.
  */
 export async function POST(request: Request) {
+  // Only signed-in users can access their data
+  const { supabase, user } = await getSessionContext();
+  if (!user) {
+    return NextResponse.json(
+      { error: 'Not signed in' },
+      { status: 401 }
+    );
+  }
+
   // Parse the JSON request body
   const body = await request.json();
   const { person_name, type, notes } = body;
 
-  // Validate that person_name is provided
+  // Validate that person_name and type are provided
   if (!person_name) {
     return NextResponse.json(
       { error: 'person_name is required' },
@@ -56,12 +103,20 @@ export async function POST(request: Request) {
     );
   }
 
-  // Insert the new relationship into Supabase (without user_id)
+  if (typeof type !== 'string' || type.trim() === '') {
+    return NextResponse.json(
+      { error: 'type must be a non-empty string' },
+      { status: 400 }
+    );
+  }
+
+  // Insert the new relationship into Supabase, owned by the current user
   const { data, error } = await supabase
     .from('relationships')
     .insert({
+      user_id: user.id,
       person_name,
-      type,
+      type: type.trim(),
       notes: notes || null,
     })
     .select()
@@ -0,0 +1,104 @@
+/**
+ * API route for searching across relationships
+ *
+ * GET /api/search?q=... searches event descriptions, message text,
+ * relationship notes and insight summaries, combining full-text and
+ * semantic search (see lib/search.ts). The response is
+ * { query, semantic, hits }, where semantic says whether embeddings took
+ * part (they don't if the embedding provider failed), and each hit has a
+ * highlighted snippet and a link back to its relationship.
+ */
+
+import { NextResponse } from 'next/server';
+import { getSessionContext } from '@/lib/supabaseClient';
+import { EmbeddingProvider, getEmbeddingProvider } from '@/lib/embeddings';
+import { LLMConfigError } from '@/lib/llm';
+import { searchContent, SearchSourceType, SEARCH_SOURCE_TYPES } from '@/lib/search';
+
+const DEFAULT_LIMIT = 20;
+const MAX_LIMIT = 50;
+const MAX_QUERY_CHARS = 200;
+
+/**
+ * Handle GET requests to /api/search
+ *
+ * Query parameters:
+ * - q: the search text (required)
+ * - relationship_id: only search this relationship
+ * - types: comma-separated subset of "event", "message", "note", "insight"
+ * - limit: number of hits (default 20, at most 50)
+ */
+export async function GET(request: Request) {
+  // 0. Only signed-in users can search their data
+  const { supabase, user } = await getSessionContext();
+  if (!user) {
+    return NextResponse.json(
+      { error: 'Not signed in' },
+      { status: 401 }
+    );
+  }
+
+  // 1. Read and validate query parameters
+  const { searchParams } = new URL(request.url);
+  const query = (searchParams.get('q') ?? '').trim();
+  const relationshipId = searchParams.get('relationship_id');
+
+  if (!query || query.length > MAX_QUERY_CHARS) {
+    return NextResponse.json(
+      { error: `q must be a non-empty string of at most ${MAX_QUERY_CHARS} characters` },
+      { status: 400 }
+    );
+  }
+
+  let sourceTypes: SearchSourceType[] | null = null;
+  const typesParam = searchParams.get('types');
+  if (typesParam) {
+    const types = typesParam.split(',').map((t) => t.trim()).filter(Boolean);
+    if (types.length === 0 || !types.every((t) => (SEARCH_SOURCE_TYPES as readonly string[]).includes(t))) {
+      return NextResponse.json(
+        { error: `types must be a comma-separated list of ${SEARCH_SOURCE_TYPES.join(', ')}` },
+        { status: 400 }
+      );
+    }
+    sourceTypes = types as SearchSourceType[];
+  }
+
+  const limitParam = searchParams.get('limit');
+  const limit = limitParam === null ? DEFAULT_LIMIT : Number(limitParam);
+  if (!Number.isInteger(limit) || limit < 1 || limit > MAX_LIMIT) {
+    return NextResponse.json(
+      { error: `limit must be an integer from 1 to ${MAX_LIMIT}` },
+      { status: 400 }
+    );
+  }
+
+  // 2. Resolve the embedding provider; misconfiguration means keyword-only search
+  let provider: EmbeddingProvider | null = null;
+  try {
+    provider = getEmbeddingProvider();
+  } catch (err) {
+    if (!(err instanceof LLMConfigError)) {
+      throw err;
+    }
+    console.error('Embedding provider configuration error:', err.message);
+  }
+
+  // 3. Search
+  try {
+    const { hits, semantic } = await searchContent(supabase, {
+      userId: user.id,
+      query,
+      provider,
+      relationshipId,
+      sourceTypes,
+      limit,
+    });
+    return NextResponse.json({ query, semantic, hits });
+  } catch (err) {
+    console.error('Search failed:', err);
+    return NextResponse.json(
+      { error: err instanceof Error ? err.message : 'Search failed' },
+      { status: 500 }
+    );
+  }
+}
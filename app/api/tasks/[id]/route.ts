@@ -0,0 +1,233 @@
+/**
+ * API route for a single task
+ *
+ * This file handles HTTP requests for one task, identified by the [id]
+ * segment of the URL:
+ * - PATCH: Update title or due_at, or mark it done / not done
+ * - DELETE: Delete the task
+ *
+ * Marking a task done logs a "follow-up" event for its relationship, so the
+ * completed follow-up shows up in the timeline and in analysis. Marking it
+ * not done again deletes that event.
+ */
+
+import { NextResponse } from 'next/server';
+import { getSessionContext } from '@/lib/supabaseClient';
+import { toIsoTimestamp } from '@/lib/dates';
+
+type RouteContext = {
+  params: Promise<{ id: string }>;
+};
+
+// event_type of the event logged when a task is completed
+const COMPLETED_EVENT_TYPE = 'follow-up';
+
+/**
+ * Handle PATCH requests to /api/tasks/[id]
+ *
+ * Accepts any of these fields in the JSON body:
+ * - title: new title (must not be empty)
+ * - due_at: new due date, or null to remove it
+ * - done: true to complete the task (logs an event), false to reopen it
+ *
+ * Responds with the updated task.
+ */
+export async function PATCH(request: Request, { params }: RouteContext) {
+  // Only signed-in users can access their data
+  const { supabase, user } = await getSessionContext();
+  if (!user) {
+    return NextResponse.json(
+      { error: 'Not signed in' },
+      { status: 401 }
+    );
+  }
+
+  const { id } = await params;
+
+  // 1. Parse the JSON request body
+  const body = await request.json().catch(() => null);
+  if (!body || typeof body !== 'object') {
+    return NextResponse.json(
+      { error: 'Request body must be a JSON object' },
+      { status: 400 }
+    );
+  }
+
+  // 2. Build the update from the fields that were provided
+  const updates: Record<string, string | null> = {};
+
+  if (body.title !== undefined) {
+    if (typeof body.title !== 'string' || body.title.trim() === '') {
+      return NextResponse.json(
+        { error: 'title must be a non-empty string' },
+        { status: 400 }
+      );
+    }
+    updates.title = body.title.trim();
+  }
+
+  if (body.due_at !== undefined) {
+    const dueAt = body.due_at === null || body.due_at === '' ? null : toIsoTimestamp(body.due_at);
+    if (dueAt === null && body.due_at !== null && body.due_at !== '') {
+      return NextResponse.json(
+        { error: 'due_at must be a valid date or null' },
+        { status: 400 }
+      );
+    }
+    updates.due_at = dueAt;
+  }
+
+  if (body.done !== undefined && typeof body.done !== 'boolean') {
+    return NextResponse.json(
+      { error: 'done must be a boolean' },
+      { status: 400 }
+    );
+  }
+
+  if (Object.keys(updates).length === 0 && body.done === undefined) {
+    return NextResponse.json(
+      { error: 'No updatable fields provided' },
+      { status: 400 }
+    );
+  }
+
+  // 3. Load the task
+  const { data: task, error: taskError } = await supabase
+    .from('tasks')
+    .select('*')
+    .eq('id', id)
+    .eq('user_id', user.id)
+    .maybeSingle();
+
+  if (taskError) {
+    return NextResponse.json(
+      { error: taskError.message },
+      { status: 500 }
+    );
+  }
+
+  if (!task) {
+    return NextResponse.json(
+      { error: 'Task not found' },
+      { status: 404 }
+    );
+  }
+
+  // 4. Completing logs an event; reopening removes it once the task is updated
+  let loggedEventId: string | null = null;
+  let reopenedEventId: string | null = null;
+
+  if (body.done === true && !task.completed_at) {
+    const completedAt = new Date().toISOString();
+    const { data: event, error: eventError } = await supabase
+      .from('events')
+      .insert({
+        user_id: user.id,
+        relationship_id: task.relationship_id,
+        event_type: COMPLETED_EVENT_TYPE,
+        description: `Completed: ${updates.title ?? task.title}`,
+        occurred_at: completedAt,
+      })
+      .select('id')
+      .single();
+
+    if (eventError) {
+      return NextResponse.json(
+        { error: eventError.message },
+        { status: 500 }
+      );
+    }
+
+    loggedEventId = event.id;
+    updates.completed_at = completedAt;
+    updates.event_id = event.id;
+  } else if (body.done === false && task.completed_at) {
+    reopenedEventId = task.event_id ?? null;
+    updates.completed_at = null;
+    updates.event_id = null;
+  }
+
+  if (Object.keys(updates).length === 0) {
+    // done matched the task's current state and nothing else changed
+    return NextResponse.json(task);
+  }
+
+  // 5. Apply the update and return the updated row
+  const { data, error } = await supabase
+    .from('tasks')
+    .update(updates)
+    .eq('id', id)
+    .eq('user_id', user.id)
+    .select('*, relationship:relationships(person_name)')
+    .single();
+
+  if (error) {
+    // Don't leave an event behind for a completion that didn't stick
+    if (loggedEventId) {
+      await supabase.from('events').delete().eq('id', loggedEventId).eq('user_id', user.id);
+    }
+    return NextResponse.json(
+      { error: error.message },
+      { status: 500 }
+    );
+  }
+
+  // The task is open again, so its completion event can go. If that fails
+  // the event stays in the timeline, which is better than a done task
+  // without one.
+  if (reopenedEventId) {
+    const { error: deleteError } = await supabase
+      .from('events')
+      .delete()
+      .eq('id', reopenedEventId)
+      .eq('user_id', user.id);
+
+    if (deleteError) {
+      console.error('Error deleting the completion event of a reopened task:', deleteError);
+    }
+  }
+
+  return NextResponse.json(data);
+}
+
+/**
+ * Handle DELETE requests to /api/tasks/[id]
+ *
+ * The event logged when the task was completed is kept; it still happened.
+ */
+export async function DELETE(_request: Request, { params }: RouteContext) {
+  // Only signed-in users can access their data
+  const { supabase, user } = await getSessionContext();
+  if (!user) {
+    return NextResponse.json(
+      { error: 'Not signed in' },
+      { status: 401 }
+    );
+  }
+
+  const { id } = await params;
+
+  const { data, error } = await supabase
+    .from('tasks')
+    .delete()
+    .eq('id', id)
+    .eq('user_id', user.id)
+    .select('id')
+    .maybeSingle();
+
+  if (error) {
+    return NextResponse.json(
+      { error: error.message },
+      { status: 500 }
+    );
+  }
+
+  if (!data) {
+    return NextResponse.json(
+      { error: 'Task not found' },
+      { status: 404 }
+    );
+  }
+
+  return NextResponse.json({ success: true, id: data.id });
+}
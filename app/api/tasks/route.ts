@@ -0,0 +1,197 @@
+/**
+ * API route for follow-up tasks
+ *
+ * This file handles HTTP requests related to tasks:
+ * - GET: List tasks, for one relationship or across all of them
+ * - POST: Create a task, typically from an insight's recommended_action
+ *
+ * Completing, editing and deleting a single task lives in
+ * app/api/tasks/[id]/route.ts.
+ */
+
+import { NextResponse } from 'next/server';
+import { getSessionContext } from '@/lib/supabaseClient';
+import { toIsoTimestamp } from '@/lib/dates';
+
+const TASK_STATUSES = ['open', 'overdue', 'done', 'all'];
+
+/**
+ * Handle GET requests to /api/tasks
+ *
+ * Optional query parameters:
+ * - relationship_id: only tasks for this relationship
+ * - status: "open" (default), "overdue" (open and past due), "done" or "all"
+ *
+ * Open tasks are ordered by due date (undated last), done tasks by when
+ * they were completed (newest first). Each task includes
+ * relationship.person_name for lists that span relationships.
+ */
+export async function GET(request: Request) {
+  // Only signed-in users can access their data
+  const { supabase, user } = await getSessionContext();
+  if (!user) {
+    return NextResponse.json(
+      { error: 'Not signed in' },
+      { status: 401 }
+    );
+  }
+
+  const { searchParams } = new URL(request.url);
+  const relationshipId = searchParams.get('relationship_id');
+  const status = searchParams.get('status') ?? 'open';
+
+  if (!TASK_STATUSES.includes(status)) {
+    return NextResponse.json(
+      { error: 'status must be one of "open", "overdue", "done" or "all"' },
+      { status: 400 }
+    );
+  }
+
+  let query = supabase
+    .from('tasks')
+    .select('*, relationship:relationships(person_name)')
+    .eq('user_id', user.id);
+
+  if (relationshipId) {
+    query = query.eq('relationship_id', relationshipId);
+  }
+
+  if (status === 'done') {
+    query = query.not('completed_at', 'is', null).order('completed_at', { ascending: false });
+  } else {
+    if (status === 'open' || status === 'overdue') {
+      query = query.is('completed_at', null);
+    }
+    if (status === 'overdue') {
+      query = query.lt('due_at', new Date().toISOString());
+    }
+    query = query
+      .order('due_at', { ascending: true, nullsFirst: false })
+      .order('created_at', { ascending: true });
+  }
+
+  const { data, error } = await query;
+
+  if (error) {
+    return NextResponse.json(
+      { error: error.message },
+      { status: 500 }
+    );
+  }
+
+  return NextResponse.json(data);
+}
+
+/**
+ * Handle POST requests to /api/tasks
+ *
+ * JSON body:
+ * - relationship_id: relationship the task is for (required unless insight_id is given)
+ * - insight_id: insight the task comes from; its recommended_action is the
+ *   default title and its relationship the default relationship_id
+ * - title: what to do (required without insight_id)
+ * - due_at: optional due date
+ */
+export async function POST(request: Request) {
+  // Only signed-in users can access their data
+  const { supabase, user } = await getSessionContext();
+  if (!user) {
+    return NextResponse.json(
+      { error: 'Not signed in' },
+      { status: 401 }
+    );
+  }
+
+  // 1. Read and validate body
+  const body = await request.json().catch(() => null);
+  if (!body || typeof body !== 'object') {
+    return NextResponse.json(
+      { error: 'Request body must be a JSON object' },
+      { status: 400 }
+    );
+  }
+
+  let relationshipId: string | undefined = body.relationship_id;
+  let title = typeof body.title === 'string' ? body.title.trim() : '';
+
+  let dueAt: string | null = null;
+  if (body.due_at !== undefined && body.due_at !== null && body.due_at !== '') {
+    dueAt = toIsoTimestamp(body.due_at);
+    if (!dueAt) {
+      return NextResponse.json(
+        { error: 'due_at must be a valid date' },
+        { status: 400 }
+      );
+    }
+  }
+
+  // 2. Fill in the title and relationship from the insight, if there is one
+  if (body.insight_id) {
+    const { data: insight, error: insightError } = await supabase
+      .from('insights')
+      .select('relationship_id, recommended_action')
+      .eq('id', body.insight_id)
+      .eq('user_id', user.id)
+      .maybeSingle();
+
+    if (insightError) {
+      return NextResponse.json(
+        { error: insightError.message },
+        { status: 500 }
+      );
+    }
+
+    if (!insight) {
+      return NextResponse.json(
+        { error: 'Insight not found' },
+        { status: 404 }
+      );
+    }
+
+    if (relationshipId && relationshipId !== insight.relationship_id) {
+      return NextResponse.json(
+        { error: 'insight_id belongs to a different relationship' },
+        { status: 400 }
+      );
+    }
+
+    relationshipId = insight.relationship_id;
+    title ||= insight.recommended_action;
+  }
+
+  if (!relationshipId) {
+    return NextResponse.json(
+      { error: 'relationship_id is required' },
+      { status: 400 }
+    );
+  }
+
+  if (!title) {
+    return NextResponse.json(
+      { error: 'title is required' },
+      { status: 400 }
+    );
+  }
+
+  // 3. Insert the task
+  const { data, error } = await supabase
+    .from('tasks')
+    .insert({
+      user_id: user.id,
+      relationship_id: relationshipId,
+      insight_id: body.insight_id || null,
+      title,
+      due_at: dueAt,
+    })
+    .select('*, relationship:relationships(person_name)')
+    .single();
+
+  if (error) {
+    return NextResponse.json(
+      { error: error.message },
+      { status: 500 }
+    );
+  }
+
+  return NextResponse.json(data);
+}
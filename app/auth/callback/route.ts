@@ -0,0 +1,32 @@
+/**
+ * API route for completing Supabase Auth sign-in
+ *
+ * Email confirmation and magic links send the user back here with a
+ * one-time `code`. We exchange it for a session (stored in cookies)
+ * and then continue to the dashboard.
+ */
+
+import { NextResponse } from 'next/server';
+import { createSupabaseServerClient } from '@/lib/supabaseClient';
+
+/**
+ * Handle GET requests to /auth/callback
+ */
+export async function GET(request: Request) {
+  const { searchParams, origin } = new URL(request.url);
+  const code = searchParams.get('code');
+
+  if (code) {
+    const supabase = await createSupabaseServerClient();
+    const { error } = await supabase.auth.exchangeCodeForSession(code);
+
+    if (!error) {
+      return NextResponse.redirect(`${origin}/dashboard`);
+    }
+
+    console.error('Auth code exchange error:', error);
+  }
+
+  // Missing or invalid code: send the user back to sign in
+  return NextResponse.redirect(`${origin}/login?error=auth`);
+}
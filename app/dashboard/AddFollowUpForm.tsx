@@ -0,0 +1,86 @@
+/**
+ * "Add as follow-up" control for an insight's recommended action
+ *
+ * Turns the recommendation into a dated task (POST /api/tasks with the
+ * insight_id; the server copies the recommended_action as the title).
+ */
+
+'use client';
+
+import { useState } from 'react';
+
+type AddFollowUpFormProps = {
+  insightId: string;
+  onAdded: () => void;
+};
+
+// Default due date, in days from today
+const DEFAULT_DUE_DAYS = 7;
+
+/**
+ * A date DEFAULT_DUE_DAYS from now as YYYY-MM-DD in local time, for a date input
+ */
+function defaultDueDate(): string {
+  const due = new Date();
+  due.setDate(due.getDate() + DEFAULT_DUE_DAYS);
+  const month = String(due.getMonth() + 1).padStart(2, '0');
+  const day = String(due.getDate()).padStart(2, '0');
+  return `${due.getFullYear()}-${month}-${day}`;
+}
+
+export default function AddFollowUpForm({ insightId, onAdded }: AddFollowUpFormProps) {
+  const [dueAt, setDueAt] = useState(defaultDueDate);
+  const [submitting, setSubmitting] = useState(false);
+  const [status, setStatus] = useState<string | null>(null);
+
+  async function handleSubmit(e: React.FormEvent) {
+    e.preventDefault();
+
+    try {
+      setSubmitting(true);
+      setStatus(null);
+
+      const response = await fetch('/api/tasks', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          insight_id: insightId,
+          // Due by the end of the chosen day
+          due_at: dueAt ? new Date(`${dueAt}T23:59`).toISOString() : null,
+        }),
+      });
+
+      if (!response.ok) {
+        const data = await response.json().catch(() => null);
+        throw new Error(data?.error ?? 'Failed to add follow-up');
+      }
+
+      setStatus('Added to follow-ups');
+      onAdded();
+    } catch (err) {
+      setStatus(err instanceof Error ? err.message : 'Failed to add follow-up');
+    } finally {
+      setSubmitting(false);
+    }
+  }
+
+  return (
+    <form onSubmit={handleSubmit} className="mt-2 flex flex-wrap items-center gap-2 text-sm">
+      <input
+        type="date"
+        value={dueAt}
+        onChange={(e) => setDueAt(e.target.value)}
+        className="px-2 py-1 border border-gray-300 rounded-md"
+        aria-label="Follow-up due date"
+      />
+      <button
+        type="submit"
+        disabled={submitting}
+        className="px-3 py-1 bg-blue-600 text-white rounded-md hover:bg-blue-700 disabled:bg-gray-400"
+      >
+        {submitting ? 'Adding...' : 'Add as follow-up'}
+      </button>
+      {status && <span className="text-gray-600">{status}</span>}
+    </form>
+  );
+}
@@ -0,0 +1,296 @@
+/**
+ * "Ask about this relationship" chat panel
+ *
+ * Lists the relationship's chat sessions and shows the selected one. Each
+ * question goes to /api/chat/[id]/messages, which answers from the
+ * relationship's notes, events, messages and past insights; the answer is
+ * streamed in as the model writes it.
+ */
+
+'use client';
+
+import { useState, useEffect } from 'react';
+import { ChatSession, ChatSessionMessage } from '@/lib/types';
+import { readServerSentEvents } from '@/lib/sse';
+
+type ChatPanelProps = {
+  relationshipId: string;
+};
+
+/**
+ * Fetch JSON and throw with the API's message if the request fails
+ */
+async function fetchJson<T>(url: string, init?: RequestInit): Promise<T> {
+  const response = await fetch(url, init);
+  const data = await response.json().catch(() => null);
+  if (!response.ok) {
+    throw new Error(data?.error ?? 'Request failed');
+  }
+  return data;
+}
+
+export default function ChatPanel({ relationshipId }: ChatPanelProps) {
+  const [sessions, setSessions] = useState<ChatSession[]>([]);
+  const [activeSessionId, setActiveSessionId] = useState<string | null>(null);
+  const [messages, setMessages] = useState<ChatSessionMessage[]>([]);
+  const [error, setError] = useState<string | null>(null);
+
+  // The question being typed, and the answer while it streams in
+  const [question, setQuestion] = useState('');
+  const [pendingQuestion, setPendingQuestion] = useState<string | null>(null);
+  const [streamingAnswer, setStreamingAnswer] = useState('');
+
+  // Load the sessions when the relationship changes, opening the latest one
+  useEffect(() => {
+    let cancelled = false;
+
+    fetchJson<ChatSession[]>(`/api/chat?relationship_id=${relationshipId}`)
+      .then((data) => {
+        if (!cancelled) {
+          setSessions(data);
+          setActiveSessionId(data[0]?.id ?? null);
+          setError(null);
+        }
+      })
+      .catch((err) => {
+        if (!cancelled) {
+          setError(err instanceof Error ? err.message : 'Failed to load chats');
+        }
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [relationshipId]);
+
+  // Load the turns of the open session
+  useEffect(() => {
+    if (!activeSessionId) {
+      setMessages([]);
+      return;
+    }
+
+    let cancelled = false;
+
+    fetchJson<{ messages: ChatSessionMessage[] }>(`/api/chat/${activeSessionId}`)
+      .then((data) => {
+        if (!cancelled) {
+          setMessages(data.messages);
+        }
+      })
+      .catch((err) => {
+        if (!cancelled) {
+          setError(err instanceof Error ? err.message : 'Failed to load chat');
+        }
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [activeSessionId]);
+
+  async function handleNewSession() {
+    try {
+      setError(null);
+      const session = await fetchJson<ChatSession>('/api/chat', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ relationship_id: relationshipId }),
+      });
+      setSessions((current) => [session, ...current]);
+      setActiveSessionId(session.id!);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to start a chat');
+    }
+  }
+
+  async function handleDeleteSession(sessionId: string) {
+    if (!confirm('Delete this chat?')) {
+      return;
+    }
+
+    try {
+      setError(null);
+      await fetchJson(`/api/chat/${sessionId}`, { method: 'DELETE' });
+      const remaining = sessions.filter((s) => s.id !== sessionId);
+      setSessions(remaining);
+      if (activeSessionId === sessionId) {
+        setActiveSessionId(remaining[0]?.id ?? null);
+      }
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to delete chat');
+    }
+  }
+
+  async function handleAsk(e: React.FormEvent) {
+    e.preventDefault();
+    const content = question.trim();
+    if (!content || pendingQuestion) {
+      return;
+    }
+
+    try {
+      setError(null);
+
+      // Start a session on the first question
+      let sessionId = activeSessionId;
+      if (!sessionId) {
+        const session = await fetchJson<ChatSession>('/api/chat', {
+          method: 'POST',
+          headers: { 'Content-Type': 'application/json' },
+          body: JSON.stringify({ relationship_id: relationshipId }),
+        });
+        setSessions((current) => [session, ...current]);
+        sessionId = session.id!;
+      }
+
+      setPendingQuestion(content);
+      setStreamingAnswer('');
+      setQuestion('');
+
+      const response = await fetch(`/api/chat/${sessionId}/messages`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json', Accept: 'text/event-stream' },
+        body: JSON.stringify({ content }),
+      });
+
+      // Errors before the model is called come back as plain JSON
+      if (!response.ok || !response.headers.get('content-type')?.includes('text/event-stream')) {
+        const data = await response.json().catch(() => null);
+        throw new Error(data?.error ?? 'Failed to ask');
+      }
+
+      let failure: string | null = null;
+      await readServerSentEvents(response, (event, data) => {
+        const payload = data as Record<string, unknown>;
+
+        switch (event) {
+          case 'token':
+            setStreamingAnswer((current) => current + (payload.text as string));
+            break;
+          case 'done': {
+            const session = payload.session as ChatSession;
+            setMessages((current) => [
+              ...current,
+              payload.user_message as ChatSessionMessage,
+              payload.assistant_message as ChatSessionMessage,
+            ]);
+            // Move the session to the top with its (possibly new) title
+            setSessions((current) => [session, ...current.filter((s) => s.id !== session.id)]);
+            break;
+          }
+          case 'error':
+            failure = (payload.error as string) ?? 'Failed to ask';
+            break;
+        }
+      });
+
+      if (failure) {
+        // Nothing was stored, so put the question back to try again
+        setQuestion(content);
+        throw new Error(failure);
+      }
+
+      // Only now switch to the session, so its (stale) turns don't load mid-answer
+      setActiveSessionId(sessionId);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to ask');
+    } finally {
+      setPendingQuestion(null);
+      setStreamingAnswer('');
+    }
+  }
+
+  return (
+    <div className="mb-6 p-4 border border-gray-300 rounded-lg bg-white">
+      <div className="flex items-center justify-between mb-3">
+        <h3 className="text-xl font-semibold">Ask about this relationship</h3>
+        <button type="button" onClick={handleNewSession} className="text-sm text-blue-600 hover:underline">
+          New chat
+        </button>
+      </div>
+
+      {/* Past sessions */}
+      {sessions.length > 0 && (
+        <div className="flex flex-wrap gap-2 mb-3">
+          {sessions.map((session) => (
+            <span
+              key={session.id}
+              className={`flex items-center gap-1 px-2 py-1 text-sm rounded-md border ${
+                session.id === activeSessionId ? 'border-blue-500 bg-blue-50' : 'border-gray-300'
+              }`}
+            >
+              <button type="button" onClick={() => setActiveSessionId(session.id!)} className="hover:underline">
+                {session.title || 'New chat'}
+              </button>
+              <button
+                type="button"
+                onClick={() => handleDeleteSession(session.id!)}
+                className="text-gray-400 hover:text-red-600"
+                aria-label="Delete chat"
+              >
+                ×
+              </button>
+            </span>
+          ))}
+        </div>
+      )}
+
+      {error && <p className="text-red-600 mb-2">{error}</p>}
+
+      {/* Turns of the open session, plus the one in progress */}
+      <div className="space-y-2 max-h-96 overflow-y-auto mb-3">
+        {messages.length === 0 && !pendingQuestion && (
+          <p className="text-gray-600 text-sm">
+            Ask things like &ldquo;Why did risk go up last week?&rdquo; or &ldquo;What should I bring up on Friday?&rdquo;
+          </p>
+        )}
+
+        {messages.map((message) => (
+          <div key={message.id} className={`flex ${message.role === 'user' ? 'justify-end' : 'justify-start'}`}>
+            <div
+              className={`max-w-[85%] px-3 py-2 rounded-lg whitespace-pre-wrap ${
+                message.role === 'user' ? 'bg-blue-600 text-white' : 'bg-gray-100 text-gray-800'
+              }`}
+            >
+              {message.content}
+            </div>
+          </div>
+        ))}
+
+        {pendingQuestion && (
+          <>
+            <div className="flex justify-end">
+              <div className="max-w-[85%] px-3 py-2 rounded-lg whitespace-pre-wrap bg-blue-600 text-white">
+                {pendingQuestion}
+              </div>
+            </div>
+            <div className="flex justify-start">
+              <div className="max-w-[85%] px-3 py-2 rounded-lg whitespace-pre-wrap bg-gray-100 text-gray-800">
+                {streamingAnswer || 'Thinking...'}
+              </div>
+            </div>
+          </>
+        )}
+      </div>
+
+      <form onSubmit={handleAsk} className="flex gap-2">
+        <input
+          type="text"
+          value={question}
+          onChange={(e) => setQuestion(e.target.value)}
+          placeholder="Ask a question"
+          className="flex-1 px-3 py-2 border border-gray-300 rounded-md"
+          aria-label="Question"
+        />
+        <button
+          type="submit"
+          disabled={pendingQuestion !== null || !question.trim()}
+          className="px-4 py-2 bg-purple-600 text-white rounded-md hover:bg-purple-700 disabled:bg-gray-400"
+        >
+          {pendingQuestion ? 'Asking...' : 'Ask'}
+        </button>
+      </form>
+    </div>
+  );
+}
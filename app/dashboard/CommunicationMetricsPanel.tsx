@@ -0,0 +1,234 @@
+/**
+ * Communication metrics for one relationship
+ *
+ * Shows the numbers from /api/metrics (see lib/communicationMetrics.ts) for
+ * a chosen window: message volume, who starts conversations, typical reply
+ * times each way, conversation length and silences, with a bar chart of
+ * messages over time split into mine and theirs. The same numbers go into
+ * the analysis prompt.
+ *
+ * Plain SVG, no chart library.
+ */
+
+'use client';
+
+import { useState, useEffect } from 'react';
+import type { CommunicationMetrics } from '@/lib/communicationMetrics';
+
+type CommunicationMetricsPanelProps = {
+  relationshipId: string;
+  // Changes whenever messages may have changed, to trigger a reload
+  refreshKey: number;
+};
+
+// Drawing area, in viewBox units
+const WIDTH = 600;
+const HEIGHT = 160;
+const PAD_LEFT = 36;
+const PAD_RIGHT = 12;
+const PAD_TOP = 10;
+const PAD_BOTTOM = 24;
+
+const ME_COLOR = '#2563eb';
+const THEM_COLOR = '#9ca3af';
+
+/**
+ * Fetch the metrics for a window
+ */
+async function fetchMetrics(relationshipId: string, window: string): Promise<CommunicationMetrics> {
+  const response = await fetch(`/api/metrics?relationship_id=${relationshipId}&window=${window}`);
+  const data = await response.json().catch(() => null);
+  if (!response.ok) {
+    throw new Error(data?.error ?? 'Failed to load metrics');
+  }
+  return data;
+}
+
+/**
+ * Format a duration in minutes for a stat tile
+ */
+function formatMinutes(minutes: number | null): string {
+  if (minutes === null) {
+    return '–';
+  }
+  if (minutes < 60) {
+    return `${Math.round(minutes)} min`;
+  }
+  if (minutes < 48 * 60) {
+    return `${Math.round((minutes / 60) * 10) / 10} h`;
+  }
+  return `${Math.round(minutes / (24 * 60))} days`;
+}
+
+function formatDay(iso: string): string {
+  return new Date(iso).toLocaleDateString(undefined, { month: 'short', day: 'numeric', timeZone: 'UTC' });
+}
+
+export default function CommunicationMetricsPanel({ relationshipId, refreshKey }: CommunicationMetricsPanelProps) {
+  const [metricsWindow, setMetricsWindow] = useState('90d');
+  const [metrics, setMetrics] = useState<CommunicationMetrics | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [hoveredBucket, setHoveredBucket] = useState<number | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+
+    fetchMetrics(relationshipId, metricsWindow)
+      .then((data) => {
+        if (!cancelled) {
+          setMetrics(data);
+          setError(null);
+        }
+      })
+      .catch((err) => {
+        if (!cancelled) {
+          setError(err instanceof Error ? err.message : 'Failed to load metrics');
+        }
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [relationshipId, metricsWindow, refreshKey]);
+
+  const series = metrics?.series ?? [];
+  const maxCount = Math.max(1, ...series.map((b) => b.from_me + b.from_them));
+  const slot = (WIDTH - PAD_LEFT - PAD_RIGHT) / Math.max(1, series.length);
+  const barWidth = Math.max(1, slot * 0.8);
+  const y = (count: number) => PAD_TOP + (1 - count / maxCount) * (HEIGHT - PAD_TOP - PAD_BOTTOM);
+  const baseline = y(0);
+  const hovered = hoveredBucket !== null ? series[hoveredBucket] : null;
+
+  const tiles = metrics
+    ? [
+        {
+          label: 'Messages',
+          value: String(metrics.volume.total),
+          detail: `me ${metrics.volume.from_me} · them ${metrics.volume.from_them} · ${metrics.volume.per_day}/day`,
+        },
+        {
+          label: 'I start',
+          value: metrics.initiation.my_share === null ? '–' : `${Math.round(metrics.initiation.my_share * 100)}%`,
+          detail: `of ${metrics.initiation.conversations} conversations`,
+        },
+        {
+          label: 'My replies',
+          value: formatMinutes(metrics.response_latency.my_median_minutes),
+          detail: `median of ${metrics.response_latency.my_replies}`,
+        },
+        {
+          label: 'Their replies',
+          value: formatMinutes(metrics.response_latency.their_median_minutes),
+          detail: `median of ${metrics.response_latency.their_replies}`,
+        },
+        {
+          label: 'Conversation length',
+          value: metrics.conversation_length.median_messages === null ? '–' : `${metrics.conversation_length.median_messages} msgs`,
+          detail: `median · ${formatMinutes(metrics.conversation_length.median_minutes)}`,
+        },
+        {
+          label: 'Longest silence',
+          value: formatMinutes(metrics.silence.longest_hours === null ? null : metrics.silence.longest_hours * 60),
+          detail: `now ${formatMinutes(metrics.silence.current_hours === null ? null : metrics.silence.current_hours * 60)} since last`,
+        },
+      ]
+    : [];
+
+  return (
+    <div className="mb-6 p-4 border border-gray-300 rounded-lg bg-white">
+      <div className="flex items-center justify-between mb-3">
+        <h3 className="text-xl font-semibold">Communication</h3>
+        <select
+          value={metricsWindow}
+          onChange={(e) => setMetricsWindow(e.target.value)}
+          className="px-2 py-1 text-sm border border-gray-300 rounded-md"
+          aria-label="Metrics window"
+        >
+          <option value="all">All time</option>
+          <option value="90d">Last 90 days</option>
+          <option value="30d">Last 30 days</option>
+          <option value="7d">Last 7 days</option>
+        </select>
+      </div>
+
+      {error && <p className="text-red-600 mb-2">{error}</p>}
+
+      {metrics && metrics.volume.total === 0 && (
+        <p className="text-gray-600 text-sm">No messages in this window.</p>
+      )}
+
+      {metrics && metrics.volume.total > 0 && (
+        <>
+          <div className="grid grid-cols-2 md:grid-cols-3 gap-3 mb-4">
+            {tiles.map((tile) => (
+              <div key={tile.label} className="p-2 bg-gray-50 rounded-md">
+                <p className="text-xs text-gray-500">{tile.label}</p>
+                <p className="text-lg font-semibold">{tile.value}</p>
+                <p className="text-xs text-gray-500">{tile.detail}</p>
+              </div>
+            ))}
+          </div>
+
+          {/* Legend */}
+          <div className="mb-1 flex gap-4 text-xs text-gray-600">
+            <span className="flex items-center gap-1">
+              <span className="inline-block h-2 w-3" style={{ backgroundColor: ME_COLOR }} /> Me
+            </span>
+            <span className="flex items-center gap-1">
+              <span className="inline-block h-2 w-3" style={{ backgroundColor: THEM_COLOR }} /> Them
+            </span>
+          </div>
+
+          <svg
+            viewBox={`0 0 ${WIDTH} ${HEIGHT}`}
+            className="w-full h-auto"
+            role="img"
+            aria-label={`Messages per ${metrics.bucket_days === 1 ? 'day' : `${metrics.bucket_days} days`}`}
+            onMouseLeave={() => setHoveredBucket(null)}
+          >
+            <line x1={PAD_LEFT} x2={WIDTH - PAD_RIGHT} y1={baseline} y2={baseline} stroke="#e5e7eb" />
+            <text x={PAD_LEFT - 6} y={y(maxCount) + 3} textAnchor="end" fontSize="10" fill="#6b7280">
+              {maxCount}
+            </text>
+            <text x={PAD_LEFT - 6} y={baseline + 3} textAnchor="end" fontSize="10" fill="#6b7280">
+              0
+            </text>
+
+            {/* One stacked bar per bucket: mine at the bottom, theirs on top */}
+            {series.map((bucket, i) => {
+              const left = PAD_LEFT + i * slot + (slot - barWidth) / 2;
+              const mineTop = y(bucket.from_me);
+              const totalTop = y(bucket.from_me + bucket.from_them);
+              return (
+                <g key={bucket.start} onMouseEnter={() => setHoveredBucket(i)}>
+                  {/* Full-height hit area so empty buckets can be hovered too */}
+                  <rect x={PAD_LEFT + i * slot} y={PAD_TOP} width={slot} height={baseline - PAD_TOP} fill="transparent" />
+                  <rect x={left} y={mineTop} width={barWidth} height={baseline - mineTop} fill={ME_COLOR} />
+                  <rect x={left} y={totalTop} width={barWidth} height={mineTop - totalTop} fill={THEM_COLOR} />
+                </g>
+              );
+            })}
+
+            {/* Time axis */}
+            {series.length > 0 && (
+              <>
+                <text x={PAD_LEFT} y={HEIGHT - 6} fontSize="10" fill="#6b7280">
+                  {formatDay(series[0].start)}
+                </text>
+                <text x={WIDTH - PAD_RIGHT} y={HEIGHT - 6} textAnchor="end" fontSize="10" fill="#6b7280">
+                  {formatDay(series[series.length - 1].start)}
+                </text>
+              </>
+            )}
+          </svg>
+
+          <p className="min-h-5 text-xs text-gray-600">
+            {hovered
+              ? `${formatDay(hovered.start)}${metrics.bucket_days === 1 ? '' : ` (${metrics.bucket_days} days)`}: me ${hovered.from_me}, them ${hovered.from_them}`
+              : `Messages per ${metrics.bucket_days === 1 ? 'day' : `${metrics.bucket_days} days`}. A conversation ends after ${metrics.conversation_gap_hours} hours of silence.`}
+          </p>
+        </>
+      )}
+    </div>
+  );
+}
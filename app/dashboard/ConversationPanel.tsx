@@ -0,0 +1,172 @@
+/**
+ * Conversation panel for the dashboard detail view
+ *
+ * Shows the chat messages ingested for a relationship as ME/THEM bubbles,
+ * oldest at the top, the same way /api/analyze sees them. Messages are
+ * loaded newest-first from GET /api/messages, one page at a time, and the
+ * "Load older messages" button follows the API's cursor.
+ */
+
+'use client';
+
+import { useState, useEffect } from 'react';
+import { Message } from '@/lib/types';
+
+// How many messages to load per page
+const PAGE_SIZE = 50;
+
+type ConversationPanelProps = {
+  relationshipId: string;
+  // Changing this number reloads the conversation (e.g. after new messages are sent)
+  refreshKey?: number;
+};
+
+/**
+ * Fetch one page of messages for a relationship
+ *
+ * @param relationshipId - Relationship to load messages for
+ * @param cursor - Cursor from the previous page, or null for the newest page
+ */
+async function fetchMessagesPage(relationshipId: string, cursor: string | null) {
+  const params = new URLSearchParams({
+    relationship_id: relationshipId,
+    limit: String(PAGE_SIZE),
+  });
+  if (cursor) {
+    params.set('cursor', cursor);
+  }
+
+  const response = await fetch(`/api/messages?${params.toString()}`);
+  if (!response.ok) {
+    throw new Error('Failed to load messages');
+  }
+
+  return (await response.json()) as { messages: Message[]; next_cursor: string | null };
+}
+
+export default function ConversationPanel({ relationshipId, refreshKey = 0 }: ConversationPanelProps) {
+  // Messages loaded so far, newest first (as returned by the API)
+  const [messages, setMessages] = useState<Message[]>([]);
+
+  // Cursor for the next (older) page, or null if there are no more
+  const [nextCursor, setNextCursor] = useState<string | null>(null);
+
+  // State to track loading and errors
+  const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  /**
+   * Load the newest page whenever the relationship changes or a refresh is requested
+   */
+  useEffect(() => {
+    let cancelled = false;
+
+    async function loadNewest() {
+      try {
+        setIsLoading(true);
+        setError(null);
+
+        const page = await fetchMessagesPage(relationshipId, null);
+        if (!cancelled) {
+          setMessages(page.messages);
+          setNextCursor(page.next_cursor);
+        }
+      } catch (err) {
+        if (!cancelled) {
+          setError(err instanceof Error ? err.message : 'Failed to load messages');
+        }
+      } finally {
+        if (!cancelled) {
+          setIsLoading(false);
+        }
+      }
+    }
+
+    loadNewest();
+
+    // Ignore responses for a relationship that is no longer selected
+    return () => {
+      cancelled = true;
+    };
+  }, [relationshipId, refreshKey]);
+
+  /**
+   * Handle clicking "Load older messages"
+   */
+  async function handleLoadOlder() {
+    if (!nextCursor) {
+      return;
+    }
+
+    try {
+      setIsLoading(true);
+      setError(null);
+
+      const page = await fetchMessagesPage(relationshipId, nextCursor);
+      setMessages((prev) => [...prev, ...page.messages]);
+      setNextCursor(page.next_cursor);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to load messages');
+    } finally {
+      setIsLoading(false);
+    }
+  }
+
+  // Show oldest first, like a chat app
+  const chronological = [...messages].reverse();
+
+  return (
+    <div className="mb-6 p-4 border border-gray-300 rounded-lg bg-white">
+      <h3 className="text-xl font-semibold mb-3">Conversation</h3>
+
+      {error && <p className="text-red-600 mb-2">{error}</p>}
+
+      {/* Load older messages (they appear above the current ones) */}
+      {nextCursor && (
+        <button
+          type="button"
+          onClick={handleLoadOlder}
+          disabled={isLoading}
+          className="mb-3 text-sm text-blue-600 hover:underline disabled:text-gray-400"
+        >
+          {isLoading ? 'Loading...' : 'Load older messages'}
+        </button>
+      )}
+
+      {isLoading && messages.length === 0 && <p className="text-gray-600">Loading messages...</p>}
+
+      {!isLoading && !error && messages.length === 0 && (
+        <p className="text-gray-600">No messages ingested for this relationship yet.</p>
+      )}
+
+      {messages.length > 0 && (
+        <div className="space-y-2 max-h-96 overflow-y-auto">
+          {chronological.map((message) => (
+            <div
+              key={message.id}
+              className={`flex ${message.from_me ? 'justify-end' : 'justify-start'}`}
+            >
+              <div
+                className={`max-w-[75%] px-3 py-2 rounded-lg ${
+                  message.from_me ? 'bg-blue-600 text-white' : 'bg-gray-100 text-gray-800'
+                }`}
+              >
+                {/* ME/THEM label, matching the format analysis uses */}
+                <p className="text-xs font-semibold opacity-75">
+                  {message.from_me ? 'ME' : 'THEM'}
+                  {message.platform && ` · ${message.platform}`}
+                </p>
+                <p className="whitespace-pre-wrap">{message.text}</p>
+                {message.timestamp && (
+                  <p className="text-xs opacity-75 mt-1">
+                    {new Date(message.timestamp).toLocaleString()}
+                  </p>
+                )}
+              </div>
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
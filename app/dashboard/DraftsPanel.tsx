@@ -0,0 +1,223 @@
+/**
+ * Message drafts for an insight
+ *
+ * Generates alternatives to the insight's suggested message in the chosen
+ * tones and lengths, lets the user refine any of them with an instruction,
+ * and records the one they sent as a message (see lib/drafts.ts).
+ */
+
+'use client';
+
+import { useState, useEffect } from 'react';
+import { DraftLength, DraftTone, MessageDraft } from '@/lib/types';
+import { DRAFT_LENGTHS, DRAFT_TONES } from '@/lib/prompts/drafts';
+
+type DraftsPanelProps = {
+  insightId: string;
+  // Called after a draft is sent, since that adds a message
+  onSent: () => void;
+};
+
+const TONES = Object.keys(DRAFT_TONES) as DraftTone[];
+const LENGTHS = Object.keys(DRAFT_LENGTHS) as DraftLength[];
+
+/**
+ * POST JSON and return the parsed response, throwing with the API's message on failure
+ */
+async function postJson<T>(url: string, body: unknown): Promise<T> {
+  const response = await fetch(url, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify(body),
+  });
+  const data = await response.json().catch(() => null);
+  if (!response.ok) {
+    throw new Error(data?.error ?? 'Request failed');
+  }
+  return data;
+}
+
+export default function DraftsPanel({ insightId, onSent }: DraftsPanelProps) {
+  const [drafts, setDrafts] = useState<MessageDraft[]>([]);
+  const [error, setError] = useState<string | null>(null);
+
+  // What to generate
+  const [tones, setTones] = useState<DraftTone[]>(TONES);
+  const [lengths, setLengths] = useState<DraftLength[]>(['short', 'medium']);
+  const [generating, setGenerating] = useState(false);
+
+  // Refinement instruction per draft, and the draft being refined or sent
+  const [instructions, setInstructions] = useState<Record<string, string>>({});
+  const [busyDraftId, setBusyDraftId] = useState<string | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+
+    fetch(`/api/drafts?insight_id=${insightId}`)
+      .then(async (response) => {
+        const data = await response.json().catch(() => null);
+        if (!response.ok) {
+          throw new Error(data?.error ?? 'Failed to load drafts');
+        }
+        if (!cancelled) {
+          setDrafts(data);
+        }
+      })
+      .catch((err) => {
+        if (!cancelled) {
+          setError(err instanceof Error ? err.message : 'Failed to load drafts');
+        }
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [insightId]);
+
+  function toggle<T>(list: T[], value: T): T[] {
+    return list.includes(value) ? list.filter((v) => v !== value) : [...list, value];
+  }
+
+  async function handleGenerate() {
+    try {
+      setGenerating(true);
+      setError(null);
+      const created = await postJson<MessageDraft[]>('/api/drafts', { insight_id: insightId, tones, lengths });
+      setDrafts((current) => [...created, ...current]);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to generate drafts');
+    } finally {
+      setGenerating(false);
+    }
+  }
+
+  async function handleRefine(draft: MessageDraft) {
+    const instruction = instructions[draft.id!]?.trim();
+    if (!instruction) {
+      return;
+    }
+
+    try {
+      setBusyDraftId(draft.id!);
+      setError(null);
+      const refined = await postJson<MessageDraft>(`/api/drafts/${draft.id}/refine`, { instruction });
+      setDrafts((current) => [refined, ...current]);
+      setInstructions((current) => ({ ...current, [draft.id!]: '' }));
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to refine draft');
+    } finally {
+      setBusyDraftId(null);
+    }
+  }
+
+  async function handleSend(draft: MessageDraft) {
+    try {
+      setBusyDraftId(draft.id!);
+      setError(null);
+      const { draft: sent } = await postJson<{ draft: MessageDraft }>(`/api/drafts/${draft.id}/send`, {});
+      setDrafts((current) => current.map((d) => (d.id === sent.id ? sent : d)));
+      onSent();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to record sent message');
+    } finally {
+      setBusyDraftId(null);
+    }
+  }
+
+  const sentDraft = drafts.find((d) => d.sent_at);
+
+  return (
+    <div className="mt-3 border-t border-gray-200 pt-3">
+      <p className="font-semibold text-gray-800 mb-2">Drafts:</p>
+
+      {/* Tones and lengths to generate */}
+      <div className="flex flex-wrap gap-x-4 gap-y-1 text-sm text-gray-700 mb-2">
+        {TONES.map((tone) => (
+          <label key={tone} className="flex items-center gap-1" title={DRAFT_TONES[tone]}>
+            <input
+              type="checkbox"
+              checked={tones.includes(tone)}
+              onChange={() => setTones((current) => toggle(current, tone))}
+            />
+            {tone}
+          </label>
+        ))}
+        <span className="text-gray-300">|</span>
+        {LENGTHS.map((length) => (
+          <label key={length} className="flex items-center gap-1" title={DRAFT_LENGTHS[length]}>
+            <input
+              type="checkbox"
+              checked={lengths.includes(length)}
+              onChange={() => setLengths((current) => toggle(current, length))}
+            />
+            {length}
+          </label>
+        ))}
+      </div>
+
+      <button
+        type="button"
+        onClick={handleGenerate}
+        disabled={generating || tones.length === 0 || lengths.length === 0}
+        className="px-3 py-1 text-sm bg-purple-600 text-white rounded-md hover:bg-purple-700 disabled:bg-gray-400"
+      >
+        {generating ? 'Writing...' : 'Write drafts'}
+      </button>
+
+      {error && <p className="mt-2 text-sm text-red-600">{error}</p>}
+
+      {drafts.length > 0 && (
+        <ul className="mt-3 space-y-3">
+          {drafts.map((draft) => (
+            <li
+              key={draft.id}
+              className={`p-3 border rounded-md ${draft.sent_at ? 'border-green-400 bg-green-50' : 'border-gray-200'}`}
+            >
+              <p className="text-xs text-gray-500 mb-1">
+                {draft.tone} · {draft.length}
+                {draft.instruction && <> · refined: &ldquo;{draft.instruction}&rdquo;</>}
+                {draft.sent_at && <> · sent {new Date(draft.sent_at).toLocaleString()}</>}
+              </p>
+              <p className="text-gray-800 whitespace-pre-wrap">{draft.text}</p>
+
+              {!sentDraft && (
+                <div className="mt-2 flex flex-col gap-2 sm:flex-row">
+                  <input
+                    type="text"
+                    value={instructions[draft.id!] ?? ''}
+                    onChange={(e) => setInstructions((current) => ({ ...current, [draft.id!]: e.target.value }))}
+                    onKeyDown={(e) => {
+                      if (e.key === 'Enter') {
+                        e.preventDefault();
+                        handleRefine(draft);
+                      }
+                    }}
+                    placeholder='e.g. "shorter" or "mention the concert"'
+                    className="flex-1 px-2 py-1 text-sm border border-gray-300 rounded-md"
+                    aria-label="Refinement instruction"
+                  />
+                  <button
+                    type="button"
+                    onClick={() => handleRefine(draft)}
+                    disabled={busyDraftId !== null || !instructions[draft.id!]?.trim()}
+                    className="px-3 py-1 text-sm bg-gray-200 text-gray-800 rounded-md hover:bg-gray-300 disabled:opacity-50"
+                  >
+                    Refine
+                  </button>
+                  <button
+                    type="button"
+                    onClick={() => handleSend(draft)}
+                    disabled={busyDraftId !== null}
+                    className="px-3 py-1 text-sm bg-green-600 text-white rounded-md hover:bg-green-700 disabled:bg-gray-400"
+                  >
+                    I sent this
+                  </button>
+                </div>
+              )}
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+}
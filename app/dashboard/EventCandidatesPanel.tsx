@@ -0,0 +1,187 @@
+/**
+ * Events proposed from the relationship's chat messages, waiting for review
+ *
+ * New messages are read for events when they're ingested (see
+ * lib/eventExtraction.ts). Each proposal shows the messages it came from;
+ * "Add event" logs it (after optional edits) and "Dismiss" rejects it.
+ * Renders nothing when nothing is waiting.
+ */
+
+'use client';
+
+import { useState, useEffect } from 'react';
+import { EventCandidate } from '@/lib/types';
+
+type EventCandidatesPanelProps = {
+  relationshipId: string;
+  // Changes whenever new messages may have been ingested, to trigger a reload
+  refreshKey: number;
+  onAccepted: () => void;
+};
+
+/**
+ * Fetch the relationship's pending candidates
+ */
+async function fetchPendingCandidates(relationshipId: string): Promise<EventCandidate[]> {
+  const response = await fetch(`/api/event-candidates?relationship_id=${relationshipId}`);
+  if (!response.ok) {
+    const data = await response.json().catch(() => null);
+    throw new Error(data?.error ?? 'Failed to load suggested events');
+  }
+  return response.json();
+}
+
+export default function EventCandidatesPanel({ relationshipId, refreshKey, onAccepted }: EventCandidatesPanelProps) {
+  const [candidates, setCandidates] = useState<EventCandidate[]>([]);
+  const [error, setError] = useState<string | null>(null);
+  const [busyId, setBusyId] = useState<string | null>(null);
+
+  // The candidate being edited before it's accepted
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [editType, setEditType] = useState('');
+  const [editDescription, setEditDescription] = useState('');
+
+  useEffect(() => {
+    let cancelled = false;
+
+    fetchPendingCandidates(relationshipId)
+      .then((data) => {
+        if (!cancelled) {
+          setCandidates(data);
+          setError(null);
+        }
+      })
+      .catch((err) => {
+        if (!cancelled) {
+          setError(err instanceof Error ? err.message : 'Failed to load suggested events');
+        }
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [relationshipId, refreshKey]);
+
+  async function review(candidate: EventCandidate, action: 'accept' | 'reject') {
+    try {
+      setBusyId(candidate.id!);
+      setError(null);
+
+      const edits =
+        action === 'accept' && editingId === candidate.id
+          ? { event_type: editType.trim() || undefined, description: editDescription.trim() || undefined }
+          : {};
+
+      const response = await fetch(`/api/event-candidates/${candidate.id}/${action}`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(edits),
+      });
+      const data = await response.json().catch(() => null);
+      if (!response.ok) {
+        throw new Error(data?.error ?? `Failed to ${action} event`);
+      }
+
+      setCandidates((current) => current.filter((c) => c.id !== candidate.id));
+      setEditingId(null);
+      if (action === 'accept') {
+        onAccepted();
+      }
+    } catch (err) {
+      setError(err instanceof Error ? err.message : `Failed to ${action} event`);
+    } finally {
+      setBusyId(null);
+    }
+  }
+
+  function startEditing(candidate: EventCandidate) {
+    setEditingId(candidate.id!);
+    setEditType(candidate.event_type);
+    setEditDescription(candidate.description);
+  }
+
+  if (candidates.length === 0 && !error) {
+    return null;
+  }
+
+  return (
+    <div className="mb-6 p-4 border border-blue-300 rounded-lg bg-blue-50">
+      <h3 className="text-xl font-semibold mb-1">Suggested events</h3>
+      <p className="text-sm text-gray-600 mb-3">Found in your messages. Add the ones that happened or are planned.</p>
+
+      {error && <p className="text-red-600 mb-2">{error}</p>}
+
+      <ul className="space-y-3">
+        {candidates.map((candidate) => (
+          <li key={candidate.id} className="p-3 bg-white border border-gray-200 rounded-md">
+            {editingId === candidate.id ? (
+              <div className="space-y-2 mb-2">
+                <input
+                  type="text"
+                  value={editType}
+                  onChange={(e) => setEditType(e.target.value)}
+                  className="w-full px-3 py-1 border border-gray-300 rounded-md"
+                  aria-label="Event type"
+                />
+                <textarea
+                  value={editDescription}
+                  onChange={(e) => setEditDescription(e.target.value)}
+                  rows={2}
+                  className="w-full px-3 py-1 border border-gray-300 rounded-md"
+                  aria-label="Description"
+                />
+              </div>
+            ) : (
+              <>
+                <p className="font-semibold text-gray-800">{candidate.event_type}</p>
+                <p className="text-gray-700">{candidate.description}</p>
+              </>
+            )}
+            <p className="text-sm text-gray-500">
+              {candidate.occurred_at ? new Date(candidate.occurred_at).toLocaleString() : 'Date not mentioned'}
+            </p>
+
+            {/* The messages it was found in */}
+            {candidate.source_messages && candidate.source_messages.length > 0 && (
+              <ul className="mt-2 pl-3 border-l-2 border-gray-200 text-sm text-gray-600 space-y-1">
+                {candidate.source_messages.map((message) => (
+                  <li key={message.id}>
+                    <span className="font-medium">{message.from_me ? 'Me' : 'Them'}:</span> {message.text}
+                  </li>
+                ))}
+              </ul>
+            )}
+
+            <div className="flex gap-3 mt-2 text-sm">
+              <button
+                type="button"
+                onClick={() => review(candidate, 'accept')}
+                disabled={busyId !== null}
+                className="px-3 py-1 bg-blue-600 text-white rounded-md hover:bg-blue-700 disabled:bg-gray-400"
+              >
+                Add event
+              </button>
+              {editingId === candidate.id ? (
+                <button type="button" onClick={() => setEditingId(null)} className="text-gray-600 hover:underline">
+                  Cancel edit
+                </button>
+              ) : (
+                <button type="button" onClick={() => startEditing(candidate)} className="text-blue-600 hover:underline">
+                  Edit
+                </button>
+              )}
+              <button
+                type="button"
+                onClick={() => review(candidate, 'reject')}
+                disabled={busyId !== null}
+                className="text-red-600 hover:underline disabled:text-gray-400"
+              >
+                Dismiss
+              </button>
+            </div>
+          </li>
+        ))}
+      </ul>
+    </div>
+  );
+}
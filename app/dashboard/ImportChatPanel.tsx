@@ -0,0 +1,371 @@
+/**
+ * Chat import panel for the dashboard detail view
+ *
+ * Uploads a chat export (WhatsApp, Telegram, iMessage or CSV) to
+ * /api/import in two steps: first a preview, which lists the chat's
+ * participants and its first messages, then again with the participant the
+ * user picked as "me" to actually store the messages.
+ *
+ * When the server needs a choice before it can parse the file (which chat
+ * in a multi-chat export, or how CSV columns map to fields), the panel
+ * shows the options it returned and the user reads the file again.
+ */
+
+'use client';
+
+import { useState } from 'react';
+
+// Platforms supported by /api/import (kept here so lib/importers, which
+// pulls in sql.js, stays out of the browser bundle)
+const PLATFORMS = [
+  { value: 'whatsapp', label: 'WhatsApp (.txt or .zip)', accept: '.txt,.zip' },
+  { value: 'telegram', label: 'Telegram (result.json)', accept: '.json' },
+  { value: 'imessage', label: 'iMessage (chat.db)', accept: '.db,.sqlite' },
+  { value: 'csv', label: 'CSV spreadsheet', accept: '.csv,.tsv,.txt' },
+];
+
+// CSV fields the user can map to columns
+const CSV_FIELDS = [
+  { key: 'timestamp', label: 'Timestamp', required: true },
+  { key: 'text', label: 'Text', required: true },
+  { key: 'sender', label: 'Sender', required: false },
+  { key: 'from_me', label: 'From me (true/false)', required: false },
+  { key: 'external_id', label: 'Message id', required: false },
+];
+
+type PreviewMessage = {
+  sender: string;
+  text: string;
+  timestamp: string | null;
+};
+
+type ChatChoice = {
+  id: string;
+  name: string;
+  message_count: number;
+};
+
+type ImportChatPanelProps = {
+  relationshipId: string;
+  // Called after messages were stored, so the conversation view can reload
+  onImported?: () => void;
+};
+
+export default function ImportChatPanel({ relationshipId, onImported }: ImportChatPanelProps) {
+  // The selected platform and export file
+  const [platform, setPlatform] = useState('whatsapp');
+  const [file, setFile] = useState<File | null>(null);
+
+  // Result of the preview step
+  const [preview, setPreview] = useState<PreviewMessage[]>([]);
+  const [participants, setParticipants] = useState<string[]>([]);
+  const [needsMe, setNeedsMe] = useState(true);
+  const [me, setMe] = useState('');
+
+  // Choices the server asked for before it could parse the file
+  const [chatChoices, setChatChoices] = useState<ChatChoice[]>([]);
+  const [chatId, setChatId] = useState('');
+  const [csvHeaders, setCsvHeaders] = useState<string[]>([]);
+  const [columns, setColumns] = useState<Record<string, string>>({});
+
+  // Date order override for ambiguous exports ('' lets the server detect it)
+  const [dateOrder, setDateOrder] = useState('');
+
+  // State to track the request and show results
+  const [isUploading, setIsUploading] = useState(false);
+  const [status, setStatus] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const platformInfo = PLATFORMS.find((p) => p.value === platform) ?? PLATFORMS[0];
+  const hasPreview = preview.length > 0;
+
+  /**
+   * Forget everything learned from the previous file
+   */
+  function resetPreview() {
+    setPreview([]);
+    setParticipants([]);
+    setChatChoices([]);
+    setChatId('');
+    setCsvHeaders([]);
+    setColumns({});
+    setStatus(null);
+    setError(null);
+  }
+
+  /**
+   * Post the file to /api/import: a dry run for the preview, or the real
+   * import with the chosen participant (if the platform needs one).
+   *
+   * Returns the parsed response; if the server asked for a choice, the
+   * options are stored in state and null is returned.
+   */
+  async function uploadExport(commit: boolean, participant: string | null) {
+    if (!file) {
+      return null;
+    }
+
+    const form = new FormData();
+    form.set('file', file);
+    form.set('relationship_id', relationshipId);
+    form.set('platform', platform);
+    // The export's times are local to the device; assume it's in the browser's time zone
+    form.set('tz_offset_minutes', String(new Date().getTimezoneOffset()));
+    if (dateOrder) {
+      form.set('date_order', dateOrder);
+    }
+    if (chatId) {
+      form.set('chat_id', chatId);
+    }
+    if (platform === 'csv' && Object.keys(columns).length > 0) {
+      // Only send the fields that were mapped
+      const mapped = Object.fromEntries(Object.entries(columns).filter(([, header]) => header));
+      form.set('columns', JSON.stringify(mapped));
+    }
+    if (participant) {
+      form.set('me', participant);
+    }
+    if (!commit) {
+      form.set('dry_run', 'true');
+    }
+
+    const response = await fetch('/api/import', {
+      method: 'POST',
+      body: form,
+    });
+
+    const data = await response.json().catch(() => null);
+
+    if (response.status === 400 && data?.field === 'chat_id') {
+      setChatChoices(data.choices);
+      setChatId(data.choices[0]?.id ?? '');
+      setStatus(data.error);
+      return null;
+    }
+
+    if (response.status === 400 && data?.field === 'columns') {
+      setCsvHeaders(data.choices);
+      setStatus(data.error);
+      return null;
+    }
+
+    if (!response.ok) {
+      throw new Error(data?.error ?? 'Import failed');
+    }
+    return data;
+  }
+
+  /**
+   * Step 1: preview the file
+   */
+  async function handlePreview(e: React.FormEvent) {
+    e.preventDefault();
+
+    try {
+      setIsUploading(true);
+      setError(null);
+      setStatus(null);
+
+      const data = await uploadExport(false, null);
+      if (!data) {
+        return;
+      }
+
+      setPreview(data.preview);
+      setParticipants(data.participants);
+      setNeedsMe(data.needs_me);
+      setMe(data.needs_me ? data.participants[0] ?? '' : '');
+      if (data.columns) {
+        setCsvHeaders(data.columns);
+        setColumns(data.column_mapping ?? {});
+      }
+      setStatus(
+        data.needs_me
+          ? `Found ${data.total} messages. Pick which participant is you.`
+          : `Found ${data.total} messages.`
+      );
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Import failed');
+    } finally {
+      setIsUploading(false);
+    }
+  }
+
+  /**
+   * Step 2: import the messages with the chosen participant as "me"
+   */
+  async function handleImport() {
+    try {
+      setIsUploading(true);
+      setError(null);
+
+      const data = await uploadExport(true, needsMe ? me : null);
+      if (!data) {
+        return;
+      }
+
+      const suggested = data.event_candidates > 0 ? ` ${data.event_candidates} events suggested for review.` : '';
+      setStatus(`Imported ${data.inserted} new messages (${data.skipped} already stored).${suggested}`);
+      setPreview([]);
+      setParticipants([]);
+      onImported?.();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Import failed');
+    } finally {
+      setIsUploading(false);
+    }
+  }
+
+  return (
+    <div className="mb-6 p-4 border border-gray-300 rounded-lg bg-white">
+      <h3 className="text-xl font-semibold mb-3">Import Chat</h3>
+
+      <form onSubmit={handlePreview} className="space-y-3">
+        {/* Which app the export comes from */}
+        <label className="block text-sm text-gray-700">
+          Source
+          <select
+            value={platform}
+            onChange={(e) => {
+              setPlatform(e.target.value);
+              setFile(null);
+              resetPreview();
+            }}
+            className="ml-2 px-2 py-1 border border-gray-300 rounded-md"
+          >
+            {PLATFORMS.map((p) => (
+              <option key={p.value} value={p.value}>
+                {p.label}
+              </option>
+            ))}
+          </select>
+        </label>
+
+        {/* Export file; the key resets the input when the platform changes */}
+        <input
+          key={platform}
+          type="file"
+          accept={platformInfo.accept}
+          onChange={(e) => {
+            setFile(e.target.files?.[0] ?? null);
+            resetPreview();
+          }}
+          className="block"
+        />
+
+        {/* Date order override for exports where it can't be detected */}
+        {(platform === 'whatsapp' || platform === 'csv') && (
+          <label className="block text-sm text-gray-700">
+            Date format
+            <select
+              value={dateOrder}
+              onChange={(e) => setDateOrder(e.target.value)}
+              className="ml-2 px-2 py-1 border border-gray-300 rounded-md"
+            >
+              <option value="">Detect automatically</option>
+              <option value="DMY">Day first (31/12/21)</option>
+              <option value="MDY">Month first (12/31/21)</option>
+            </select>
+          </label>
+        )}
+
+        {/* Chat picker for exports that contain several chats */}
+        {chatChoices.length > 0 && (
+          <label className="block text-sm text-gray-700">
+            Chat
+            <select
+              value={chatId}
+              onChange={(e) => setChatId(e.target.value)}
+              className="ml-2 px-2 py-1 border border-gray-300 rounded-md"
+            >
+              {chatChoices.map((chat) => (
+                <option key={chat.id} value={chat.id}>
+                  {chat.name} ({chat.message_count} messages)
+                </option>
+              ))}
+            </select>
+          </label>
+        )}
+
+        {/* CSV column mapping */}
+        {platform === 'csv' && csvHeaders.length > 0 && (
+          <div className="grid grid-cols-1 gap-2 sm:grid-cols-2">
+            {CSV_FIELDS.map((field) => (
+              <label key={field.key} className="text-sm text-gray-700">
+                {field.label}
+                {field.required && ' *'}
+                <select
+                  value={columns[field.key] ?? ''}
+                  onChange={(e) => setColumns({ ...columns, [field.key]: e.target.value })}
+                  className="ml-2 px-2 py-1 border border-gray-300 rounded-md"
+                >
+                  <option value="">(none)</option>
+                  {csvHeaders.map((header) => (
+                    <option key={header} value={header}>
+                      {header}
+                    </option>
+                  ))}
+                </select>
+              </label>
+            ))}
+          </div>
+        )}
+
+        <button
+          type="submit"
+          disabled={!file || isUploading}
+          className="px-4 py-2 bg-gray-200 text-gray-800 rounded-md hover:bg-gray-300 disabled:text-gray-400"
+        >
+          {isUploading && !hasPreview ? 'Reading...' : hasPreview ? 'Read Again' : 'Read Chat'}
+        </button>
+      </form>
+
+      {/* Preview of the first messages, shown after the file was read */}
+      {hasPreview && (
+        <ul className="mt-3 max-h-48 overflow-y-auto border border-gray-200 rounded-md divide-y text-sm">
+          {preview.map((message, index) => (
+            <li key={index} className="px-2 py-1">
+              <span className="text-gray-500">
+                {message.timestamp ? new Date(message.timestamp).toLocaleString() : 'no date'}
+              </span>{' '}
+              <span className="font-medium">{message.sender}:</span> {message.text}
+            </li>
+          ))}
+        </ul>
+      )}
+
+      {/* Participant picker and import button */}
+      {hasPreview && (
+        <div className="mt-3 flex flex-col gap-2 sm:flex-row sm:items-center">
+          {needsMe && (
+            <label className="text-sm text-gray-700">
+              Which one is you?
+              <select
+                value={me}
+                onChange={(e) => setMe(e.target.value)}
+                className="ml-2 px-2 py-1 border border-gray-300 rounded-md"
+              >
+                {participants.map((name) => (
+                  <option key={name} value={name}>
+                    {name}
+                  </option>
+                ))}
+              </select>
+            </label>
+          )}
+          <button
+            type="button"
+            onClick={handleImport}
+            disabled={(needsMe && !me) || isUploading}
+            className="px-4 py-2 bg-blue-600 text-white rounded-md hover:bg-blue-700 disabled:bg-gray-400"
+          >
+            {isUploading ? 'Importing...' : 'Import Messages'}
+          </button>
+        </div>
+      )}
+
+      {status && <p className="mt-2 text-sm text-gray-600">{status}</p>}
+      {error && <p className="mt-2 text-sm text-red-600">{error}</p>}
+    </div>
+  );
+}
@@ -0,0 +1,180 @@
+/**
+ * Risk and growth trend chart for one relationship
+ *
+ * Plots risk_score and growth_score of every past insight over time as two
+ * lines, with the relationship's events drawn as markers on the same
+ * timeline, so a jump in risk can be tied to what happened just before it.
+ * Hovering a point or marker shows its details under the chart; clicking a
+ * point opens that insight's "Why?" drawer.
+ *
+ * Plain SVG, no chart library. Scores use the 0-100 scale from lib/scores.ts.
+ */
+
+'use client';
+
+import { useState } from 'react';
+import { Event, Insight } from '@/lib/types';
+import { formatScore, SCORE_MAX, SCORE_MIN } from '@/lib/scores';
+
+type InsightTrendChartProps = {
+  insights: Insight[];
+  events: Event[];
+  onSelectInsight?: (insight: Insight) => void;
+};
+
+// What the details line under the chart is showing
+type Focus = { kind: 'insight'; insight: Insight } | { kind: 'event'; event: Event };
+
+// Drawing area, in viewBox units
+const WIDTH = 600;
+const HEIGHT = 220;
+const PAD_LEFT = 36;
+const PAD_RIGHT = 12;
+const PAD_TOP = 10;
+const PAD_BOTTOM = 40;
+
+const RISK_COLOR = '#dc2626';
+const GROWTH_COLOR = '#16a34a';
+const EVENT_COLOR = '#6b7280';
+
+const GRID_SCORES = [0, 25, 50, 75, 100];
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+function eventTime(event: Event): number {
+  return new Date(event.occurred_at ?? event.created_at ?? 0).getTime();
+}
+
+function formatDay(time: number): string {
+  return new Date(time).toLocaleDateString(undefined, { month: 'short', day: 'numeric', year: '2-digit' });
+}
+
+export default function InsightTrendChart({ insights, events, onSelectInsight }: InsightTrendChartProps) {
+  const [focus, setFocus] = useState<Focus | null>(null);
+
+  // Oldest first; insights without a timestamp can't be placed on the timeline
+  const points = insights
+    .filter((insight) => insight.created_at)
+    .map((insight) => ({ insight, time: new Date(insight.created_at!).getTime() }))
+    .sort((a, b) => a.time - b.time);
+
+  if (points.length === 0) {
+    return null;
+  }
+
+  const markers = events.map((event) => ({ event, time: eventTime(event) })).filter((m) => m.time > 0);
+
+  // Timeline covers every insight and event; a single day gets some room on both sides
+  const times = [...points.map((p) => p.time), ...markers.map((m) => m.time)];
+  let start = Math.min(...times);
+  let end = Math.max(...times);
+  if (end - start < DAY_MS) {
+    start -= DAY_MS;
+    end += DAY_MS;
+  }
+
+  const x = (time: number) => PAD_LEFT + ((time - start) / (end - start)) * (WIDTH - PAD_LEFT - PAD_RIGHT);
+  const y = (score: number) =>
+    PAD_TOP + (1 - (score - SCORE_MIN) / (SCORE_MAX - SCORE_MIN)) * (HEIGHT - PAD_TOP - PAD_BOTTOM);
+  const baseline = y(SCORE_MIN);
+
+  const linePath = (score: (insight: Insight) => number) =>
+    points.map((p, i) => `${i === 0 ? 'M' : 'L'}${x(p.time).toFixed(1)},${y(score(p.insight)).toFixed(1)}`).join(' ');
+
+  return (
+    <div className="mb-4">
+      {/* Legend */}
+      <div className="mb-1 flex gap-4 text-xs text-gray-600">
+        <span className="flex items-center gap-1">
+          <span className="inline-block h-0.5 w-4" style={{ backgroundColor: RISK_COLOR }} /> Risk
+        </span>
+        <span className="flex items-center gap-1">
+          <span className="inline-block h-0.5 w-4" style={{ backgroundColor: GROWTH_COLOR }} /> Growth
+        </span>
+        {markers.length > 0 && (
+          <span className="flex items-center gap-1">
+            <span className="inline-block h-2 w-2 rotate-45" style={{ backgroundColor: EVENT_COLOR }} /> Event
+          </span>
+        )}
+      </div>
+
+      <svg
+        viewBox={`0 0 ${WIDTH} ${HEIGHT}`}
+        className="w-full h-auto"
+        role="img"
+        aria-label="Risk and growth scores over time"
+        onMouseLeave={() => setFocus(null)}
+      >
+        {/* Score grid */}
+        {GRID_SCORES.map((score) => (
+          <g key={score}>
+            <line x1={PAD_LEFT} x2={WIDTH - PAD_RIGHT} y1={y(score)} y2={y(score)} stroke="#e5e7eb" />
+            <text x={PAD_LEFT - 6} y={y(score) + 3} textAnchor="end" fontSize="10" fill="#6b7280">
+              {score}
+            </text>
+          </g>
+        ))}
+
+        {/* Event markers: a dashed line up the chart and a diamond under the axis */}
+        {markers.map(({ event, time }, i) => (
+          <g
+            key={event.id ?? i}
+            onMouseEnter={() => setFocus({ kind: 'event', event })}
+            className="cursor-default"
+          >
+            <line
+              x1={x(time)}
+              x2={x(time)}
+              y1={PAD_TOP}
+              y2={baseline}
+              stroke={EVENT_COLOR}
+              strokeDasharray="3 3"
+              strokeOpacity={focus?.kind === 'event' && focus.event === event ? 0.9 : 0.35}
+            />
+            <rect
+              x={x(time) - 4}
+              y={baseline + 6}
+              width={8}
+              height={8}
+              fill={EVENT_COLOR}
+              transform={`rotate(45 ${x(time)} ${baseline + 10})`}
+            />
+          </g>
+        ))}
+
+        {/* Score lines */}
+        <path d={linePath((insight) => insight.risk_score)} fill="none" stroke={RISK_COLOR} strokeWidth={2} />
+        <path d={linePath((insight) => insight.growth_score)} fill="none" stroke={GROWTH_COLOR} strokeWidth={2} />
+
+        {/* Points: hover for details, click for the "Why?" drawer */}
+        {points.map(({ insight, time }, i) => (
+          <g
+            key={insight.id ?? i}
+            onMouseEnter={() => setFocus({ kind: 'insight', insight })}
+            onClick={() => onSelectInsight?.(insight)}
+            className={onSelectInsight ? 'cursor-pointer' : undefined}
+          >
+            <circle cx={x(time)} cy={y(insight.risk_score)} r={4} fill={RISK_COLOR} />
+            <circle cx={x(time)} cy={y(insight.growth_score)} r={4} fill={GROWTH_COLOR} />
+          </g>
+        ))}
+
+        {/* Time axis */}
+        <text x={PAD_LEFT} y={HEIGHT - 6} fontSize="10" fill="#6b7280">
+          {formatDay(start)}
+        </text>
+        <text x={WIDTH - PAD_RIGHT} y={HEIGHT - 6} textAnchor="end" fontSize="10" fill="#6b7280">
+          {formatDay(end)}
+        </text>
+      </svg>
+
+      {/* Details of whatever is hovered */}
+      <p className="min-h-5 text-xs text-gray-600">
+        {focus?.kind === 'insight' &&
+          `${new Date(focus.insight.created_at!).toLocaleString()}: Risk ${formatScore(focus.insight.risk_score)}, Growth ${formatScore(focus.insight.growth_score)}`}
+        {focus?.kind === 'event' &&
+          `${new Date(eventTime(focus.event)).toLocaleString()}: ${focus.event.event_type}${focus.event.description ? ` – ${focus.event.description}` : ''}`}
+        {!focus && (points.length > 1 ? 'Hover a point or event for details.' : 'Run more analyses to see a trend.')}
+      </p>
+    </div>
+  );
+}
@@ -0,0 +1,192 @@
+/**
+ * "Why?" drawer for an insight
+ *
+ * Slides in from the right and explains where an insight came from: the
+ * provider, model and prompt version, how long the model took and how many
+ * tokens it used, the events and messages that were in the prompt, and the
+ * exact prompt text. Data comes from GET /api/insights/[id].
+ */
+
+'use client';
+
+import { useState, useEffect } from 'react';
+import { Event, Insight, Message } from '@/lib/types';
+import { formatScore } from '@/lib/scores';
+
+type InsightDetail = {
+  insight: Insight;
+  events: Event[];
+  messages: Message[];
+};
+
+type InsightWhyDrawerProps = {
+  insightId: string;
+  onClose: () => void;
+};
+
+/**
+ * Fetch an insight with its provenance
+ */
+async function fetchInsightDetail(insightId: string): Promise<InsightDetail> {
+  const response = await fetch(`/api/insights/${insightId}`);
+  if (!response.ok) {
+    const data = await response.json().catch(() => null);
+    throw new Error(data?.error ?? 'Failed to load insight');
+  }
+  return response.json();
+}
+
+export default function InsightWhyDrawer({ insightId, onClose }: InsightWhyDrawerProps) {
+  const [detail, setDetail] = useState<InsightDetail | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  /**
+   * Load the insight whenever a different one is opened
+   */
+  useEffect(() => {
+    let cancelled = false;
+
+    fetchInsightDetail(insightId)
+      .then((data) => {
+        if (!cancelled) {
+          setDetail(data);
+          setError(null);
+        }
+      })
+      .catch((err) => {
+        if (!cancelled) {
+          setError(err instanceof Error ? err.message : 'Failed to load insight');
+        }
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [insightId]);
+
+  const insight = detail?.insight;
+
+  // Context rows referenced by the insight that no longer exist
+  const missingEvents = (insight?.event_ids?.length ?? 0) - (detail?.events.length ?? 0);
+  const missingMessages = (insight?.message_ids?.length ?? 0) - (detail?.messages.length ?? 0);
+
+  return (
+    <div className="fixed inset-0 z-50 flex justify-end bg-black/30" onClick={onClose}>
+      <div
+        className="h-full w-full max-w-xl overflow-y-auto bg-white p-6 shadow-xl"
+        onClick={(e) => e.stopPropagation()}
+      >
+        <div className="mb-4 flex items-center justify-between">
+          <h3 className="text-xl font-semibold">Why this insight?</h3>
+          <button
+            type="button"
+            onClick={onClose}
+            className="px-3 py-1 bg-gray-200 text-gray-800 rounded-md hover:bg-gray-300"
+          >
+            Close
+          </button>
+        </div>
+
+        {error && <p className="text-red-600">{error}</p>}
+        {!error && !detail && <p className="text-gray-600">Loading...</p>}
+
+        {insight && (
+          <div className="space-y-5 text-sm">
+            {/* What the insight said */}
+            <div>
+              <p className="text-gray-800">{insight.summary}</p>
+              <p className="mt-1 text-xs text-gray-600">
+                Risk: {formatScore(insight.risk_score)}, Growth: {formatScore(insight.growth_score)}
+                {insight.created_at && ` · ${new Date(insight.created_at).toLocaleString()}`}
+              </p>
+            </div>
+
+            {/* How it was produced */}
+            {insight.model ? (
+              <dl className="grid grid-cols-2 gap-x-4 gap-y-1">
+                <dt className="text-gray-500">Provider</dt>
+                <dd>{insight.provider}</dd>
+                <dt className="text-gray-500">Model</dt>
+                <dd>{insight.model}</dd>
+                <dt className="text-gray-500">Prompt version</dt>
+                <dd>{insight.prompt_version ?? 'unknown'}</dd>
+                <dt className="text-gray-500">Time window</dt>
+                <dd>{insight.context_window ?? 'unknown'}</dd>
+                <dt className="text-gray-500">Model time</dt>
+                <dd>{insight.latency_ms != null ? `${(insight.latency_ms / 1000).toFixed(1)}s` : 'unknown'}</dd>
+                <dt className="text-gray-500">Attempts</dt>
+                <dd>{insight.attempts ?? 'unknown'}</dd>
+                <dt className="text-gray-500">Tokens</dt>
+                <dd>
+                  {insight.total_tokens != null
+                    ? `${insight.total_tokens} (${insight.prompt_tokens} prompt, ${insight.completion_tokens} completion)`
+                    : 'not reported'}
+                </dd>
+              </dl>
+            ) : (
+              <p className="text-gray-600">
+                This insight was created before provenance was recorded.
+              </p>
+            )}
+
+            {/* Events in the prompt */}
+            <div>
+              <h4 className="font-semibold text-gray-800 mb-1">
+                Events used ({insight.event_ids?.length ?? 0})
+              </h4>
+              {detail.events.length > 0 ? (
+                <ul className="space-y-1">
+                  {detail.events.map((event) => (
+                    <li key={event.id}>
+                      <span className="text-gray-500">
+                        {new Date(event.occurred_at ?? event.created_at!).toLocaleString()}
+                      </span>{' '}
+                      <span className="font-medium">{event.event_type}</span>
+                      {event.description && ` – ${event.description}`}
+                    </li>
+                  ))}
+                </ul>
+              ) : (
+                <p className="text-gray-600">None.</p>
+              )}
+              {missingEvents > 0 && (
+                <p className="mt-1 text-xs text-gray-500">{missingEvents} have since been deleted.</p>
+              )}
+            </div>
+
+            {/* Messages in the prompt */}
+            <div>
+              <h4 className="font-semibold text-gray-800 mb-1">
+                Messages used ({insight.message_ids?.length ?? 0})
+              </h4>
+              {detail.messages.length > 0 ? (
+                <ul className="max-h-64 space-y-1 overflow-y-auto">
+                  {detail.messages.map((message) => (
+                    <li key={message.id}>
+                      <span className="font-medium">{message.from_me ? 'ME' : 'THEM'}:</span> {message.text}
+                    </li>
+                  ))}
+                </ul>
+              ) : (
+                <p className="text-gray-600">None.</p>
+              )}
+              {missingMessages > 0 && (
+                <p className="mt-1 text-xs text-gray-500">{missingMessages} have since been deleted.</p>
+              )}
+            </div>
+
+            {/* The exact prompt */}
+            {insight.prompt_text && (
+              <div>
+                <h4 className="font-semibold text-gray-800 mb-1">Prompt sent to the model</h4>
+                <pre className="max-h-96 overflow-auto whitespace-pre-wrap rounded-md bg-gray-100 p-3 text-xs">
+                  {insight.prompt_text}
+                </pre>
+              </div>
+            )}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,115 @@
+/**
+ * Overdue follow-ups across every relationship
+ *
+ * Shown at the top of the dashboard so past-due follow-ups aren't buried
+ * inside each relationship. Clicking a task selects its relationship;
+ * "Done" completes it (which logs an event, see app/api/tasks/[id]).
+ * Renders nothing when nothing is overdue.
+ */
+
+'use client';
+
+import { useState, useEffect } from 'react';
+import { Task } from '@/lib/types';
+
+type OverdueTasksPanelProps = {
+  // Changes whenever tasks may have changed, to trigger a reload
+  refreshKey: number;
+  onSelectRelationship: (relationshipId: string) => void;
+  onChanged: () => void;
+};
+
+/**
+ * Fetch open tasks that are past their due date
+ */
+async function fetchOverdueTasks(): Promise<Task[]> {
+  const response = await fetch('/api/tasks?status=overdue');
+  if (!response.ok) {
+    const data = await response.json().catch(() => null);
+    throw new Error(data?.error ?? 'Failed to load overdue follow-ups');
+  }
+  return response.json();
+}
+
+export default function OverdueTasksPanel({ refreshKey, onSelectRelationship, onChanged }: OverdueTasksPanelProps) {
+  const [tasks, setTasks] = useState<Task[]>([]);
+  const [error, setError] = useState<string | null>(null);
+  const [reloadKey, setReloadKey] = useState(0);
+
+  useEffect(() => {
+    let cancelled = false;
+
+    fetchOverdueTasks()
+      .then((data) => {
+        if (!cancelled) {
+          setTasks(data);
+          setError(null);
+        }
+      })
+      .catch((err) => {
+        if (!cancelled) {
+          setError(err instanceof Error ? err.message : 'Failed to load overdue follow-ups');
+        }
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [refreshKey, reloadKey]);
+
+  async function handleDone(taskId: string) {
+    try {
+      const response = await fetch(`/api/tasks/${taskId}`, {
+        method: 'PATCH',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ done: true }),
+      });
+      if (!response.ok) {
+        const data = await response.json().catch(() => null);
+        throw new Error(data?.error ?? 'Failed to complete follow-up');
+      }
+      setReloadKey((key) => key + 1);
+      onChanged();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to complete follow-up');
+    }
+  }
+
+  if (tasks.length === 0 && !error) {
+    return null;
+  }
+
+  return (
+    <div className="mb-8 p-4 border border-red-300 rounded-lg bg-red-50">
+      <h2 className="text-xl font-semibold mb-3 text-red-800">Overdue follow-ups</h2>
+
+      {error && <p className="text-red-600 mb-2">{error}</p>}
+
+      <ul className="space-y-2">
+        {tasks.map((task) => (
+          <li key={task.id} className="flex items-center justify-between gap-3">
+            <button
+              type="button"
+              onClick={() => onSelectRelationship(task.relationship_id)}
+              className="text-left hover:underline"
+            >
+              <span className="font-semibold">{task.relationship?.person_name ?? 'Unknown'}</span>
+              {': '}
+              {task.title}
+              <span className="ml-2 text-xs text-red-700">
+                due {new Date(task.due_at!).toLocaleDateString()}
+              </span>
+            </button>
+            <button
+              type="button"
+              onClick={() => handleDone(task.id!)}
+              className="shrink-0 px-3 py-1 text-sm bg-white border border-red-300 rounded-md hover:bg-red-100"
+            >
+              Done
+            </button>
+          </li>
+        ))}
+      </ul>
+    </div>
+  );
+}
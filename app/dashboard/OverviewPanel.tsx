@@ -0,0 +1,218 @@
+/**
+ * Portfolio overview panel for the dashboard
+ *
+ * Lists every relationship with its latest risk and growth, how long it has
+ * been quiet and whether risk jumped since the previous insight, ranked by
+ * how much attention it needs. Sorting and filtering happen in
+ * /api/overview (see lib/overview.ts); clicking a row selects that
+ * relationship in the dashboard.
+ */
+
+'use client';
+
+import { useState, useEffect } from 'react';
+import { Relationship } from '@/lib/types';
+import { OverviewSort, RelationshipOverview } from '@/lib/overview';
+
+type OverviewPanelProps = {
+  // Changes whenever relationships, events or insights change, to trigger a reload
+  refreshKey: number;
+  selectedRelationshipId: string | null;
+  onSelect: (relationship: Relationship) => void;
+};
+
+const SORT_LABELS: Record<OverviewSort, string> = {
+  attention: 'Needs attention',
+  risk: 'Highest risk',
+  growth: 'Highest growth',
+  stale: 'Longest silence',
+  name: 'Name',
+};
+
+/**
+ * Fetch the overview with the given query string
+ */
+async function fetchOverview(query: string): Promise<RelationshipOverview[]> {
+  const response = await fetch(`/api/overview?${query}`);
+  if (!response.ok) {
+    const data = await response.json().catch(() => null);
+    throw new Error(data?.error ?? 'Failed to load overview');
+  }
+  return response.json();
+}
+
+function describeSilence(days: number | null): string {
+  if (days === null) {
+    return 'no activity';
+  }
+  if (days === 0) {
+    return 'today';
+  }
+  return `${days}d ago`;
+}
+
+export default function OverviewPanel({ refreshKey, selectedRelationshipId, onSelect }: OverviewPanelProps) {
+  const [rows, setRows] = useState<RelationshipOverview[]>([]);
+  const [error, setError] = useState<string | null>(null);
+  const [loading, setLoading] = useState(true);
+
+  // Sort and filters
+  const [sort, setSort] = useState<OverviewSort>('attention');
+  const [typeFilter, setTypeFilter] = useState('');
+  const [staleDays, setStaleDays] = useState('');
+  const [jumpedOnly, setJumpedOnly] = useState(false);
+
+  // Types to offer in the filter, from the unfiltered list
+  const [types, setTypes] = useState<string[]>([]);
+
+  useEffect(() => {
+    let cancelled = false;
+
+    const params = new URLSearchParams({ sort });
+    if (typeFilter) {
+      params.set('type', typeFilter);
+    }
+    if (staleDays) {
+      params.set('stale_days', staleDays);
+    }
+    if (jumpedOnly) {
+      params.set('jumped', 'true');
+    }
+
+    fetchOverview(params.toString())
+      .then((data) => {
+        if (cancelled) {
+          return;
+        }
+        setRows(data);
+        setError(null);
+        if (!typeFilter && !staleDays && !jumpedOnly) {
+          setTypes(
+            [...new Set(data.map((row) => (row.relationship.type ?? '').trim().toLowerCase()))].filter(Boolean).sort()
+          );
+        }
+      })
+      .catch((err) => {
+        if (!cancelled) {
+          setError(err instanceof Error ? err.message : 'Failed to load overview');
+        }
+      })
+      .finally(() => {
+        if (!cancelled) {
+          setLoading(false);
+        }
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [sort, typeFilter, staleDays, jumpedOnly, refreshKey]);
+
+  return (
+    <div className="mb-8 p-4 border border-gray-300 rounded-lg bg-white">
+      <div className="flex flex-wrap items-center justify-between gap-3 mb-3">
+        <h2 className="text-2xl font-semibold">Overview</h2>
+
+        <div className="flex flex-wrap items-center gap-2 text-sm">
+          <select
+            value={sort}
+            onChange={(e) => setSort(e.target.value as OverviewSort)}
+            className="px-2 py-1 border border-gray-300 rounded-md"
+            aria-label="Sort by"
+          >
+            {(Object.keys(SORT_LABELS) as OverviewSort[]).map((key) => (
+              <option key={key} value={key}>
+                {SORT_LABELS[key]}
+              </option>
+            ))}
+          </select>
+
+          <select
+            value={typeFilter}
+            onChange={(e) => setTypeFilter(e.target.value)}
+            className="px-2 py-1 border border-gray-300 rounded-md"
+            aria-label="Type"
+          >
+            <option value="">All types</option>
+            {types.map((type) => (
+              <option key={type} value={type}>
+                {type}
+              </option>
+            ))}
+          </select>
+
+          <select
+            value={staleDays}
+            onChange={(e) => setStaleDays(e.target.value)}
+            className="px-2 py-1 border border-gray-300 rounded-md"
+            aria-label="Quiet for"
+          >
+            <option value="">Any activity</option>
+            <option value="14">Quiet 14+ days</option>
+            <option value="30">Quiet 30+ days</option>
+            <option value="90">Quiet 90+ days</option>
+          </select>
+
+          <label className="flex items-center gap-1 text-gray-700">
+            <input type="checkbox" checked={jumpedOnly} onChange={(e) => setJumpedOnly(e.target.checked)} />
+            Risk jumped
+          </label>
+        </div>
+      </div>
+
+      {loading && <p className="text-gray-600">Loading...</p>}
+      {!loading && error && <p className="text-red-600">{error}</p>}
+      {!loading && !error && rows.length === 0 && (
+        <p className="text-gray-600">No relationships match.</p>
+      )}
+
+      {!loading && !error && rows.length > 0 && (
+        <table className="w-full text-sm">
+          <thead>
+            <tr className="text-left text-gray-500 border-b border-gray-200">
+              <th className="py-1 font-medium">Name</th>
+              <th className="py-1 font-medium">Type</th>
+              <th className="py-1 font-medium">Risk</th>
+              <th className="py-1 font-medium">Growth</th>
+              <th className="py-1 font-medium">Last activity</th>
+            </tr>
+          </thead>
+          <tbody>
+            {rows.map((row) => (
+              <tr
+                key={row.relationship.id}
+                onClick={() => onSelect(row.relationship)}
+                className={`cursor-pointer border-b border-gray-100 hover:bg-gray-50 ${
+                  row.risk_jumped ? 'bg-red-50' : ''
+                } ${selectedRelationshipId === row.relationship.id ? 'font-semibold' : ''}`}
+              >
+                <td className="py-1">{row.relationship.person_name}</td>
+                <td className="py-1 text-gray-600">{row.relationship.type}</td>
+                <td className="py-1">
+                  {row.latest_insight ? row.latest_insight.risk_score : '–'}
+                  {row.risk_change !== null && row.risk_change !== 0 && (
+                    <span
+                      className={`ml-1 text-xs ${row.risk_jumped ? 'text-red-600 font-semibold' : 'text-gray-500'}`}
+                      title="Change since the previous insight"
+                    >
+                      {row.risk_change > 0 ? `▲${row.risk_change}` : `▼${-row.risk_change}`}
+                    </span>
+                  )}
+                </td>
+                <td className="py-1">{row.latest_insight ? row.latest_insight.growth_score : '–'}</td>
+                <td className="py-1 text-gray-600">
+                  {describeSilence(row.days_since_activity)}
+                  {row.needs_analysis && (
+                    <span className="ml-1 text-xs text-blue-600">
+                      {row.latest_insight ? 'new activity' : 'not analyzed'}
+                    </span>
+                  )}
+                </td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      )}
+    </div>
+  );
+}
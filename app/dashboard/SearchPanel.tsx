@@ -0,0 +1,157 @@
+/**
+ * Search across every relationship's events, messages, notes and insights
+ *
+ * Results come from /api/search, best match first, with the matching words
+ * highlighted. Clicking a result selects its relationship.
+ */
+
+'use client';
+
+import { useState } from 'react';
+import type { SearchHit, SearchSourceType } from '@/lib/search';
+
+type SearchPanelProps = {
+  onSelectRelationship: (relationshipId: string) => void;
+};
+
+const SOURCE_LABELS: Record<SearchSourceType, string> = {
+  event: 'Event',
+  message: 'Message',
+  note: 'Notes',
+  insight: 'Insight',
+};
+
+const SOURCE_COLORS: Record<SearchSourceType, string> = {
+  event: 'bg-blue-100 text-blue-800',
+  message: 'bg-green-100 text-green-800',
+  note: 'bg-yellow-100 text-yellow-800',
+  insight: 'bg-purple-100 text-purple-800',
+};
+
+/**
+ * Run a search and return its hits and whether semantic search took part
+ */
+async function fetchSearchResults(query: string): Promise<{ hits: SearchHit[]; semantic: boolean }> {
+  const response = await fetch(`/api/search?q=${encodeURIComponent(query)}`);
+  const data = await response.json().catch(() => null);
+  if (!response.ok) {
+    throw new Error(data?.error ?? 'Search failed');
+  }
+  return data;
+}
+
+export default function SearchPanel({ onSelectRelationship }: SearchPanelProps) {
+  const [query, setQuery] = useState('');
+  // The query the shown results are for (null before the first search)
+  const [searchedQuery, setSearchedQuery] = useState<string | null>(null);
+  const [hits, setHits] = useState<SearchHit[]>([]);
+  const [semantic, setSemantic] = useState(true);
+  const [isSearching, setIsSearching] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  async function handleSearch(e: React.FormEvent) {
+    e.preventDefault();
+    const text = query.trim();
+    if (!text) {
+      return;
+    }
+
+    try {
+      setIsSearching(true);
+      setError(null);
+      const result = await fetchSearchResults(text);
+      setHits(result.hits);
+      setSemantic(result.semantic);
+      setSearchedQuery(text);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Search failed');
+    } finally {
+      setIsSearching(false);
+    }
+  }
+
+  function handleClear() {
+    setQuery('');
+    setSearchedQuery(null);
+    setHits([]);
+    setError(null);
+  }
+
+  return (
+    <div className="mb-8 p-4 border border-gray-300 rounded-lg bg-white">
+      <form onSubmit={handleSearch} className="flex gap-2">
+        <input
+          type="search"
+          value={query}
+          onChange={(e) => setQuery(e.target.value)}
+          placeholder="Search events, messages, notes and insights"
+          className="flex-1 px-3 py-2 border border-gray-300 rounded-md"
+          aria-label="Search"
+        />
+        <button
+          type="submit"
+          disabled={isSearching || !query.trim()}
+          className="px-4 py-2 bg-blue-600 text-white rounded-md hover:bg-blue-700 disabled:bg-gray-400"
+        >
+          {isSearching ? 'Searching...' : 'Search'}
+        </button>
+        {searchedQuery !== null && (
+          <button type="button" onClick={handleClear} className="px-3 py-2 text-sm text-gray-600 hover:underline">
+            Clear
+          </button>
+        )}
+      </form>
+
+      {error && <p className="text-red-600 mt-2">{error}</p>}
+
+      {searchedQuery !== null && (
+        <div className="mt-3">
+          {!semantic && (
+            <p className="text-xs text-gray-500 mb-2">Semantic search is unavailable; showing keyword matches only.</p>
+          )}
+
+          {hits.length === 0 ? (
+            <p className="text-gray-600 text-sm">No results for &ldquo;{searchedQuery}&rdquo;.</p>
+          ) : (
+            <ul className="space-y-2 max-h-96 overflow-y-auto">
+              {hits.map((hit) => (
+                <li key={`${hit.source_type}:${hit.source_id}`}>
+                  <a
+                    href={hit.link}
+                    onClick={(e) => {
+                      // Select in place rather than reloading the dashboard
+                      e.preventDefault();
+                      onSelectRelationship(hit.relationship_id);
+                    }}
+                    className="block p-2 rounded-md hover:bg-gray-50"
+                  >
+                    <div className="flex items-center gap-2 text-sm mb-1">
+                      <span className={`px-2 py-0.5 text-xs rounded ${SOURCE_COLORS[hit.source_type]}`}>
+                        {SOURCE_LABELS[hit.source_type]}
+                      </span>
+                      <span className="font-semibold">{hit.person_name}</span>
+                      {hit.occurred_at && (
+                        <span className="text-gray-500">{new Date(hit.occurred_at).toLocaleDateString()}</span>
+                      )}
+                    </div>
+                    <p className="text-sm text-gray-700">
+                      {hit.snippet.map((part, index) =>
+                        part.match ? (
+                          <mark key={index} className="bg-yellow-200">
+                            {part.text}
+                          </mark>
+                        ) : (
+                          <span key={index}>{part.text}</span>
+                        )
+                      )}
+                    </p>
+                  </a>
+                </li>
+              ))}
+            </ul>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,210 @@
+/**
+ * Follow-up tasks for the selected relationship
+ *
+ * Lists open tasks (overdue ones highlighted) and the most recently
+ * completed ones, and lets the user add, complete, reopen and delete them.
+ * Completing a task logs an event on the server, so the parent reloads its
+ * events through onChanged.
+ */
+
+'use client';
+
+import { useState, useEffect } from 'react';
+import { Task } from '@/lib/types';
+
+type TasksPanelProps = {
+  relationshipId: string;
+  // Changes whenever tasks may have changed elsewhere (e.g. one was added from an insight)
+  refreshKey: number;
+  onChanged: () => void;
+};
+
+// Completed tasks shown under the open ones
+const COMPLETED_SHOWN = 5;
+
+/**
+ * Fetch every task for a relationship
+ */
+async function fetchTasks(relationshipId: string): Promise<Task[]> {
+  const response = await fetch(`/api/tasks?relationship_id=${relationshipId}&status=all`);
+  if (!response.ok) {
+    const data = await response.json().catch(() => null);
+    throw new Error(data?.error ?? 'Failed to load tasks');
+  }
+  return response.json();
+}
+
+/**
+ * Send a request for one task and throw with the API's message if it fails
+ */
+async function sendTaskRequest(url: string, init: RequestInit) {
+  const response = await fetch(url, { headers: { 'Content-Type': 'application/json' }, ...init });
+  if (!response.ok) {
+    const data = await response.json().catch(() => null);
+    throw new Error(data?.error ?? 'Failed to update task');
+  }
+}
+
+function isOverdue(task: Task, now: Date = new Date()): boolean {
+  return !task.completed_at && Boolean(task.due_at) && new Date(task.due_at!) < now;
+}
+
+export default function TasksPanel({ relationshipId, refreshKey, onChanged }: TasksPanelProps) {
+  const [tasks, setTasks] = useState<Task[]>([]);
+  const [error, setError] = useState<string | null>(null);
+  const [reloadKey, setReloadKey] = useState(0);
+
+  // New task form
+  const [title, setTitle] = useState('');
+  const [dueAt, setDueAt] = useState('');
+
+  useEffect(() => {
+    let cancelled = false;
+
+    fetchTasks(relationshipId)
+      .then((data) => {
+        if (!cancelled) {
+          setTasks(data);
+          setError(null);
+        }
+      })
+      .catch((err) => {
+        if (!cancelled) {
+          setError(err instanceof Error ? err.message : 'Failed to load tasks');
+        }
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [relationshipId, refreshKey, reloadKey]);
+
+  /**
+   * Run a change, then reload the list and tell the parent
+   */
+  async function applyChange(change: () => Promise<void>) {
+    try {
+      setError(null);
+      await change();
+      setReloadKey((key) => key + 1);
+      onChanged();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to update task');
+    }
+  }
+
+  async function handleAddTask(e: React.FormEvent) {
+    e.preventDefault();
+
+    await applyChange(async () => {
+      await sendTaskRequest('/api/tasks', {
+        method: 'POST',
+        body: JSON.stringify({
+          relationship_id: relationshipId,
+          title,
+          // The date input gives a local day; treat it as due by the end of that day
+          due_at: dueAt ? new Date(`${dueAt}T23:59`).toISOString() : null,
+        }),
+      });
+      setTitle('');
+      setDueAt('');
+    });
+  }
+
+  const open = tasks.filter((task) => !task.completed_at);
+  const completed = tasks.filter((task) => task.completed_at).slice(0, COMPLETED_SHOWN);
+
+  return (
+    <div className="mb-6">
+      <h3 className="text-xl font-semibold mb-3">Follow-ups</h3>
+
+      {error && <p className="text-red-600 mb-2">{error}</p>}
+
+      {open.length === 0 && <p className="text-gray-600 mb-2">No open follow-ups.</p>}
+
+      {open.length > 0 && (
+        <ul className="space-y-2 mb-3">
+          {open.map((task) => (
+            <li
+              key={task.id}
+              className={`flex items-start gap-2 p-2 border rounded-md bg-white ${
+                isOverdue(task) ? 'border-red-300' : 'border-gray-200'
+              }`}
+            >
+              <input
+                type="checkbox"
+                checked={false}
+                onChange={() =>
+                  applyChange(() =>
+                    sendTaskRequest(`/api/tasks/${task.id}`, { method: 'PATCH', body: JSON.stringify({ done: true }) })
+                  )
+                }
+                className="mt-1"
+                aria-label="Mark done"
+              />
+              <div className="flex-1">
+                <p>{task.title}</p>
+                {task.due_at && (
+                  <p className={`text-xs ${isOverdue(task) ? 'text-red-600 font-semibold' : 'text-gray-500'}`}>
+                    {isOverdue(task) ? 'Overdue since' : 'Due'} {new Date(task.due_at).toLocaleDateString()}
+                  </p>
+                )}
+              </div>
+              <button
+                type="button"
+                onClick={() => applyChange(() => sendTaskRequest(`/api/tasks/${task.id}`, { method: 'DELETE' }))}
+                className="text-xs text-red-600 hover:underline"
+              >
+                Delete
+              </button>
+            </li>
+          ))}
+        </ul>
+      )}
+
+      {completed.length > 0 && (
+        <ul className="space-y-1 mb-3 text-sm text-gray-500">
+          {completed.map((task) => (
+            <li key={task.id} className="flex items-center gap-2">
+              <input
+                type="checkbox"
+                checked
+                onChange={() =>
+                  applyChange(() =>
+                    sendTaskRequest(`/api/tasks/${task.id}`, { method: 'PATCH', body: JSON.stringify({ done: false }) })
+                  )
+                }
+                aria-label="Reopen"
+              />
+              <span className="line-through">{task.title}</span>
+              <span className="text-xs">done {new Date(task.completed_at!).toLocaleDateString()}</span>
+            </li>
+          ))}
+        </ul>
+      )}
+
+      {/* Add a follow-up by hand */}
+      <form onSubmit={handleAddTask} className="flex flex-col gap-2 sm:flex-row">
+        <input
+          type="text"
+          value={title}
+          onChange={(e) => setTitle(e.target.value)}
+          required
+          placeholder="New follow-up"
+          className="flex-1 px-3 py-1 border border-gray-300 rounded-md"
+          aria-label="Follow-up"
+        />
+        <input
+          type="date"
+          value={dueAt}
+          onChange={(e) => setDueAt(e.target.value)}
+          className="px-3 py-1 border border-gray-300 rounded-md"
+          aria-label="Due date"
+        />
+        <button type="submit" className="px-3 py-1 bg-blue-600 text-white rounded-md hover:bg-blue-700">
+          Add
+        </button>
+      </form>
+    </div>
+  );
+}
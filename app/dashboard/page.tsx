@@ -11,9 +11,53 @@
 'use client';
 
 import { useState, useEffect } from 'react';
+import { useRouter } from 'next/navigation';
 import { Relationship, Event, Insight } from '@/lib/types';
+import { formatScore } from '@/lib/scores';
+import { toDateTimeLocalValue } from '@/lib/dates';
+import { createSupabaseBrowserClient } from '@/lib/supabaseBrowserClient';
+import { readServerSentEvents } from '@/lib/sse';
+import { ANALYZE_PROMPT_VERSIONS } from '@/lib/prompts';
+import ConversationPanel from './ConversationPanel';
+import ImportChatPanel from './ImportChatPanel';
+import InsightWhyDrawer from './InsightWhyDrawer';
+import InsightTrendChart from './InsightTrendChart';
+import OverviewPanel from './OverviewPanel';
+import TasksPanel from './TasksPanel';
+import OverdueTasksPanel from './OverdueTasksPanel';
+import AddFollowUpForm from './AddFollowUpForm';
+import DraftsPanel from './DraftsPanel';
+import ChatPanel from './ChatPanel';
+import SearchPanel from './SearchPanel';
+import EventCandidatesPanel from './EventCandidatesPanel';
+import CommunicationMetricsPanel from './CommunicationMetricsPanel';
+
+/**
+ * Turn an /api/analyze error body into a message for the dashboard
+ *
+ * The API returns JSON with an 'error' field, or sometimes a 'raw' field.
+ * Priority: error (+ invalid fields) > raw > default message
+ */
+function describeAnalysisFailure(errorData: { error?: string; raw?: string; fields?: unknown } | null): string {
+  if (errorData?.error && Array.isArray(errorData.fields) && errorData.fields.length > 0) {
+    // A 422 lists which insight fields the model kept getting wrong
+    const fieldList = errorData.fields
+      .map((f: { field: string; message: string }) => `${f.field} ${f.message}`)
+      .join('; ');
+    return `${errorData.error} (${fieldList})`;
+  }
+  if (errorData?.error) {
+    return errorData.error;
+  }
+  if (errorData?.raw) {
+    return errorData.raw;
+  }
+  return 'Unknown analysis error';
+}
 
 export default function DashboardPage() {
+  const router = useRouter();
+
   // State to store the list of relationships
   const [relationships, setRelationships] = useState<Relationship[]>([]);
   
@@ -31,6 +75,20 @@ export default function DashboardPage() {
   // State to track if we're submitting the form
   const [submitting, setSubmitting] = useState(false);
 
+  // Whether archived relationships are included in the list
+  const [showArchived, setShowArchived] = useState(false);
+
+  // State for editing a relationship card in place
+  // editingRelationshipId is the id of the card being edited (null if none)
+  const [editingRelationshipId, setEditingRelationshipId] = useState<string | null>(null);
+  const [editPersonName, setEditPersonName] = useState('');
+  const [editType, setEditType] = useState('');
+  const [editNotes, setEditNotes] = useState('');
+  // Pinned prompt template ('' follows the latest version)
+  const [editPromptVersion, setEditPromptVersion] = useState('');
+  // Automatic re-analysis cadence in days ('' for only on new activity)
+  const [editReanalyzeDays, setEditReanalyzeDays] = useState('');
+
   // State to track the currently selected relationship
   const [selectedRelationship, setSelectedRelationship] = useState<Relationship | null>(null);
   
@@ -41,8 +99,16 @@ export default function DashboardPage() {
   const [loadingEvents, setLoadingEvents] = useState(false);
   
   // State for the event form inputs
+  // eventOccurredAt is a datetime-local value; empty means "now"
   const [eventType, setEventType] = useState('');
   const [eventDescription, setEventDescription] = useState('');
+  const [eventOccurredAt, setEventOccurredAt] = useState('');
+
+  // State for editing an event in place
+  const [editingEventId, setEditingEventId] = useState<string | null>(null);
+  const [editEventType, setEditEventType] = useState('');
+  const [editEventDescription, setEditEventDescription] = useState('');
+  const [editEventOccurredAt, setEditEventOccurredAt] = useState('');
   
   // State to track if we're submitting the event form
   const [submittingEvent, setSubmittingEvent] = useState(false);
@@ -53,9 +119,25 @@ export default function DashboardPage() {
   // State to track if we're currently analyzing a relationship
   const [isAnalyzing, setIsAnalyzing] = useState(false);
 
+  // Time window the next analysis looks at ("all" or e.g. "30d")
+  const [analysisWindow, setAnalysisWindow] = useState('all');
+
+  // While an analysis streams: the current stage and the summary so far
+  const [analysisProgress, setAnalysisProgress] = useState<string | null>(null);
+  const [streamingSummary, setStreamingSummary] = useState<string | null>(null);
+
   // State to show a simple status message when we send a sample conversation
   // This is just for testing the /api/messages endpoint.
   const [sampleConversationStatus, setSampleConversationStatus] = useState<string | null>(null);
+
+  // Bumped whenever new messages are sent, so the conversation panel reloads
+  const [conversationRefreshKey, setConversationRefreshKey] = useState(0);
+
+  // Bumped whenever relationships, events, messages or insights change, so the overview reloads
+  const [overviewRefreshKey, setOverviewRefreshKey] = useState(0);
+
+  // Bumped whenever follow-up tasks change, so both task lists reload
+  const [tasksRefreshKey, setTasksRefreshKey] = useState(0);
   
   // State to store analysis-specific error messages
   const [analysisError, setAnalysisError] = useState<string | null>(null);
@@ -67,14 +149,31 @@ export default function DashboardPage() {
   // State to track if we're currently loading insights from the API
   const [isLoadingInsights, setIsLoadingInsights] = useState(false);
 
+  // Insight whose "why" drawer is open (null when closed)
+  const [whyInsightId, setWhyInsightId] = useState<string | null>(null);
+
   /**
    * Fetch relationships from the API when the component loads
    * useEffect runs after the component first renders
    */
   useEffect(() => {
-    fetchRelationships();
+    fetchRelationships(false);
   }, []);
 
+  /**
+   * Open the relationship named in the URL (?relationship_id=..., as in
+   * search result links) once relationships have loaded
+   */
+  useEffect(() => {
+    const relationshipId = new URLSearchParams(window.location.search).get('relationship_id');
+    const relationship = relationshipId ? relationships.find((r) => r.id === relationshipId) : undefined;
+    if (relationship) {
+      setSelectedRelationship(relationship);
+      // Drop the parameter so it doesn't reselect after later reloads
+      router.replace('/dashboard');
+    }
+  }, [relationships, router]);
+
   /**
    * Fetch events and insights whenever a relationship is selected
    * This useEffect runs whenever selectedRelationship changes
@@ -102,14 +201,17 @@ export default function DashboardPage() {
 
   /**
    * Function to fetch all relationships from the API
+   *
+   * @param includeArchived - Whether to include archived relationships
    */
-  async function fetchRelationships() {
+  async function fetchRelationships(includeArchived: boolean) {
     try {
       setLoading(true);
       setError(null);
       
       // Make a GET request to our API endpoint
-      const response = await fetch('/api/relationships');
+      // archived=all includes archived relationships, archived=false hides them
+      const response = await fetch(`/api/relationships?archived=${includeArchived ? 'all' : 'false'}`);
       
       // Check if the request was successful
       if (!response.ok) {
@@ -121,6 +223,7 @@ export default function DashboardPage() {
       
       // Update the relationships state with the fetched data
       setRelationships(data);
+      setOverviewRefreshKey((key) => key + 1);
     } catch (err) {
       // If something went wrong, store the error message
       setError(err instanceof Error ? err.message : 'Failed to load relationships');
@@ -160,6 +263,29 @@ export default function DashboardPage() {
     }
   }
 
+  /**
+   * Select a relationship from a panel that only knows its id (overdue
+   * follow-ups, search results); ids not in the loaded list are ignored
+   */
+  function selectRelationshipById(relationshipId: string) {
+    const relationship = relationships.find((r) => r.id === relationshipId);
+    if (relationship) {
+      setSelectedRelationship(relationship);
+    }
+  }
+
+  /**
+   * Reload everything a task change can affect: both task lists, the
+   * selected relationship's events (completing a task logs one) and the overview
+   */
+  function handleTasksChanged() {
+    setTasksRefreshKey((key) => key + 1);
+    setOverviewRefreshKey((key) => key + 1);
+    if (selectedRelationship?.id) {
+      fetchEvents(selectedRelationship.id);
+    }
+  }
+
   /**
    * Function to fetch insights for a specific relationship
    * 
@@ -230,7 +356,7 @@ export default function DashboardPage() {
       setNotes('');
       
       // Refresh the list of relationships
-      await fetchRelationships();
+      await fetchRelationships(showArchived);
     } catch (err) {
       // If something went wrong, store the error message
       setError(err instanceof Error ? err.message : 'Failed to create relationship');
@@ -240,13 +366,141 @@ export default function DashboardPage() {
     }
   }
 
+  /**
+   * Start editing a relationship card
+   *
+   * Copies the relationship's current values into the edit form state.
+   */
+  function startEditingRelationship(relationship: Relationship) {
+    setEditingRelationshipId(relationship.id ?? null);
+    setEditPersonName(relationship.person_name);
+    setEditType(relationship.type ?? '');
+    setEditNotes(relationship.notes ?? '');
+    setEditPromptVersion(relationship.prompt_version ?? '');
+    setEditReanalyzeDays(relationship.reanalyze_every_days ? String(relationship.reanalyze_every_days) : '');
+  }
+
+  /**
+   * Send a PATCH request for a relationship and refresh the list
+   *
+   * Used for saving edits and for archiving / unarchiving. Returns whether
+   * the update was saved.
+   */
+  async function updateRelationship(relationshipId: string, updates: Record<string, unknown>): Promise<boolean> {
+    try {
+      setError(null);
+
+      const response = await fetch(`/api/relationships/${relationshipId}`, {
+        method: 'PATCH',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify(updates),
+      });
+
+      if (!response.ok) {
+        const errorData = await response.json().catch(() => null);
+        throw new Error(errorData?.error ?? 'Failed to update relationship');
+      }
+
+      const updated: Relationship = await response.json();
+
+      // Keep the detail panel in sync with the edited relationship,
+      // or close it if the relationship was just archived and is now hidden
+      if (selectedRelationship?.id === relationshipId) {
+        setSelectedRelationship(updated.archived_at && !showArchived ? null : updated);
+      }
+
+      await fetchRelationships(showArchived);
+      return true;
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to update relationship');
+      return false;
+    }
+  }
+
+  /**
+   * Handle saving the edit form for a relationship card
+   */
+  async function handleSaveRelationship(e: React.FormEvent, relationshipId: string) {
+    e.preventDefault();
+
+    // Only send what changed, so an older relationship saved without a type
+    // can still be renamed
+    const original = relationships.find((r) => r.id === relationshipId);
+    const form: Record<string, unknown> = {
+      person_name: editPersonName,
+      type: editType,
+      notes: editNotes,
+      prompt_version: editPromptVersion || null,
+      reanalyze_every_days: editReanalyzeDays ? Number(editReanalyzeDays) : null,
+    };
+    const current: Record<string, unknown> = {
+      person_name: original?.person_name,
+      type: original?.type ?? '',
+      notes: original?.notes ?? '',
+      prompt_version: original?.prompt_version ?? null,
+      reanalyze_every_days: original?.reanalyze_every_days ?? null,
+    };
+    const updates = Object.fromEntries(Object.entries(form).filter(([key, value]) => value !== current[key]));
+
+    const saved = Object.keys(updates).length === 0 || (await updateRelationship(relationshipId, updates));
+
+    // Keep the form open on failure so the edits aren't lost
+    if (saved) {
+      setEditingRelationshipId(null);
+    }
+  }
+
+  /**
+   * Handle clicking Delete on a relationship card
+   *
+   * Deleting also removes the relationship's events, insights and messages,
+   * so we ask for confirmation first.
+   */
+  async function handleDeleteRelationship(relationship: Relationship) {
+    if (!relationship.id) {
+      return;
+    }
+
+    const confirmed = window.confirm(
+      `Delete ${relationship.person_name}? This also deletes all of their events, insights and messages. Archive instead to keep the history.`
+    );
+    if (!confirmed) {
+      return;
+    }
+
+    try {
+      setError(null);
+
+      const response = await fetch(`/api/relationships/${relationship.id}`, {
+        method: 'DELETE',
+      });
+
+      if (!response.ok) {
+        const errorData = await response.json().catch(() => null);
+        throw new Error(errorData?.error ?? 'Failed to delete relationship');
+      }
+
+      // Close the detail panel if it was showing the deleted relationship
+      if (selectedRelationship?.id === relationship.id) {
+        setSelectedRelationship(null);
+      }
+
+      await fetchRelationships(showArchived);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to delete relationship');
+    }
+  }
+
   /**
    * Handle clicking the Analyze Relationship button
    * 
    * This function sends a POST request to /api/analyze to get AI insights
    * about the selected relationship and its events.
    * 
-   * Updated to show actual error messages from the API instead of generic errors.
+   * The request asks for a Server-Sent Events stream, so the progress stages
+   * and the summary are shown while the model is still writing.
    */
   async function handleAnalyze() {
     // Make sure we have a selected relationship
@@ -257,54 +511,78 @@ export default function DashboardPage() {
 
     try {
       setIsAnalyzing(true);
-      // Clear any previous analysis errors before making a new request
+      // Clear any previous analysis errors and output before making a new request
       setAnalysisError(null);
       setError(null);
+      setSelectedInsight(null);
+      setStreamingSummary(null);
+      setAnalysisProgress('Starting analysis...');
 
       // Make a POST request to analyze the relationship
       const response = await fetch('/api/analyze', {
         method: 'POST',
         headers: {
           'Content-Type': 'application/json',
+          Accept: 'text/event-stream',
         },
         body: JSON.stringify({
           relationship_id: selectedRelationship.id,
+          window: analysisWindow,
         }),
       });
 
-      // Check if the request was successful
+      // Errors found before the analysis starts come back as plain JSON
       if (!response.ok) {
-        // Try to read the error message from the API response
-        // The API returns JSON with an 'error' field, or sometimes a 'raw' field
         const errorData = await response.json().catch(() => null);
-        
-        // Set the analysis error based on what the API returned
-        // Priority: errorData?.error > errorData?.raw > default message
-        if (errorData?.error) {
-          setAnalysisError(errorData.error);
-        } else if (errorData?.raw) {
-          setAnalysisError(errorData.raw);
-        } else {
-          setAnalysisError('Unknown analysis error');
-        }
-        
-        // Return early so we don't try to parse a success response
+        setAnalysisError(describeAnalysisFailure(errorData));
         return;
       }
 
-      // If the response was successful, parse the JSON (this contains the insight)
-      const insight = await response.json();
+      // Follow the stream, updating the UI as each stage arrives
+      await readServerSentEvents(response, (event, data) => {
+        const payload = data as Record<string, unknown>;
 
-      // Store the insight in state so we can display it
-      setSelectedInsight(insight);
-      
-      // Add the new insight to the top of the insight history
-      // This updates the UI immediately without needing to reload from the API
-      // We use the spread operator to create a new array with the new insight first
-      setInsightHistory((prevHistory) => [insight, ...prevHistory]);
-      
-      // Clear any previous errors since we succeeded
-      setAnalysisError(null);
+        switch (event) {
+          case 'summarizing':
+            setAnalysisProgress('Summarizing older history...');
+            break;
+          case 'context':
+            setAnalysisProgress(
+              `Gathered ${payload.events} events and ${payload.messages} messages` +
+                (payload.summarized ? ' plus a summary of earlier history' : '')
+            );
+            break;
+          case 'model':
+            setAnalysisProgress(
+              Number(payload.attempt) > 1
+                ? `Asking the model again (attempt ${payload.attempt})...`
+                : `Asking ${payload.provider} (${payload.model})...`
+            );
+            break;
+          case 'summary':
+            setStreamingSummary(payload.text as string);
+            break;
+          case 'retry':
+            setAnalysisProgress('The answer was incomplete; asking the model to fix it...');
+            setStreamingSummary(null);
+            break;
+          case 'validated':
+            // Show the full insight as soon as it's valid, before it's saved
+            setSelectedInsight(payload.insight as Insight);
+            setAnalysisProgress('Saving insight...');
+            break;
+          case 'done':
+            // Add the new insight to the top of the insight history
+            // This updates the UI immediately without needing to reload from the API
+            setSelectedInsight(payload as Insight);
+            setInsightHistory((prevHistory) => [payload as Insight, ...prevHistory]);
+            setOverviewRefreshKey((key) => key + 1);
+            break;
+          case 'error':
+            setAnalysisError(describeAnalysisFailure(payload));
+            break;
+        }
+      });
     } catch (err) {
       // Log the error to the console for debugging
       console.error('Error analyzing relationship:', err);
@@ -313,6 +591,8 @@ export default function DashboardPage() {
     } finally {
       // Always set analyzing to false when we're done
       setIsAnalyzing(false);
+      setAnalysisProgress(null);
+      setStreamingSummary(null);
     }
   }
 
@@ -333,13 +613,13 @@ export default function DashboardPage() {
       // Clear any previous status message
       setSampleConversationStatus(null);
 
-      // Build a simple thread ID based on the selected relationship,
-      // so messages can be grouped per relationship.
+      // Build a simple thread ID for the sample conversation. The messages are
+      // linked to the relationship through relationship_id, not the thread ID.
       const threadId = `relationship-${selectedRelationship.id}`;
 
       // Prepare the request body to match the /api/messages schema
       const body = {
-        user_id: 'test-user-1',
+        relationship_id: selectedRelationship.id,
         platform: 'whatsapp',
         thread_id: threadId,
         messages: [
@@ -381,6 +661,8 @@ export default function DashboardPage() {
       // On success, set a simple success message and log to the console
       console.log('Sample conversation sent successfully');
       setSampleConversationStatus('Sample conversation sent.');
+      setConversationRefreshKey((key) => key + 1);
+      setOverviewRefreshKey((key) => key + 1);
     } catch (err) {
       // Catch any unexpected errors (network issues, etc.)
       console.error('Error sending sample conversation:', err);
@@ -388,6 +670,18 @@ export default function DashboardPage() {
     }
   }
 
+  /**
+   * Handle clicking the Sign Out button
+   *
+   * Ends the Supabase Auth session and sends the user back to the login page.
+   */
+  async function handleSignOut() {
+    const supabase = createSupabaseBrowserClient();
+    await supabase.auth.signOut();
+    router.push('/login');
+    router.refresh();
+  }
+
   /**
    * Handle form submission to create a new event
    */
@@ -414,6 +708,8 @@ export default function DashboardPage() {
           relationship_id: selectedRelationship.id,
           event_type: eventType,
           description: eventDescription,
+          // Convert the local date/time to an ISO timestamp (omitted means "now")
+          occurred_at: eventOccurredAt ? new Date(eventOccurredAt).toISOString() : undefined,
         }),
       });
       
@@ -425,9 +721,11 @@ export default function DashboardPage() {
       // Clear the event form inputs
       setEventType('');
       setEventDescription('');
+      setEventOccurredAt('');
       
       // Refresh the events list for the selected relationship
       await fetchEvents(selectedRelationship.id);
+      setOverviewRefreshKey((key) => key + 1);
     } catch (err) {
       // If something went wrong, store the error message
       setError(err instanceof Error ? err.message : 'Failed to create event');
@@ -436,11 +734,98 @@ export default function DashboardPage() {
       setSubmittingEvent(false);
     }
   }
+  /**
+   * Start editing an event in the events list
+   */
+  function startEditingEvent(event: Event) {
+    setEditingEventId(event.id ?? null);
+    setEditEventType(event.event_type);
+    setEditEventDescription(event.description ?? '');
+    const when = event.occurred_at || event.created_at;
+    setEditEventOccurredAt(when ? toDateTimeLocalValue(when) : '');
+  }
+
+  /**
+   * Handle saving the edit form for an event
+   */
+  async function handleSaveEvent(e: React.FormEvent, eventId: string) {
+    e.preventDefault();
+
+    if (!selectedRelationship?.id) {
+      return;
+    }
+
+    try {
+      setError(null);
+
+      const response = await fetch(`/api/events/${eventId}`, {
+        method: 'PATCH',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({
+          event_type: editEventType,
+          description: editEventDescription,
+          occurred_at: editEventOccurredAt ? new Date(editEventOccurredAt).toISOString() : undefined,
+        }),
+      });
+
+      if (!response.ok) {
+        const errorData = await response.json().catch(() => null);
+        throw new Error(errorData?.error ?? 'Failed to update event');
+      }
+
+      setEditingEventId(null);
+
+      // Refresh the list, since a new occurred_at can change the order
+      await fetchEvents(selectedRelationship.id);
+      setOverviewRefreshKey((key) => key + 1);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to update event');
+    }
+  }
+
+  /**
+   * Handle clicking Delete on an event
+   */
+  async function handleDeleteEvent(eventId: string) {
+    if (!selectedRelationship?.id || !window.confirm('Delete this event?')) {
+      return;
+    }
+
+    try {
+      setError(null);
+
+      const response = await fetch(`/api/events/${eventId}`, {
+        method: 'DELETE',
+      });
+
+      if (!response.ok) {
+        const errorData = await response.json().catch(() => null);
+        throw new Error(errorData?.error ?? 'Failed to delete event');
+      }
+
+      await fetchEvents(selectedRelationship.id);
+      setOverviewRefreshKey((key) => key + 1);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to delete event');
+    }
+  }
+
 
   return (
     <div className="p-8 max-w-4xl mx-auto">
-      {/* Page heading */}
-      <h1 className="text-3xl font-bold mb-8">Relationship Decision Engine</h1>
+      {/* Page heading with sign-out button */}
+      <div className="flex items-center justify-between mb-8">
+        <h1 className="text-3xl font-bold">Relationship Decision Engine</h1>
+        <button
+          type="button"
+          onClick={handleSignOut}
+          className="px-4 py-2 bg-gray-200 text-gray-800 rounded-md hover:bg-gray-300"
+        >
+          Sign Out
+        </button>
+      </div>
 
       {/* Form to create a new relationship */}
       <div className="mb-8 p-6 border border-gray-300 rounded-lg">
@@ -512,9 +897,41 @@ export default function DashboardPage() {
         </div>
       )}
 
+      {/* Search across every relationship */}
+      <SearchPanel onSelectRelationship={selectRelationshipById} />
+
+      {/* Follow-ups past their due date, across every relationship */}
+      <OverdueTasksPanel
+        refreshKey={tasksRefreshKey}
+        onSelectRelationship={selectRelationshipById}
+        onChanged={handleTasksChanged}
+      />
+
+      {/* Every relationship ranked by how much attention it needs */}
+      <OverviewPanel
+        refreshKey={overviewRefreshKey}
+        selectedRelationshipId={selectedRelationship?.id ?? null}
+        onSelect={setSelectedRelationship}
+      />
+
       {/* Relationships list section */}
       <div>
-        <h2 className="text-2xl font-semibold mb-4">Relationships</h2>
+        <div className="flex items-center justify-between mb-4">
+          <h2 className="text-2xl font-semibold">Relationships</h2>
+
+          {/* Toggle to include archived relationships */}
+          <label className="flex items-center gap-2 text-sm text-gray-700">
+            <input
+              type="checkbox"
+              checked={showArchived}
+              onChange={(e) => {
+                setShowArchived(e.target.checked);
+                fetchRelationships(e.target.checked);
+              }}
+            />
+            Show archived
+          </label>
+        </div>
         
         {/* Loading state */}
         {loading && <p className="text-gray-600">Loading...</p>}
@@ -537,12 +954,126 @@ export default function DashboardPage() {
                   selectedRelationship?.id === relationship.id
                     ? 'border-blue-500 bg-blue-50'
                     : 'border-gray-300 hover:border-gray-400'
-                }`}
+                } ${relationship.archived_at ? 'opacity-60' : ''}`}
               >
-                <h3 className="text-lg font-semibold">{relationship.person_name}</h3>
-                <p className="text-gray-600">Type: {relationship.type}</p>
-                {relationship.notes && (
-                  <p className="text-gray-700 mt-2">{relationship.notes}</p>
+                {editingRelationshipId === relationship.id ? (
+                  // Inline edit form (clicks inside it shouldn't select the card)
+                  <form
+                    onSubmit={(e) => handleSaveRelationship(e, relationship.id!)}
+                    onClick={(e) => e.stopPropagation()}
+                    className="space-y-2"
+                  >
+                    <input
+                      type="text"
+                      value={editPersonName}
+                      onChange={(e) => setEditPersonName(e.target.value)}
+                      required
+                      className="w-full px-3 py-1 border border-gray-300 rounded-md"
+                      aria-label="Name"
+                    />
+                    <input
+                      type="text"
+                      value={editType}
+                      onChange={(e) => setEditType(e.target.value)}
+                      className="w-full px-3 py-1 border border-gray-300 rounded-md"
+                      aria-label="Type"
+                    />
+                    <textarea
+                      value={editNotes}
+                      onChange={(e) => setEditNotes(e.target.value)}
+                      rows={2}
+                      className="w-full px-3 py-1 border border-gray-300 rounded-md"
+                      aria-label="Notes"
+                    />
+                    <select
+                      value={editPromptVersion}
+                      onChange={(e) => setEditPromptVersion(e.target.value)}
+                      className="w-full px-3 py-1 border border-gray-300 rounded-md"
+                      aria-label="Analysis prompt"
+                    >
+                      <option value="">Latest prompt (picked from type)</option>
+                      {ANALYZE_PROMPT_VERSIONS.map((version) => (
+                        <optgroup key={version.version} label={version.description}>
+                          <option value={version.version}>{version.version} (picked from type)</option>
+                          {version.variants.length > 1 &&
+                            version.variants.map((variant) => (
+                              <option key={variant.key} value={`${version.version}:${variant.key}`}>
+                                {version.version}: {variant.label}
+                              </option>
+                            ))}
+                        </optgroup>
+                      ))}
+                    </select>
+                    <select
+                      value={editReanalyzeDays}
+                      onChange={(e) => setEditReanalyzeDays(e.target.value)}
+                      className="w-full px-3 py-1 border border-gray-300 rounded-md"
+                      aria-label="Automatic re-analysis"
+                    >
+                      <option value="">Re-analyze only on new activity</option>
+                      <option value="7">Also re-analyze weekly</option>
+                      <option value="30">Also re-analyze monthly</option>
+                      <option value="90">Also re-analyze every 3 months</option>
+                    </select>
+                    <div className="flex gap-2">
+                      <button
+                        type="submit"
+                        className="px-3 py-1 text-sm bg-blue-600 text-white rounded-md hover:bg-blue-700"
+                      >
+                        Save
+                      </button>
+                      <button
+                        type="button"
+                        onClick={() => setEditingRelationshipId(null)}
+                        className="px-3 py-1 text-sm bg-gray-200 text-gray-800 rounded-md hover:bg-gray-300"
+                      >
+                        Cancel
+                      </button>
+                    </div>
+                  </form>
+                ) : (
+                  <>
+                    <h3 className="text-lg font-semibold">
+                      {relationship.person_name}
+                      {relationship.archived_at && (
+                        <span className="ml-2 text-xs font-normal text-gray-500">(archived)</span>
+                      )}
+                    </h3>
+                    <p className="text-gray-600">Type: {relationship.type}</p>
+                    {relationship.prompt_version && (
+                      <p className="text-xs text-gray-500">Prompt pinned to {relationship.prompt_version}</p>
+                    )}
+                    {relationship.notes && (
+                      <p className="text-gray-700 mt-2">{relationship.notes}</p>
+                    )}
+
+                    {/* Card controls (stopPropagation so they don't select the card) */}
+                    <div className="flex gap-3 mt-3 text-sm" onClick={(e) => e.stopPropagation()}>
+                      <button
+                        type="button"
+                        onClick={() => startEditingRelationship(relationship)}
+                        className="text-blue-600 hover:underline"
+                      >
+                        Edit
+                      </button>
+                      <button
+                        type="button"
+                        onClick={() =>
+                          updateRelationship(relationship.id!, { archived: !relationship.archived_at })
+                        }
+                        className="text-gray-600 hover:underline"
+                      >
+                        {relationship.archived_at ? 'Unarchive' : 'Archive'}
+                      </button>
+                      <button
+                        type="button"
+                        onClick={() => handleDeleteRelationship(relationship)}
+                        className="text-red-600 hover:underline"
+                      >
+                        Delete
+                      </button>
+                    </div>
+                  </>
                 )}
               </div>
             ))}
@@ -557,6 +1088,16 @@ export default function DashboardPage() {
             {selectedRelationship.person_name} - {selectedRelationship.type}
           </h2>
 
+          {/* Events proposed from new chat messages, waiting to be added or dismissed */}
+          <EventCandidatesPanel
+            relationshipId={selectedRelationship.id!}
+            refreshKey={conversationRefreshKey}
+            onAccepted={() => {
+              fetchEvents(selectedRelationship.id!);
+              setOverviewRefreshKey((key) => key + 1);
+            }}
+          />
+
           {/* Events list section */}
           <div className="mb-6">
             <h3 className="text-xl font-semibold mb-3">Events</h3>
@@ -577,12 +1118,74 @@ export default function DashboardPage() {
                     key={event.id}
                     className="p-3 border border-gray-200 rounded-md bg-white"
                   >
-                    <p className="font-semibold text-gray-800">{event.event_type}</p>
-                    <p className="text-gray-700 mt-1">{event.description}</p>
-                    {event.created_at && (
-                      <p className="text-sm text-gray-500 mt-2">
-                        {new Date(event.created_at).toLocaleString()}
-                      </p>
+                    {editingEventId === event.id ? (
+                      // Inline edit form for this event
+                      <form onSubmit={(e) => handleSaveEvent(e, event.id!)} className="space-y-2">
+                        <input
+                          type="text"
+                          value={editEventType}
+                          onChange={(e) => setEditEventType(e.target.value)}
+                          required
+                          className="w-full px-3 py-1 border border-gray-300 rounded-md"
+                          aria-label="Event type"
+                        />
+                        <textarea
+                          value={editEventDescription}
+                          onChange={(e) => setEditEventDescription(e.target.value)}
+                          rows={2}
+                          className="w-full px-3 py-1 border border-gray-300 rounded-md"
+                          aria-label="Description"
+                        />
+                        <input
+                          type="datetime-local"
+                          value={editEventOccurredAt}
+                          onChange={(e) => setEditEventOccurredAt(e.target.value)}
+                          className="w-full px-3 py-1 border border-gray-300 rounded-md"
+                          aria-label="When it happened"
+                        />
+                        <div className="flex gap-2">
+                          <button
+                            type="submit"
+                            className="px-3 py-1 text-sm bg-blue-600 text-white rounded-md hover:bg-blue-700"
+                          >
+                            Save
+                          </button>
+                          <button
+                            type="button"
+                            onClick={() => setEditingEventId(null)}
+                            className="px-3 py-1 text-sm bg-gray-200 text-gray-800 rounded-md hover:bg-gray-300"
+                          >
+                            Cancel
+                          </button>
+                        </div>
+                      </form>
+                    ) : (
+                      <>
+                        <p className="font-semibold text-gray-800">{event.event_type}</p>
+                        <p className="text-gray-700 mt-1">{event.description}</p>
+                        {/* Show when the event happened (falls back to when it was logged) */}
+                        {(event.occurred_at || event.created_at) && (
+                          <p className="text-sm text-gray-500 mt-2">
+                            {new Date((event.occurred_at || event.created_at)!).toLocaleString()}
+                          </p>
+                        )}
+                        <div className="flex gap-3 mt-2 text-sm">
+                          <button
+                            type="button"
+                            onClick={() => startEditingEvent(event)}
+                            className="text-blue-600 hover:underline"
+                          >
+                            Edit
+                          </button>
+                          <button
+                            type="button"
+                            onClick={() => handleDeleteEvent(event.id!)}
+                            className="text-red-600 hover:underline"
+                          >
+                            Delete
+                          </button>
+                        </div>
+                      </>
                     )}
                   </div>
                 ))}
@@ -590,6 +1193,34 @@ export default function DashboardPage() {
             )}
           </div>
 
+          {/* Conversation view: ingested messages as ME/THEM bubbles */}
+          <ConversationPanel
+            relationshipId={selectedRelationship.id!}
+            refreshKey={conversationRefreshKey}
+          />
+
+          {/* Volume, who starts conversations, reply times and silences, computed from the messages */}
+          <CommunicationMetricsPanel
+            relationshipId={selectedRelationship.id!}
+            refreshKey={conversationRefreshKey}
+          />
+
+          {/* Follow-up tasks; completing one logs an event */}
+          <TasksPanel
+            relationshipId={selectedRelationship.id!}
+            refreshKey={tasksRefreshKey}
+            onChanged={handleTasksChanged}
+          />
+
+          {/* Import a chat export (WhatsApp, Telegram, iMessage or CSV) into this relationship */}
+          <ImportChatPanel
+            relationshipId={selectedRelationship.id!}
+            onImported={() => {
+              setConversationRefreshKey((key) => key + 1);
+              setOverviewRefreshKey((key) => key + 1);
+            }}
+          />
+
           {/* Analyze button section */}
           <div className="mb-6 border-t border-gray-300 pt-4">
             <div className="flex flex-col gap-3 sm:flex-row sm:items-center">
@@ -602,6 +1233,19 @@ export default function DashboardPage() {
                 {isAnalyzing ? 'Analyzing...' : 'Analyze Relationship'}
               </button>
 
+              {/* How far back the analysis looks */}
+              <select
+                value={analysisWindow}
+                onChange={(e) => setAnalysisWindow(e.target.value)}
+                disabled={isAnalyzing}
+                className="px-3 py-2 border border-gray-300 rounded-md"
+              >
+                <option value="all">All time</option>
+                <option value="90d">Last 90 days</option>
+                <option value="30d">Last 30 days</option>
+                <option value="7d">Last 7 days</option>
+              </select>
+
               {/* Temporary test button to send a sample conversation */}
               <button
                 type="button"
@@ -619,6 +1263,11 @@ export default function DashboardPage() {
               </p>
             )}
             
+            {/* Current stage of a running analysis */}
+            {isAnalyzing && analysisProgress && (
+              <p className="mt-2 text-sm text-purple-700">{analysisProgress}</p>
+            )}
+
             {/* Display analysis error if one occurred */}
             {analysisError && (
               <div className="mt-3 p-3 bg-red-100 border border-red-400 text-red-700 rounded-md">
@@ -628,10 +1277,30 @@ export default function DashboardPage() {
             )}
           </div>
 
+          {/* Summary streaming in before the full insight is ready */}
+          {!selectedInsight && streamingSummary && (
+            <div className="mb-6 p-4 border border-gray-300 rounded-lg bg-white">
+              <h3 className="text-xl font-semibold mb-3">AI Insight</h3>
+              <p className="font-semibold text-gray-800">Summary:</p>
+              <p className="text-gray-700">{streamingSummary}</p>
+            </div>
+          )}
+
           {/* Insight display section */}
           {selectedInsight && (
             <div className="mb-6 p-4 border border-gray-300 rounded-lg bg-white">
-              <h3 className="text-xl font-semibold mb-3">AI Insight</h3>
+              <div className="flex items-center justify-between mb-3">
+                <h3 className="text-xl font-semibold">AI Insight</h3>
+                {selectedInsight.id && (
+                  <button
+                    type="button"
+                    onClick={() => setWhyInsightId(selectedInsight.id!)}
+                    className="text-sm text-blue-600 hover:underline"
+                  >
+                    Why?
+                  </button>
+                )}
+              </div>
               
               <div className="space-y-3">
                 <div>
@@ -646,17 +1315,24 @@ export default function DashboardPage() {
                 
                 <div>
                   <p className="font-semibold text-gray-800">Risk score:</p>
-                  <p className="text-gray-700">{(selectedInsight.risk_score * 100).toFixed(1)}%</p>
+                  <p className="text-gray-700">{formatScore(selectedInsight.risk_score)}</p>
                 </div>
                 
                 <div>
                   <p className="font-semibold text-gray-800">Growth score:</p>
-                  <p className="text-gray-700">{(selectedInsight.growth_score * 100).toFixed(1)}%</p>
+                  <p className="text-gray-700">{formatScore(selectedInsight.growth_score)}</p>
                 </div>
                 
                 <div>
                   <p className="font-semibold text-gray-800">Recommended action:</p>
                   <p className="text-gray-700">{selectedInsight.recommended_action}</p>
+                  {selectedInsight.id && (
+                    <AddFollowUpForm
+                      key={selectedInsight.id}
+                      insightId={selectedInsight.id}
+                      onAdded={() => setTasksRefreshKey((key) => key + 1)}
+                    />
+                  )}
                 </div>
                 
                 <div>
@@ -664,9 +1340,24 @@ export default function DashboardPage() {
                   <p className="text-gray-700">{selectedInsight.suggested_message}</p>
                 </div>
               </div>
+
+              {/* Alternatives to the suggested message, refined and marked as sent */}
+              {selectedInsight.id && (
+                <DraftsPanel
+                  key={selectedInsight.id}
+                  insightId={selectedInsight.id}
+                  onSent={() => {
+                    setConversationRefreshKey((key) => key + 1);
+                    setOverviewRefreshKey((key) => key + 1);
+                  }}
+                />
+              )}
             </div>
           )}
 
+          {/* Multi-turn chat grounded in this relationship's history */}
+          <ChatPanel relationshipId={selectedRelationship.id!} />
+
           {/* Insight History section */}
           <div className="mb-6 p-4 border border-gray-300 rounded-lg bg-white">
             <h3 className="text-xl font-semibold mb-3">Insight History</h3>
@@ -681,6 +1372,15 @@ export default function DashboardPage() {
               <p className="text-gray-600">No past insights yet.</p>
             )}
             
+            {/* Risk and growth over time, with events on the same timeline */}
+            {!isLoadingInsights && insightHistory.length > 0 && (
+              <InsightTrendChart
+                insights={insightHistory}
+                events={events}
+                onSelectInsight={(insight) => insight.id && setWhyInsightId(insight.id)}
+              />
+            )}
+
             {/* Insight history list: display all insights from newest to oldest */}
             {!isLoadingInsights && insightHistory.length > 0 && (
               <div className="space-y-4">
@@ -700,10 +1400,22 @@ export default function DashboardPage() {
                     <p className="text-gray-800 mb-2">{insight.summary}</p>
                     
                     {/* Display risk and growth scores in a small line */}
-                    {/* Scores are stored as decimals (0-1), so we display them as decimals */}
+                    {/* Scores are stored on the 0-100 scale (see lib/scores.ts) */}
                     <p className="text-xs text-gray-600">
-                      Risk: {insight.risk_score.toFixed(1)}, Growth: {insight.growth_score.toFixed(1)}
+                      Risk: {formatScore(insight.risk_score)}, Growth: {formatScore(insight.growth_score)}
+                      {insight.model && ` · ${insight.model}`}
                     </p>
+
+                    {/* Open the provenance drawer for this insight */}
+                    {insight.id && (
+                      <button
+                        type="button"
+                        onClick={() => setWhyInsightId(insight.id!)}
+                        className="mt-1 text-xs text-blue-600 hover:underline"
+                      >
+                        Why?
+                      </button>
+                    )}
                   </div>
                 ))}
               </div>
@@ -747,6 +1459,21 @@ export default function DashboardPage() {
                 />
               </div>
 
+              {/* When the event happened (optional, defaults to now) */}
+              <div className="mb-4">
+                <label htmlFor="event_occurred_at" className="block mb-2 font-medium">
+                  When did it happen?
+                </label>
+                <input
+                  type="datetime-local"
+                  id="event_occurred_at"
+                  value={eventOccurredAt}
+                  onChange={(e) => setEventOccurredAt(e.target.value)}
+                  className="w-full px-4 py-2 border border-gray-300 rounded-md"
+                />
+                <p className="text-sm text-gray-500 mt-1">Leave empty for right now.</p>
+              </div>
+
               {/* Submit button */}
               <button
                 type="submit"
@@ -763,6 +1490,11 @@ export default function DashboardPage() {
           <p>No relationship selected. Click on a relationship above to view and add events.</p>
         </div>
       )}
+
+      {/* Provenance drawer for the insight whose "Why?" was clicked */}
+      {whyInsightId && (
+        <InsightWhyDrawer insightId={whyInsightId} onClose={() => setWhyInsightId(null)} />
+      )}
     </div>
   );
 }
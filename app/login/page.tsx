@@ -0,0 +1,161 @@
+/**
+ * Login page for the Relationship Decision Engine
+ *
+ * Lets a user sign in (or create an account) with email and password
+ * using Supabase Auth. Once signed in, the session lives in cookies and
+ * every API route only sees that user's data.
+ *
+ * This is a client-side component because it handles form state and
+ * talks to Supabase Auth from the browser.
+ */
+
+'use client';
+
+import { useState } from 'react';
+import { useRouter } from 'next/navigation';
+import { createSupabaseBrowserClient } from '@/lib/supabaseBrowserClient';
+
+export default function LoginPage() {
+  const router = useRouter();
+
+  // State for the form inputs
+  const [email, setEmail] = useState('');
+  const [password, setPassword] = useState('');
+
+  // Whether the form creates a new account instead of signing in
+  const [isSignUp, setIsSignUp] = useState(false);
+
+  // State to track if we're submitting the form
+  const [submitting, setSubmitting] = useState(false);
+
+  // State to store error and info messages
+  const [error, setError] = useState<string | null>(null);
+  const [info, setInfo] = useState<string | null>(null);
+
+  /**
+   * Handle form submission to sign in or sign up
+   */
+  async function handleSubmit(e: React.FormEvent) {
+    // Prevent the default form submission behavior (page refresh)
+    e.preventDefault();
+
+    const supabase = createSupabaseBrowserClient();
+
+    try {
+      setSubmitting(true);
+      setError(null);
+      setInfo(null);
+
+      if (isSignUp) {
+        const { data, error: signUpError } = await supabase.auth.signUp({
+          email,
+          password,
+          options: {
+            emailRedirectTo: `${window.location.origin}/auth/callback`,
+          },
+        });
+
+        if (signUpError) {
+          throw signUpError;
+        }
+
+        // If email confirmation is enabled, there is no session yet
+        if (!data.session) {
+          setInfo('Check your email to confirm your account.');
+          return;
+        }
+      } else {
+        const { error: signInError } = await supabase.auth.signInWithPassword({
+          email,
+          password,
+        });
+
+        if (signInError) {
+          throw signInError;
+        }
+      }
+
+      // Signed in: go to the dashboard and let server components re-read the session
+      router.push('/dashboard');
+      router.refresh();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to sign in');
+    } finally {
+      setSubmitting(false);
+    }
+  }
+
+  return (
+    <div className="p-8 max-w-md mx-auto">
+      {/* Page heading */}
+      <h1 className="text-3xl font-bold mb-8">Relationship Decision Engine</h1>
+
+      <div className="p-6 border border-gray-300 rounded-lg">
+        <h2 className="text-xl font-semibold mb-4">{isSignUp ? 'Create Account' : 'Sign In'}</h2>
+
+        <form onSubmit={handleSubmit}>
+          {/* Email input field */}
+          <div className="mb-4">
+            <label htmlFor="email" className="block mb-2 font-medium">
+              Email
+            </label>
+            <input
+              type="email"
+              id="email"
+              value={email}
+              onChange={(e) => setEmail(e.target.value)}
+              required
+              className="w-full px-4 py-2 border border-gray-300 rounded-md"
+            />
+          </div>
+
+          {/* Password input field */}
+          <div className="mb-4">
+            <label htmlFor="password" className="block mb-2 font-medium">
+              Password
+            </label>
+            <input
+              type="password"
+              id="password"
+              value={password}
+              onChange={(e) => setPassword(e.target.value)}
+              required
+              minLength={6}
+              className="w-full px-4 py-2 border border-gray-300 rounded-md"
+            />
+          </div>
+
+          {/* Error and info messages */}
+          {error && (
+            <div className="mb-4 p-3 bg-red-100 border border-red-400 text-red-700 rounded-md">
+              {error}
+            </div>
+          )}
+          {info && (
+            <div className="mb-4 p-3 bg-blue-50 border border-blue-300 text-blue-800 rounded-md">
+              {info}
+            </div>
+          )}
+
+          {/* Submit button */}
+          <button
+            type="submit"
+            disabled={submitting}
+            className="w-full px-6 py-2 bg-blue-600 text-white rounded-md hover:bg-blue-700 disabled:bg-gray-400"
+          >
+            {submitting ? 'Please wait...' : isSignUp ? 'Create Account' : 'Sign In'}
+          </button>
+        </form>
+
+        {/* Toggle between sign in and sign up */}
+        <button
+          type="button"
+          onClick={() => setIsSignUp(!isSignUp)}
+          className="mt-4 text-sm text-blue-600 hover:underline"
+        >
+          {isSignUp ? 'Already have an account? Sign in' : "Don't have an account? Create one"}
+        </button>
+      </div>
+    </div>
+  );
+}
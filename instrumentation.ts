@@ -0,0 +1,22 @@
+/**
+ * Server startup hook (Next.js instrumentation)
+ *
+ * Starts the in-process re-analysis scheduler (lib/reanalysis.ts) when
+ * REANALYZE_INTERVAL_MINUTES is set. Leave it unset when a cron job calls
+ * /api/jobs/reanalyze instead, or when several server instances run.
+ */
+
+export async function register() {
+  // The scheduler needs Node APIs, so it never runs in the edge runtime
+  if (process.env.NEXT_RUNTIME !== 'nodejs') {
+    return;
+  }
+
+  const intervalMinutes = Number(process.env.REANALYZE_INTERVAL_MINUTES);
+  if (!Number.isFinite(intervalMinutes) || intervalMinutes <= 0) {
+    return;
+  }
+
+  const { startReanalysisScheduler } = await import('@/lib/reanalysis');
+  startReanalysisScheduler(intervalMinutes);
+}
@@ -0,0 +1,379 @@
+/**
+ * Relationship analysis pipeline
+ *
+ * Shared by both response modes of /api/analyze: it fetches the
+ * relationship's context, asks the LLM for an insight (with bounded repair
+ * attempts when the answer doesn't validate), and stores the result.
+ *
+ * Callers can pass onProgress to follow along as each stage finishes; the
+ * streaming mode forwards these to the browser as Server-Sent Events, the
+ * JSON mode ignores them.
+ */
+
+import type { SupabaseClient } from '@supabase/supabase-js';
+import { ChatMessage, LLMProvider, LLMUsage } from '@/lib/llm';
+import type { Insight, Relationship } from '@/lib/types';
+import { PromptTemplateError, renderPrompt, selectAnalyzePrompt, SelectedPrompt } from '@/lib/prompts';
+import { AnalysisContext, AnalysisWindow, buildAnalysisContext } from '@/lib/analysisContext';
+import {
+  formatInsightErrors,
+  InsightFieldError,
+  InsightFields,
+  parseInsight,
+} from '@/lib/insightValidation';
+
+// How many times we ask the model for a valid insight (first try + repairs)
+const MAX_INSIGHT_ATTEMPTS = 3;
+
+// Insight columns returned to clients. prompt_text can be large, so it is
+// only sent by /api/insights/[id].
+export const INSIGHT_COLUMNS =
+  'id, user_id, relationship_id, summary, pattern, risk_score, growth_score, recommended_action, suggested_message, created_at, provider, model, prompt_version, latency_ms, prompt_tokens, completion_tokens, total_tokens, attempts, context_window, event_ids, message_ids';
+
+/**
+ * Progress reported while an analysis runs
+ *
+ * - summarizing: older history is being folded into the rolling summary
+ * - context: the relationship, events and messages were fetched
+ * - model: a request to the model started (attempt 2+ are repairs)
+ * - summary: the summary text streamed so far (only when the model streams)
+ * - retry: the model's answer was invalid and will be repaired
+ * - validated: the model returned a valid insight
+ * - saved: the insight was stored
+ */
+export type AnalysisProgress =
+  | { stage: 'summarizing' }
+  | {
+      stage: 'context';
+      person_name: string;
+      window: string;
+      events: number;
+      messages: number;
+      summarized: boolean;
+    }
+  | { stage: 'model'; attempt: number; provider: string; model: string }
+  | { stage: 'summary'; text: string }
+  | { stage: 'retry'; attempt: number; fields: InsightFieldError[] }
+  | { stage: 'validated'; insight: InsightFields }
+  | { stage: 'saved'; insight: Insight };
+
+/**
+ * Error that ends an analysis, with the HTTP status to report
+ *
+ * @property details - Extra fields for the error response (e.g. the invalid fields of a 422)
+ */
+export class AnalysisError extends Error {
+  status: number;
+  details: Record<string, unknown>;
+
+  constructor(message: string, status: number, details: Record<string, unknown> = {}) {
+    super(message);
+    this.name = 'AnalysisError';
+    this.status = status;
+    this.details = details;
+  }
+}
+
+/**
+ * Read the (possibly unfinished) "summary" string out of partial JSON.
+ *
+ * Used while the model is still streaming, so the dashboard can show the
+ * summary before the rest of the insight has arrived.
+ */
+function readPartialSummary(partialJson: string): string | null {
+  const match = partialJson.match(/"summary"\s*:\s*"((?:[^"\\]|\\.)*)/);
+  if (!match) {
+    return null;
+  }
+
+  // Drop a trailing lone backslash (an escape cut off mid-stream) before decoding
+  const body = match[1].replace(/\\(u[0-9a-fA-F]{0,3})?$/, '');
+  try {
+    return JSON.parse(`"${body}"`);
+  } catch {
+    return body;
+  }
+}
+
+/**
+ * A validated insight and how it was produced
+ *
+ * @property promptText - The rendered user prompt, trimmed
+ * @property model - Model id reported by the provider on the last attempt
+ * @property attempts - Number of model calls (1 + repairs)
+ * @property latencyMs - Time spent waiting on the model, across attempts
+ * @property usage - Token usage across attempts (null if the provider never reported it)
+ */
+export type GeneratedInsight = {
+  insight: InsightFields;
+  prompt: SelectedPrompt;
+  promptText: string;
+  model: string;
+  attempts: number;
+  latencyMs: number;
+  usage: LLMUsage | null;
+};
+
+/**
+ * Ask the model for an insight about a relationship, given its context.
+ *
+ * This is the part of the pipeline that doesn't touch the database, so the
+ * offline evaluation harness (scripts/eval.ts) runs exactly the same prompt
+ * selection, repair loop and validation as /api/analyze.
+ *
+ * Throws AnalysisError (400 for an unknown prompt version, 422 when the
+ * model never returns a valid insight) and lets LLMError through.
+ */
+export async function generateInsight(params: {
+  relationship: Pick<Relationship, 'person_name' | 'type' | 'notes' | 'prompt_version'>;
+  context: AnalysisContext;
+  provider: LLMProvider;
+  promptVersion?: string | null;
+  onProgress?: (progress: AnalysisProgress) => void;
+}): Promise<GeneratedInsight> {
+  const { relationship, context, provider, promptVersion, onProgress } = params;
+
+  // 3. Build the analysis prompt from the template for this relationship type
+  // (or the version pinned by the request or the relationship)
+  let prompt: SelectedPrompt;
+  let promptText: string;
+  try {
+    prompt = selectAnalyzePrompt(relationship.type, [promptVersion, relationship.prompt_version]);
+    promptText = renderPrompt(prompt.variant.user, {
+      name: relationship.person_name ?? 'Unknown',
+      type: relationship.type ?? 'Not specified',
+      notes: relationship.notes ?? 'None',
+      window: context.window.description,
+      summary: context.summaryText ? `\nEarlier history (summary):\n${context.summaryText}\n` : '',
+      events: context.eventsText,
+      messages: context.messagesText,
+      tasks: context.tasksText,
+      metrics: context.metricsText,
+    });
+  } catch (err) {
+    if (err instanceof PromptTemplateError) {
+      throw new AnalysisError(err.message, 400);
+    }
+    throw err;
+  }
+
+  console.log('Using prompt template:', prompt.id);
+
+  console.log(`Calling LLM provider ${provider.name} (${provider.model})...`);
+
+  // 4. Call the LLM provider and validate its answer.
+  // If the response doesn't match the insight shape, we send the validation
+  // errors back to the model and ask it to correct itself, a bounded number
+  // of times, before giving up with a 422.
+  const conversation: ChatMessage[] = [
+    { role: 'system', content: prompt.variant.system },
+    { role: 'user', content: promptText },
+  ];
+
+  let parsed: InsightFields | null = null;
+  let lastErrors: InsightFieldError[] = [];
+  let aiText = '';
+
+  // Provenance, accumulated across attempts
+  let attempts = 0;
+  let latencyMs = 0;
+  let usageReported = false;
+  const usage: LLMUsage = { prompt_tokens: 0, completion_tokens: 0, total_tokens: 0 };
+  let modelId = provider.model;
+
+  for (let attempt = 1; attempt <= MAX_INSIGHT_ATTEMPTS; attempt++) {
+    onProgress?.({ stage: 'model', attempt, provider: provider.name, model: provider.model });
+
+    // Only stream when someone is listening; otherwise a plain request is cheaper
+    let streamed = '';
+    let lastSummary: string | null = null;
+    const onToken = onProgress
+      ? (delta: string) => {
+          streamed += delta;
+          const summary = readPartialSummary(streamed);
+          if (summary !== null && summary !== lastSummary) {
+            lastSummary = summary;
+            onProgress({ stage: 'summary', text: summary });
+          }
+        }
+      : undefined;
+
+    const startedAt = Date.now();
+    const completion = await provider.complete(conversation, { task: 'analyze', onToken });
+    latencyMs += Date.now() - startedAt;
+    attempts = attempt;
+    modelId = completion.model;
+    aiText = completion.text;
+
+    if (completion.usage) {
+      usageReported = true;
+      usage.prompt_tokens += completion.usage.prompt_tokens;
+      usage.completion_tokens += completion.usage.completion_tokens;
+      usage.total_tokens += completion.usage.total_tokens;
+    }
+
+    console.log(`LLM raw response (attempt ${attempt}):`, aiText);
+
+    // 5. Parse and validate the model's JSON
+    const result = parseInsight(aiText);
+    if (result.ok) {
+      parsed = result.insight;
+      break;
+    }
+
+    lastErrors = result.errors;
+    console.error(`Invalid insight on attempt ${attempt}:`, lastErrors);
+
+    if (attempt < MAX_INSIGHT_ATTEMPTS) {
+      onProgress?.({ stage: 'retry', attempt, fields: lastErrors });
+    }
+
+    conversation.push(
+      { role: 'assistant', content: aiText },
+      {
+        role: 'user',
+        content: `Your previous response was not a valid insight:\n${formatInsightErrors(lastErrors)}\n\nRespond again with ONLY the corrected JSON object.`,
+      }
+    );
+  }
+
+  if (!parsed) {
+    throw new AnalysisError(
+      `Model did not return a valid insight after ${MAX_INSIGHT_ATTEMPTS} attempts`,
+      422,
+      { fields: lastErrors, raw: aiText }
+    );
+  }
+
+  console.log('Parsed insight:', parsed);
+  onProgress?.({ stage: 'validated', insight: parsed });
+
+  return {
+    insight: parsed,
+    prompt,
+    promptText: promptText.trim(),
+    model: modelId,
+    attempts,
+    latencyMs,
+    usage: usageReported ? usage : null,
+  };
+}
+
+/**
+ * Analyze one relationship and store the resulting insight, along with its
+ * provenance (model, prompt version, latency, token usage and the ids of
+ * the events and messages in the prompt).
+ *
+ * Throws AnalysisError for expected failures (missing relationship, invalid
+ * model output, database errors) and lets LLMError from the provider through.
+ */
+export async function runAnalysis(
+  supabase: SupabaseClient,
+  params: {
+    userId: string;
+    relationshipId: string;
+    window: AnalysisWindow;
+    provider: LLMProvider;
+    promptVersion?: string | null;
+    onProgress?: (progress: AnalysisProgress) => void;
+  }
+): Promise<Insight> {
+  const { userId, relationshipId, window, provider, promptVersion, onProgress } = params;
+
+  // 1. Fetch the relationship
+  const { data: relationship, error: relError } = await supabase
+    .from('relationships')
+    .select('*')
+    .eq('id', relationshipId)
+    .eq('user_id', userId)
+    .maybeSingle();
+
+  if (relError) {
+    console.error('Relationship fetch error:', relError);
+    throw new AnalysisError(relError.message, 500);
+  }
+
+  if (!relationship) {
+    console.error('Relationship not found:', relationshipId);
+    throw new AnalysisError('Relationship not found', 404);
+  }
+
+  console.log('Fetched relationship:', relationship.person_name);
+
+  // 2. Pick the events, messages and older-history summary that fit the prompt
+  let context: AnalysisContext;
+  try {
+    context = await buildAnalysisContext(supabase, {
+      userId,
+      relationshipId,
+      personName: relationship.person_name ?? 'Unknown',
+      window,
+      provider,
+      onSummarize: () => onProgress?.({ stage: 'summarizing' }),
+    });
+  } catch (err) {
+    console.error('Context fetch error:', err);
+    throw new AnalysisError(err instanceof Error ? err.message : 'Failed to load context', 500);
+  }
+
+  console.log(
+    `Context (${window.description}): ${context.eventIds.length} events, ${context.messageIds.length} messages, ~${context.estimatedTokens} tokens`
+  );
+
+  onProgress?.({
+    stage: 'context',
+    person_name: relationship.person_name,
+    window: window.label,
+    events: context.eventIds.length,
+    messages: context.messageIds.length,
+    summarized: context.summaryText !== null,
+  });
+
+  // 3-5. Build the prompt, call the model and validate its answer
+  const generated = await generateInsight({
+    relationship,
+    context,
+    provider,
+    promptVersion,
+    onProgress,
+  });
+  const { insight: parsed, prompt, promptText, usage } = generated;
+
+  // 6. Insert insight into Supabase, with what produced it
+  const { data: saved, error: insertError } = await supabase
+    .from('insights')
+    .insert({
+      user_id: userId,
+      relationship_id: relationshipId,
+      summary: parsed.summary,
+      pattern: parsed.pattern,
+      risk_score: parsed.risk_score,
+      growth_score: parsed.growth_score,
+      recommended_action: parsed.recommended_action,
+      suggested_message: parsed.suggested_message,
+      provider: provider.name,
+      model: generated.model,
+      prompt_version: prompt.id,
+      latency_ms: generated.latencyMs,
+      prompt_tokens: usage?.prompt_tokens ?? null,
+      completion_tokens: usage?.completion_tokens ?? null,
+      total_tokens: usage?.total_tokens ?? null,
+      attempts: generated.attempts,
+      context_window: window.label,
+      event_ids: context.eventIds,
+      message_ids: context.messageIds,
+      prompt_text: promptText,
+    })
+    .select(INSIGHT_COLUMNS)
+    .single();
+
+  if (insertError) {
+    console.error('Error inserting insight:', insertError);
+    throw new AnalysisError(insertError.message, 500);
+  }
+
+  console.log('Successfully inserted insight for relationship:', relationshipId);
+  onProgress?.({ stage: 'saved', insight: saved as Insight });
+
+  return saved as Insight;
+}
@@ -0,0 +1,742 @@
+/**
+ * Context builder for relationship analysis
+ *
+ * Decides which events and messages go into the analysis prompt:
+ *
+ * - The caller picks a time window ("30d", "90d", ... or "all").
+ * - The prompt gets a token budget (ANALYSIS_CONTEXT_TOKENS, default 3000,
+ *   estimated at ~4 characters per token). Events get a fixed share, and
+ *   messages get whatever is left. Within each share the newest items win
+ *   and whole items are kept, so a conversation is never cut mid-message
+ *   (very long single items are clipped).
+ * - For "all", history that doesn't fit is folded into a rolling summary
+ *   stored in relationship_summaries. Each analysis folds in whatever fell
+ *   out of the budget since the last one (oldest first, a few chunks per
+ *   run), so the summary grows incrementally instead of being regenerated.
+ *   If rows turn up in (or vanish from) history the summary already covers,
+ *   such as a backdated event or an import of older messages, the summary
+ *   is rebuilt from the start so they aren't lost.
+ *   Bounded windows skip the summary and simply note what was left out.
+ * - Open follow-up tasks and the most recently completed ones are listed
+ *   separately, outside the budget (there are only ever a few).
+ * - Communication metrics (lib/communicationMetrics.ts) are computed from
+ *   every message in the window, so the prompt has exact numbers even for
+ *   history that only made it into the summary.
+ */
+
+import type { SupabaseClient } from '@supabase/supabase-js';
+import type { LLMProvider } from '@/lib/llm';
+import {
+  computeCommunicationMetrics,
+  formatMetricsForPrompt,
+  loadCommunicationMetrics,
+} from '@/lib/communicationMetrics';
+import type { Event, Message, RelationshipSummary, Task } from '@/lib/types';
+
+const DEFAULT_CONTEXT_TOKENS = 3000;
+
+// Share of the budget reserved for the rolling summary and for events
+const SUMMARY_SHARE = 0.25;
+const EVENTS_SHARE = 0.3;
+
+// Longest single event description or message we put in the prompt
+const MAX_ITEM_CHARS = 600;
+
+// How many of the newest items we look at when filling the budget
+const MAX_EVENTS_FETCH = 200;
+const MAX_MESSAGES_FETCH = 500;
+
+// How much history one summarization call folds in, and how many calls one analysis may make
+const SUMMARY_CHUNK_TOKENS = 2000;
+const MAX_SUMMARY_CHUNKS = 3;
+const SUMMARY_MAX_WORDS = 200;
+
+// Older rows fetched per summarization call
+const SUMMARY_EVENTS_PAGE = 100;
+const SUMMARY_MESSAGES_PAGE = 200;
+
+// How many open and completed follow-up tasks go into the prompt
+const MAX_OPEN_TASKS = 10;
+const MAX_COMPLETED_TASKS = 5;
+const MAX_TASK_CHARS = 200;
+
+/**
+ * The time window an analysis looks at
+ *
+ * @property label - "all" or the window as given (e.g. "30d")
+ * @property description - Human-readable form for the prompt
+ * @property since - ISO start of the window, or null for all time
+ */
+export type AnalysisWindow = {
+  label: string;
+  description: string;
+  since: string | null;
+};
+
+/**
+ * What the builder selected for the prompt
+ *
+ * @property summaryText - Rolling summary of older history (null if none applies)
+ * @property eventsText - Event lines, oldest first
+ * @property messagesText - Message lines, oldest first
+ * @property tasksText - Open follow-up tasks (soonest due first), then recently completed ones
+ * @property metricsText - Communication metrics for the window, one per line
+ * @property eventIds - Ids of the events included verbatim
+ * @property messageIds - Ids of the messages included verbatim
+ * @property omittedEvents - In-window events that didn't fit and aren't in the summary
+ * @property omittedMessages - In-window messages that didn't fit and aren't in the summary
+ * @property estimatedTokens - Estimated size of the summary, events, messages, tasks and metrics together
+ */
+export type AnalysisContext = {
+  window: AnalysisWindow;
+  summaryText: string | null;
+  eventsText: string;
+  messagesText: string;
+  tasksText: string;
+  metricsText: string;
+  eventIds: string[];
+  messageIds: string[];
+  omittedEvents: number;
+  omittedMessages: number;
+  estimatedTokens: number;
+};
+
+/**
+ * Parse the `window` field of an analyze request.
+ *
+ * Accepts "all" (the default when missing) or a number of days like "30d".
+ * Returns null if the value isn't understood.
+ */
+export function parseAnalysisWindow(value: unknown, now: Date = new Date()): AnalysisWindow | null {
+  if (value === undefined || value === null || value === '' || value === 'all') {
+    return { label: 'all', description: 'all time', since: null };
+  }
+
+  const match = typeof value === 'string' ? value.match(/^(\d{1,4})d$/) : null;
+  const days = match ? Number(match[1]) : 0;
+  if (days < 1) {
+    return null;
+  }
+
+  return {
+    label: value as string,
+    description: `last ${days} day${days === 1 ? '' : 's'}`,
+    since: new Date(now.getTime() - days * 24 * 60 * 60 * 1000).toISOString(),
+  };
+}
+
+/**
+ * Rough token count (~4 characters per token), good enough for budgeting
+ */
+export function estimateTokens(text: string): number {
+  return Math.ceil(text.length / 4);
+}
+
+/**
+ * The context token budget from ANALYSIS_CONTEXT_TOKENS, or the default
+ */
+function contextTokenBudget(): number {
+  const configured = Number(process.env.ANALYSIS_CONTEXT_TOKENS);
+  return Number.isInteger(configured) && configured > 0 ? configured : DEFAULT_CONTEXT_TOKENS;
+}
+
+function clip(text: string, maxChars: number): string {
+  return text.length > maxChars ? `${text.slice(0, maxChars)}...` : text;
+}
+
+function formatEvent(e: Event): string {
+  return `- [${e.occurred_at ?? e.created_at}] (${e.event_type}) ${clip(e.description ?? '', MAX_ITEM_CHARS)}`;
+}
+
+function formatMessage(m: Message): string {
+  const who = m.from_me ? 'ME' : 'THEM';
+  return `[${m.timestamp}] ${who}: ${clip(m.text ?? '', MAX_ITEM_CHARS)}`;
+}
+
+/**
+ * List follow-up tasks for the prompt, marking the overdue ones
+ *
+ * @param open - Open tasks, soonest due first
+ * @param completed - Completed tasks, most recent first
+ */
+function formatTasks(open: Task[], completed: Task[], now: Date): string {
+  const day = (iso: string) => iso.slice(0, 10);
+  const lines: string[] = [];
+
+  for (const task of open) {
+    const due = task.due_at
+      ? `due ${day(task.due_at)}${new Date(task.due_at) < now ? ', OVERDUE' : ''}`
+      : 'no due date';
+    lines.push(`- [open, ${due}] ${clip(task.title, MAX_TASK_CHARS)}`);
+  }
+  for (const task of completed) {
+    lines.push(`- [done ${day(task.completed_at!)}] ${clip(task.title, MAX_TASK_CHARS)}`);
+  }
+
+  return lines.length > 0 ? lines.join('\n') : 'No follow-up tasks.';
+}
+
+/**
+ * Take items (newest first) until the budget runs out.
+ *
+ * Returns the included items, still newest first, and the tokens they use.
+ */
+function takeWithinBudget<T>(
+  items: T[],
+  format: (item: T) => string,
+  budget: number
+): { included: T[]; used: number } {
+  const included: T[] = [];
+  let used = 0;
+
+  for (const item of items) {
+    const cost = estimateTokens(format(item)) + 1;
+    if (used + cost > budget) {
+      break;
+    }
+    included.push(item);
+    used += cost;
+  }
+
+  return { included, used };
+}
+
+/**
+ * Oldest non-null timestamp among included items (the verbatim cutoff)
+ */
+function oldestTimestamp(values: (string | null | undefined)[]): string | null {
+  const present = values.filter((v): v is string => Boolean(v));
+  if (present.length === 0) {
+    return null;
+  }
+  return present.reduce((oldest, v) => (new Date(v) < new Date(oldest) ? v : oldest));
+}
+
+/**
+ * Trim or extend a chunk (the first `taken` of `fetched`, oldest first) so
+ * it never ends part-way through rows that share a timestamp. The next
+ * chunk starts strictly after the newest row folded in, so the rest of such
+ * a group would otherwise be skipped. The group is completed when the page
+ * holds all of it and dropped when a full page may continue past it.
+ */
+function wholeTimestampGroups<T>(
+  fetched: T[],
+  taken: number,
+  pageSize: number,
+  time: (item: T) => string | null
+): T[] {
+  if (taken === 0) {
+    return [];
+  }
+
+  const lastTime = time(fetched[taken - 1]);
+  let end = taken;
+  while (end < fetched.length && time(fetched[end]) === lastTime) {
+    end++;
+  }
+  if (end < fetched.length || fetched.length < pageSize) {
+    return fetched.slice(0, end);
+  }
+
+  let start = taken;
+  while (start > 0 && time(fetched[start - 1]) === lastTime) {
+    start--;
+  }
+  return fetched.slice(0, start);
+}
+
+/**
+ * Check whether the history a summary covers has changed since it was
+ * written: rows added behind the covered_until marks (a backdated event,
+ * an import of older messages, an accepted suggestion dated in the past)
+ * or removed from before them. The counts of covered rows then no longer
+ * match what was folded in. If the check fails, the summary is trusted.
+ */
+async function summaryIsOutOfDate(
+  supabase: SupabaseClient,
+  userId: string,
+  summary: RelationshipSummary
+): Promise<boolean> {
+  const [eventsResult, messagesResult] = await Promise.all([
+    summary.events_covered_until
+      ? supabase
+          .from('events')
+          .select('id', { count: 'exact', head: true })
+          .eq('user_id', userId)
+          .eq('relationship_id', summary.relationship_id)
+          .lte('occurred_at', summary.events_covered_until)
+      : null,
+    summary.messages_covered_until
+      ? supabase
+          .from('messages')
+          .select('id', { count: 'exact', head: true })
+          .eq('user_id', userId)
+          .eq('relationship_id', summary.relationship_id)
+          .lte('timestamp', summary.messages_covered_until)
+      : null,
+  ]);
+
+  const error = eventsResult?.error ?? messagesResult?.error;
+  if (error) {
+    console.error('Relationship summary check error:', error);
+    return false;
+  }
+
+  return (
+    (eventsResult !== null && eventsResult.count !== summary.event_count) ||
+    (messagesResult !== null && messagesResult.count !== summary.message_count)
+  );
+}
+
+/**
+ * Fold history older than the verbatim cutoffs into the rolling summary.
+ *
+ * Works oldest first in chunks of about SUMMARY_CHUNK_TOKENS, at most
+ * MAX_SUMMARY_CHUNKS per call; anything left is picked up by the next
+ * analysis. Failures are logged and leave the summary as it was, since the
+ * analysis can still run on the verbatim context.
+ */
+async function extendSummary(
+  supabase: SupabaseClient,
+  params: {
+    userId: string;
+    relationshipId: string;
+    personName: string;
+    provider: LLMProvider;
+    current: RelationshipSummary;
+    eventsCutoff: string | null;
+    messagesCutoff: string | null;
+    onSummarize?: () => void;
+  }
+): Promise<RelationshipSummary> {
+  const { userId, relationshipId, personName, provider, eventsCutoff, messagesCutoff } = params;
+  let summary = params.current;
+
+  try {
+    for (let chunk = 0; chunk < MAX_SUMMARY_CHUNKS; chunk++) {
+      let olderEvents: Event[] = [];
+      if (eventsCutoff) {
+        let query = supabase
+          .from('events')
+          .select('*')
+          .eq('user_id', userId)
+          .eq('relationship_id', relationshipId)
+          .lt('occurred_at', eventsCutoff);
+        if (summary.events_covered_until) {
+          query = query.gt('occurred_at', summary.events_covered_until);
+        }
+        const { data, error } = await query.order('occurred_at', { ascending: true }).limit(SUMMARY_EVENTS_PAGE);
+        if (error) {
+          throw error;
+        }
+        olderEvents = data ?? [];
+      }
+
+      let olderMessages: Message[] = [];
+      if (messagesCutoff) {
+        let query = supabase
+          .from('messages')
+          .select('*')
+          .eq('user_id', userId)
+          .eq('relationship_id', relationshipId)
+          .lt('timestamp', messagesCutoff);
+        if (summary.messages_covered_until) {
+          query = query.gt('timestamp', summary.messages_covered_until);
+        }
+        const { data, error } = await query
+          .order('timestamp', { ascending: true })
+          .order('message_index', { ascending: true })
+          .limit(SUMMARY_MESSAGES_PAGE);
+        if (error) {
+          throw error;
+        }
+        olderMessages = data ?? [];
+      }
+
+      if (olderEvents.length === 0 && olderMessages.length === 0) {
+        break;
+      }
+
+      // Walk both lists in time order so events and messages advance together
+      let chunkEvents: Event[] = [];
+      let chunkMessages: Message[] = [];
+      let used = 0;
+      let e = 0;
+      let m = 0;
+      while (e < olderEvents.length || m < olderMessages.length) {
+        const nextEvent = olderEvents[e];
+        const nextMessage = olderMessages[m];
+        const takeEvent =
+          nextEvent &&
+          (!nextMessage || new Date(nextEvent.occurred_at!) <= new Date(nextMessage.timestamp!));
+        const line = takeEvent ? formatEvent(nextEvent) : formatMessage(nextMessage);
+        const cost = estimateTokens(line) + 1;
+        if (used + cost > SUMMARY_CHUNK_TOKENS && used > 0) {
+          break;
+        }
+        used += cost;
+        if (takeEvent) {
+          chunkEvents.push(nextEvent);
+          e++;
+        } else {
+          chunkMessages.push(nextMessage);
+          m++;
+        }
+      }
+
+      const wholeEvents = wholeTimestampGroups(olderEvents, e, SUMMARY_EVENTS_PAGE, (ev) => ev.occurred_at ?? null);
+      const wholeMessages = wholeTimestampGroups(olderMessages, m, SUMMARY_MESSAGES_PAGE, (msg) => msg.timestamp);
+      // Unless one timestamp fills a whole page, which we can't fold in whole
+      if (wholeEvents.length > 0 || wholeMessages.length > 0) {
+        chunkEvents = wholeEvents;
+        chunkMessages = wholeMessages;
+      }
+
+      if (summary === params.current) {
+        params.onSummarize?.();
+      }
+
+      const prompt = `
+Name: ${personName}
+
+Existing summary:
+${summary.summary || 'None yet.'}
+
+Older history to fold in (oldest first):
+Events:
+${chunkEvents.length > 0 ? chunkEvents.map(formatEvent).join('\n') : 'None.'}
+
+Messages:
+${chunkMessages.length > 0 ? chunkMessages.map(formatMessage).join('\n') : 'None.'}
+
+Rewrite the summary so it also covers this history. Keep it under ${SUMMARY_MAX_WORDS} words, focus on patterns, turning points and unresolved issues, and don't invent details.
+      `;
+
+      const completion = await provider.complete(
+        [
+          {
+            role: 'system',
+            content:
+              "You maintain a running summary of a relationship's history. Respond with the summary text only.",
+          },
+          { role: 'user', content: prompt },
+        ],
+        { task: 'summarize' }
+      );
+
+      summary = {
+        ...summary,
+        summary: completion.text.trim(),
+        events_covered_until:
+          chunkEvents.length > 0
+            ? chunkEvents[chunkEvents.length - 1].occurred_at ?? summary.events_covered_until
+            : summary.events_covered_until,
+        messages_covered_until:
+          chunkMessages.length > 0
+            ? chunkMessages[chunkMessages.length - 1].timestamp
+            : summary.messages_covered_until,
+        event_count: summary.event_count + chunkEvents.length,
+        message_count: summary.message_count + chunkMessages.length,
+      };
+    }
+  } catch (err) {
+    console.error('Summary update failed, using the stored summary:', err);
+  }
+
+  if (summary !== params.current) {
+    const { error } = await supabase.from('relationship_summaries').upsert(
+      { ...summary, user_id: userId, updated_at: new Date().toISOString() },
+      { onConflict: 'relationship_id' }
+    );
+    if (error) {
+      console.error('Error saving relationship summary:', error);
+    }
+  }
+
+  return summary;
+}
+
+/**
+ * Build the analysis context for one relationship.
+ *
+ * Throws the Supabase error if events can't be loaded; a failure to load
+ * messages or the summary is logged and the analysis goes on without them.
+ */
+export async function buildAnalysisContext(
+  supabase: SupabaseClient,
+  params: {
+    userId: string;
+    relationshipId: string;
+    personName: string;
+    window: AnalysisWindow;
+    provider: LLMProvider;
+    onSummarize?: () => void;
+  }
+): Promise<AnalysisContext> {
+  const { userId, relationshipId, window } = params;
+  const budget = contextTokenBudget();
+  const useSummary = window.since === null;
+
+  // 1. Load the rolling summary (all-time analyses only)
+  let summaryRow: RelationshipSummary | null = null;
+  if (useSummary) {
+    const { data, error } = await supabase
+      .from('relationship_summaries')
+      .select('*')
+      .eq('relationship_id', relationshipId)
+      .eq('user_id', userId)
+      .maybeSingle();
+    if (error) {
+      console.error('Relationship summary fetch error:', error);
+    }
+    summaryRow = data ?? null;
+
+    // Start over if history the summary covers has changed; the rebuilt
+    // summary replaces the stored one when it's saved
+    if (summaryRow && (await summaryIsOutOfDate(supabase, userId, summaryRow))) {
+      console.log('Relationship summary is out of date, rebuilding:', relationshipId);
+      summaryRow = null;
+    }
+  }
+
+  // 2. Fetch the newest events and messages in the window. For all-time
+  // analyses, anything already folded into the summary is skipped.
+  let eventsQuery = supabase
+    .from('events')
+    .select('*')
+    .eq('user_id', userId)
+    .eq('relationship_id', relationshipId);
+  if (window.since) {
+    eventsQuery = eventsQuery.gte('occurred_at', window.since);
+  } else if (summaryRow?.events_covered_until) {
+    eventsQuery = eventsQuery.gt('occurred_at', summaryRow.events_covered_until);
+  }
+  const { data: eventRows, error: eventsError } = await eventsQuery
+    .order('occurred_at', { ascending: false })
+    .limit(MAX_EVENTS_FETCH);
+
+  if (eventsError) {
+    throw eventsError;
+  }
+
+  let messagesQuery = supabase
+    .from('messages')
+    .select('*')
+    .eq('user_id', userId)
+    .eq('relationship_id', relationshipId);
+  if (window.since) {
+    messagesQuery = messagesQuery.gte('timestamp', window.since);
+  } else if (summaryRow?.messages_covered_until) {
+    messagesQuery = messagesQuery.gt('timestamp', summaryRow.messages_covered_until);
+  }
+  const { data: messageRows, error: messagesError } = await messagesQuery
+    .order('timestamp', { ascending: false, nullsFirst: false })
+    .order('message_index', { ascending: false })
+    .limit(MAX_MESSAGES_FETCH);
+
+  // The model can still analyze the relationship using only events
+  if (messagesError) {
+    console.error('Messages fetch error:', messagesError);
+  }
+
+  const events: Event[] = eventRows ?? [];
+  const messages: Message[] = messageRows ?? [];
+
+  // Follow-up tasks: every open one (up to a limit) and the latest completed
+  const [openTasksResult, completedTasksResult] = await Promise.all([
+    supabase
+      .from('tasks')
+      .select('*')
+      .eq('user_id', userId)
+      .eq('relationship_id', relationshipId)
+      .is('completed_at', null)
+      .order('due_at', { ascending: true, nullsFirst: false })
+      .limit(MAX_OPEN_TASKS),
+    supabase
+      .from('tasks')
+      .select('*')
+      .eq('user_id', userId)
+      .eq('relationship_id', relationshipId)
+      .not('completed_at', 'is', null)
+      .order('completed_at', { ascending: false })
+      .limit(MAX_COMPLETED_TASKS),
+  ]);
+
+  // Tasks are extra context; the analysis can go on without them
+  const tasksError = openTasksResult.error ?? completedTasksResult.error;
+  if (tasksError) {
+    console.error('Tasks fetch error:', tasksError);
+  }
+  const tasksText = formatTasks(openTasksResult.data ?? [], completedTasksResult.data ?? [], new Date());
+
+  // Metrics are extra context too
+  let metricsText: string;
+  try {
+    const metrics = await loadCommunicationMetrics(supabase, { userId, relationshipId, window });
+    metricsText = formatMetricsForPrompt(metrics);
+  } catch (err) {
+    console.error('Communication metrics error:', err);
+    metricsText = 'Not available.';
+  }
+
+  // 3. Fill the budget, newest first. Room for the summary is reserved only
+  // when there is (or is about to be) one.
+  const select = (summaryReserve: number) => {
+    const eventPick = takeWithinBudget(events, formatEvent, Math.floor(budget * EVENTS_SHARE));
+    const messagePick = takeWithinBudget(
+      messages,
+      formatMessage,
+      budget - summaryReserve - eventPick.used
+    );
+    return {
+      events: eventPick.included,
+      messages: messagePick.included,
+      overflow:
+        eventPick.included.length < events.length ||
+        events.length === MAX_EVENTS_FETCH ||
+        messagePick.included.length < messages.length ||
+        messages.length === MAX_MESSAGES_FETCH,
+    };
+  };
+
+  const summaryBudget = Math.floor(budget * SUMMARY_SHARE);
+  let selection = select(summaryRow?.summary ? summaryBudget : 0);
+  if (useSummary && !summaryRow?.summary && selection.overflow) {
+    selection = select(summaryBudget);
+  }
+
+  // 4. Fold whatever didn't fit into the rolling summary
+  if (useSummary && selection.overflow) {
+    summaryRow = await extendSummary(supabase, {
+      userId,
+      relationshipId,
+      personName: params.personName,
+      provider: params.provider,
+      current: summaryRow ?? {
+        relationship_id: relationshipId,
+        summary: '',
+        events_covered_until: null,
+        messages_covered_until: null,
+        event_count: 0,
+        message_count: 0,
+      },
+      eventsCutoff: oldestTimestamp(selection.events.map((e) => e.occurred_at)),
+      messagesCutoff: oldestTimestamp(selection.messages.map((m) => m.timestamp)),
+      onSummarize: params.onSummarize,
+    });
+  }
+
+  const summaryText = summaryRow?.summary ? clip(summaryRow.summary, summaryBudget * 4) : null;
+
+  // 5. Render the selected items oldest first. Bounded windows note what was
+  // left out; for all-time analyses it is (or soon will be) in the summary.
+  return renderContext({
+    window,
+    summaryText,
+    tasksText,
+    metricsText,
+    events: selection.events,
+    messages: selection.messages,
+    omittedEvents: useSummary ? 0 : events.length - selection.events.length,
+    omittedMessages: useSummary ? 0 : messages.length - selection.messages.length,
+  });
+}
+
+/**
+ * Build the analysis context from rows already in memory.
+ *
+ * Used by the offline evaluation harness (scripts/eval.ts), which has no
+ * database. Applies the same window, budget and formatting as
+ * buildAnalysisContext but never summarizes: whatever doesn't fit is noted
+ * as omitted. Rows may be passed in any order.
+ */
+export function buildContextFromRows(params: {
+  window: AnalysisWindow;
+  events: Event[];
+  messages: Message[];
+  tasks?: Task[];
+  now?: Date;
+}): AnalysisContext {
+  const { window } = params;
+  const tasks = params.tasks ?? [];
+  const budget = contextTokenBudget();
+  const since = window.since ? new Date(window.since) : null;
+
+  const eventTime = (e: Event) => new Date(e.occurred_at ?? e.created_at ?? 0).getTime();
+  const messageTime = (m: Message) => new Date(m.timestamp ?? 0).getTime();
+
+  // Newest first, as the database queries return them
+  const events = params.events
+    .filter((e) => !since || eventTime(e) >= since.getTime())
+    .sort((a, b) => eventTime(b) - eventTime(a));
+  const messages = params.messages
+    .filter((m) => !since || (m.timestamp !== null && messageTime(m) >= since.getTime()))
+    .sort((a, b) => messageTime(b) - messageTime(a) || (b.message_index ?? 0) - (a.message_index ?? 0));
+
+  const eventPick = takeWithinBudget(events, formatEvent, Math.floor(budget * EVENTS_SHARE));
+  const messagePick = takeWithinBudget(messages, formatMessage, budget - eventPick.used);
+
+  const dueTime = (t: Task) => (t.due_at ? new Date(t.due_at).getTime() : Number.MAX_SAFE_INTEGER);
+  const openTasks = tasks
+    .filter((t) => !t.completed_at)
+    .sort((a, b) => dueTime(a) - dueTime(b))
+    .slice(0, MAX_OPEN_TASKS);
+  const completedTasks = tasks
+    .filter((t) => t.completed_at)
+    .sort((a, b) => new Date(b.completed_at!).getTime() - new Date(a.completed_at!).getTime())
+    .slice(0, MAX_COMPLETED_TASKS);
+
+  return renderContext({
+    window,
+    summaryText: null,
+    tasksText: formatTasks(openTasks, completedTasks, params.now ?? new Date()),
+    metricsText: formatMetricsForPrompt(computeCommunicationMetrics(messages, window, params.now)),
+    events: eventPick.included,
+    messages: messagePick.included,
+    omittedEvents: events.length - eventPick.included.length,
+    omittedMessages: messages.length - messagePick.included.length,
+  });
+}
+
+/**
+ * Render selected items (newest first) into the prompt text, oldest first
+ */
+function renderContext(params: {
+  window: AnalysisWindow;
+  summaryText: string | null;
+  tasksText: string;
+  metricsText: string;
+  events: Event[];
+  messages: Message[];
+  omittedEvents: number;
+  omittedMessages: number;
+}): AnalysisContext {
+  const { window, summaryText, tasksText, metricsText, omittedEvents, omittedMessages } = params;
+
+  const eventLines = [...params.events].reverse().map(formatEvent);
+  if (omittedEvents > 0) {
+    eventLines.unshift(`(${omittedEvents} older events in this window not shown)`);
+  }
+
+  const messageLines = [...params.messages].reverse().map(formatMessage);
+  if (omittedMessages > 0) {
+    messageLines.unshift(`(${omittedMessages} older messages in this window not shown)`);
+  }
+
+  const eventsText = eventLines.length > 0 ? eventLines.join('\n') : 'No events logged.';
+  const messagesText = messageLines.length > 0 ? messageLines.join('\n') : 'No chat messages available.';
+
+  return {
+    window,
+    summaryText,
+    eventsText,
+    messagesText,
+    tasksText,
+    metricsText,
+    eventIds: params.events.map((e) => e.id!).filter(Boolean),
+    messageIds: params.messages.map((m) => m.id!).filter(Boolean),
+    omittedEvents,
+    omittedMessages,
+    estimatedTokens: estimateTokens(`${summaryText ?? ''}\n${eventsText}\n${messagesText}\n${tasksText}\n${metricsText}`),
+  };
+}
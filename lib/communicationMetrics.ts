@@ -0,0 +1,343 @@
+/**
+ * Communication metrics computed from a relationship's messages
+ *
+ * Analysis otherwise depends on the model reading raw text, which is bad at
+ * counting. These numbers are computed exactly, from every timestamped
+ * message in the time window (not just the ones that fit in the prompt):
+ *
+ * - Volume: messages sent by each side, and per day over the window
+ * - Conversations: messages are split into conversations wherever nobody
+ *   wrote for CONVERSATION_GAP_HOURS. Whoever sends the first message of a
+ *   conversation initiated it.
+ * - Response latency: the time between the last message of one side and
+ *   the first answer from the other, up to MAX_REPLY_DAYS. An answer the
+ *   next morning still counts as a reply, even though it also starts a new
+ *   conversation.
+ * - Conversation length: messages per conversation and how long they last
+ * - Silences: the gaps between conversations, including the current one
+ *
+ * Messages without a timestamp can't be placed in time and are left out.
+ * Days are UTC days.
+ */
+
+import type { SupabaseClient } from '@supabase/supabase-js';
+import type { AnalysisWindow } from '@/lib/analysisContext';
+import type { Message } from '@/lib/types';
+
+const MINUTE_MS = 60 * 1000;
+const HOUR_MS = 60 * MINUTE_MS;
+const DAY_MS = 24 * HOUR_MS;
+
+// Silence after which the next message starts a new conversation
+const CONVERSATION_GAP_HOURS = 8;
+
+// Slowest answer still counted as a reply rather than just a new conversation
+const MAX_REPLY_DAYS = 3;
+
+// Silences at least this long are counted as notable gaps
+const LONG_SILENCE_DAYS = 3;
+
+// Windows up to this many days are charted per day, up to MAX_WEEKLY_DAYS per week, beyond that per 30 days
+const MAX_DAILY_DAYS = 92;
+const MAX_WEEKLY_DAYS = 2 * 366;
+
+// Rows fetched per request, and the most messages one computation reads (the newest)
+const PAGE_SIZE = 1000;
+const MAX_METRICS_MESSAGES = 20000;
+
+/**
+ * Message volume in one bucket of the time series
+ *
+ * @property start - ISO start of the bucket (UTC midnight)
+ */
+export type MetricsBucket = {
+  start: string;
+  from_me: number;
+  from_them: number;
+};
+
+/**
+ * Communication metrics for one relationship and time window
+ *
+ * Durations are in minutes (latency, conversation length) or hours (silences);
+ * medians and shares are null when there is nothing to measure.
+ *
+ * @property window - The window's label ("all", "30d", ...)
+ * @property since - Start of the measured period (window start, or the first message for "all")
+ * @property until - End of the measured period (when the metrics were computed)
+ * @property volume.per_day - Average messages per day over the period
+ * @property initiation.my_share - Share of conversations I started (0 to 1)
+ * @property response_latency.my_median_minutes - How fast I typically answer them
+ * @property response_latency.their_median_minutes - How fast they typically answer me
+ * @property silence.longest_from, silence.longest_to - The last message before, and the first after, the longest silence
+ * @property silence.current_hours - Time since the last message
+ * @property silence.long_silences - Silences of at least LONG_SILENCE_DAYS days
+ * @property series - Messages per bucket over the period, oldest first
+ * @property bucket_days - Length of each bucket in days (1, 7 or 30)
+ */
+export type CommunicationMetrics = {
+  window: string;
+  since: string | null;
+  until: string;
+  conversation_gap_hours: number;
+  volume: {
+    total: number;
+    from_me: number;
+    from_them: number;
+    per_day: number;
+  };
+  initiation: {
+    conversations: number;
+    by_me: number;
+    by_them: number;
+    my_share: number | null;
+  };
+  response_latency: {
+    my_median_minutes: number | null;
+    my_replies: number;
+    their_median_minutes: number | null;
+    their_replies: number;
+  };
+  conversation_length: {
+    median_messages: number | null;
+    longest_messages: number;
+    median_minutes: number | null;
+  };
+  silence: {
+    longest_hours: number | null;
+    longest_from: string | null;
+    longest_to: string | null;
+    current_hours: number | null;
+    long_silences: number;
+  };
+  series: MetricsBucket[];
+  bucket_days: number;
+};
+
+/**
+ * The fields the metrics need from a message
+ */
+export type MetricsMessage = Pick<Message, 'from_me' | 'timestamp'> & { message_index?: number };
+
+function median(values: number[]): number | null {
+  if (values.length === 0) {
+    return null;
+  }
+  const sorted = [...values].sort((a, b) => a - b);
+  const middle = Math.floor(sorted.length / 2);
+  return sorted.length % 2 === 1 ? sorted[middle] : (sorted[middle - 1] + sorted[middle]) / 2;
+}
+
+/**
+ * Round to one decimal, keeping null as is
+ */
+function round(value: number | null): number | null {
+  return value === null ? null : Math.round(value * 10) / 10;
+}
+
+/**
+ * Compute the metrics for messages in a window. Messages may be passed in
+ * any order; those outside the window or without a timestamp are ignored.
+ */
+export function computeCommunicationMetrics(
+  messages: MetricsMessage[],
+  window: AnalysisWindow,
+  now: Date = new Date()
+): CommunicationMetrics {
+  const since = window.since ? new Date(window.since).getTime() : null;
+  const until = now.getTime();
+
+  // 1. Timestamped messages in the window, oldest first (batch order breaks ties)
+  const timed = messages
+    .filter((m) => m.timestamp)
+    .map((m) => ({ fromMe: m.from_me, time: new Date(m.timestamp!).getTime(), index: m.message_index ?? 0 }))
+    .filter((m) => !Number.isNaN(m.time) && (since === null || m.time >= since) && m.time <= until)
+    .sort((a, b) => a.time - b.time || a.index - b.index);
+
+  // 2. Measure replies and split into conversations. The gap only decides
+  // where conversations start; a slow answer is still a reply.
+  const conversations: (typeof timed)[] = [];
+  const myReplies: number[] = [];
+  const theirReplies: number[] = [];
+  const silences: { from: number; to: number }[] = [];
+
+  timed.forEach((message, i) => {
+    const previous = timed[i - 1];
+    const gap = previous ? message.time - previous.time : 0;
+
+    if (previous && message.fromMe !== previous.fromMe && gap < MAX_REPLY_DAYS * DAY_MS) {
+      (message.fromMe ? myReplies : theirReplies).push(gap / MINUTE_MS);
+    }
+
+    if (!previous || gap >= CONVERSATION_GAP_HOURS * HOUR_MS) {
+      if (previous) {
+        silences.push({ from: previous.time, to: message.time });
+      }
+      conversations.push([message]);
+    } else {
+      conversations[conversations.length - 1].push(message);
+    }
+  });
+
+  // 3. Silence since the last message counts too (it may be the longest)
+  const last = timed[timed.length - 1];
+  if (last && until - last.time >= CONVERSATION_GAP_HOURS * HOUR_MS) {
+    silences.push({ from: last.time, to: until });
+  }
+  const longest = silences.reduce<{ from: number; to: number } | null>(
+    (best, s) => (!best || s.to - s.from > best.to - best.from ? s : best),
+    null
+  );
+
+  // 4. Volume over the period, bucketed for the chart
+  const start = since ?? timed[0]?.time ?? null;
+  const periodDays = start === null ? 0 : Math.max(1, (until - start) / DAY_MS);
+  const bucketDays = periodDays <= MAX_DAILY_DAYS ? 1 : periodDays <= MAX_WEEKLY_DAYS ? 7 : 30;
+
+  const series: MetricsBucket[] = [];
+  if (start !== null) {
+    const first = Math.floor(start / DAY_MS) * DAY_MS;
+    for (let t = first; t <= until; t += bucketDays * DAY_MS) {
+      series.push({ start: new Date(t).toISOString(), from_me: 0, from_them: 0 });
+    }
+    for (const message of timed) {
+      const bucket = series[Math.floor((message.time - first) / (bucketDays * DAY_MS))];
+      if (message.fromMe) {
+        bucket.from_me++;
+      } else {
+        bucket.from_them++;
+      }
+    }
+  }
+
+  const fromMe = timed.filter((m) => m.fromMe).length;
+  const byMe = conversations.filter((c) => c[0].fromMe).length;
+
+  return {
+    window: window.label,
+    since: start === null ? null : new Date(start).toISOString(),
+    until: now.toISOString(),
+    conversation_gap_hours: CONVERSATION_GAP_HOURS,
+    volume: {
+      total: timed.length,
+      from_me: fromMe,
+      from_them: timed.length - fromMe,
+      per_day: periodDays > 0 ? round(timed.length / periodDays)! : 0,
+    },
+    initiation: {
+      conversations: conversations.length,
+      by_me: byMe,
+      by_them: conversations.length - byMe,
+      my_share: conversations.length > 0 ? Math.round((byMe / conversations.length) * 100) / 100 : null,
+    },
+    response_latency: {
+      my_median_minutes: round(median(myReplies)),
+      my_replies: myReplies.length,
+      their_median_minutes: round(median(theirReplies)),
+      their_replies: theirReplies.length,
+    },
+    conversation_length: {
+      median_messages: median(conversations.map((c) => c.length)),
+      longest_messages: Math.max(0, ...conversations.map((c) => c.length)),
+      median_minutes: round(median(conversations.map((c) => (c[c.length - 1].time - c[0].time) / MINUTE_MS))),
+    },
+    silence: {
+      longest_hours: longest ? round((longest.to - longest.from) / HOUR_MS) : null,
+      longest_from: longest ? new Date(longest.from).toISOString() : null,
+      longest_to: longest ? new Date(longest.to).toISOString() : null,
+      current_hours: last ? round((until - last.time) / HOUR_MS) : null,
+      long_silences: silences.filter((s) => s.to - s.from >= LONG_SILENCE_DAYS * DAY_MS).length,
+    },
+    series,
+    bucket_days: bucketDays,
+  };
+}
+
+/**
+ * Load a relationship's messages in the window and compute the metrics.
+ *
+ * Reads at most MAX_METRICS_MESSAGES (the newest). Throws the Supabase
+ * error if messages can't be loaded.
+ */
+export async function loadCommunicationMetrics(
+  supabase: SupabaseClient,
+  params: { userId: string; relationshipId: string; window: AnalysisWindow; now?: Date }
+): Promise<CommunicationMetrics> {
+  const { userId, relationshipId, window } = params;
+  const rows: MetricsMessage[] = [];
+
+  // Page through newest first, so a very long history keeps its recent part
+  for (let offset = 0; offset < MAX_METRICS_MESSAGES; offset += PAGE_SIZE) {
+    let query = supabase
+      .from('messages')
+      .select('from_me, timestamp, message_index')
+      .eq('user_id', userId)
+      .eq('relationship_id', relationshipId)
+      .not('timestamp', 'is', null);
+    if (window.since) {
+      query = query.gte('timestamp', window.since);
+    }
+
+    const { data, error } = await query
+      .order('timestamp', { ascending: false })
+      .order('message_index', { ascending: false })
+      .order('id', { ascending: false })
+      .range(offset, offset + PAGE_SIZE - 1);
+
+    if (error) {
+      throw error;
+    }
+
+    rows.push(...((data ?? []) as MetricsMessage[]));
+    if (!data || data.length < PAGE_SIZE) {
+      break;
+    }
+  }
+
+  return computeCommunicationMetrics(rows, window, params.now);
+}
+
+/**
+ * Format a duration in minutes as "12 min", "3 h 5 min" or "2.5 days"
+ */
+function formatMinutes(minutes: number): string {
+  if (minutes < 60) {
+    return `${Math.round(minutes)} min`;
+  }
+  if (minutes < 48 * 60) {
+    const hours = Math.floor(minutes / 60);
+    const rest = Math.round(minutes % 60);
+    return rest > 0 ? `${hours} h ${rest} min` : `${hours} h`;
+  }
+  return `${Math.round((minutes / (24 * 60)) * 10) / 10} days`;
+}
+
+/**
+ * Render the metrics as lines for the analysis prompt
+ */
+export function formatMetricsForPrompt(metrics: CommunicationMetrics): string {
+  const { volume, initiation, response_latency: latency, conversation_length: length, silence } = metrics;
+
+  if (volume.total === 0) {
+    return 'No timestamped messages in this window.';
+  }
+
+  const reply = (medianMinutes: number | null, count: number) =>
+    medianMinutes === null ? 'no replies' : `${formatMinutes(medianMinutes)} (${count} replies)`;
+
+  const lines = [
+    `- Messages: ${volume.total} (me ${volume.from_me}, them ${volume.from_them}), ${volume.per_day} per day`,
+    `- Conversations (${metrics.conversation_gap_hours}+ hours of silence starts a new one): ${initiation.conversations}; I started ${initiation.by_me}, they started ${initiation.by_them}`,
+    `- Median reply time (answers within ${MAX_REPLY_DAYS} days): mine ${reply(latency.my_median_minutes, latency.my_replies)}, theirs ${reply(latency.their_median_minutes, latency.their_replies)}`,
+    `- Conversation length: median ${length.median_messages} messages over ${formatMinutes(length.median_minutes ?? 0)}, longest ${length.longest_messages} messages`,
+  ];
+
+  if (silence.longest_hours !== null) {
+    lines.push(
+      `- Longest silence: ${formatMinutes(silence.longest_hours * 60)} (${silence.longest_from!.slice(0, 10)} to ${silence.longest_to!.slice(0, 10)}); ${silence.long_silences} silences of ${LONG_SILENCE_DAYS}+ days`
+    );
+  }
+  lines.push(`- Time since the last message: ${formatMinutes((silence.current_hours ?? 0) * 60)}`);
+
+  return lines.join('\n');
+}
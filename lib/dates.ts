@@ -0,0 +1,28 @@
+/**
+ * Date helpers shared by API routes
+ */
+
+/**
+ * Convert a client-supplied date value into an ISO 8601 timestamp.
+ *
+ * Accepts anything Date can parse (ISO strings, "2025-11-29T19:00",
+ * epoch milliseconds). Returns null if the value isn't a valid date.
+ */
+export function toIsoTimestamp(value: unknown): string | null {
+  if (typeof value !== 'string' && typeof value !== 'number') {
+    return null;
+  }
+
+  const date = new Date(value);
+  return Number.isNaN(date.getTime()) ? null : date.toISOString();
+}
+
+/**
+ * Format an ISO timestamp as a value for an <input type="datetime-local">
+ * in the browser's local time zone (e.g. "2025-11-29T19:00").
+ */
+export function toDateTimeLocalValue(iso: string): string {
+  const date = new Date(iso);
+  const offsetMs = date.getTimezoneOffset() * 60 * 1000;
+  return new Date(date.getTime() - offsetMs).toISOString().slice(0, 16);
+}
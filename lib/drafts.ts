@@ -0,0 +1,490 @@
+/**
+ * Draft-and-refine workflow for messages
+ *
+ * An insight comes with a single suggested_message. Here the user gets
+ * several alternatives instead, one per tone and length they ask for, can
+ * refine any of them with a follow-up instruction ("shorter", "mention the
+ * concert"), and finally records the one they sent as a from_me message.
+ *
+ * Every draft is stored in message_drafts. A refinement is a new draft
+ * pointing at the one it came from (parent_id), so the whole iteration
+ * history is kept and the sent draft can be traced back to its insight.
+ *
+ * Like the analysis pipeline, model output is validated and the model gets
+ * one chance to repair an invalid answer.
+ */
+
+import type { SupabaseClient } from '@supabase/supabase-js';
+import { ChatMessage, LLMError, LLMProvider } from '@/lib/llm';
+import { extractJsonText } from '@/lib/insightValidation';
+import { buildMessageRows } from '@/lib/messageIngest';
+import { renderPrompt } from '@/lib/prompts';
+import {
+  DRAFT_LENGTHS,
+  DRAFT_PROMPT_VERSION,
+  DRAFT_TONES,
+  draftPrompt,
+  refinePrompt,
+} from '@/lib/prompts/drafts';
+import type { DraftLength, DraftTone, Message, MessageDraft, Relationship } from '@/lib/types';
+
+// How many times we ask the model for valid drafts (first try + repair)
+const MAX_DRAFT_ATTEMPTS = 2;
+
+// Recent messages shown to the model, so drafts can refer to what was said
+const RECENT_MESSAGES = 20;
+const MAX_MESSAGE_CHARS = 300;
+
+// Longest refinement instruction we accept
+export const MAX_INSTRUCTION_CHARS = 500;
+
+// Where a sent draft is recorded when the relationship has no chat yet
+const DEFAULT_SEND_PLATFORM = 'manual';
+const DEFAULT_SEND_THREAD = 'drafts';
+
+/**
+ * Error that ends a draft request, with the HTTP status to report
+ */
+export class DraftError extends Error {
+  status: number;
+
+  constructor(message: string, status: number) {
+    super(message);
+    this.name = 'DraftError';
+    this.status = status;
+  }
+}
+
+/**
+ * Convert an error thrown by this module into a status and error message
+ */
+export function describeDraftError(err: unknown): { status: number; error: string } {
+  if (err instanceof DraftError || err instanceof LLMError) {
+    return { status: err.status, error: err.message };
+  }
+
+  console.error('Unexpected draft error:', err);
+  return { status: 500, error: err instanceof Error ? err.message : 'Unknown server error' };
+}
+
+// Own keys only: `in` would also accept "toString", "constructor" and friends
+export function isDraftTone(value: unknown): value is DraftTone {
+  return typeof value === 'string' && Object.keys(DRAFT_TONES).includes(value);
+}
+
+export function isDraftLength(value: unknown): value is DraftLength {
+  return typeof value === 'string' && Object.keys(DRAFT_LENGTHS).includes(value);
+}
+
+/**
+ * The relationship and its latest messages, shared by drafting and refining
+ */
+async function loadRelationshipContext(
+  supabase: SupabaseClient,
+  userId: string,
+  relationshipId: string
+): Promise<{ relationship: Relationship; messagesText: string }> {
+  const { data: relationship, error: relError } = await supabase
+    .from('relationships')
+    .select('*')
+    .eq('id', relationshipId)
+    .eq('user_id', userId)
+    .maybeSingle();
+
+  if (relError) {
+    throw new DraftError(relError.message, 500);
+  }
+  if (!relationship) {
+    throw new DraftError('Relationship not found', 404);
+  }
+
+  const { data: recent, error: messagesError } = await supabase
+    .from('messages')
+    .select('*')
+    .eq('relationship_id', relationshipId)
+    .eq('user_id', userId)
+    .order('timestamp', { ascending: false, nullsFirst: false })
+    .order('message_index', { ascending: false })
+    .limit(RECENT_MESSAGES);
+
+  if (messagesError) {
+    throw new DraftError(messagesError.message, 500);
+  }
+
+  const messages = ((recent ?? []) as Message[]).reverse();
+  const messagesText =
+    messages
+      .map((m) => {
+        const text = m.text.length > MAX_MESSAGE_CHARS ? `${m.text.slice(0, MAX_MESSAGE_CHARS)}...` : m.text;
+        return `[${m.timestamp}] ${m.from_me ? 'ME' : 'THEM'}: ${text}`;
+      })
+      .join('\n') || 'No messages yet.';
+
+  return { relationship, messagesText };
+}
+
+/**
+ * Ask the model for JSON and validate it, with one repair attempt.
+ *
+ * validate returns the parsed value, or a list of problems to send back.
+ */
+async function completeValidated<T>(
+  provider: LLMProvider,
+  conversation: ChatMessage[],
+  task: string,
+  validate: (value: unknown) => { ok: true; value: T } | { ok: false; errors: string[] }
+): Promise<{ value: T; model: string }> {
+  let errors: string[] = [];
+
+  for (let attempt = 1; attempt <= MAX_DRAFT_ATTEMPTS; attempt++) {
+    const completion = await provider.complete(conversation, { task });
+
+    let result: ReturnType<typeof validate>;
+    try {
+      result = validate(JSON.parse(extractJsonText(completion.text)));
+    } catch (err) {
+      result = { ok: false, errors: [`Response is not valid JSON (${err instanceof Error ? err.message : 'parse error'})`] };
+    }
+
+    if (result.ok) {
+      return { value: result.value, model: completion.model };
+    }
+
+    errors = result.errors;
+    console.error(`Invalid ${task} response on attempt ${attempt}:`, errors);
+    conversation.push(
+      { role: 'assistant', content: completion.text },
+      {
+        role: 'user',
+        content: `Your previous response was not valid:\n${errors.map((e) => `- ${e}`).join('\n')}\n\nRespond again with ONLY the corrected JSON object.`,
+      }
+    );
+  }
+
+  throw new DraftError(`Model did not return valid drafts after ${MAX_DRAFT_ATTEMPTS} attempts: ${errors.join('; ')}`, 422);
+}
+
+/**
+ * Generate one draft per requested tone and length for an insight, and store them.
+ *
+ * Throws DraftError for expected failures and lets LLMError through.
+ */
+export async function generateDrafts(
+  supabase: SupabaseClient,
+  params: {
+    userId: string;
+    insightId: string;
+    tones: DraftTone[];
+    lengths: DraftLength[];
+    provider: LLMProvider;
+  }
+): Promise<MessageDraft[]> {
+  const { userId, insightId, tones, lengths, provider } = params;
+
+  // 1. Fetch the insight and its relationship's context
+  const { data: insight, error: insightError } = await supabase
+    .from('insights')
+    .select('id, relationship_id, summary, recommended_action, suggested_message')
+    .eq('id', insightId)
+    .eq('user_id', userId)
+    .maybeSingle();
+
+  if (insightError) {
+    throw new DraftError(insightError.message, 500);
+  }
+  if (!insight) {
+    throw new DraftError('Insight not found', 404);
+  }
+
+  const { relationship, messagesText } = await loadRelationshipContext(supabase, userId, insight.relationship_id);
+
+  // 2. Ask for every tone and length combination in one request
+  const combinations = tones.flatMap((tone) => lengths.map((length) => ({ tone, length })));
+  const promptText = renderPrompt(draftPrompt.user, {
+    name: relationship.person_name ?? 'Unknown',
+    type: relationship.type ?? 'Not specified',
+    notes: relationship.notes ?? 'None',
+    summary: insight.summary ?? 'None',
+    recommended_action: insight.recommended_action ?? 'None',
+    suggested_message: insight.suggested_message ?? 'None',
+    messages: messagesText,
+    requests: combinations
+      .map(({ tone, length }) => `- tone "${tone}" (${DRAFT_TONES[tone]}), length "${length}" (${DRAFT_LENGTHS[length]})`)
+      .join('\n'),
+  });
+
+  const { value: texts, model } = await completeValidated(
+    provider,
+    [
+      { role: 'system', content: draftPrompt.system },
+      { role: 'user', content: promptText },
+    ],
+    'draft',
+    (value) => {
+      const drafts = (value as { drafts?: unknown })?.drafts;
+      if (!Array.isArray(drafts)) {
+        return { ok: false, errors: ['drafts: must be an array'] };
+      }
+
+      // Match drafts to combinations by tone and length, so order doesn't matter
+      const texts: string[] = [];
+      const errors: string[] = [];
+      for (const { tone, length } of combinations) {
+        const found = drafts.find((d) => d?.tone === tone && d?.length === length);
+        if (typeof found?.text !== 'string' || found.text.trim() === '') {
+          errors.push(`drafts: missing a draft with tone "${tone}" and length "${length}"`);
+        } else {
+          texts.push(found.text.trim());
+        }
+      }
+      return errors.length > 0 ? { ok: false, errors } : { ok: true, value: texts };
+    }
+  );
+
+  // 3. Store the drafts
+  const { data, error } = await supabase
+    .from('message_drafts')
+    .insert(
+      combinations.map(({ tone, length }, index) => ({
+        user_id: userId,
+        relationship_id: relationship.id,
+        insight_id: insight.id,
+        tone,
+        length,
+        text: texts[index],
+        provider: provider.name,
+        model,
+        prompt_version: DRAFT_PROMPT_VERSION,
+      }))
+    )
+    .select('*');
+
+  if (error) {
+    throw new DraftError(error.message, 500);
+  }
+
+  return data as MessageDraft[];
+}
+
+/**
+ * Fetch one of the user's drafts, or throw a 404
+ */
+async function loadDraft(supabase: SupabaseClient, userId: string, draftId: string): Promise<MessageDraft> {
+  const { data, error } = await supabase
+    .from('message_drafts')
+    .select('*')
+    .eq('id', draftId)
+    .eq('user_id', userId)
+    .maybeSingle();
+
+  if (error) {
+    throw new DraftError(error.message, 500);
+  }
+  if (!data) {
+    throw new DraftError('Draft not found', 404);
+  }
+  return data as MessageDraft;
+}
+
+/**
+ * Rewrite a draft following an instruction, and store the result as a new
+ * draft refined from it. Earlier instructions in the chain are included so
+ * the model doesn't undo them.
+ *
+ * Throws DraftError for expected failures and lets LLMError through.
+ */
+export async function refineDraft(
+  supabase: SupabaseClient,
+  params: {
+    userId: string;
+    draftId: string;
+    instruction: string;
+    provider: LLMProvider;
+  }
+): Promise<MessageDraft> {
+  const { userId, draftId, instruction, provider } = params;
+
+  // 1. Fetch the draft, the instructions that led to it and the relationship's context
+  const draft = await loadDraft(supabase, userId, draftId);
+
+  const earlier: string[] = [];
+  let parentId = draft.parent_id;
+  // Follow the chain back to the first draft (bounded, in case of a cycle)
+  for (let depth = 0; parentId && depth < 20; depth++) {
+    const parent = await loadDraft(supabase, userId, parentId);
+    if (parent.instruction) {
+      earlier.unshift(parent.instruction);
+    }
+    parentId = parent.parent_id;
+  }
+  if (draft.instruction) {
+    earlier.push(draft.instruction);
+  }
+
+  const { relationship, messagesText } = await loadRelationshipContext(supabase, userId, draft.relationship_id);
+
+  // 2. Ask for the revision
+  const promptText = renderPrompt(refinePrompt.user, {
+    name: relationship.person_name ?? 'Unknown',
+    type: relationship.type ?? 'Not specified',
+    notes: relationship.notes ?? 'None',
+    messages: messagesText,
+    tone: draft.tone,
+    tone_description: DRAFT_TONES[draft.tone],
+    length: draft.length,
+    length_description: DRAFT_LENGTHS[draft.length],
+    history: earlier.length > 0 ? `Earlier instructions, already applied:\n${earlier.map((i) => `- ${i}`).join('\n')}\n` : '',
+    draft: draft.text,
+    instruction,
+  });
+
+  const { value: text, model } = await completeValidated(
+    provider,
+    [
+      { role: 'system', content: refinePrompt.system },
+      { role: 'user', content: promptText },
+    ],
+    'refine',
+    (value) => {
+      const text = (value as { text?: unknown })?.text;
+      return typeof text === 'string' && text.trim() !== ''
+        ? { ok: true, value: text.trim() }
+        : { ok: false, errors: ['text: must be a non-empty string'] };
+    }
+  );
+
+  // 3. Store it as a refinement of the original
+  const { data, error } = await supabase
+    .from('message_drafts')
+    .insert({
+      user_id: userId,
+      relationship_id: draft.relationship_id,
+      insight_id: draft.insight_id ?? null,
+      parent_id: draft.id,
+      tone: draft.tone,
+      length: draft.length,
+      text,
+      instruction,
+      provider: provider.name,
+      model,
+      prompt_version: DRAFT_PROMPT_VERSION,
+    })
+    .select('*')
+    .single();
+
+  if (error) {
+    throw new DraftError(error.message, 500);
+  }
+
+  return data as MessageDraft;
+}
+
+/**
+ * Record a draft as sent: store it as a from_me message and mark the draft.
+ *
+ * The message goes into the given thread, else the thread of the
+ * relationship's latest message, else a "manual" thread. The text can be
+ * edited one last time before sending; the draft keeps what the model wrote.
+ * A draft can only be sent once (409 otherwise); retrying a send that
+ * stored the message but failed to mark the draft finishes it.
+ */
+export async function sendDraft(
+  supabase: SupabaseClient,
+  params: {
+    userId: string;
+    draftId: string;
+    text?: string;
+    platform?: string;
+    threadId?: string;
+    sentAt?: Date;
+  }
+): Promise<{ draft: MessageDraft; message: Message }> {
+  const { userId, draftId } = params;
+  const sentAt = (params.sentAt ?? new Date()).toISOString();
+
+  // 1. Fetch the draft
+  const draft = await loadDraft(supabase, userId, draftId);
+  if (draft.sent_at) {
+    throw new DraftError('Draft was already sent', 409);
+  }
+
+  // 2. Pick the thread to record the message in
+  let platform: string;
+  let threadId: string;
+  if (params.platform && params.threadId) {
+    platform = params.platform;
+    threadId = params.threadId;
+  } else {
+    const { data: latest, error: latestError } = await supabase
+      .from('messages')
+      .select('platform, thread_id')
+      .eq('relationship_id', draft.relationship_id)
+      .eq('user_id', userId)
+      .order('timestamp', { ascending: false, nullsFirst: false })
+      .limit(1)
+      .maybeSingle();
+
+    if (latestError) {
+      throw new DraftError(latestError.message, 500);
+    }
+
+    platform = params.platform || latest?.platform || DEFAULT_SEND_PLATFORM;
+    threadId =
+      params.threadId || (latest && latest.platform === platform ? latest.thread_id : DEFAULT_SEND_THREAD);
+  }
+
+  // 3. Store the message. external_id ties it to the draft, so it's stored
+  // once: a retry after step 4 failed finds the message already there and
+  // just finishes marking the draft.
+  const findSentMessage = async (): Promise<Message | null> => {
+    const { data, error } = await supabase
+      .from('messages')
+      .select('*')
+      .eq('user_id', userId)
+      .eq('external_id', `draft:${draft.id}`)
+      .limit(1)
+      .maybeSingle();
+    if (error) {
+      throw new DraftError(error.message, 500);
+    }
+    return data as Message | null;
+  };
+
+  let message = await findSentMessage();
+  if (!message) {
+    const [row] = buildMessageRows(
+      { userId, relationshipId: draft.relationship_id, platform, threadId },
+      [{ from_me: true, text: params.text?.trim() || draft.text, timestamp: sentAt, external_id: `draft:${draft.id}` }]
+    );
+
+    // ignoreDuplicates: a concurrent send of the same draft may have just stored it
+    const { data: inserted, error: messageError } = await supabase
+      .from('messages')
+      .upsert(row, { onConflict: 'user_id,platform,thread_id,dedupe_key', ignoreDuplicates: true })
+      .select('*');
+
+    if (messageError) {
+      throw new DraftError(messageError.message, 500);
+    }
+
+    message = (inserted?.[0] as Message | undefined) ?? (await findSentMessage());
+    if (!message) {
+      throw new DraftError('Could not record the sent message', 500);
+    }
+  }
+
+  // 4. Mark the draft as the one that was sent
+  const { data: updated, error: updateError } = await supabase
+    .from('message_drafts')
+    .update({ sent_at: message.timestamp ?? sentAt, message_id: message.id })
+    .eq('id', draft.id)
+    .eq('user_id', userId)
+    .select('*')
+    .single();
+
+  if (updateError) {
+    throw new DraftError(updateError.message, 500);
+  }
+
+  return { draft: updated as MessageDraft, message };
+}
@@ -0,0 +1,202 @@
+/**
+ * Embedding provider layer for semantic search
+ *
+ * Like lib/llm.ts, search code only talks to an EmbeddingProvider, picked
+ * from environment variables:
+ *
+ * - EMBEDDING_PROVIDER: "local" (default) or "openai"
+ * - EMBEDDING_MODEL: optional model override (default text-embedding-3-small)
+ * - EMBEDDING_BASE_URL: base URL for "openai" (any OpenAI-compatible
+ *   embeddings endpoint; falls back to LLM_BASE_URL)
+ * - EMBEDDING_API_KEY: API key for "openai" (falls back to LLM_API_KEY,
+ *   then OPENAI_API_KEY)
+ *
+ * The "local" provider needs no network or model: it hashes words and word
+ * pairs into a fixed-size vector. It only finds documents that share
+ * vocabulary (after light stemming) with the query, so it's a fallback
+ * that keeps search working offline rather than real semantic matching.
+ *
+ * Every vector has EMBEDDING_DIMENSIONS entries, matching the vector column
+ * in supabase/migrations; remote models are asked for that size.
+ */
+
+import OpenAI from 'openai';
+import { LLMConfigError, LLMError } from '@/lib/llm';
+
+export const EMBEDDING_DIMENSIONS = 256;
+
+// Texts sent to the provider per request
+const EMBEDDING_BATCH_SIZE = 64;
+
+// Longest text embedded; the rest is ignored (~2000 tokens)
+const MAX_EMBEDDING_CHARS = 8000;
+
+const DEFAULT_OPENAI_EMBEDDING_MODEL = 'text-embedding-3-small';
+
+// Similarity floors. Hashed vectors of unrelated texts score around 0 to 0.1
+// (from hash collisions), and one shared word in a short message about 0.25.
+// OpenAI-style models rarely score unrelated texts above 0.2.
+const LOCAL_MIN_SIMILARITY = 0.15;
+const OPENAI_MIN_SIMILARITY = 0.25;
+
+/**
+ * Common interface implemented by every embedding provider
+ *
+ * @property id - "<provider>:<model>", stored with each vector so vectors
+ *   from different models are never compared
+ * @property minSimilarity - Lowest cosine similarity that counts as a semantic
+ *   match; what "unrelated" scores depends on the model
+ */
+export interface EmbeddingProvider {
+  name: string;
+  model: string;
+  id: string;
+  minSimilarity: number;
+  embed(texts: string[]): Promise<number[][]>;
+}
+
+/**
+ * Scale a vector to unit length (left as is if it's all zeros)
+ */
+function normalize(vector: number[]): number[] {
+  const length = Math.sqrt(vector.reduce((sum, v) => sum + v * v, 0));
+  return length > 0 ? vector.map((v) => v / length) : vector;
+}
+
+/**
+ * Small stable string hash (FNV-1a)
+ */
+function hashToken(value: string): number {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < value.length; i++) {
+    hash ^= value.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return hash >>> 0;
+}
+
+/**
+ * Lowercase words with common English suffixes stripped, so "argued",
+ * "arguing" and "argue" land on the same token
+ */
+function tokenize(text: string): string[] {
+  return (text.toLowerCase().match(/[\p{L}\p{N}']+/gu) ?? [])
+    .map((word) => word.replace(/'s$/, '').replace(/(ing|ed|es|e|s)$/, ''))
+    .filter((word) => word.length > 1);
+}
+
+/**
+ * Hash words and adjacent word pairs into a fixed-size vector
+ * (the "hashing trick"), using the hash's top bit as the sign
+ */
+export function hashEmbedding(text: string): number[] {
+  const vector = new Array<number>(EMBEDDING_DIMENSIONS).fill(0);
+  const tokens = tokenize(text);
+  const features = [...tokens, ...tokens.slice(1).map((token, i) => `${tokens[i]} ${token}`)];
+
+  for (const feature of features) {
+    const hash = hashToken(feature);
+    vector[hash % EMBEDDING_DIMENSIONS] += hash & 0x80000000 ? -1 : 1;
+  }
+
+  return normalize(vector);
+}
+
+function createLocalEmbeddingProvider(): EmbeddingProvider {
+  return {
+    name: 'local',
+    model: 'hash-v1',
+    id: 'local:hash-v1',
+    minSimilarity: LOCAL_MIN_SIMILARITY,
+    async embed(texts) {
+      return texts.map(hashEmbedding);
+    },
+  };
+}
+
+/**
+ * Create a provider for any OpenAI-compatible embeddings endpoint
+ */
+function createOpenAIEmbeddingProvider(config: { model: string; baseURL?: string; apiKey?: string }): EmbeddingProvider {
+  const client = new OpenAI({
+    // Local servers usually ignore the key, but the SDK requires one
+    apiKey: config.apiKey || 'not-needed',
+    baseURL: config.baseURL,
+  });
+
+  return {
+    name: 'openai',
+    model: config.model,
+    id: `openai:${config.model}`,
+    minSimilarity: OPENAI_MIN_SIMILARITY,
+
+    async embed(texts) {
+      const vectors: number[][] = [];
+
+      for (let i = 0; i < texts.length; i += EMBEDDING_BATCH_SIZE) {
+        const batch = texts.slice(i, i + EMBEDDING_BATCH_SIZE).map((t) => t.slice(0, MAX_EMBEDDING_CHARS));
+        try {
+          const response = await client.embeddings.create({
+            model: config.model,
+            input: batch,
+            dimensions: EMBEDDING_DIMENSIONS,
+          });
+          for (const item of [...response.data].sort((a, b) => a.index - b.index)) {
+            if (item.embedding.length !== EMBEDDING_DIMENSIONS) {
+              throw new LLMError(
+                `Embedding model ${config.model} returned ${item.embedding.length} dimensions, expected ${EMBEDDING_DIMENSIONS}`
+              );
+            }
+            vectors.push(normalize(item.embedding));
+          }
+        } catch (err) {
+          if (err instanceof OpenAI.APIError) {
+            throw new LLMError(`openai embeddings error: ${err.message}`, err.status ?? 502);
+          }
+          throw err;
+        }
+      }
+
+      return vectors;
+    },
+  };
+}
+
+/**
+ * Build the embedding provider selected by the environment.
+ *
+ * Throws LLMConfigError if the selected provider is missing configuration.
+ */
+export function getEmbeddingProvider(): EmbeddingProvider {
+  const providerName = (process.env.EMBEDDING_PROVIDER || 'local').toLowerCase();
+
+  switch (providerName) {
+    case 'local':
+      return createLocalEmbeddingProvider();
+
+    case 'openai': {
+      const baseURL = process.env.EMBEDDING_BASE_URL || process.env.LLM_BASE_URL;
+      const apiKey = process.env.EMBEDDING_API_KEY || process.env.LLM_API_KEY || process.env.OPENAI_API_KEY;
+      if (!baseURL && !apiKey) {
+        throw new LLMConfigError(
+          'Missing EMBEDDING_API_KEY or OPENAI_API_KEY (or set EMBEDDING_BASE_URL for a local server)'
+        );
+      }
+      return createOpenAIEmbeddingProvider({
+        model: process.env.EMBEDDING_MODEL || DEFAULT_OPENAI_EMBEDDING_MODEL,
+        baseURL,
+        apiKey,
+      });
+    }
+
+    default:
+      throw new LLMConfigError(`Unknown EMBEDDING_PROVIDER: ${providerName}`);
+  }
+}
+
+/**
+ * Format a vector the way pgvector reads it ("[0.1,0.2,...]")
+ */
+export function toPgVector(vector: number[]): string {
+  return `[${vector.join(',')}]`;
+}
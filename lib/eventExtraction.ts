@@ -0,0 +1,462 @@
+/**
+ * Event candidates proposed from chat messages
+ *
+ * Chats often already say what happened or is planned ("see you at dinner
+ * Friday"), so after a batch of messages is ingested the model reads the
+ * new ones and proposes structured events: type, description, when, and
+ * the messages they came from. Proposals are stored in event_candidates as
+ * "pending" and only become events when the user accepts them; rejecting
+ * one just marks it.
+ *
+ * Only the last MAX_EXTRACTION_MESSAGES new messages of a batch are read,
+ * so importing a long chat history costs one model call. Recent events and
+ * pending candidates are shown to the model so it doesn't propose them again.
+ *
+ * Like the analysis pipeline, model output is validated and the model gets
+ * one chance to repair an invalid answer.
+ */
+
+import type { SupabaseClient } from '@supabase/supabase-js';
+import { ChatMessage, getLLMProvider, LLMConfigError, LLMError, LLMProvider } from '@/lib/llm';
+import { extractJsonText } from '@/lib/insightValidation';
+import { toIsoTimestamp } from '@/lib/dates';
+import { renderPrompt } from '@/lib/prompts';
+import { EVENT_EXTRACTION_PROMPT_VERSION, eventExtractionPrompt } from '@/lib/prompts/eventExtraction';
+import type { Event, EventCandidate, Message, Relationship } from '@/lib/types';
+
+// How many times we ask the model for valid events (first try + repair)
+const MAX_EXTRACTION_ATTEMPTS = 2;
+
+// New messages read per batch (the newest ones)
+const MAX_EXTRACTION_MESSAGES = 100;
+const MAX_MESSAGE_CHARS = 300;
+
+// Most events proposed from one batch
+const MAX_CANDIDATES_PER_BATCH = 10;
+
+// Logged events and pending candidates shown to the model to avoid duplicates
+const KNOWN_EVENTS = 20;
+
+/**
+ * Error that ends an event candidate request, with the HTTP status to report
+ */
+export class EventCandidateError extends Error {
+  status: number;
+
+  constructor(message: string, status: number) {
+    super(message);
+    this.name = 'EventCandidateError';
+    this.status = status;
+  }
+}
+
+/**
+ * Convert an error thrown by this module into a status and error message
+ */
+export function describeEventCandidateError(err: unknown): { status: number; error: string } {
+  if (err instanceof EventCandidateError || err instanceof LLMError) {
+    return { status: err.status, error: err.message };
+  }
+
+  console.error('Unexpected event candidate error:', err);
+  return { status: 500, error: err instanceof Error ? err.message : 'Unknown server error' };
+}
+
+/**
+ * An event as the model proposed it, with message numbers resolved to ids
+ */
+type ProposedEvent = {
+  event_type: string;
+  description: string;
+  occurred_at: string | null;
+  message_ids: string[];
+};
+
+/**
+ * Check the model's answer and resolve its message numbers (1-based
+ * positions in the prompt) to message ids
+ */
+function validateProposedEvents(
+  value: unknown,
+  messages: Message[]
+): { ok: true; value: ProposedEvent[] } | { ok: false; errors: string[] } {
+  const events = (value as { events?: unknown })?.events;
+  if (!Array.isArray(events)) {
+    return { ok: false, errors: ['events: must be an array'] };
+  }
+
+  const proposed: ProposedEvent[] = [];
+  const errors: string[] = [];
+
+  events.slice(0, MAX_CANDIDATES_PER_BATCH).forEach((raw, index) => {
+    const event = (raw ?? {}) as Record<string, unknown>;
+    const where = `events[${index}]`;
+
+    if (typeof event.event_type !== 'string' || event.event_type.trim() === '') {
+      errors.push(`${where}.event_type: must be a non-empty string`);
+    }
+    if (typeof event.description !== 'string' || event.description.trim() === '') {
+      errors.push(`${where}.description: must be a non-empty string`);
+    }
+
+    let occurredAt: string | null = null;
+    if (event.occurred_at !== null && event.occurred_at !== undefined) {
+      occurredAt = toIsoTimestamp(event.occurred_at);
+      if (!occurredAt) {
+        errors.push(`${where}.occurred_at: must be an ISO 8601 date or null`);
+      }
+    }
+
+    const refs = event.message_refs;
+    const validRefs =
+      Array.isArray(refs) &&
+      refs.length > 0 &&
+      refs.every((ref) => Number.isInteger(ref) && ref >= 1 && ref <= messages.length);
+    if (!validRefs) {
+      errors.push(`${where}.message_refs: must be a non-empty list of message numbers from 1 to ${messages.length}`);
+    }
+
+    if (errors.length === 0) {
+      proposed.push({
+        event_type: (event.event_type as string).trim().toLowerCase(),
+        description: (event.description as string).trim(),
+        occurred_at: occurredAt,
+        message_ids: [...new Set((refs as number[]).map((ref) => messages[ref - 1].id!))],
+      });
+    }
+  });
+
+  return errors.length > 0 ? { ok: false, errors } : { ok: true, value: proposed };
+}
+
+/**
+ * Read newly ingested messages and store the events the model finds in
+ * them as pending candidates. Returns the new candidates (often none).
+ *
+ * Throws EventCandidateError for expected failures and lets LLMError through.
+ */
+export async function extractEventCandidates(
+  supabase: SupabaseClient,
+  params: {
+    userId: string;
+    relationshipId: string;
+    messageIds: string[];
+    provider: LLMProvider;
+    now?: Date;
+  }
+): Promise<EventCandidate[]> {
+  const { userId, relationshipId, provider } = params;
+  const now = params.now ?? new Date();
+
+  if (params.messageIds.length === 0) {
+    return [];
+  }
+
+  // 1. Fetch the relationship, the newest of the new messages and what's already known
+  const { data: relationship, error: relError } = await supabase
+    .from('relationships')
+    .select('*')
+    .eq('id', relationshipId)
+    .eq('user_id', userId)
+    .maybeSingle();
+
+  if (relError) {
+    throw new EventCandidateError(relError.message, 500);
+  }
+  if (!relationship) {
+    throw new EventCandidateError('Relationship not found', 404);
+  }
+
+  // Ids come in batch order, so the last ones are normally the newest; taking
+  // them up front also keeps the query's id list short for big imports
+  const { data: newest, error: messagesError } = await supabase
+    .from('messages')
+    .select('*')
+    .in('id', params.messageIds.slice(-MAX_EXTRACTION_MESSAGES))
+    .eq('user_id', userId)
+    .order('timestamp', { ascending: false, nullsFirst: false })
+    .order('message_index', { ascending: false })
+    .limit(MAX_EXTRACTION_MESSAGES);
+
+  if (messagesError) {
+    throw new EventCandidateError(messagesError.message, 500);
+  }
+
+  const messages = ((newest ?? []) as Message[]).filter((m) => m.text.trim() !== '').reverse();
+  if (messages.length === 0) {
+    return [];
+  }
+
+  const [eventsResult, pendingResult] = await Promise.all([
+    supabase
+      .from('events')
+      .select('*')
+      .eq('relationship_id', relationshipId)
+      .eq('user_id', userId)
+      .order('occurred_at', { ascending: false })
+      .limit(KNOWN_EVENTS),
+    supabase
+      .from('event_candidates')
+      .select('*')
+      .eq('relationship_id', relationshipId)
+      .eq('user_id', userId)
+      .eq('status', 'pending')
+      .order('created_at', { ascending: false })
+      .limit(KNOWN_EVENTS),
+  ]);
+
+  if (eventsResult.error || pendingResult.error) {
+    throw new EventCandidateError((eventsResult.error ?? pendingResult.error)!.message, 500);
+  }
+
+  const known = [
+    ...((eventsResult.data ?? []) as Event[]).map((e) => ({ ...e, occurred_at: e.occurred_at ?? e.created_at })),
+    ...((pendingResult.data ?? []) as EventCandidate[]),
+  ];
+
+  // 2. Ask the model
+  const rel = relationship as Relationship;
+  const promptText = renderPrompt(eventExtractionPrompt.user, {
+    name: rel.person_name ?? 'Unknown',
+    type: rel.type ?? 'Not specified',
+    today: now.toISOString().slice(0, 10),
+    events:
+      known.map((e) => `- [${e.occurred_at ?? 'date unknown'}] (${e.event_type}) ${e.description}`).join('\n') ||
+      'None.',
+    messages: messages
+      .map((m, index) => {
+        const text = m.text.length > MAX_MESSAGE_CHARS ? `${m.text.slice(0, MAX_MESSAGE_CHARS)}...` : m.text;
+        return `${index + 1}. [${m.timestamp}] ${m.from_me ? 'ME' : 'THEM'}: ${text}`;
+      })
+      .join('\n'),
+    max_events: String(MAX_CANDIDATES_PER_BATCH),
+  });
+
+  const conversation: ChatMessage[] = [
+    { role: 'system', content: eventExtractionPrompt.system },
+    { role: 'user', content: promptText },
+  ];
+
+  let proposed: ProposedEvent[] | null = null;
+  let model = '';
+  let errors: string[] = [];
+
+  for (let attempt = 1; attempt <= MAX_EXTRACTION_ATTEMPTS; attempt++) {
+    const completion = await provider.complete(conversation, { task: 'extract-events' });
+    model = completion.model;
+
+    let result: ReturnType<typeof validateProposedEvents>;
+    try {
+      result = validateProposedEvents(JSON.parse(extractJsonText(completion.text)), messages);
+    } catch (err) {
+      result = { ok: false, errors: [`Response is not valid JSON (${err instanceof Error ? err.message : 'parse error'})`] };
+    }
+
+    if (result.ok) {
+      proposed = result.value;
+      break;
+    }
+
+    errors = result.errors;
+    console.error(`Invalid extract-events response on attempt ${attempt}:`, errors);
+    conversation.push(
+      { role: 'assistant', content: completion.text },
+      {
+        role: 'user',
+        content: `Your previous response was not valid:\n${errors.map((e) => `- ${e}`).join('\n')}\n\nRespond again with ONLY the corrected JSON object.`,
+      }
+    );
+  }
+
+  if (!proposed) {
+    throw new EventCandidateError(
+      `Model did not return valid events after ${MAX_EXTRACTION_ATTEMPTS} attempts: ${errors.join('; ')}`,
+      422
+    );
+  }
+  if (proposed.length === 0) {
+    return [];
+  }
+
+  // 3. Queue them for review
+  const { data, error } = await supabase
+    .from('event_candidates')
+    .insert(
+      proposed.map((event) => ({
+        user_id: userId,
+        relationship_id: relationshipId,
+        ...event,
+        provider: provider.name,
+        model,
+        prompt_version: EVENT_EXTRACTION_PROMPT_VERSION,
+      }))
+    )
+    .select('*');
+
+  if (error) {
+    throw new EventCandidateError(error.message, 500);
+  }
+
+  return data as EventCandidate[];
+}
+
+/**
+ * Propose events from a batch that was just ingested, for the ingestion
+ * routes. Extraction is a bonus there, so failures (including a
+ * misconfigured provider) are logged and reported rather than thrown.
+ */
+export async function extractEventCandidatesAfterIngest(
+  supabase: SupabaseClient,
+  params: { userId: string; relationshipId: string; messageIds: string[] }
+): Promise<{ proposed: number; error?: string }> {
+  if (params.messageIds.length === 0) {
+    return { proposed: 0 };
+  }
+
+  try {
+    const candidates = await extractEventCandidates(supabase, { ...params, provider: getLLMProvider() });
+    return { proposed: candidates.length };
+  } catch (err) {
+    if (err instanceof LLMConfigError) {
+      console.error('LLM provider configuration error:', err.message);
+      return { proposed: 0, error: err.message };
+    }
+    const { error } = describeEventCandidateError(err);
+    console.error('Event extraction failed:', error);
+    return { proposed: 0, error };
+  }
+}
+
+/**
+ * Fetch one of the user's candidates that is still pending, or throw
+ * (404 if it doesn't exist, 409 if it was already reviewed)
+ */
+async function loadPendingCandidate(
+  supabase: SupabaseClient,
+  userId: string,
+  candidateId: string
+): Promise<EventCandidate> {
+  const { data, error } = await supabase
+    .from('event_candidates')
+    .select('*')
+    .eq('id', candidateId)
+    .eq('user_id', userId)
+    .maybeSingle();
+
+  if (error) {
+    throw new EventCandidateError(error.message, 500);
+  }
+  if (!data) {
+    throw new EventCandidateError('Event candidate not found', 404);
+  }
+  if (data.status !== 'pending') {
+    throw new EventCandidateError(`Event candidate was already ${data.status}`, 409);
+  }
+  return data as EventCandidate;
+}
+
+/**
+ * Accept a candidate: write it to events, with any edits the user made,
+ * and mark it accepted.
+ *
+ * Without a date from the model or the user, the event is dated at the
+ * latest message it came from.
+ */
+export async function acceptEventCandidate(
+  supabase: SupabaseClient,
+  params: {
+    userId: string;
+    candidateId: string;
+    eventType?: string;
+    description?: string;
+    occurredAt?: string;
+  }
+): Promise<{ candidate: EventCandidate; event: Event }> {
+  const { userId, candidateId } = params;
+
+  // 1. Fetch the candidate and work out when the event happened
+  const candidate = await loadPendingCandidate(supabase, userId, candidateId);
+
+  let occurredAt = params.occurredAt ?? candidate.occurred_at ?? null;
+  if (!occurredAt && candidate.message_ids.length > 0) {
+    const { data: latest, error: latestError } = await supabase
+      .from('messages')
+      .select('timestamp')
+      .in('id', candidate.message_ids)
+      .eq('user_id', userId)
+      .order('timestamp', { ascending: false, nullsFirst: false })
+      .limit(1)
+      .maybeSingle();
+
+    if (latestError) {
+      throw new EventCandidateError(latestError.message, 500);
+    }
+    occurredAt = latest?.timestamp ?? null;
+  }
+
+  // 2. Write the event
+  const { data: event, error: eventError } = await supabase
+    .from('events')
+    .insert({
+      user_id: userId,
+      relationship_id: candidate.relationship_id,
+      event_type: params.eventType ?? candidate.event_type,
+      description: params.description ?? candidate.description,
+      occurred_at: occurredAt ?? new Date().toISOString(),
+    })
+    .select('*')
+    .single();
+
+  if (eventError) {
+    throw new EventCandidateError(eventError.message, 500);
+  }
+
+  // 3. Mark the candidate, unless someone reviewed it in the meantime
+  const { data: updated, error: updateError } = await supabase
+    .from('event_candidates')
+    .update({ status: 'accepted', event_id: event.id, reviewed_at: new Date().toISOString() })
+    .eq('id', candidate.id)
+    .eq('user_id', userId)
+    .eq('status', 'pending')
+    .select('*')
+    .maybeSingle();
+
+  if (updateError || !updated) {
+    // Don't leave a second copy of the event behind
+    await supabase.from('events').delete().eq('id', event.id).eq('user_id', userId);
+    throw updateError
+      ? new EventCandidateError(updateError.message, 500)
+      : new EventCandidateError('Event candidate was already reviewed', 409);
+  }
+
+  return { candidate: updated as EventCandidate, event: event as Event };
+}
+
+/**
+ * Reject a candidate; nothing is written to events
+ */
+export async function rejectEventCandidate(
+  supabase: SupabaseClient,
+  params: { userId: string; candidateId: string }
+): Promise<EventCandidate> {
+  const candidate = await loadPendingCandidate(supabase, params.userId, params.candidateId);
+
+  const { data, error } = await supabase
+    .from('event_candidates')
+    .update({ status: 'rejected', reviewed_at: new Date().toISOString() })
+    .eq('id', candidate.id)
+    .eq('user_id', params.userId)
+    // Unless someone reviewed it in the meantime (an accepted one keeps its event)
+    .eq('status', 'pending')
+    .select('*')
+    .maybeSingle();
+
+  if (error) {
+    throw new EventCandidateError(error.message, 500);
+  }
+  if (!data) {
+    throw new EventCandidateError('Event candidate was already reviewed', 409);
+  }
+
+  return data as EventCandidate;
+}
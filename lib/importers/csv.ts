@@ -0,0 +1,236 @@
+/**
+ * Generic CSV chat importer
+ *
+ * For chat history kept in spreadsheets or exported by tools we don't have
+ * a dedicated importer for. A column mapping says which header holds the
+ * timestamp, text and sender (or an explicit from_me flag); if the caller
+ * doesn't send one, it is guessed from common header names, and the
+ * mapping that was used is returned so the dashboard can show and adjust it.
+ *
+ * Comma, semicolon and tab delimiters are detected from the header row,
+ * and quoted fields may contain delimiters, quotes ("") and newlines.
+ */
+
+import type {
+  ChatImporter,
+  CsvColumnMapping,
+  DateOrder,
+  ParsedChat,
+  ParsedChatMessage,
+} from '@/lib/importers/types';
+import { ImporterInputError } from '@/lib/importers/types';
+
+// Header names we recognize for each field when guessing a mapping
+const HEADER_GUESSES: Record<keyof CsvColumnMapping, string[]> = {
+  timestamp: ['timestamp', 'datetime', 'date_time', 'date', 'time', 'sent_at', 'sent'],
+  sender: ['sender', 'from', 'author', 'from_name', 'name', 'contact'],
+  text: ['text', 'message', 'body', 'content', 'msg'],
+  from_me: ['from_me', 'is_from_me', 'outgoing', 'is_outgoing', 'me'],
+  external_id: ['external_id', 'message_id', 'msg_id', 'id'],
+};
+
+// Values of a from_me column that mean "I sent this"
+const TRUE_VALUES = ['true', '1', 'yes', 'y', 'me', 'outgoing', 'sent', 'out'];
+
+/**
+ * Split CSV text into rows of fields
+ */
+function parseCsv(text: string): string[][] {
+  const firstLine = text.slice(0, text.search(/\r?\n|$/));
+  const delimiter = [',', ';', '\t'].reduce((best, candidate) =>
+    firstLine.split(candidate).length > firstLine.split(best).length ? candidate : best
+  );
+
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = '';
+  let inQuotes = false;
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+
+    if (inQuotes) {
+      if (char === '"' && text[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        inQuotes = false;
+      } else {
+        field += char;
+      }
+    } else if (char === '"') {
+      inQuotes = true;
+    } else if (char === delimiter) {
+      row.push(field);
+      field = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && text[i + 1] === '\n') {
+        i++;
+      }
+      row.push(field);
+      rows.push(row);
+      row = [];
+      field = '';
+    } else {
+      field += char;
+    }
+  }
+
+  if (field !== '' || row.length > 0) {
+    row.push(field);
+    rows.push(row);
+  }
+
+  // Drop blank lines
+  return rows.filter((r) => r.some((value) => value.trim() !== ''));
+}
+
+/**
+ * Guess a column mapping from the header names
+ */
+function guessMapping(headers: string[]): Partial<CsvColumnMapping> {
+  const normalized = headers.map((h) => h.trim().toLowerCase().replace(/[\s-]+/g, '_'));
+  const mapping: Partial<CsvColumnMapping> = {};
+
+  for (const field of Object.keys(HEADER_GUESSES) as (keyof CsvColumnMapping)[]) {
+    for (const guess of HEADER_GUESSES[field]) {
+      const index = normalized.indexOf(guess);
+      if (index !== -1 && !Object.values(mapping).includes(headers[index])) {
+        mapping[field] = headers[index];
+        break;
+      }
+    }
+  }
+
+  return mapping;
+}
+
+/**
+ * Build an ISO timestamp from local date parts and a UTC offset
+ */
+function localToIso(
+  year: number,
+  month: number,
+  day: number,
+  hour: number,
+  minute: number,
+  second: number,
+  tzOffsetMinutes: number
+): string | null {
+  if (month < 1 || month > 12 || day < 1 || day > 31 || hour > 23 || minute > 59) {
+    return null;
+  }
+  const utcMs = Date.UTC(year, month - 1, day, hour, minute, second) + tzOffsetMinutes * 60 * 1000;
+  return new Date(utcMs).toISOString();
+}
+
+/**
+ * Parse a timestamp cell.
+ *
+ * Understands epoch seconds/milliseconds, ISO strings with a zone, and
+ * zone-less "2021-12-31 21:41", "31/12/2021 21:41" or "12/31/21 9:41 PM"
+ * (read as local time at the given offset).
+ */
+function parseTimestamp(value: string, dateOrder: DateOrder, tzOffsetMinutes: number): string | null {
+  const trimmed = value.trim();
+
+  if (/^\d{9,13}$/.test(trimmed)) {
+    const num = Number(trimmed);
+    return new Date(num >= 1e12 ? num : num * 1000).toISOString();
+  }
+
+  if (/(Z|[+-]\d{2}:?\d{2})$/i.test(trimmed) && /^\d{4}-/.test(trimmed)) {
+    const date = new Date(trimmed);
+    return Number.isNaN(date.getTime()) ? null : date.toISOString();
+  }
+
+  const iso = trimmed.match(/^(\d{4})-(\d{1,2})-(\d{1,2})(?:[ T](\d{1,2}):(\d{2})(?::(\d{2}))?)?/);
+  if (iso) {
+    const [, y, m, d, h = '0', mi = '0', s = '0'] = iso;
+    return localToIso(+y, +m, +d, +h, +mi, +s, tzOffsetMinutes);
+  }
+
+  const slashed = trimmed.match(
+    /^(\d{1,2})[./-](\d{1,2})[./-](\d{2,4}),?(?:\s+(\d{1,2}):(\d{2})(?::(\d{2}))?\s*([AaPp])?\.?[Mm]?\.?)?$/
+  );
+  if (slashed) {
+    const [, a, b, y, h = '0', mi = '0', s = '0', meridiem] = slashed;
+    const [day, month] = dateOrder === 'MDY' ? [+b, +a] : [+a, +b];
+    let hour = +h;
+    if (meridiem?.toLowerCase() === 'p' && hour < 12) {
+      hour += 12;
+    } else if (meridiem?.toLowerCase() === 'a' && hour === 12) {
+      hour = 0;
+    }
+    const year = +y < 100 ? +y + 2000 : +y;
+    return localToIso(year, month, day, hour, +mi, +s, tzOffsetMinutes);
+  }
+
+  return null;
+}
+
+/**
+ * Importer for CSV files with a column mapping
+ */
+export const csvImporter: ChatImporter = {
+  platform: 'csv',
+  label: 'CSV spreadsheet',
+  extensions: ['.csv', '.tsv', '.txt'],
+
+  async parse(fileName, bytes, options): Promise<ParsedChat> {
+    const rows = parseCsv(new TextDecoder('utf-8').decode(bytes));
+    if (rows.length < 2) {
+      throw new Error('CSV needs a header row and at least one message row');
+    }
+
+    const [headers, ...dataRows] = rows;
+    const mapping = { ...guessMapping(headers), ...options.columns };
+
+    // We need a timestamp, the text, and some way to tell who sent each row
+    const mappedColumns = Object.values(mapping).filter(Boolean) as string[];
+    const unknownColumn = mappedColumns.find((column) => !headers.includes(column));
+    if (!mapping.timestamp || !mapping.text || (!mapping.sender && !mapping.from_me) || unknownColumn) {
+      throw new ImporterInputError(
+        unknownColumn
+          ? `Column "${unknownColumn}" is not in the CSV header`
+          : 'Map the CSV columns: timestamp, text, and sender or from_me are required',
+        'columns',
+        headers
+      );
+    }
+
+    const column = (row: string[], name: string | undefined) =>
+      name ? (row[headers.indexOf(name)] ?? '').trim() : '';
+
+    const dateOrder = options.dateOrder ?? 'DMY';
+    const tzOffsetMinutes = options.tzOffsetMinutes ?? 0;
+    const messages: ParsedChatMessage[] = [];
+    const participants: string[] = [];
+
+    for (const row of dataRows) {
+      const fromMeCell = column(row, mapping.from_me).toLowerCase();
+      const fromMe = mapping.from_me ? TRUE_VALUES.includes(fromMeCell) : undefined;
+      const sender = column(row, mapping.sender) || (fromMe ? 'Me' : 'Them');
+
+      if (!participants.includes(sender)) {
+        participants.push(sender);
+      }
+
+      messages.push({
+        sender,
+        text: column(row, mapping.text),
+        timestamp: parseTimestamp(column(row, mapping.timestamp), dateOrder, tzOffsetMinutes),
+        from_me: fromMe,
+        external_id: column(row, mapping.external_id) || undefined,
+      });
+    }
+
+    return {
+      messages,
+      participants,
+      thread_name: fileName.replace(/^.*[\\/]/, '').replace(/\.[^.]+$/, '') || null,
+      columns: headers,
+      column_mapping: mapping as CsvColumnMapping,
+    };
+  },
+};
@@ -0,0 +1,160 @@
+/**
+ * iMessage importer (macOS Messages database, ~/Library/Messages/chat.db)
+ *
+ * Opens the uploaded SQLite file in memory with sql.js and reads one chat.
+ * The database holds every conversation on the Mac, so options.chatId
+ * (a chat ROWID or chat_identifier such as a phone number) picks which one
+ * to import; databases with a single chat don't need it.
+ *
+ * iMessage records who sent each message (is_from_me), so the import
+ * doesn't need the user to pick which participant is "me". Tapback
+ * reactions are skipped.
+ */
+
+import initSqlJs from 'sql.js';
+import type { ChatImporter, ParsedChat, ParsedChatMessage } from '@/lib/importers/types';
+import { ImporterInputError } from '@/lib/importers/types';
+
+// Seconds between the Unix epoch and Apple's epoch (2001-01-01T00:00:00Z)
+const APPLE_EPOCH_OFFSET_SECONDS = 978307200;
+
+/**
+ * Convert a message.date value to an ISO timestamp.
+ *
+ * Older databases store seconds since 2001; newer ones store nanoseconds.
+ */
+function appleDateToIso(value: unknown): string | null {
+  if (typeof value !== 'number' || value <= 0) {
+    return null;
+  }
+  const seconds = value > 1e11 ? value / 1e9 : value;
+  return new Date((seconds + APPLE_EPOCH_OFFSET_SECONDS) * 1000).toISOString();
+}
+
+/**
+ * Best-effort extraction of the text stored in message.attributedBody.
+ *
+ * Recent macOS versions leave message.text empty and keep the text in this
+ * NSAttributedString "typedstream" blob. The string follows the NSString
+ * class marker, five bytes of type information and a length prefix.
+ */
+function decodeAttributedBody(blob: unknown): string {
+  if (!(blob instanceof Uint8Array)) {
+    return '';
+  }
+
+  const bytes = Buffer.from(blob);
+  const marker = bytes.indexOf('NSString');
+  if (marker === -1) {
+    return '';
+  }
+
+  let index = marker + 'NSString'.length + 5;
+  let length = bytes[index];
+  index += 1;
+
+  // 0x81 and 0x82 mean the real length follows as a 2- or 4-byte integer
+  if (length === 0x81) {
+    length = bytes.readUInt16LE(index);
+    index += 2;
+  } else if (length === 0x82) {
+    length = bytes.readUInt32LE(index);
+    index += 4;
+  }
+
+  return bytes.subarray(index, index + length).toString('utf8');
+}
+
+/**
+ * Importer for macOS Messages databases
+ */
+export const iMessageImporter: ChatImporter = {
+  platform: 'imessage',
+  label: 'iMessage (chat.db)',
+  extensions: ['.db', '.sqlite'],
+
+  async parse(_fileName, bytes, options): Promise<ParsedChat> {
+    const SQL = await initSqlJs();
+
+    let db;
+    try {
+      db = new SQL.Database(bytes);
+    } catch {
+      throw new Error('File is not a SQLite database');
+    }
+
+    try {
+      // List the chats so we can pick one (or ask the user to)
+      const chatsResult = db.exec(`
+        SELECT c.ROWID, c.chat_identifier, c.display_name, COUNT(cmj.message_id)
+        FROM chat c
+        LEFT JOIN chat_message_join cmj ON cmj.chat_id = c.ROWID
+        GROUP BY c.ROWID
+        ORDER BY COUNT(cmj.message_id) DESC
+      `);
+
+      const chats = (chatsResult[0]?.values ?? []).map(([rowId, identifier, displayName, count]) => ({
+        id: String(rowId),
+        identifier: String(identifier ?? ''),
+        name: String(displayName || identifier || `Chat ${rowId}`),
+        message_count: Number(count),
+      }));
+
+      if (chats.length === 0) {
+        throw new Error('No chats found in the database');
+      }
+
+      const chat =
+        chats.length === 1 && !options.chatId
+          ? chats[0]
+          : chats.find((c) => c.id === options.chatId || c.identifier === options.chatId);
+
+      if (!chat) {
+        throw new ImporterInputError(
+          'This database contains several chats; choose one to import',
+          'chat_id',
+          chats.map(({ id, name, message_count }) => ({ id, name, message_count }))
+        );
+      }
+
+      // Read the chat's messages in order, skipping tapback reactions
+      const statement = db.prepare(`
+        SELECT m.guid, m.text, m.attributedBody, m.date, m.is_from_me, h.id AS handle
+        FROM message m
+        JOIN chat_message_join cmj ON cmj.message_id = m.ROWID
+        LEFT JOIN handle h ON h.ROWID = m.handle_id
+        WHERE cmj.chat_id = ?
+          AND COALESCE(m.associated_message_type, 0) = 0
+        ORDER BY m.date, m.ROWID
+      `);
+      statement.bind([Number(chat.id)]);
+
+      const messages: ParsedChatMessage[] = [];
+      const participants: string[] = [];
+
+      while (statement.step()) {
+        const row = statement.getAsObject();
+        const fromMe = Number(row.is_from_me) === 1;
+        const sender = fromMe ? 'Me' : String(row.handle ?? chat.identifier);
+        const text = typeof row.text === 'string' && row.text ? row.text : decodeAttributedBody(row.attributedBody);
+
+        if (!participants.includes(sender)) {
+          participants.push(sender);
+        }
+
+        messages.push({
+          sender,
+          text,
+          timestamp: appleDateToIso(row.date),
+          from_me: fromMe,
+          external_id: typeof row.guid === 'string' ? row.guid : undefined,
+        });
+      }
+      statement.free();
+
+      return { messages, participants, thread_name: chat.identifier || chat.name };
+    } finally {
+      db.close();
+    }
+  },
+};
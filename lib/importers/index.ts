@@ -0,0 +1,27 @@
+/**
+ * Registry of chat importers
+ *
+ * The import route looks importers up here by platform name. To support a
+ * new export format, implement ChatImporter (see types.ts) and add it to
+ * IMPORTERS.
+ */
+
+import type { ChatImporter } from '@/lib/importers/types';
+import { whatsAppImporter } from '@/lib/importers/whatsapp';
+import { telegramImporter } from '@/lib/importers/telegram';
+import { iMessageImporter } from '@/lib/importers/imessage';
+import { csvImporter } from '@/lib/importers/csv';
+
+export const IMPORTERS: ChatImporter[] = [
+  whatsAppImporter,
+  telegramImporter,
+  iMessageImporter,
+  csvImporter,
+];
+
+/**
+ * Find the importer for a platform, or undefined if there isn't one
+ */
+export function getImporter(platform: string): ChatImporter | undefined {
+  return IMPORTERS.find((importer) => importer.platform === platform);
+}
@@ -0,0 +1,152 @@
+/**
+ * Telegram Desktop "Export chat history" importer (JSON format)
+ *
+ * Accepts either a single-chat export (result.json with a top-level
+ * `messages` array) or a full account export (with `chats.list`), in
+ * which case options.chatId picks the chat to import.
+ *
+ * Service messages (joins, pins, calls) are skipped. Messages that only
+ * carry media are kept with a placeholder like "<photo omitted>", the same
+ * way WhatsApp exports them.
+ */
+
+import type { ChatImporter, ParsedChat, ParsedChatMessage } from '@/lib/importers/types';
+import { ImporterInputError } from '@/lib/importers/types';
+
+/**
+ * The parts of a Telegram export message we use
+ */
+type TelegramMessage = {
+  id?: number | string;
+  type?: string;
+  date?: string;
+  date_unixtime?: string;
+  from?: string | null;
+  from_id?: string;
+  text?: string | (string | { text?: string })[];
+  media_type?: string;
+  photo?: string;
+};
+
+type TelegramChat = {
+  id?: number | string;
+  name?: string | null;
+  messages?: TelegramMessage[];
+};
+
+/**
+ * Flatten Telegram's rich text (plain strings mixed with entity objects)
+ */
+function flattenText(text: TelegramMessage['text']): string {
+  if (typeof text === 'string') {
+    return text;
+  }
+  if (Array.isArray(text)) {
+    return text.map((part) => (typeof part === 'string' ? part : part?.text ?? '')).join('');
+  }
+  return '';
+}
+
+/**
+ * Read a message's timestamp.
+ *
+ * date_unixtime is exact; older exports only have `date`, which is local
+ * time without a zone, so the offset is applied to it.
+ */
+function messageTimestamp(message: TelegramMessage, tzOffsetMinutes: number): string | null {
+  if (message.date_unixtime && /^\d+$/.test(message.date_unixtime)) {
+    return new Date(Number(message.date_unixtime) * 1000).toISOString();
+  }
+
+  if (message.date) {
+    const local = new Date(`${message.date}Z`);
+    if (!Number.isNaN(local.getTime())) {
+      return new Date(local.getTime() + tzOffsetMinutes * 60 * 1000).toISOString();
+    }
+  }
+
+  return null;
+}
+
+/**
+ * Find the chat to import inside the parsed JSON
+ */
+function selectChat(data: Record<string, unknown>, chatId: string | undefined): TelegramChat {
+  if (Array.isArray(data.messages)) {
+    return data as TelegramChat;
+  }
+
+  const list = (data.chats as { list?: TelegramChat[] } | undefined)?.list;
+  if (!Array.isArray(list)) {
+    throw new Error('Not a Telegram JSON export (no messages found)');
+  }
+
+  const chat =
+    list.length === 1 && !chatId ? list[0] : list.find((c) => String(c.id) === chatId);
+  if (!chat) {
+    throw new ImporterInputError(
+      'This export contains several chats; choose one to import',
+      'chat_id',
+      list.map((c) => ({
+        id: String(c.id),
+        name: c.name ?? `Chat ${c.id}`,
+        message_count: c.messages?.length ?? 0,
+      }))
+    );
+  }
+
+  return chat;
+}
+
+/**
+ * Importer for Telegram Desktop JSON exports
+ */
+export const telegramImporter: ChatImporter = {
+  platform: 'telegram',
+  label: 'Telegram (JSON export)',
+  extensions: ['.json'],
+
+  async parse(_fileName, bytes, options): Promise<ParsedChat> {
+    let data: Record<string, unknown>;
+    try {
+      data = JSON.parse(new TextDecoder('utf-8').decode(bytes));
+    } catch {
+      throw new Error('File is not valid JSON');
+    }
+
+    const chat = selectChat(data, options.chatId);
+    const tzOffsetMinutes = options.tzOffsetMinutes ?? 0;
+
+    const messages: ParsedChatMessage[] = [];
+    const participants: string[] = [];
+
+    for (const message of chat.messages ?? []) {
+      if (message.type !== 'message') {
+        continue;
+      }
+
+      const sender = message.from ?? message.from_id ?? 'Unknown';
+      let text = flattenText(message.text);
+      if (!text && (message.media_type || message.photo)) {
+        text = `<${message.media_type ?? 'photo'} omitted>`;
+      }
+
+      if (!participants.includes(sender)) {
+        participants.push(sender);
+      }
+
+      messages.push({
+        sender,
+        text,
+        timestamp: messageTimestamp(message, tzOffsetMinutes),
+        external_id: message.id !== undefined ? String(message.id) : undefined,
+      });
+    }
+
+    return {
+      messages,
+      participants,
+      thread_name: chat.name ?? (chat.id !== undefined ? String(chat.id) : null),
+    };
+  },
+};
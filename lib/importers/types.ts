@@ -0,0 +1,108 @@
+/**
+ * Shared types for chat importers
+ *
+ * Every importer implements ChatImporter: it turns one platform's export
+ * format into ParsedChatMessage values. The import route then decides which
+ * sender is "me" and hands the result to lib/messageIngest.ts, which writes
+ * `messages` rows tagged with the importer's platform.
+ */
+
+/**
+ * One message read from an export, before it is mapped to from_me
+ *
+ * @property sender - Display name (or handle) of whoever sent the message
+ * @property text - Message text (may span several lines)
+ * @property timestamp - ISO timestamp, or null if the export had none
+ * @property from_me - Set when the export itself says who sent it (e.g. iMessage's is_from_me)
+ * @property external_id - The platform's own message id, if the export has one
+ */
+export type ParsedChatMessage = {
+  sender: string;
+  text: string;
+  timestamp: string | null;
+  from_me?: boolean;
+  external_id?: string;
+};
+
+/**
+ * Order of day, month and year in exports that write dates like "12/11/21".
+ * Year-first dates ("2021-12-11") don't need it.
+ */
+export type DateOrder = 'DMY' | 'MDY';
+
+/**
+ * Which CSV columns hold which message fields (values are header names)
+ */
+export type CsvColumnMapping = {
+  timestamp: string;
+  sender?: string;
+  text: string;
+  from_me?: string;
+  external_id?: string;
+};
+
+/**
+ * Result of parsing one export
+ *
+ * @property messages - Messages in export order
+ * @property participants - Distinct sender names, in order of first appearance
+ * @property thread_name - Best guess at the chat's name (used to build a thread id)
+ * @property columns - CSV only: the file's header names, for the column-mapping step
+ * @property column_mapping - CSV only: the mapping that was used
+ */
+export type ParsedChat = {
+  messages: ParsedChatMessage[];
+  participants: string[];
+  thread_name: string | null;
+  columns?: string[];
+  column_mapping?: CsvColumnMapping;
+};
+
+/**
+ * Options passed to every importer; each one uses the fields it needs
+ *
+ * @property dateOrder - "DMY" or "MDY" for exports whose dates are ambiguous
+ * @property tzOffsetMinutes - Minutes to add to local export times to get UTC
+ *   (same convention as Date.prototype.getTimezoneOffset())
+ * @property chatId - Which chat to import from exports that contain several
+ * @property columns - CSV column mapping (guessed from the headers if omitted)
+ */
+export type ImportOptions = {
+  dateOrder?: DateOrder;
+  tzOffsetMinutes?: number;
+  chatId?: string;
+  columns?: CsvColumnMapping;
+};
+
+/**
+ * Common interface implemented by every importer
+ *
+ * @property platform - Value stored in messages.platform
+ * @property label - Human-readable name for the dashboard
+ * @property extensions - File extensions the importer accepts
+ */
+export interface ChatImporter {
+  platform: string;
+  label: string;
+  extensions: string[];
+  parse(fileName: string, bytes: Uint8Array, options: ImportOptions): Promise<ParsedChat>;
+}
+
+/**
+ * Thrown when an importer needs the user to choose something before it can
+ * parse the export (which chat to import, or how CSV columns map to fields).
+ *
+ * @property field - The import option that needs a value ("chat_id" or "columns")
+ * @property choices - What the user can pick from
+ */
+export class ImporterInputError extends Error {
+  field: string;
+  choices: unknown[];
+
+  constructor(message: string, field: string, choices: unknown[]) {
+    super(message);
+    this.name = 'ImporterInputError';
+    this.field = field;
+    this.choices = choices;
+  }
+}
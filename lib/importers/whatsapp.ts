@@ -0,0 +1,300 @@
+/**
+ * WhatsApp "Export chat" importer
+ *
+ * Reads the .txt file WhatsApp produces (on its own or inside the .zip it
+ * creates when media is attached) and turns it into ParsedChatMessage values.
+ *
+ * Handles the formats we have seen in the wild:
+ * - Android: "31/12/2021, 21:41 - Alice: hi"  /  "12/31/21, 9:41 PM - Alice: hi"
+ * - iOS:     "[31/12/21, 21:41:05] Alice: hi" /  "[12/31/21, 9:41:05 PM] Alice: hi"
+ * - Dotted and ISO-style dates: "31.12.21, 21:41 - ..." / "2021-12-31, 21:41 - ..."
+ * - Messages that span several lines (continuation lines have no header)
+ * - System lines without a sender ("Messages are end-to-end encrypted"), which are skipped,
+ *   including ones that quote text with a colon ('Alice changed the subject to "Plans: Friday"')
+ *
+ * Exports carry no time zone, so times are read as local time at the
+ * given UTC offset.
+ */
+
+import { Unzip, UnzipInflate } from 'fflate';
+import type {
+  ChatImporter,
+  DateOrder,
+  ImportOptions,
+  ParsedChat,
+  ParsedChatMessage,
+} from '@/lib/importers/types';
+
+// Invisible marks WhatsApp sprinkles into exports (LRM, RLM, BOM)
+const INVISIBLE_CHARS = /[\u200e\u200f\ufeff]/g;
+
+// WhatsApp uses narrow / regular no-break spaces around times
+const SPECIAL_SPACES = /[\u202f\u00a0]/g;
+
+// What comes before the first ": " of a system line that quotes a group
+// name or subject. Real sender names don't contain quotes or these phrases.
+const SYSTEM_LINE_PATTERN = /["“”„«»]| changed (?:the|this|their|to) | created group | added | removed | joined using /i;
+
+// Largest upload we read, and largest chat text we unpack from a zip
+const MAX_EXPORT_BYTES = 200 * 1024 * 1024;
+const MAX_CHAT_TEXT_BYTES = 50 * 1024 * 1024;
+
+// A message header: optional "[", date, time, optional AM/PM, optional "]",
+// then " - " (Android) or " " (iOS), then the rest of the line
+const HEADER_PATTERN =
+  /^\[?(\d{1,4})[./-](\d{1,2})[./-](\d{1,4}),?\s+(\d{1,2})[:.](\d{2})(?:[:.](\d{2}))?(?:\s*([AaPp])\.?\s?[Mm]\.?)?\]?\s+(?:[-–]\s+)?(.*)$/;
+
+type HeaderMatch = {
+  parts: [number, number, number];
+  yearFirst: boolean;
+  hour: number;
+  minute: number;
+  second: number;
+  meridiem: 'a' | 'p' | null;
+  rest: string;
+};
+
+/**
+ * Match a line against the message header pattern
+ */
+function matchHeader(line: string): HeaderMatch | null {
+  const match = line.match(HEADER_PATTERN);
+  if (!match) {
+    return null;
+  }
+
+  const [, a, b, c, hour, minute, second, meridiem, rest] = match;
+
+  return {
+    parts: [Number(a), Number(b), Number(c)],
+    yearFirst: a.length === 4,
+    hour: Number(hour),
+    minute: Number(minute),
+    second: second ? Number(second) : 0,
+    meridiem: meridiem ? (meridiem.toLowerCase() as 'a' | 'p') : null,
+    rest,
+  };
+}
+
+/**
+ * Work out whether the export writes day or month first.
+ *
+ * If any date has a first part above 12 it must be day-first; if any has a
+ * second part above 12 it must be month-first. Otherwise use the fallback.
+ */
+function detectDateOrder(headers: HeaderMatch[], fallback: DateOrder): DateOrder {
+  for (const header of headers) {
+    if (header.yearFirst) {
+      continue;
+    }
+    if (header.parts[0] > 12) {
+      return 'DMY';
+    }
+    if (header.parts[1] > 12) {
+      return 'MDY';
+    }
+  }
+  return fallback;
+}
+
+/**
+ * Convert a header's date and time to an ISO timestamp
+ */
+function headerToTimestamp(header: HeaderMatch, order: DateOrder, tzOffsetMinutes: number): string | null {
+  let [day, month, year] = header.parts;
+
+  if (header.yearFirst) {
+    [year, month, day] = header.parts;
+  } else if (order === 'MDY') {
+    [month, day, year] = header.parts;
+  }
+
+  // Two-digit years are always 20xx in WhatsApp exports
+  if (year < 100) {
+    year += 2000;
+  }
+
+  let hour = header.hour;
+  if (header.meridiem === 'p' && hour < 12) {
+    hour += 12;
+  } else if (header.meridiem === 'a' && hour === 12) {
+    hour = 0;
+  }
+
+  if (month < 1 || month > 12 || day < 1 || day > 31 || hour > 23 || header.minute > 59) {
+    return null;
+  }
+
+  const utcMs =
+    Date.UTC(year, month - 1, day, hour, header.minute, header.second) + tzOffsetMinutes * 60 * 1000;
+
+  return new Date(utcMs).toISOString();
+}
+
+/**
+ * Parse the text of a WhatsApp chat export
+ *
+ * options.dateOrder is only used when the dates themselves are ambiguous
+ * (every day <= 12) and defaults to "DMY". options.tzOffsetMinutes
+ * defaults to 0, i.e. the export's times are read as UTC.
+ */
+export function parseWhatsAppChat(text: string, options: ImportOptions = {}): ParsedChat {
+  const lines = text
+    .replace(INVISIBLE_CHARS, '')
+    .replace(SPECIAL_SPACES, ' ')
+    .split(/\r?\n/);
+
+  // First pass: group lines into entries (a header line plus its continuation lines)
+  const entries: { header: HeaderMatch; lines: string[] }[] = [];
+  for (const line of lines) {
+    const header = matchHeader(line);
+    if (header) {
+      entries.push({ header, lines: [header.rest] });
+    } else if (entries.length > 0) {
+      entries[entries.length - 1].lines.push(line);
+    }
+  }
+
+  const order = detectDateOrder(
+    entries.map((e) => e.header),
+    options.dateOrder ?? 'DMY'
+  );
+  const tzOffsetMinutes = options.tzOffsetMinutes ?? 0;
+
+  // Second pass: split "Sender: text" and skip system lines
+  const messages: ParsedChatMessage[] = [];
+  const participants: string[] = [];
+
+  for (const entry of entries) {
+    const body = entry.lines.join('\n');
+    const separator = body.indexOf(': ');
+    if (separator <= 0) {
+      // No sender: a system message such as "Alice created group"
+      continue;
+    }
+
+    const sender = body.slice(0, separator).trim();
+    if (SYSTEM_LINE_PATTERN.test(sender)) {
+      continue;
+    }
+
+    const messageText = body.slice(separator + 2).trimEnd();
+
+    if (!participants.includes(sender)) {
+      participants.push(sender);
+    }
+
+    messages.push({
+      sender,
+      text: messageText,
+      timestamp: headerToTimestamp(entry.header, order, tzOffsetMinutes),
+    });
+  }
+
+  return { messages, participants, thread_name: null };
+}
+
+/**
+ * Read the chat text out of an uploaded export.
+ *
+ * Accepts either the .txt itself or the .zip WhatsApp creates, in which
+ * case the first .txt entry (usually "_chat.txt" or "WhatsApp Chat with X.txt")
+ * is used. Throws if the upload or the chat text is too large, or if a zip
+ * has no .txt inside.
+ */
+function readWhatsAppExport(fileName: string, bytes: Uint8Array): { text: string; chatFileName: string } {
+  const isZip = fileName.toLowerCase().endsWith('.zip');
+  if (bytes.length > (isZip ? MAX_EXPORT_BYTES : MAX_CHAT_TEXT_BYTES)) {
+    throw new Error('The export is too large');
+  }
+
+  if (!isZip) {
+    return { text: new TextDecoder('utf-8').decode(bytes), chatFileName: fileName };
+  }
+
+  // Inflate the first .txt entry as a stream and count the bytes actually
+  // produced: the sizes in the zip's headers come from the uploader
+  let chatFileName: string | null = null;
+  const chunks: Uint8Array[] = [];
+  let inflated = 0;
+  let tooLarge = false;
+  let failure: Error | null = null;
+
+  const unzipper = new Unzip();
+  unzipper.register(UnzipInflate);
+  unzipper.onfile = (file) => {
+    if (chatFileName !== null || !file.name.toLowerCase().endsWith('.txt')) {
+      return;
+    }
+    chatFileName = file.name;
+    file.ondata = (err, chunk) => {
+      if (err) {
+        failure = err;
+        return;
+      }
+      if (tooLarge) {
+        return;
+      }
+      inflated += chunk.length;
+      if (inflated > MAX_CHAT_TEXT_BYTES) {
+        tooLarge = true;
+        file.terminate();
+        return;
+      }
+      chunks.push(chunk);
+    };
+    file.start();
+  };
+  unzipper.push(bytes, true);
+
+  if (tooLarge) {
+    throw new Error('The chat text in the zip is too large');
+  }
+  if (failure) {
+    throw failure;
+  }
+  if (chatFileName === null) {
+    throw new Error('No chat .txt file found in the zip');
+  }
+
+  const text = new Uint8Array(inflated);
+  let offset = 0;
+  for (const chunk of chunks) {
+    text.set(chunk, offset);
+    offset += chunk.length;
+  }
+
+  return { text: new TextDecoder('utf-8').decode(text), chatFileName };
+}
+
+/**
+ * Guess the chat's name from the export's file name
+ * ("WhatsApp Chat with Alice.txt" -> "Alice"), or null if it's generic.
+ */
+function whatsAppThreadName(fileName: string): string | null {
+  const base = fileName.replace(/^.*[\\/]/, '').replace(/\.(txt|zip)$/i, '');
+  const match = base.match(/^WhatsApp Chat (?:with|-)\s*(.+)$/i);
+  if (match) {
+    return match[1].trim();
+  }
+  return base && base !== '_chat' ? base : null;
+}
+
+/**
+ * Importer for WhatsApp exports (.txt, or the .zip WhatsApp creates with media)
+ */
+export const whatsAppImporter: ChatImporter = {
+  platform: 'whatsapp',
+  label: 'WhatsApp',
+  extensions: ['.txt', '.zip'],
+
+  async parse(fileName, bytes, options) {
+    const { text, chatFileName } = readWhatsAppExport(fileName, bytes);
+    const chat = parseWhatsAppChat(text, options);
+
+    return {
+      ...chat,
+      thread_name: whatsAppThreadName(fileName) ?? whatsAppThreadName(chatFileName),
+    };
+  },
+};
@@ -0,0 +1,168 @@
+/**
+ * Runtime validation for AI-generated insights
+ *
+ * Models don't always follow the requested JSON shape: they wrap it in
+ * markdown code fences, return scores as strings, or leave fields out.
+ * This file turns raw model text into a value matching the Insight type
+ * in lib/types.ts, or a list of field errors that can be sent back to
+ * the model (or to the client) explaining what was wrong.
+ */
+
+import type { Insight } from '@/lib/types';
+import { normalizeScore, SCORE_MAX, SCORE_MIN } from '@/lib/scores';
+
+/**
+ * The fields of an Insight that the model is responsible for producing
+ */
+export type InsightFields = Pick<
+  Insight,
+  | 'summary'
+  | 'pattern'
+  | 'risk_score'
+  | 'growth_score'
+  | 'recommended_action'
+  | 'suggested_message'
+>;
+
+/**
+ * A single validation problem
+ *
+ * @property field - Name of the offending field ("$" for the whole response)
+ * @property message - Human-readable description of the problem
+ */
+export type InsightFieldError = {
+  field: string;
+  message: string;
+};
+
+export type InsightValidationResult =
+  | { ok: true; insight: InsightFields }
+  | { ok: false; errors: InsightFieldError[] };
+
+const TEXT_FIELDS = [
+  'summary',
+  'pattern',
+  'recommended_action',
+  'suggested_message',
+] as const;
+
+const SCORE_FIELDS = ['risk_score', 'growth_score'] as const;
+
+/**
+ * Strip markdown code fences and any prose around the JSON object.
+ *
+ * Handles responses like "```json\n{...}\n```" and
+ * "Here is the analysis: {...}".
+ */
+export function extractJsonText(text: string): string {
+  let cleaned = text.trim();
+
+  const fenced = cleaned.match(/```(?:json)?\s*([\s\S]*?)```/i);
+  if (fenced) {
+    cleaned = fenced[1].trim();
+  }
+
+  const start = cleaned.indexOf('{');
+  const end = cleaned.lastIndexOf('}');
+  if (start !== -1 && end > start) {
+    cleaned = cleaned.slice(start, end + 1);
+  }
+
+  return cleaned;
+}
+
+/**
+ * Coerce a score to a number on the canonical 0-100 integer scale.
+ *
+ * Accepts numbers and numeric strings such as "72" or "72%".
+ * Returns null if the value can't be read as a number.
+ */
+function coerceScore(value: unknown): number | null {
+  let num: number;
+
+  if (typeof value === 'number') {
+    num = value;
+  } else if (typeof value === 'string' && value.trim() !== '') {
+    num = Number(value.trim().replace(/%$/, ''));
+  } else {
+    return null;
+  }
+
+  if (!Number.isFinite(num)) {
+    return null;
+  }
+
+  return normalizeScore(num);
+}
+
+/**
+ * Validate an already-parsed value against the insight shape
+ */
+export function validateInsight(value: unknown): InsightValidationResult {
+  if (!value || typeof value !== 'object' || Array.isArray(value)) {
+    return {
+      ok: false,
+      errors: [{ field: '$', message: 'Response must be a JSON object' }],
+    };
+  }
+
+  const record = value as Record<string, unknown>;
+  const errors: InsightFieldError[] = [];
+  const insight: Partial<InsightFields> = {};
+
+  for (const field of TEXT_FIELDS) {
+    const raw = record[field];
+    if (typeof raw !== 'string' || raw.trim() === '') {
+      errors.push({ field, message: 'must be a non-empty string' });
+    } else {
+      insight[field] = raw.trim();
+    }
+  }
+
+  for (const field of SCORE_FIELDS) {
+    const score = coerceScore(record[field]);
+    if (score === null) {
+      errors.push({
+        field,
+        message: `must be a number between ${SCORE_MIN} and ${SCORE_MAX}`,
+      });
+    } else {
+      insight[field] = score;
+    }
+  }
+
+  if (errors.length > 0) {
+    return { ok: false, errors };
+  }
+
+  return { ok: true, insight: insight as InsightFields };
+}
+
+/**
+ * Parse raw model text into a validated insight
+ */
+export function parseInsight(text: string): InsightValidationResult {
+  let value: unknown;
+  try {
+    value = JSON.parse(extractJsonText(text));
+  } catch (err) {
+    return {
+      ok: false,
+      errors: [
+        {
+          field: '$',
+          message: `Response is not valid JSON (${err instanceof Error ? err.message : 'parse error'})`,
+        },
+      ],
+    };
+  }
+
+  return validateInsight(value);
+}
+
+/**
+ * Format validation errors as a bullet list for a repair prompt
+ */
+export function formatInsightErrors(errors: InsightFieldError[]): string {
+  return errors.map((e) => `- ${e.field}: ${e.message}`).join('\n');
+}
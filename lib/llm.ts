@@ -0,0 +1,256 @@
+/**
+ * LLM provider layer for the Relationship Decision Engine
+ *
+ * All AI calls go through an LLMProvider so API routes don't need to know
+ * which model or vendor is behind them. The provider is picked from
+ * environment variables:
+ *
+ * - LLM_PROVIDER: "groq" (default), "openai" or "mock"
+ * - LLM_MODEL: optional model override for the chosen provider
+ * - LLM_BASE_URL: base URL for "openai" (e.g. a local Ollama or llama.cpp
+ *   server at http://localhost:11434/v1)
+ * - LLM_API_KEY: API key for "openai" (falls back to OPENAI_API_KEY)
+ * - GROQ_API_KEY: API key for "groq"
+ *
+ * The "mock" provider needs no network and returns deterministic output,
+ * which makes it usable in CI and on laptops without access to a model.
+ *
+ * Passing CompletionOptions.onToken streams the response: the callback
+ * receives each chunk of text as it arrives, and complete() still resolves
+ * with the full result once the model is done.
+ */
+
+import OpenAI from 'openai';
+import { createMockProvider } from '@/lib/mockLLM';
+
+/**
+ * A single chat message sent to the model
+ */
+export type ChatMessage = {
+  role: 'system' | 'user' | 'assistant';
+  content: string;
+};
+
+/**
+ * Options for a single completion call
+ *
+ * @property task - Name of the calling task (e.g. "analyze"); the mock provider uses it to pick a response shape
+ * @property temperature - Optional sampling temperature
+ * @property onToken - If set, the response is streamed and each text chunk is passed here
+ */
+export type CompletionOptions = {
+  task?: string;
+  temperature?: number;
+  onToken?: (delta: string) => void;
+};
+
+/**
+ * Token usage reported by the provider, when available
+ */
+export type LLMUsage = {
+  prompt_tokens: number;
+  completion_tokens: number;
+  total_tokens: number;
+};
+
+/**
+ * Result of a completion call
+ *
+ * @property text - Raw text content returned by the model
+ * @property provider - Name of the provider that produced it
+ * @property model - Model id that produced it
+ * @property usage - Token usage, or null if the provider didn't report it
+ */
+export type CompletionResult = {
+  text: string;
+  provider: string;
+  model: string;
+  usage: LLMUsage | null;
+};
+
+/**
+ * Common interface implemented by every provider
+ */
+export interface LLMProvider {
+  name: string;
+  model: string;
+  complete(messages: ChatMessage[], options?: CompletionOptions): Promise<CompletionResult>;
+}
+
+/**
+ * Error thrown when a provider is misconfigured (e.g. a missing API key)
+ */
+export class LLMConfigError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'LLMConfigError';
+  }
+}
+
+/**
+ * Error thrown when the provider call itself fails
+ *
+ * @property status - HTTP status to surface to the client
+ */
+export class LLMError extends Error {
+  status: number;
+
+  constructor(message: string, status = 502) {
+    super(message);
+    this.name = 'LLMError';
+    this.status = status;
+  }
+}
+
+const GROQ_BASE_URL = 'https://api.groq.com/openai/v1';
+const DEFAULT_GROQ_MODEL = 'llama-3.1-8b-instant';
+const DEFAULT_OPENAI_MODEL = 'gpt-4o-mini';
+
+/**
+ * Create a provider for any OpenAI-compatible chat completions endpoint.
+ *
+ * Groq, OpenAI, Ollama and llama.cpp's server all speak this protocol,
+ * so they share one implementation built on the openai SDK.
+ */
+function createOpenAICompatibleProvider(config: {
+  name: string;
+  model: string;
+  baseURL?: string;
+  apiKey?: string;
+}): LLMProvider {
+  const client = new OpenAI({
+    // Local servers usually ignore the key, but the SDK requires one
+    apiKey: config.apiKey || 'not-needed',
+    baseURL: config.baseURL,
+  });
+
+  /**
+   * Stream a completion, forwarding each text delta to onToken.
+   * Usage arrives in the final chunk when the server supports include_usage.
+   */
+  async function streamCompletion(
+    messages: ChatMessage[],
+    onToken: (delta: string) => void,
+    temperature?: number
+  ): Promise<CompletionResult> {
+    const stream = await client.chat.completions.create({
+      model: config.model,
+      messages,
+      temperature,
+      stream: true,
+      stream_options: { include_usage: true },
+    });
+
+    let text = '';
+    let model = config.model;
+    let usage: LLMUsage | null = null;
+
+    for await (const chunk of stream) {
+      const delta = chunk.choices?.[0]?.delta?.content;
+      if (delta) {
+        text += delta;
+        onToken(delta);
+      }
+      if (chunk.model) {
+        model = chunk.model;
+      }
+      if (chunk.usage) {
+        usage = {
+          prompt_tokens: chunk.usage.prompt_tokens,
+          completion_tokens: chunk.usage.completion_tokens,
+          total_tokens: chunk.usage.total_tokens,
+        };
+      }
+    }
+
+    return { text, provider: config.name, model, usage };
+  }
+
+  return {
+    name: config.name,
+    model: config.model,
+
+    async complete(messages, options = {}) {
+      try {
+        if (options.onToken) {
+          return await streamCompletion(messages, options.onToken, options.temperature);
+        }
+
+        const completion = await client.chat.completions.create({
+          model: config.model,
+          messages,
+          temperature: options.temperature,
+        });
+
+        return {
+          text: completion.choices?.[0]?.message?.content ?? '',
+          provider: config.name,
+          model: completion.model || config.model,
+          usage: completion.usage
+            ? {
+                prompt_tokens: completion.usage.prompt_tokens,
+                completion_tokens: completion.usage.completion_tokens,
+                total_tokens: completion.usage.total_tokens,
+              }
+            : null,
+        };
+      } catch (err) {
+        if (err instanceof OpenAI.APIError) {
+          throw new LLMError(
+            `${config.name} error: ${err.message}`,
+            err.status ?? 502
+          );
+        }
+        throw err;
+      }
+    },
+  };
+}
+
+/**
+ * Build the provider selected by the environment.
+ *
+ * Throws LLMConfigError if the selected provider is missing configuration.
+ */
+export function getLLMProvider(): LLMProvider {
+  const providerName = (process.env.LLM_PROVIDER || 'groq').toLowerCase();
+  const modelOverride = process.env.LLM_MODEL;
+
+  switch (providerName) {
+    case 'groq': {
+      const apiKey = process.env.GROQ_API_KEY;
+      if (!apiKey) {
+        throw new LLMConfigError('Missing GROQ_API_KEY');
+      }
+      return createOpenAICompatibleProvider({
+        name: 'groq',
+        model: modelOverride || DEFAULT_GROQ_MODEL,
+        baseURL: GROQ_BASE_URL,
+        apiKey,
+      });
+    }
+
+    case 'openai': {
+      const baseURL = process.env.LLM_BASE_URL;
+      const apiKey = process.env.LLM_API_KEY || process.env.OPENAI_API_KEY;
+      // A key is only mandatory when talking to the hosted OpenAI API
+      if (!baseURL && !apiKey) {
+        throw new LLMConfigError(
+          'Missing LLM_API_KEY or OPENAI_API_KEY (or set LLM_BASE_URL for a local server)'
+        );
+      }
+      return createOpenAICompatibleProvider({
+        name: 'openai',
+        model: modelOverride || DEFAULT_OPENAI_MODEL,
+        baseURL,
+        apiKey,
+      });
+    }
+
+    case 'mock':
+      return createMockProvider(modelOverride);
+
+    default:
+      throw new LLMConfigError(`Unknown LLM_PROVIDER: ${providerName}`);
+  }
+}
@@ -0,0 +1,162 @@
+/**
+ * Idempotent chat message ingestion
+ *
+ * Shared by /api/messages and the chat importers. Every message gets a
+ * dedupe_key so re-sending the same batch never stores a message twice:
+ *
+ * - If the client supplies an external_id (the platform's own message id),
+ *   the key is "ext:<external_id>".
+ * - Otherwise the key is "hash:<sha256>" of the thread, timestamp, sender
+ *   and text, so identical exports dedupe as well.
+ *
+ * Rows are upserted with ON CONFLICT DO NOTHING on
+ * (user_id, platform, thread_id, dedupe_key), and message_index records each
+ * message's position in its batch so messages sharing a timestamp keep
+ * their original order.
+ */
+
+import { createHash } from 'crypto';
+import type { SupabaseClient } from '@supabase/supabase-js';
+import { toIsoTimestamp } from '@/lib/dates';
+
+/**
+ * Where a batch of messages belongs
+ */
+export type MessageBatchTarget = {
+  userId: string;
+  relationshipId: string;
+  platform: string;
+  threadId: string;
+};
+
+/**
+ * A message row ready to be written to the `messages` table
+ */
+export type MessageRow = {
+  user_id: string;
+  relationship_id: string;
+  platform: string;
+  thread_id: string;
+  from_me: boolean;
+  text: string;
+  timestamp: string | null;
+  external_id: string | null;
+  dedupe_key: string;
+  message_index: number;
+};
+
+/**
+ * Outcome of ingesting a batch
+ *
+ * @property total - Number of messages in the batch
+ * @property inserted - Messages that were new and got stored
+ * @property skipped - Messages that were already stored (or repeated within the batch)
+ * @property insertedIds - Ids of the stored messages, for follow-up work such
+ *   as event extraction (not part of the API responses)
+ */
+export type IngestResult = {
+  total: number;
+  inserted: number;
+  skipped: number;
+  insertedIds: string[];
+};
+
+/**
+ * Build the dedupe key for one message
+ */
+export function messageDedupeKey(
+  threadId: string,
+  message: { external_id: string | null; timestamp: string | null; from_me: boolean; text: string }
+): string {
+  if (message.external_id) {
+    return `ext:${message.external_id}`;
+  }
+
+  const hash = createHash('sha256')
+    .update(JSON.stringify([threadId, message.timestamp, message.from_me, message.text]))
+    .digest('hex');
+
+  return `hash:${hash}`;
+}
+
+/**
+ * Turn raw client messages into rows for the `messages` table.
+ *
+ * Per-message validation is deliberately lightweight: a missing text becomes
+ * an empty string and an unparseable timestamp becomes null. Messages that
+ * repeat within the batch are dropped, keeping the first occurrence.
+ */
+export function buildMessageRows(target: MessageBatchTarget, messages: unknown[]): MessageRow[] {
+  const rows: MessageRow[] = [];
+  const seenKeys = new Set<string>();
+
+  messages.forEach((raw, index) => {
+    const msg = (raw ?? {}) as Record<string, unknown>;
+
+    const from_me = Boolean(msg.from_me);
+    const text = typeof msg.text === 'string' ? msg.text : '';
+    // Normalize timestamps so the same instant always hashes the same way
+    const timestamp = toIsoTimestamp(msg.timestamp);
+    const external_id =
+      typeof msg.external_id === 'string' || typeof msg.external_id === 'number'
+        ? String(msg.external_id)
+        : null;
+
+    const dedupe_key = messageDedupeKey(target.threadId, { external_id, timestamp, from_me, text });
+    if (seenKeys.has(dedupe_key)) {
+      return;
+    }
+    seenKeys.add(dedupe_key);
+
+    rows.push({
+      user_id: target.userId,
+      relationship_id: target.relationshipId,
+      platform: target.platform,
+      thread_id: target.threadId,
+      from_me,
+      text,
+      timestamp,
+      external_id,
+      dedupe_key,
+      message_index: index,
+    });
+  });
+
+  return rows;
+}
+
+/**
+ * Store a batch of messages, skipping any that were already ingested.
+ *
+ * Throws the Supabase error if the upsert fails.
+ */
+export async function ingestMessages(
+  supabase: SupabaseClient,
+  target: MessageBatchTarget,
+  messages: unknown[]
+): Promise<IngestResult> {
+  const rows = buildMessageRows(target, messages);
+
+  // ignoreDuplicates turns the upsert into INSERT ... ON CONFLICT DO NOTHING,
+  // so only newly inserted rows come back from select()
+  const { data, error } = await supabase
+    .from('messages')
+    .upsert(rows, {
+      onConflict: 'user_id,platform,thread_id,dedupe_key',
+      ignoreDuplicates: true,
+    })
+    .select('id');
+
+  if (error) {
+    throw error;
+  }
+
+  const insertedIds = (data ?? []).map((row) => row.id as string);
+
+  return {
+    total: messages.length,
+    inserted: insertedIds.length,
+    skipped: messages.length - insertedIds.length,
+    insertedIds,
+  };
+}
@@ -0,0 +1,190 @@
+/**
+ * Deterministic offline LLM provider
+ *
+ * Used when LLM_PROVIDER=mock. It never touches the network and always
+ * returns the same output for the same input, so analysis can run in CI
+ * and on laptops without a model. Each task (see CompletionOptions.task)
+ * has its own responder that returns text in the shape that task expects.
+ */
+
+import type { ChatMessage, CompletionOptions, LLMProvider } from '@/lib/llm';
+
+type MockResponder = (prompt: string) => string;
+
+// Characters per chunk when a caller asks for a streamed response
+const MOCK_STREAM_CHUNK_SIZE = 12;
+
+/**
+ * Small stable string hash (FNV-1a) so mock output depends on the input
+ */
+function hashString(value: string): number {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < value.length; i++) {
+    hash ^= value.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return hash >>> 0;
+}
+
+/**
+ * Pull a "Label: value" line out of a prompt, if present
+ */
+function readPromptField(prompt: string, label: string): string | null {
+  const match = prompt.match(new RegExp(`^${label}:\\s*(.+)$`, 'm'));
+  return match ? match[1].trim() : null;
+}
+
+/**
+ * Responder for the relationship analysis prompt
+ */
+const analyzeResponder: MockResponder = (prompt) => {
+  const hash = hashString(prompt);
+  const name = readPromptField(prompt, 'Name') ?? 'this person';
+
+  return JSON.stringify({
+    summary: `Mock analysis of your relationship with ${name}.`,
+    pattern: 'Communication is steady with occasional gaps.',
+    risk_score: hash % 101,
+    growth_score: (hash >>> 8) % 101,
+    recommended_action: `Check in with ${name} this week.`,
+    suggested_message: `Hey ${name}, been thinking about you. How have you been?`,
+  });
+};
+
+/**
+ * Responder for folding older history into a relationship's rolling summary
+ */
+const summarizeResponder: MockResponder = (prompt) => {
+  const name = readPromptField(prompt, 'Name') ?? 'this person';
+  const events = (prompt.match(/^- \[/gm) ?? []).length;
+  const messages = (prompt.match(/^\[.*\] (ME|THEM):/gm) ?? []).length;
+
+  return `Earlier history with ${name}: ${events} events and ${messages} messages folded in (mock ${hashString(prompt) % 1000}).`;
+};
+
+/**
+ * Responder for message drafts: one draft per requested tone and length
+ */
+const draftResponder: MockResponder = (prompt) => {
+  const name = readPromptField(prompt, 'Name') ?? 'there';
+  const requests = [...prompt.matchAll(/^- tone "(\w+)".*length "(\w+)"/gm)];
+
+  return JSON.stringify({
+    drafts: requests.map(([, tone, length]) => ({
+      tone,
+      length,
+      text:
+        length === 'short'
+          ? `Hey ${name}, thinking of you (${tone}).`
+          : `Hey ${name}, I've been thinking about you lately (${tone}). Want to catch up this week?`,
+    })),
+  });
+};
+
+/**
+ * Responder for refining a draft: echoes the draft with the instruction noted
+ */
+const refineResponder: MockResponder = (prompt) => {
+  const draft = prompt.match(/^Current draft:\n([\s\S]*?)\n\nInstruction:/m)?.[1] ?? '';
+  const instruction = prompt.match(/^Instruction:\n(.+)$/m)?.[1] ?? '';
+
+  return JSON.stringify({ text: `${draft.trim()} [${instruction.trim()}]` });
+};
+
+/**
+ * Responder for chatting about a relationship: answers the latest question
+ */
+const chatResponder: MockResponder = (prompt) => {
+  const name = readPromptField(prompt, 'Name') ?? 'this person';
+  const question = prompt.trim().split('\n').pop() ?? '';
+  const events = (prompt.match(/^- \[.*\] \(/gm) ?? []).length;
+
+  return `Mock answer about ${name} (${events} events in context). You asked: "${question}"`;
+};
+
+/**
+ * Responder for event extraction: one event per numbered message that
+ * mentions a plan ("dinner", "call", ...), dated at the message
+ */
+const extractEventsResponder: MockResponder = (prompt) => {
+  const plans: Record<string, string> = {
+    dinner: 'meeting',
+    lunch: 'meeting',
+    coffee: 'meeting',
+    drinks: 'meeting',
+    movie: 'meeting',
+    call: 'call',
+    trip: 'trip',
+    birthday: 'celebration',
+    party: 'celebration',
+  };
+  const lines = [...prompt.matchAll(/^(\d+)\. \[(.*?)\] (?:ME|THEM): (.+)$/gm)];
+
+  const events = lines.flatMap(([, ref, timestamp, text]) => {
+    const word = text.toLowerCase().match(new RegExp(`\\b(${Object.keys(plans).join('|')})\\b`))?.[1];
+    if (!word) {
+      return [];
+    }
+    return [
+      {
+        event_type: plans[word],
+        description: `Mock ${word}: ${text.slice(0, 60)}`,
+        occurred_at: timestamp === 'null' ? null : timestamp,
+        message_refs: [Number(ref)],
+      },
+    ];
+  });
+
+  return JSON.stringify({ events });
+};
+
+const responders: Record<string, MockResponder> = {
+  analyze: analyzeResponder,
+  summarize: summarizeResponder,
+  draft: draftResponder,
+  refine: refineResponder,
+  chat: chatResponder,
+  'extract-events': extractEventsResponder,
+};
+
+/**
+ * Create the mock provider
+ *
+ * @param model - Optional model name to report (defaults to "mock-1")
+ */
+export function createMockProvider(model?: string): LLMProvider {
+  const modelName = model || 'mock-1';
+
+  return {
+    name: 'mock',
+    model: modelName,
+
+    async complete(messages: ChatMessage[], options: CompletionOptions = {}) {
+      const prompt = messages.map((m) => m.content).join('\n');
+      const responder = options.task ? responders[options.task] : undefined;
+      const text = responder ? responder(prompt) : `Mock response (${hashString(prompt)})`;
+
+      // Simulate streaming by handing the text over in small chunks
+      if (options.onToken) {
+        for (let i = 0; i < text.length; i += MOCK_STREAM_CHUNK_SIZE) {
+          options.onToken(text.slice(i, i + MOCK_STREAM_CHUNK_SIZE));
+        }
+      }
+
+      // Rough token estimate (~4 characters per token) so usage is never empty
+      const promptTokens = Math.ceil(prompt.length / 4);
+      const completionTokens = Math.ceil(text.length / 4);
+
+      return {
+        text,
+        provider: 'mock',
+        model: modelName,
+        usage: {
+          prompt_tokens: promptTokens,
+          completion_tokens: completionTokens,
+          total_tokens: promptTokens + completionTokens,
+        },
+      };
+    },
+  };
+}
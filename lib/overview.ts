@@ -0,0 +1,247 @@
+/**
+ * Portfolio overview: every relationship ranked by how much attention it needs
+ *
+ * Joins each relationship with its latest insight, the insight before it and
+ * its last event and message time, then scores it. Used by /api/overview
+ * and the dashboard's overview panel.
+ *
+ * The attention score (higher needs attention sooner) adds up:
+ * - the latest risk score (50 if never analyzed),
+ * - up to STALE_POINTS for time since the last event or message, growing
+ *   linearly until STALE_FULL_DAYS,
+ * - JUMP_POINTS if risk rose by RISK_JUMP_THRESHOLD or more since the
+ *   previous insight,
+ * - OUTDATED_POINTS if events or messages were added after the latest
+ *   insight (something hasn't been analyzed). This goes by when they were
+ *   added, not the date they carry, like scheduled re-analysis does.
+ */
+
+import type { Insight, Relationship } from '@/lib/types';
+
+// Rise in risk (on the 0-100 scale) between two insights that counts as a jump
+export const RISK_JUMP_THRESHOLD = 15;
+
+const UNANALYZED_RISK = 50;
+const STALE_POINTS = 30;
+const STALE_FULL_DAYS = 90;
+const JUMP_POINTS = 25;
+const OUTDATED_POINTS = 10;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export const OVERVIEW_SORTS = ['attention', 'risk', 'growth', 'stale', 'name'] as const;
+
+export type OverviewSort = (typeof OVERVIEW_SORTS)[number];
+
+/**
+ * The insight fields shown in the overview
+ */
+export type OverviewInsight = Pick<
+  Insight,
+  'id' | 'summary' | 'risk_score' | 'growth_score' | 'recommended_action' | 'created_at'
+>;
+
+/**
+ * Last activity for one relationship, as returned by relationship_activity()
+ *
+ * @property last_added_at - When the newest event or message was added (created_at)
+ */
+export type RelationshipActivity = {
+  relationship_id: string;
+  last_event_at: string | null;
+  event_count: number;
+  last_message_at: string | null;
+  message_count: number;
+  last_added_at: string | null;
+};
+
+/**
+ * One row of the overview
+ *
+ * @property previous_risk_score - Risk of the insight before the latest (null if fewer than two)
+ * @property risk_change - Latest minus previous risk (null if fewer than two insights)
+ * @property risk_jumped - True if risk_change is at least RISK_JUMP_THRESHOLD
+ * @property last_activity_at - Newer of last_event_at and last_message_at
+ * @property days_since_activity - Whole days since last_activity_at (null if there was none)
+ * @property needs_analysis - True if events or messages were added after the latest insight, or there is no insight yet
+ * @property attention_score - Ranking score described at the top of this file
+ */
+export type RelationshipOverview = {
+  relationship: Relationship;
+  latest_insight: OverviewInsight | null;
+  previous_risk_score: number | null;
+  risk_change: number | null;
+  risk_jumped: boolean;
+  last_event_at: string | null;
+  last_message_at: string | null;
+  last_activity_at: string | null;
+  event_count: number;
+  message_count: number;
+  days_since_activity: number | null;
+  needs_analysis: boolean;
+  attention_score: number;
+};
+
+/**
+ * Filters accepted by /api/overview
+ *
+ * @property type - Only relationships of this type (case-insensitive)
+ * @property minRisk - Only relationships whose latest risk is at least this
+ * @property staleDays - Only relationships with no activity for at least this many days
+ * @property jumpedOnly - Only relationships whose risk jumped
+ */
+export type OverviewFilters = {
+  type?: string | null;
+  minRisk?: number | null;
+  staleDays?: number | null;
+  jumpedOnly?: boolean;
+};
+
+function newest(a: string | null, b: string | null): string | null {
+  if (!a || !b) {
+    return a ?? b;
+  }
+  return new Date(a) > new Date(b) ? a : b;
+}
+
+/**
+ * Build overview rows from relationships, their insights and activity
+ *
+ * Only each relationship's latest two insights are used (see
+ * latest_insights() in supabase/migrations); they may come in any order.
+ */
+export function buildOverview(
+  relationships: Relationship[],
+  insights: (OverviewInsight & { relationship_id: string })[],
+  activity: RelationshipActivity[],
+  now: Date = new Date()
+): RelationshipOverview[] {
+  // Group once instead of searching the lists for every relationship
+  const insightsByRelationship = new Map<string, typeof insights>();
+  for (const insight of insights) {
+    const list = insightsByRelationship.get(insight.relationship_id) ?? [];
+    list.push(insight);
+    insightsByRelationship.set(insight.relationship_id, list);
+  }
+  const activityByRelationship = new Map(activity.map((a) => [a.relationship_id, a]));
+
+  return relationships.map((relationship) => {
+    const [latest, previous] = (insightsByRelationship.get(relationship.id!) ?? []).sort(
+      (a, b) => new Date(b.created_at!).getTime() - new Date(a.created_at!).getTime()
+    );
+    const active = activityByRelationship.get(relationship.id!);
+
+    const lastEventAt = active?.last_event_at ?? null;
+    const lastMessageAt = active?.last_message_at ?? null;
+    const lastActivityAt = newest(lastEventAt, lastMessageAt);
+    const daysSinceActivity = lastActivityAt
+      ? Math.max(0, Math.floor((now.getTime() - new Date(lastActivityAt).getTime()) / DAY_MS))
+      : null;
+
+    const riskChange = latest && previous ? latest.risk_score - previous.risk_score : null;
+    const riskJumped = riskChange !== null && riskChange >= RISK_JUMP_THRESHOLD;
+    const lastAddedAt = active?.last_added_at ?? null;
+    const needsAnalysis =
+      !latest ||
+      (lastAddedAt !== null &&
+        latest.created_at !== undefined &&
+        new Date(lastAddedAt) > new Date(latest.created_at));
+
+    // With no activity at all there is nothing to go stale
+    const stalePoints =
+      daysSinceActivity === null ? 0 : (Math.min(daysSinceActivity, STALE_FULL_DAYS) / STALE_FULL_DAYS) * STALE_POINTS;
+    const attentionScore = Math.round(
+      (latest?.risk_score ?? UNANALYZED_RISK) +
+        stalePoints +
+        (riskJumped ? JUMP_POINTS : 0) +
+        (latest && needsAnalysis ? OUTDATED_POINTS : 0)
+    );
+
+    return {
+      relationship,
+      latest_insight: latest
+        ? {
+            id: latest.id,
+            summary: latest.summary,
+            risk_score: latest.risk_score,
+            growth_score: latest.growth_score,
+            recommended_action: latest.recommended_action,
+            created_at: latest.created_at,
+          }
+        : null,
+      previous_risk_score: previous?.risk_score ?? null,
+      risk_change: riskChange,
+      risk_jumped: riskJumped,
+      last_event_at: lastEventAt,
+      last_message_at: lastMessageAt,
+      last_activity_at: lastActivityAt,
+      event_count: active?.event_count ?? 0,
+      message_count: active?.message_count ?? 0,
+      days_since_activity: daysSinceActivity,
+      needs_analysis: needsAnalysis,
+      attention_score: attentionScore,
+    };
+  });
+}
+
+/**
+ * Keep only the rows matching every given filter
+ */
+export function filterOverview(rows: RelationshipOverview[], filters: OverviewFilters): RelationshipOverview[] {
+  const type = filters.type?.trim().toLowerCase();
+
+  return rows.filter((row) => {
+    if (type && (row.relationship.type ?? '').trim().toLowerCase() !== type) {
+      return false;
+    }
+    if (filters.minRisk != null && (row.latest_insight?.risk_score ?? -1) < filters.minRisk) {
+      return false;
+    }
+    if (filters.staleDays != null && row.days_since_activity !== null && row.days_since_activity < filters.staleDays) {
+      return false;
+    }
+    if (filters.jumpedOnly && !row.risk_jumped) {
+      return false;
+    }
+    return true;
+  });
+}
+
+/**
+ * Sort rows. Each sort has a natural direction (most attention, highest
+ * risk, highest growth, longest silence first; names A-Z) that `reverse`
+ * flips. Unanalyzed relationships go last for risk and growth either way.
+ */
+export function sortOverview(
+  rows: RelationshipOverview[],
+  sort: OverviewSort,
+  reverse = false
+): RelationshipOverview[] {
+  const value = (row: RelationshipOverview): number | string | null => {
+    switch (sort) {
+      case 'attention':
+        return row.attention_score;
+      case 'risk':
+        return row.latest_insight?.risk_score ?? null;
+      case 'growth':
+        return row.latest_insight?.growth_score ?? null;
+      case 'stale':
+        // Never active counts as the stalest
+        return row.days_since_activity ?? Number.MAX_SAFE_INTEGER;
+      case 'name':
+        return row.relationship.person_name.toLowerCase();
+    }
+  };
+
+  const direction = (sort === 'name' ? 1 : -1) * (reverse ? -1 : 1);
+
+  return [...rows].sort((a, b) => {
+    const va = value(a);
+    const vb = value(b);
+    if (va === null || vb === null) {
+      return va === vb ? 0 : va === null ? 1 : -1;
+    }
+    const order = va < vb ? -1 : va > vb ? 1 : 0;
+    return order * direction || b.attention_score - a.attention_score;
+  });
+}
@@ -0,0 +1,44 @@
+/**
+ * analyze-v1: the original single analysis prompt, used for every
+ * relationship type. Kept so insights created with it can be reproduced.
+ */
+
+import type { PromptTemplateVersion } from '@/lib/prompts/types';
+
+export const analyzeV1: PromptTemplateVersion = {
+  version: 'analyze-v1',
+  description: 'Original prompt, the same for every relationship type',
+  variants: [
+    {
+      key: 'default',
+      label: 'Any relationship',
+      matches: null,
+      system: 'You are a precise relationship analysis engine. Respond ONLY with valid JSON.',
+      user: `
+You are a relationship analysis engine. Analyze the relationship, events, and chat messages below.
+Respond ONLY with valid JSON in this shape:
+{
+  "summary": string,
+  "pattern": string,
+  "risk_score": integer from 0 to 100 (higher means more risk),
+  "growth_score": integer from 0 to 100 (higher means more growth potential),
+  "recommended_action": string,
+  "suggested_message": string
+}
+
+Relationship:
+Name: {{name}}
+Type: {{type}}
+Notes: {{notes}}
+
+Time window: {{window}}
+{{summary}}
+Events (oldest first):
+{{events}}
+
+Messages (oldest first):
+{{messages}}
+`,
+    },
+  ],
+};
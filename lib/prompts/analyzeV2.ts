@@ -0,0 +1,120 @@
+/**
+ * analyze-v2: analysis prompts tailored to the kind of relationship
+ *
+ * Every variant asks for the same JSON shape; what differs is what the
+ * model is told to pay attention to and what counts as risk and growth.
+ * An ex is not judged by how to get closer, and a colleague is not judged
+ * by romantic interest.
+ */
+
+import type { PromptTemplateVersion, PromptVariant } from '@/lib/prompts/types';
+
+const SYSTEM =
+  'You are a careful, honest relationship analyst. You ground every claim in the events and messages provided. Respond ONLY with valid JSON.';
+
+/**
+ * Build a variant's user message around its focus paragraph
+ */
+function analysisPrompt(focus: string): string {
+  return `
+Analyze the relationship below using its events and chat messages.
+
+${focus}
+
+Respond ONLY with valid JSON in this shape:
+{
+  "summary": string,
+  "pattern": string,
+  "risk_score": integer from 0 to 100 (higher means more risk),
+  "growth_score": integer from 0 to 100 (higher means more growth potential),
+  "recommended_action": string,
+  "suggested_message": string
+}
+
+Relationship:
+Name: {{name}}
+Type: {{type}}
+Notes: {{notes}}
+
+Time window: {{window}}
+{{summary}}
+Events (oldest first):
+{{events}}
+
+Messages (oldest first):
+{{messages}}
+`;
+}
+
+/**
+ * What one variant of the analysis prompt tells the model to focus on
+ */
+export type AnalysisFocus = Pick<PromptVariant, 'key' | 'label' | 'matches'> & { focus: string };
+
+/**
+ * Per-type focus of analyze-v2, most specific first
+ *
+ * Order matters: exes come first so "ex-girlfriend" isn't treated as a
+ * current partner, and work comes before romantic for "business partner".
+ * analyze-v3 reuses this list, so editing it changes both versions; a new
+ * version should get its own list instead.
+ */
+export const ANALYZE_V2_FOCUS: AnalysisFocus[] = [
+  {
+    key: 'ex',
+    label: 'Ex-partner',
+    matches: /\bex\b|\bformer (partner|girlfriend|boyfriend|spouse|wife|husband|fianc\w*|lover)\b/,
+    focus: `This is a former partner. Focus on boundaries, closure and whether contact is healthy for the user.
+Risk means reopening old hurt, mixed signals or contact that keeps the user from moving on.
+Growth means a respectful, settled dynamic (friendly or distant), not getting back together unless both clearly want it.
+The suggested message may be "no message" if distance is the healthier choice.`,
+  },
+  {
+    key: 'work',
+    label: 'Colleague or professional contact',
+    matches: /\b(colleague|coworker|co-worker|boss|manager|client|mentor|mentee|work|team\w*|professional|business)\b/,
+    focus: `This is a professional relationship. Focus on reliability, communication, follow-through and mutual respect.
+Risk means friction, missed commitments, unclear expectations or damage to the user's reputation.
+Growth means trust, useful collaboration and career support. Keep the suggested message professional.`,
+  },
+  {
+    key: 'romantic',
+    label: 'Partner or romantic interest',
+    matches: /\b(crush|partner|girlfriend|boyfriend|dating|spouse|wife|husband|fianc\w*|romantic|situationship|lover)\b/,
+    focus: `This is a romantic partner or interest. Focus on reciprocity, who initiates, emotional openness and consistency.
+Risk means one-sided effort, fading interest, unresolved conflict or mismatched expectations.
+Growth means mutual interest and deepening trust. Don't encourage pursuing someone who isn't reciprocating.`,
+  },
+  {
+    key: 'family',
+    label: 'Family member',
+    matches: /\b(mom|mum|mother|dad|father|parents?|sister|brother|siblings?|family|cousin|aunt|uncle|grand\w*|son|daughter|in-law)\b/,
+    focus: `This is a family member. Focus on warmth, recurring tensions, obligations and how often they connect.
+Risk means long silences, unresolved arguments or contact that only happens out of duty.
+Growth means regular, low-pressure connection and repaired tensions.`,
+  },
+  {
+    key: 'friend',
+    label: 'Friend',
+    matches: /\b(friends?|bff|buddy|mate|roommate|flatmate|classmate)\b/,
+    focus: `This is a friendship. Focus on balance of effort, shared time, support in both directions and drift.
+Risk means one person always initiating, growing distance or unaddressed hurt.
+Growth means shared plans, mutual support and renewed contact.`,
+  },
+  {
+    key: 'default',
+    label: 'Any relationship',
+    matches: null,
+    focus: `Focus on how often they connect, who initiates, the emotional tone and any changes over time.`,
+  },
+];
+
+export const analyzeV2: PromptTemplateVersion = {
+  version: 'analyze-v2',
+  description: 'Separate prompts for romantic interests, exes, family, friends and colleagues',
+  variants: ANALYZE_V2_FOCUS.map(({ focus, ...variant }) => ({
+    ...variant,
+    system: SYSTEM,
+    user: analysisPrompt(focus),
+  })),
+};
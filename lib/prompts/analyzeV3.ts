@@ -0,0 +1,62 @@
+/**
+ * analyze-v3: analyze-v2 plus the relationship's follow-up tasks
+ *
+ * Same per-type focus as analyze-v2. The prompt also lists open and
+ * recently completed follow-up tasks, so the model can tell whether earlier
+ * recommendations were acted on and avoid repeating one that is still open.
+ */
+
+import type { PromptTemplateVersion } from '@/lib/prompts/types';
+import { ANALYZE_V2_FOCUS } from '@/lib/prompts/analyzeV2';
+
+const SYSTEM =
+  'You are a careful, honest relationship analyst. You ground every claim in the events, messages and follow-up tasks provided. Respond ONLY with valid JSON.';
+
+/**
+ * Build a variant's user message around its focus paragraph
+ */
+function analysisPrompt(focus: string): string {
+  return `
+Analyze the relationship below using its events, chat messages and follow-up tasks.
+
+${focus}
+
+Follow-up tasks are actions the user planned, usually from earlier recommendations. Treat completed ones as things the user did, take overdue ones into account, and don't recommend something that is already an open task unless it has become urgent.
+
+Respond ONLY with valid JSON in this shape:
+{
+  "summary": string,
+  "pattern": string,
+  "risk_score": integer from 0 to 100 (higher means more risk),
+  "growth_score": integer from 0 to 100 (higher means more growth potential),
+  "recommended_action": string,
+  "suggested_message": string
+}
+
+Relationship:
+Name: {{name}}
+Type: {{type}}
+Notes: {{notes}}
+
+Time window: {{window}}
+{{summary}}
+Events (oldest first):
+{{events}}
+
+Follow-up tasks:
+{{tasks}}
+
+Messages (oldest first):
+{{messages}}
+`;
+}
+
+export const analyzeV3: PromptTemplateVersion = {
+  version: 'analyze-v3',
+  description: 'Per-type prompts (as in analyze-v2) that also see follow-up tasks',
+  variants: ANALYZE_V2_FOCUS.map(({ focus, ...variant }) => ({
+    ...variant,
+    system: SYSTEM,
+    user: analysisPrompt(focus),
+  })),
+};
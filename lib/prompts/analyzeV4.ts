@@ -0,0 +1,69 @@
+/**
+ * analyze-v4: analyze-v3 plus communication metrics
+ *
+ * Same per-type focus and follow-up tasks as analyze-v3. The prompt also
+ * gets metrics computed from every message in the window (volume, who
+ * starts conversations, reply times, silences; see
+ * lib/communicationMetrics.ts), so claims like "they've gone quiet" rest on
+ * numbers rather than the model's impression of the messages it was shown.
+ */
+
+import type { PromptTemplateVersion } from '@/lib/prompts/types';
+import { ANALYZE_V2_FOCUS } from '@/lib/prompts/analyzeV2';
+
+const SYSTEM =
+  'You are a careful, honest relationship analyst. You ground every claim in the events, messages, follow-up tasks and communication metrics provided. Respond ONLY with valid JSON.';
+
+/**
+ * Build a variant's user message around its focus paragraph
+ */
+function analysisPrompt(focus: string): string {
+  return `
+Analyze the relationship below using its events, chat messages, follow-up tasks and communication metrics.
+
+${focus}
+
+Follow-up tasks are actions the user planned, usually from earlier recommendations. Treat completed ones as things the user did, take overdue ones into account, and don't recommend something that is already an open task unless it has become urgent.
+
+Communication metrics are exact counts over every message in the time window, including messages not listed below. Rely on them rather than your own impression for how much we talk, who reaches out first, how fast each of us replies and how long the silences are, and quote the numbers that support your assessment. Read them alongside the messages: a slow reply time matters less if the conversations are warm.
+
+Respond ONLY with valid JSON in this shape:
+{
+  "summary": string,
+  "pattern": string,
+  "risk_score": integer from 0 to 100 (higher means more risk),
+  "growth_score": integer from 0 to 100 (higher means more growth potential),
+  "recommended_action": string,
+  "suggested_message": string
+}
+
+Relationship:
+Name: {{name}}
+Type: {{type}}
+Notes: {{notes}}
+
+Time window: {{window}}
+{{summary}}
+Communication metrics:
+{{metrics}}
+
+Events (oldest first):
+{{events}}
+
+Follow-up tasks:
+{{tasks}}
+
+Messages (oldest first):
+{{messages}}
+`;
+}
+
+export const analyzeV4: PromptTemplateVersion = {
+  version: 'analyze-v4',
+  description: 'Per-type prompts with follow-up tasks (as in analyze-v3) that also see communication metrics',
+  variants: ANALYZE_V2_FOCUS.map(({ focus, ...variant }) => ({
+    ...variant,
+    system: SYSTEM,
+    user: analysisPrompt(focus),
+  })),
+};
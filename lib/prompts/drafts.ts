@@ -0,0 +1,92 @@
+/**
+ * Prompts for drafting messages (see lib/drafts.ts)
+ *
+ * Two templates share one version id, stored with every draft:
+ * - draft: several alternatives for an insight, one per requested tone and length
+ * - refine: rewrite one draft following the user's instruction ("shorter",
+ *   "mention the concert")
+ *
+ * As with the analysis prompts, change the text by adding a new version.
+ * The tone and length descriptions live here too, since they are what the
+ * model is told each option means.
+ */
+
+import type { DraftLength, DraftTone } from '@/lib/types';
+
+export const DRAFT_PROMPT_VERSION = 'drafts-v1';
+
+export const DRAFT_TONES: Record<DraftTone, string> = {
+  warm: 'warm and caring, showing the person they matter',
+  direct: 'direct and clear, saying what needs saying without hedging',
+  playful: 'light and playful, with a bit of humor',
+  apologetic: 'apologetic, owning your part sincerely without groveling',
+};
+
+export const DRAFT_LENGTHS: Record<DraftLength, string> = {
+  short: 'one or two short sentences',
+  medium: 'two to four sentences',
+  long: 'a short paragraph of four to six sentences',
+};
+
+const SYSTEM =
+  'You help people write messages to someone in their life. Drafts sound like a real person texting, not like a therapist or a greeting card. Respond ONLY with valid JSON.';
+
+export const draftPrompt = {
+  system: SYSTEM,
+  user: `
+Write messages I could send to {{name}}, following the recommendation below.
+
+Relationship:
+Name: {{name}}
+Type: {{type}}
+Notes: {{notes}}
+
+Latest analysis:
+Summary: {{summary}}
+Recommended action: {{recommended_action}}
+Suggested message: {{suggested_message}}
+
+Recent messages (oldest first):
+{{messages}}
+
+Write exactly one draft for each of these tone and length combinations:
+{{requests}}
+
+Refer to specifics from the messages where it helps, never invent facts, and write in the first person as me.
+
+Respond ONLY with valid JSON in this shape:
+{
+  "drafts": [
+    { "tone": string, "length": string, "text": string }
+  ]
+}
+`,
+};
+
+export const refinePrompt = {
+  system: SYSTEM,
+  user: `
+Revise this draft of a message I want to send to {{name}}.
+
+Relationship:
+Name: {{name}}
+Type: {{type}}
+Notes: {{notes}}
+
+Recent messages (oldest first):
+{{messages}}
+
+The draft is {{tone}} ({{tone_description}}) and {{length}} ({{length_description}}) unless the instruction says otherwise.
+{{history}}
+Current draft:
+{{draft}}
+
+Instruction:
+{{instruction}}
+
+Follow the instruction, keep everything else about the draft that still fits, and never invent facts.
+
+Respond ONLY with valid JSON in this shape:
+{ "text": string }
+`,
+};
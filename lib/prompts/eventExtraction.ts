@@ -0,0 +1,46 @@
+/**
+ * Prompt for proposing events from chat messages (see lib/eventExtraction.ts)
+ *
+ * Messages are numbered so the model can say which ones each event comes
+ * from without repeating ids. As with the analysis prompts, change the text
+ * by adding a new version.
+ */
+
+export const EVENT_EXTRACTION_PROMPT_VERSION = 'extract-events-v1';
+
+export const eventExtractionPrompt = {
+  system:
+    'You find real-world events in chat messages between two people: plans, meetings, calls, trips, celebrations and conflicts. You only report what the messages clearly say. Respond ONLY with valid JSON.',
+  user: `
+Find events worth logging in these new messages between me and {{name}}.
+
+Relationship:
+Name: {{name}}
+Type: {{type}}
+
+Today: {{today}}
+
+Events already logged (don't propose these again):
+{{events}}
+
+New messages (oldest first, numbered):
+{{messages}}
+
+An event is something that happened or is planned between us, e.g. "dinner at Luigi's" when they write "see you at dinner Friday", a phone call, a trip, a birthday, an argument or making up. Small talk, greetings and vague ideas ("we should hang out sometime") are not events.
+
+For each event:
+- event_type: one or two lowercase words, e.g. "meeting", "call", "trip", "celebration", "conflict"
+- description: one short sentence in the first person ("Dinner with {{name}} at Luigi's")
+- occurred_at: when it happens or happened as an ISO 8601 date or date and time, resolving words like "Friday" or "tomorrow" against the timestamp of the message that says it; null if the messages don't say
+- message_refs: the numbers of the messages it comes from
+
+Propose at most {{max_events}} events. If there are none, return an empty list.
+
+Respond ONLY with valid JSON in this shape:
+{
+  "events": [
+    { "event_type": string, "description": string, "occurred_at": string | null, "message_refs": number[] }
+  ]
+}
+`,
+};
@@ -0,0 +1,119 @@
+/**
+ * Prompt template registry
+ *
+ * Analysis prompts are versioned templates (see types.ts) rather than
+ * inline strings, so a stored insight's prompt_version always identifies
+ * the exact text that produced it.
+ *
+ * Which template an analysis uses:
+ * 1. The version pinned in the request (`prompt_version` in the analyze body),
+ * 2. else the version pinned on the relationship (relationships.prompt_version),
+ * 3. else the latest version.
+ * Within a version, the variant is picked from Relationship.type unless the
+ * pin names one explicitly ("analyze-v2:ex").
+ *
+ * Templates use {{variable}} placeholders, filled in by renderPrompt.
+ */
+
+import type { PromptTemplateVersion, PromptVariant } from '@/lib/prompts/types';
+import { analyzeV1 } from '@/lib/prompts/analyzeV1';
+import { analyzeV2 } from '@/lib/prompts/analyzeV2';
+import { analyzeV3 } from '@/lib/prompts/analyzeV3';
+import { analyzeV4 } from '@/lib/prompts/analyzeV4';
+
+export const ANALYZE_PROMPT_VERSIONS: PromptTemplateVersion[] = [analyzeV1, analyzeV2, analyzeV3, analyzeV4];
+
+export const LATEST_ANALYZE_PROMPT_VERSION = analyzeV4.version;
+
+/**
+ * A template picked for one analysis
+ *
+ * @property id - "<version>:<variant>", stored as the insight's prompt_version
+ */
+export type SelectedPrompt = {
+  id: string;
+  version: PromptTemplateVersion;
+  variant: PromptVariant;
+};
+
+/**
+ * Thrown when a pinned version doesn't exist or a template uses an unknown variable
+ */
+export class PromptTemplateError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'PromptTemplateError';
+  }
+}
+
+/**
+ * Split a pin like "analyze-v2" or "analyze-v2:ex" and check it exists.
+ *
+ * Returns null if the version (or the named variant) is unknown.
+ */
+export function parsePromptPin(pin: string): { version: PromptTemplateVersion; variant: PromptVariant | null } | null {
+  const [versionId, variantKey] = pin.split(':');
+  const version = ANALYZE_PROMPT_VERSIONS.find((v) => v.version === versionId);
+  if (!version) {
+    return null;
+  }
+
+  if (!variantKey) {
+    return { version, variant: null };
+  }
+
+  const variant = version.variants.find((v) => v.key === variantKey);
+  return variant ? { version, variant } : null;
+}
+
+/**
+ * Pick the variant of a version that fits a relationship type
+ */
+function variantForType(version: PromptTemplateVersion, relationshipType: string | null | undefined): PromptVariant {
+  const type = (relationshipType ?? '').trim().toLowerCase();
+  const match = type ? version.variants.find((v) => v.matches?.test(type)) : undefined;
+  return match ?? version.variants[version.variants.length - 1];
+}
+
+/**
+ * Choose the analysis template for a relationship.
+ *
+ * @param relationshipType - Relationship.type, used to pick the variant
+ * @param pins - Pinned versions, most specific first (request, then relationship); empty values are skipped
+ * @throws PromptTemplateError if a pin names an unknown version or variant
+ */
+export function selectAnalyzePrompt(
+  relationshipType: string | null | undefined,
+  pins: (string | null | undefined)[] = []
+): SelectedPrompt {
+  const pin = pins.find((p) => p);
+  let version = ANALYZE_PROMPT_VERSIONS.find((v) => v.version === LATEST_ANALYZE_PROMPT_VERSION)!;
+  let variant: PromptVariant | null = null;
+
+  if (pin) {
+    const parsed = parsePromptPin(pin);
+    if (!parsed) {
+      throw new PromptTemplateError(`Unknown prompt version: ${pin}`);
+    }
+    version = parsed.version;
+    variant = parsed.variant;
+  }
+
+  variant ??= variantForType(version, relationshipType);
+
+  return { id: `${version.version}:${variant.key}`, version, variant };
+}
+
+/**
+ * Fill a template's {{variable}} placeholders.
+ *
+ * @throws PromptTemplateError if the template uses a variable that wasn't supplied
+ */
+export function renderPrompt(template: string, variables: Record<string, string>): string {
+  return template.replace(/\{\{\s*(\w+)\s*\}\}/g, (_match, name: string) => {
+    if (!(name in variables)) {
+      throw new PromptTemplateError(`Prompt template uses unknown variable {{${name}}}`);
+    }
+    return variables[name];
+  });
+}
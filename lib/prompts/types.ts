@@ -0,0 +1,39 @@
+/**
+ * Shared types for prompt templates
+ *
+ * A template version (e.g. "analyze-v2") is a set of variants, one per kind
+ * of relationship. Versions are immutable once released: to change a
+ * prompt, add a new version so stored insights keep pointing at the text
+ * that produced them.
+ */
+
+/**
+ * One variant of a template version
+ *
+ * @property key - Variant name, unique within the version (e.g. "ex")
+ * @property label - Human-readable name for the dashboard
+ * @property matches - Relationship types this variant is for (tested against the
+ *   lowercased type); null for the version's default variant
+ * @property system - System message
+ * @property user - User message, with {{variable}} placeholders
+ */
+export type PromptVariant = {
+  key: string;
+  label: string;
+  matches: RegExp | null;
+  system: string;
+  user: string;
+};
+
+/**
+ * A released template version
+ *
+ * @property version - Version id stored with insights (e.g. "analyze-v2")
+ * @property description - What changed in this version
+ * @property variants - Variants in matching order; the last one must be the default
+ */
+export type PromptTemplateVersion = {
+  version: string;
+  description: string;
+  variants: PromptVariant[];
+};
@@ -0,0 +1,260 @@
+/**
+ * Scheduled re-analysis of relationships
+ *
+ * Re-runs the analysis pipeline (lib/analysis.ts) without anyone clicking
+ * Analyze. A relationship is due when events or messages were added after
+ * its latest insight (whatever date they carry), or when its
+ * reanalyze_every_days cadence has passed
+ * (see analysis_due_relationships() in supabase/migrations). Every run is
+ * logged in analysis_jobs.
+ *
+ * Runs are triggered by POST /api/jobs/reanalyze (for a cron job) or by the
+ * in-process scheduler started from instrumentation.ts when
+ * REANALYZE_INTERVAL_MINUTES is set. Both use the service role client, so
+ * every query here is scoped to the relationship's user explicitly.
+ *
+ * Rate limits, all configurable through the environment:
+ * - REANALYZE_MAX_JOBS_PER_RUN (default 5): analyses per run
+ * - REANALYZE_MAX_JOBS_PER_USER_PER_DAY (default 10): automatic analyses per user in 24 hours
+ * - REANALYZE_MIN_INTERVAL_HOURS (default 6): minimum time since a relationship's
+ *   last insight or job, so a busy chat isn't re-analyzed on every message
+ * - REANALYZE_DELAY_MS (default 1000): pause between analyses
+ * A provider rate-limit error (429) ends the run early.
+ */
+
+import type { SupabaseClient } from '@supabase/supabase-js';
+import { getLLMProvider, LLMError, LLMProvider } from '@/lib/llm';
+import { runAnalysis } from '@/lib/analysis';
+import { parseAnalysisWindow } from '@/lib/analysisContext';
+import { createSupabaseServiceClient } from '@/lib/supabaseServiceClient';
+import type { AnalysisJob } from '@/lib/types';
+
+const HOUR_MS = 60 * 60 * 1000;
+
+/**
+ * Limits applied to one run
+ */
+export type ReanalysisLimits = {
+  maxJobsPerRun: number;
+  maxJobsPerUserPerDay: number;
+  minIntervalHours: number;
+  delayMs: number;
+};
+
+/**
+ * A relationship returned by analysis_due_relationships()
+ */
+type DueRelationship = {
+  relationship_id: string;
+  user_id: string;
+  reason: AnalysisJob['reason'];
+  last_insight_at: string | null;
+  last_activity_at: string | null;
+  last_job_at: string | null;
+};
+
+/**
+ * What a run did (or, for a dry run, would do)
+ *
+ * @property due - Number of relationships that were due
+ * @property planned - Relationships picked for analysis this run
+ * @property skipped - Due relationships held back by a rate limit, with the limit
+ * @property jobs - Finished jobs (empty for a dry run)
+ */
+export type ReanalysisRunResult = {
+  due: number;
+  planned: Pick<DueRelationship, 'relationship_id' | 'user_id' | 'reason'>[];
+  skipped: { relationship_id: string; reason: string }[];
+  jobs: AnalysisJob[];
+};
+
+function readLimit(name: string, fallback: number): number {
+  const value = Number(process.env[name]);
+  return Number.isFinite(value) && value >= 0 ? value : fallback;
+}
+
+/**
+ * The rate limits from the environment, or their defaults
+ */
+export function reanalysisLimits(): ReanalysisLimits {
+  return {
+    maxJobsPerRun: readLimit('REANALYZE_MAX_JOBS_PER_RUN', 5),
+    maxJobsPerUserPerDay: readLimit('REANALYZE_MAX_JOBS_PER_USER_PER_DAY', 10),
+    minIntervalHours: readLimit('REANALYZE_MIN_INTERVAL_HOURS', 6),
+    delayMs: readLimit('REANALYZE_DELAY_MS', 1000),
+  };
+}
+
+/**
+ * Find due relationships, apply the rate limits and analyze what's left.
+ *
+ * Each analysis failure is recorded on its job and the run goes on, except
+ * for a provider rate-limit error, which ends the run. Throws only if the
+ * due list or the job log can't be read.
+ */
+export async function runReanalysisJobs(
+  supabase: SupabaseClient,
+  params: {
+    provider: LLMProvider;
+    limits?: ReanalysisLimits;
+    dryRun?: boolean;
+    now?: Date;
+  }
+): Promise<ReanalysisRunResult> {
+  const { provider, dryRun = false } = params;
+  const limits = params.limits ?? reanalysisLimits();
+  const now = params.now ?? new Date();
+
+  // 1. Relationships due for analysis, most urgent first
+  const { data, error } = await supabase.rpc('analysis_due_relationships');
+  if (error) {
+    throw error;
+  }
+  const due = (data ?? []) as DueRelationship[];
+
+  // 2. Automatic analyses each user has had in the last 24 hours
+  const jobsToday = new Map<string, number>();
+  const userIds = [...new Set(due.map((d) => d.user_id))];
+  if (userIds.length > 0) {
+    const { data: recentJobs, error: jobsError } = await supabase
+      .from('analysis_jobs')
+      .select('user_id')
+      .in('user_id', userIds)
+      .gte('started_at', new Date(now.getTime() - 24 * HOUR_MS).toISOString());
+    if (jobsError) {
+      throw jobsError;
+    }
+    for (const job of recentJobs ?? []) {
+      jobsToday.set(job.user_id, (jobsToday.get(job.user_id) ?? 0) + 1);
+    }
+  }
+
+  // 3. Apply the rate limits
+  const result: ReanalysisRunResult = { due: due.length, planned: [], skipped: [], jobs: [] };
+  const minIntervalStart = now.getTime() - limits.minIntervalHours * HOUR_MS;
+
+  for (const candidate of due) {
+    const lastTouched = Math.max(
+      candidate.last_insight_at ? new Date(candidate.last_insight_at).getTime() : 0,
+      candidate.last_job_at ? new Date(candidate.last_job_at).getTime() : 0
+    );
+
+    if (lastTouched > minIntervalStart) {
+      result.skipped.push({ relationship_id: candidate.relationship_id, reason: 'min_interval' });
+    } else if ((jobsToday.get(candidate.user_id) ?? 0) >= limits.maxJobsPerUserPerDay) {
+      result.skipped.push({ relationship_id: candidate.relationship_id, reason: 'user_daily_limit' });
+    } else if (result.planned.length >= limits.maxJobsPerRun) {
+      result.skipped.push({ relationship_id: candidate.relationship_id, reason: 'run_limit' });
+    } else {
+      result.planned.push({
+        relationship_id: candidate.relationship_id,
+        user_id: candidate.user_id,
+        reason: candidate.reason,
+      });
+      jobsToday.set(candidate.user_id, (jobsToday.get(candidate.user_id) ?? 0) + 1);
+    }
+  }
+
+  if (dryRun) {
+    return result;
+  }
+
+  // 4. Analyze, logging each job
+  const window = parseAnalysisWindow('all')!;
+
+  for (const [index, planned] of result.planned.entries()) {
+    if (index > 0 && limits.delayMs > 0) {
+      await new Promise((resolve) => setTimeout(resolve, limits.delayMs));
+    }
+
+    const { data: job, error: insertError } = await supabase
+      .from('analysis_jobs')
+      .insert({
+        user_id: planned.user_id,
+        relationship_id: planned.relationship_id,
+        reason: planned.reason,
+      })
+      .select('*')
+      .single();
+
+    if (insertError) {
+      throw insertError;
+    }
+
+    let finished: Partial<AnalysisJob>;
+    let rateLimited = false;
+    try {
+      const insight = await runAnalysis(supabase, {
+        userId: planned.user_id,
+        relationshipId: planned.relationship_id,
+        window,
+        provider,
+      });
+      finished = { status: 'succeeded', insight_id: insight.id ?? null };
+    } catch (err) {
+      console.error(`Re-analysis of ${planned.relationship_id} failed:`, err);
+      finished = { status: 'failed', error: err instanceof Error ? err.message : String(err) };
+      rateLimited = err instanceof LLMError && err.status === 429;
+    }
+
+    const { data: updated, error: updateError } = await supabase
+      .from('analysis_jobs')
+      .update({ ...finished, finished_at: new Date().toISOString() })
+      .eq('id', job.id)
+      .select('*')
+      .single();
+
+    if (updateError) {
+      console.error('Error updating analysis job:', updateError);
+    }
+    result.jobs.push((updated ?? { ...job, ...finished }) as AnalysisJob);
+
+    // The provider is throttling us; leave the rest for the next run
+    if (rateLimited) {
+      console.error('LLM provider rate limit reached, ending the re-analysis run early');
+      break;
+    }
+  }
+
+  return result;
+}
+
+// Set once the in-process scheduler has started, so dev reloads don't start a second one
+let schedulerStarted = false;
+
+/**
+ * Run re-analysis every intervalMinutes inside this server process.
+ *
+ * A run that is still going when the next one is due is not overlapped;
+ * the tick is skipped. Errors are logged and the scheduler keeps going.
+ */
+export function startReanalysisScheduler(intervalMinutes: number) {
+  if (schedulerStarted) {
+    return;
+  }
+  schedulerStarted = true;
+
+  let running = false;
+  const tick = async () => {
+    if (running) {
+      return;
+    }
+    running = true;
+    try {
+      const result = await runReanalysisJobs(createSupabaseServiceClient(), { provider: getLLMProvider() });
+      if (result.jobs.length > 0) {
+        const failed = result.jobs.filter((job) => job.status === 'failed').length;
+        console.log(`Re-analysis: ${result.jobs.length} jobs (${failed} failed), ${result.skipped.length} held back`);
+      }
+    } catch (err) {
+      console.error('Scheduled re-analysis failed:', err);
+    } finally {
+      running = false;
+    }
+  };
+
+  console.log(`Scheduled re-analysis every ${intervalMinutes} minutes`);
+  const timer = setInterval(tick, intervalMinutes * 60 * 1000);
+  // Don't keep the process alive just for the scheduler
+  timer.unref?.();
+}
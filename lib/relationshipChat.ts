@@ -0,0 +1,230 @@
+/**
+ * Multi-turn chat about one relationship
+ *
+ * Where /api/analyze produces a one-shot insight, a chat session lets the
+ * user ask follow-up questions ("why did risk go up last week?", "what
+ * should I bring up on Friday?"). Every answer is grounded in the same
+ * context the analysis uses (notes, events, messages, follow-up tasks and
+ * the rolling summary, see lib/analysisContext.ts) plus the relationship's
+ * past insights, so the model can explain how its assessments changed.
+ *
+ * The context is rebuilt for every turn, so answers reflect activity added
+ * while the session is open. Only the latest turns of the session are sent
+ * back to the model.
+ */
+
+import type { SupabaseClient } from '@supabase/supabase-js';
+import { ChatMessage, LLMError, LLMProvider } from '@/lib/llm';
+import { AnalysisContext, buildAnalysisContext, parseAnalysisWindow } from '@/lib/analysisContext';
+import { renderPrompt } from '@/lib/prompts';
+import { CHAT_PROMPT_VERSION, chatPrompt } from '@/lib/prompts/chat';
+import type { ChatSession, ChatSessionMessage, Insight } from '@/lib/types';
+
+// Earlier turns of the session sent along with a new question
+const MAX_HISTORY_MESSAGES = 20;
+
+// Past insights included in the context
+const MAX_INSIGHTS = 10;
+
+// Longest question we accept, and the longest automatic session title
+export const MAX_CHAT_MESSAGE_CHARS = 2000;
+const MAX_TITLE_CHARS = 60;
+
+/**
+ * Error that ends a chat turn, with the HTTP status to report
+ */
+export class ChatError extends Error {
+  status: number;
+
+  constructor(message: string, status: number) {
+    super(message);
+    this.name = 'ChatError';
+    this.status = status;
+  }
+}
+
+/**
+ * Convert an error thrown during a chat turn into a status and error message
+ */
+export function describeChatError(err: unknown): { status: number; error: string } {
+  if (err instanceof ChatError || err instanceof LLMError) {
+    return { status: err.status, error: err.message };
+  }
+
+  console.error('Unexpected chat error:', err);
+  return { status: 500, error: err instanceof Error ? err.message : 'Unknown server error' };
+}
+
+/**
+ * List past insights for the prompt, oldest first, so score changes read in order
+ */
+function formatInsights(insights: Pick<Insight, 'created_at' | 'risk_score' | 'growth_score' | 'summary' | 'pattern' | 'recommended_action'>[]): string {
+  if (insights.length === 0) {
+    return 'No analyses yet.';
+  }
+
+  return insights
+    .map(
+      (i) =>
+        `- [${i.created_at}] risk ${i.risk_score}, growth ${i.growth_score}. Summary: ${i.summary} Pattern: ${i.pattern} Recommended: ${i.recommended_action}`
+    )
+    .join('\n');
+}
+
+/**
+ * Answer a question in a chat session and store both turns.
+ *
+ * onToken, if given, receives the answer as it streams. Throws ChatError
+ * for expected failures (unknown session, database errors) and lets
+ * LLMError through; nothing is stored when the model call fails, so the
+ * question can simply be asked again.
+ */
+export async function replyInChatSession(
+  supabase: SupabaseClient,
+  params: {
+    userId: string;
+    sessionId: string;
+    content: string;
+    provider: LLMProvider;
+    onToken?: (delta: string) => void;
+  }
+): Promise<{ session: ChatSession; userMessage: ChatSessionMessage; assistantMessage: ChatSessionMessage }> {
+  const { userId, sessionId, content, provider, onToken } = params;
+  const askedAt = new Date().toISOString();
+
+  // 1. Fetch the session, its relationship and the latest turns
+  const { data: session, error: sessionError } = await supabase
+    .from('chat_sessions')
+    .select('*, relationship:relationships(*)')
+    .eq('id', sessionId)
+    .eq('user_id', userId)
+    .maybeSingle();
+
+  if (sessionError) {
+    throw new ChatError(sessionError.message, 500);
+  }
+  if (!session?.relationship) {
+    throw new ChatError('Chat session not found', 404);
+  }
+
+  const { data: history, error: historyError } = await supabase
+    .from('chat_messages')
+    .select('role, content')
+    .eq('session_id', sessionId)
+    .eq('user_id', userId)
+    .order('created_at', { ascending: false })
+    .limit(MAX_HISTORY_MESSAGES);
+
+  if (historyError) {
+    throw new ChatError(historyError.message, 500);
+  }
+
+  // 2. Ground the answer in the relationship's context and past insights
+  const relationship = session.relationship;
+  let context: AnalysisContext;
+  try {
+    context = await buildAnalysisContext(supabase, {
+      userId,
+      relationshipId: relationship.id,
+      personName: relationship.person_name ?? 'Unknown',
+      window: parseAnalysisWindow('all')!,
+      provider,
+    });
+  } catch (err) {
+    console.error('Chat context fetch error:', err);
+    throw new ChatError(err instanceof Error ? err.message : 'Failed to load context', 500);
+  }
+
+  const { data: insights, error: insightsError } = await supabase
+    .from('insights')
+    .select('created_at, risk_score, growth_score, summary, pattern, recommended_action')
+    .eq('relationship_id', relationship.id)
+    .eq('user_id', userId)
+    .order('created_at', { ascending: false })
+    .limit(MAX_INSIGHTS);
+
+  // The chat can still answer from events and messages alone
+  if (insightsError) {
+    console.error('Insights fetch error:', insightsError);
+  }
+
+  const system = renderPrompt(chatPrompt.system, {
+    name: relationship.person_name ?? 'Unknown',
+    type: relationship.type ?? 'Not specified',
+    notes: relationship.notes ?? 'None',
+    today: askedAt.slice(0, 10),
+    summary: context.summaryText ? `\nEarlier history (summary):\n${context.summaryText}\n` : '',
+    events: context.eventsText,
+    tasks: context.tasksText,
+    messages: context.messagesText,
+    insights: formatInsights([...(insights ?? [])].reverse()),
+  });
+
+  // 3. Ask the model, with the earlier turns as conversation
+  const conversation: ChatMessage[] = [
+    { role: 'system', content: system.trim() },
+    ...[...(history ?? [])].reverse().map((m) => ({ role: m.role, content: m.content }) as ChatMessage),
+    { role: 'user', content },
+  ];
+
+  const completion = await provider.complete(conversation, { task: 'chat', onToken });
+  const answer = completion.text.trim();
+  if (!answer) {
+    throw new ChatError('Model returned an empty answer', 502);
+  }
+
+  // 4. Store the question and the answer
+  const { data: stored, error: insertError } = await supabase
+    .from('chat_messages')
+    .insert([
+      { user_id: userId, session_id: sessionId, role: 'user', content, created_at: askedAt },
+      {
+        user_id: userId,
+        session_id: sessionId,
+        role: 'assistant',
+        content: answer,
+        provider: provider.name,
+        model: completion.model,
+        prompt_version: CHAT_PROMPT_VERSION,
+        created_at: new Date().toISOString(),
+      },
+    ])
+    .select('*');
+
+  if (insertError) {
+    throw new ChatError(insertError.message, 500);
+  }
+
+  const userMessage = stored.find((m) => m.role === 'user') as ChatSessionMessage;
+  const assistantMessage = stored.find((m) => m.role === 'assistant') as ChatSessionMessage;
+
+  // 5. Bump the session, titling it after its first question
+  const updates: Partial<ChatSession> = { updated_at: assistantMessage.created_at };
+  if (!session.title) {
+    updates.title = content.length > MAX_TITLE_CHARS ? `${content.slice(0, MAX_TITLE_CHARS - 3)}...` : content;
+  }
+
+  const { data: updatedSession, error: updateError } = await supabase
+    .from('chat_sessions')
+    .update(updates)
+    .eq('id', sessionId)
+    .eq('user_id', userId)
+    .select('*')
+    .single();
+
+  if (updateError) {
+    console.error('Error updating chat session:', updateError);
+  }
+
+  return {
+    session: updatedSession ?? {
+      id: session.id,
+      relationship_id: session.relationship_id,
+      title: session.title,
+      created_at: session.created_at,
+      ...updates,
+    },
+    userMessage,
+    assistantMessage,
+  };
+}
@@ -0,0 +1,33 @@
+/**
+ * Canonical score scale for insights
+ *
+ * risk_score and growth_score are always whole numbers from 0 to 100.
+ * The analyze prompt asks for this scale, validation enforces it before
+ * insert, and the dashboard renders scores with formatScore, so every
+ * layer agrees on what a score means.
+ */
+
+export const SCORE_MIN = 0;
+export const SCORE_MAX = 100;
+
+/**
+ * Bring a raw score onto the 0-100 integer scale.
+ *
+ * Values from 0 to 1 inclusive are treated as fractions written on the old
+ * 0-1 scale (0.65 becomes 65, 1 becomes 100), so the top of that scale maps
+ * to the top of this one. Everything else is rounded and clamped.
+ */
+export function normalizeScore(value: number): number {
+  const scaled = value > 0 && value <= 1 ? value * 100 : value;
+  return Math.min(SCORE_MAX, Math.max(SCORE_MIN, Math.round(scaled)));
+}
+
+/**
+ * Render a stored score for display, e.g. "72/100"
+ *
+ * Stored scores are already on the 0-100 scale, so a 1 here means 1/100 and
+ * is only rounded and clamped, not rescaled.
+ */
+export function formatScore(value: number): string {
+  return `${Math.min(SCORE_MAX, Math.max(SCORE_MIN, Math.round(value)))}/${SCORE_MAX}`;
+}
@@ -0,0 +1,298 @@
+/**
+ * Hybrid search across events, messages, notes and insights
+ *
+ * A query runs two searches in Postgres (search_content() in
+ * supabase/migrations):
+ * - full-text search, which finds documents containing the query's words
+ *   (stemmed, so "argued" finds "argument") and highlights them, and
+ * - semantic search over embeddings (lib/embeddings.ts), which finds
+ *   documents about the same thing in other words.
+ * The two rankings are merged with reciprocal rank fusion, so a document
+ * near the top of either list ranks well and one found by both ranks best.
+ *
+ * Embeddings are computed lazily: before searching, up to
+ * SEARCH_INDEX_BATCH documents without an up-to-date embedding are embedded
+ * and stored. If embedding fails, search falls back to full-text only.
+ * Semantic matches below the provider's minSimilarity are dropped, so a
+ * query about nothing in the history finds nothing.
+ */
+
+import type { SupabaseClient } from '@supabase/supabase-js';
+import { EmbeddingProvider, toPgVector } from '@/lib/embeddings';
+
+export const SEARCH_SOURCE_TYPES = ['event', 'message', 'note', 'insight'] as const;
+
+export type SearchSourceType = (typeof SEARCH_SOURCE_TYPES)[number];
+
+// Documents embedded per search, so a large backlog is indexed over several searches
+const SEARCH_INDEX_BATCH = 200;
+
+// Candidates fetched from each of the two searches
+const CANDIDATES_PER_SEARCH = 50;
+
+// Reciprocal rank fusion constant; larger values flatten the rank curve
+const RRF_K = 60;
+
+// Characters of context around the first match in a snippet built here
+const SNIPPET_CHARS = 200;
+
+// Markers ts_headline puts around matched words (see search_content())
+const HIGHLIGHT_START = '\u0002';
+const HIGHLIGHT_END = '\u0003';
+
+/**
+ * A piece of a snippet; match is true for highlighted text
+ */
+export type SearchSnippetPart = {
+  text: string;
+  match: boolean;
+};
+
+/**
+ * One search result
+ *
+ * @property source_type - What was found: "event", "message", "note" (relationship notes) or "insight"
+ * @property source_id - Id of the event, message, relationship or insight
+ * @property occurred_at - When it happened (event time, message time, insight creation)
+ * @property snippet - Excerpt with the matching words highlighted
+ * @property score - Fused rank score; higher is better
+ * @property matched_by - Which searches found it
+ * @property link - Dashboard URL that opens the relationship
+ */
+export type SearchHit = {
+  source_type: SearchSourceType;
+  source_id: string;
+  relationship_id: string;
+  person_name: string;
+  occurred_at: string | null;
+  snippet: SearchSnippetPart[];
+  score: number;
+  matched_by: ('keyword' | 'semantic')[];
+  link: string;
+};
+
+/**
+ * A candidate row returned by search_content()
+ */
+type SearchCandidate = {
+  source_type: SearchSourceType;
+  source_id: string;
+  relationship_id: string;
+  person_name: string;
+  content: string;
+  occurred_at: string | null;
+  headline: string | null;
+  text_rank: number | null;
+  similarity: number | null;
+};
+
+/**
+ * Embed documents that have no embedding, or one from another model or for
+ * older content, and store the vectors. Returns how many were embedded.
+ *
+ * Throws the Supabase or provider error if anything fails.
+ */
+export async function indexSearchEmbeddings(
+  supabase: SupabaseClient,
+  params: { userId: string; provider: EmbeddingProvider; maxDocuments?: number }
+): Promise<number> {
+  const { userId, provider } = params;
+
+  const { data: pending, error } = await supabase.rpc('search_documents_to_embed', {
+    embedding_model: provider.id,
+    max_count: params.maxDocuments ?? SEARCH_INDEX_BATCH,
+  });
+
+  if (error) {
+    throw error;
+  }
+  if (!pending || pending.length === 0) {
+    return 0;
+  }
+
+  const vectors = await provider.embed(pending.map((doc: { content: string }) => doc.content));
+
+  const { error: upsertError } = await supabase.from('search_embeddings').upsert(
+    pending.map(
+      (doc: { source_type: string; source_id: string; relationship_id: string; content_hash: string }, index: number) => ({
+        source_type: doc.source_type,
+        source_id: doc.source_id,
+        user_id: userId,
+        relationship_id: doc.relationship_id,
+        model: provider.id,
+        content_hash: doc.content_hash,
+        embedding: toPgVector(vectors[index]),
+        updated_at: new Date().toISOString(),
+      })
+    ),
+    { onConflict: 'source_type,source_id' }
+  );
+
+  if (upsertError) {
+    throw upsertError;
+  }
+
+  return pending.length;
+}
+
+/**
+ * Lowercase words of a query, for highlighting snippets without a headline
+ */
+function queryTerms(query: string): string[] {
+  return (query.toLowerCase().match(/[\p{L}\p{N}']+/gu) ?? []).filter((term) => term.length > 2);
+}
+
+/**
+ * Split a ts_headline result into snippet parts
+ */
+export function parseHeadline(headline: string): SearchSnippetPart[] {
+  const parts: SearchSnippetPart[] = [];
+  for (const [index, piece] of headline.split(new RegExp(`[${HIGHLIGHT_START}${HIGHLIGHT_END}]`)).entries()) {
+    if (piece) {
+      // Text alternates between outside and inside the markers
+      parts.push({ text: piece, match: index % 2 === 1 });
+    }
+  }
+  return parts;
+}
+
+/**
+ * Build a snippet for a document full-text search didn't match: an excerpt
+ * around the first word that starts like a query word, with such words highlighted
+ */
+export function buildSnippet(content: string, query: string): SearchSnippetPart[] {
+  const terms = queryTerms(query);
+  const escaped = terms.map((t) => t.replace(/[.*+?^${}()|[\]\\]/g, '\\$&'));
+  const pattern = escaped.length > 0 ? new RegExp(`\\b(?:${escaped.join('|')})[\\p{L}\\p{N}']*`, 'giu') : null;
+
+  // Center the excerpt on the first match, if there is one
+  const first = pattern ? content.search(pattern) : -1;
+  const start = Math.max(0, (first === -1 ? 0 : first) - SNIPPET_CHARS / 2);
+  let excerpt = content.slice(start, start + SNIPPET_CHARS);
+  if (start > 0) {
+    excerpt = `...${excerpt}`;
+  }
+  if (start + SNIPPET_CHARS < content.length) {
+    excerpt = `${excerpt}...`;
+  }
+
+  if (!pattern) {
+    return [{ text: excerpt, match: false }];
+  }
+
+  const parts: SearchSnippetPart[] = [];
+  let last = 0;
+  for (const match of excerpt.matchAll(pattern)) {
+    if (match.index > last) {
+      parts.push({ text: excerpt.slice(last, match.index), match: false });
+    }
+    parts.push({ text: match[0], match: true });
+    last = match.index + match[0].length;
+  }
+  if (last < excerpt.length) {
+    parts.push({ text: excerpt.slice(last), match: false });
+  }
+  return parts;
+}
+
+/**
+ * Merge keyword and semantic candidates with reciprocal rank fusion:
+ * each document scores 1 / (RRF_K + rank) in every list it appears in.
+ */
+export function fuseCandidates(candidates: SearchCandidate[], query: string, limit: number): SearchHit[] {
+  const scores = new Map<string, number>();
+  const key = (c: SearchCandidate) => `${c.source_type}:${c.source_id}`;
+
+  const keywordRanked = candidates
+    .filter((c) => c.text_rank !== null)
+    .sort((a, b) => (b.text_rank ?? 0) - (a.text_rank ?? 0));
+  const semanticRanked = candidates
+    .filter((c) => c.similarity !== null)
+    .sort((a, b) => (b.similarity ?? 0) - (a.similarity ?? 0));
+
+  for (const ranked of [keywordRanked, semanticRanked]) {
+    ranked.forEach((c, index) => {
+      scores.set(key(c), (scores.get(key(c)) ?? 0) + 1 / (RRF_K + index + 1));
+    });
+  }
+
+  return candidates
+    .map((c) => ({
+      source_type: c.source_type,
+      source_id: c.source_id,
+      relationship_id: c.relationship_id,
+      person_name: c.person_name,
+      occurred_at: c.occurred_at,
+      snippet: c.headline ? parseHeadline(c.headline) : buildSnippet(c.content, query),
+      score: Number((scores.get(key(c)) ?? 0).toFixed(5)),
+      matched_by: [
+        ...(c.text_rank !== null ? ['keyword' as const] : []),
+        ...(c.similarity !== null ? ['semantic' as const] : []),
+      ],
+      link: `/dashboard?relationship_id=${c.relationship_id}`,
+    }))
+    .sort((a, b) => b.score - a.score)
+    .slice(0, limit);
+}
+
+/**
+ * Search the user's events, messages, notes and insights.
+ *
+ * provider is null for keyword-only search. Embedding errors are logged and
+ * the search goes on with full-text search alone; the result says whether
+ * semantic search took part. Throws the Supabase error if the search fails.
+ */
+export async function searchContent(
+  supabase: SupabaseClient,
+  params: {
+    userId: string;
+    query: string;
+    provider: EmbeddingProvider | null;
+    relationshipId?: string | null;
+    sourceTypes?: SearchSourceType[] | null;
+    limit: number;
+  }
+): Promise<{ hits: SearchHit[]; semantic: boolean }> {
+  const { userId, query, provider, limit } = params;
+
+  // 1. Catch up on embeddings and embed the query
+  let queryEmbedding: string | null = null;
+  let semantic = false;
+  if (provider) {
+    try {
+      const indexed = await indexSearchEmbeddings(supabase, { userId, provider });
+      if (indexed > 0) {
+        console.log(`Embedded ${indexed} documents for search`);
+      }
+      const [vector] = await provider.embed([query]);
+      semantic = true;
+      // A zero vector (no usable words, e.g. only punctuation) matches nothing
+      if (vector.some((v) => v !== 0)) {
+        queryEmbedding = toPgVector(vector);
+      }
+    } catch (err) {
+      console.error('Semantic search unavailable, using full-text search only:', err);
+    }
+  }
+
+  // 2. Fetch keyword and semantic candidates
+  const { data, error } = await supabase.rpc('search_content', {
+    query_text: query,
+    query_embedding: queryEmbedding,
+    embedding_model: provider?.id ?? '',
+    match_count: CANDIDATES_PER_SEARCH,
+    filter_relationship_id: params.relationshipId ?? null,
+    filter_source_types: params.sourceTypes ?? null,
+    min_similarity: provider?.minSimilarity ?? 0,
+  });
+
+  if (error) {
+    throw error;
+  }
+
+  // 3. Rank them together
+  return {
+    hits: fuseCandidates((data ?? []) as SearchCandidate[], query, limit),
+    semantic,
+  };
+}
@@ -0,0 +1,118 @@
+/**
+ * Server-Sent Events helpers
+ *
+ * Streaming routes (like /api/analyze) write their events with
+ * createServerSentEventResponse. EventSource only supports GET, so the
+ * browser reads those POST responses with fetch() and readServerSentEvents
+ * instead.
+ */
+
+/**
+ * Send one event on a stream. Never throws: once the client has gone away,
+ * events are dropped.
+ */
+export type SendServerSentEvent = (event: string, data: unknown) => void;
+
+/**
+ * Build a text/event-stream response whose events are written by run.
+ *
+ * If the client disconnects, send() quietly stops writing, so run keeps
+ * going and whatever it stores (an insight, a chat answer) is still saved.
+ * The stream is closed when run settles; run should report its own errors
+ * as events.
+ */
+export function createServerSentEventResponse(run: (send: SendServerSentEvent) => Promise<void>): Response {
+  const encoder = new TextEncoder();
+  let closed = false;
+
+  const stream = new ReadableStream({
+    async start(controller) {
+      const send: SendServerSentEvent = (event, data) => {
+        if (closed) {
+          return;
+        }
+        try {
+          controller.enqueue(encoder.encode(`event: ${event}\ndata: ${JSON.stringify(data)}\n\n`));
+        } catch {
+          // The stream was cancelled or errored; stop writing to it
+          closed = true;
+        }
+      };
+
+      try {
+        await run(send);
+      } catch (err) {
+        console.error('Unexpected error while streaming events:', err);
+      } finally {
+        if (!closed) {
+          closed = true;
+          try {
+            controller.close();
+          } catch {
+            // Already closed by a disconnect
+          }
+        }
+      }
+    },
+    cancel() {
+      closed = true;
+    },
+  });
+
+  return new Response(stream, {
+    headers: {
+      'Content-Type': 'text/event-stream',
+      'Cache-Control': 'no-cache, no-transform',
+      Connection: 'keep-alive',
+    },
+  });
+}
+
+/**
+ * Read an SSE response body, calling onEvent for every complete event.
+ *
+ * Each event's data is parsed as JSON. Resolves when the stream ends.
+ */
+export async function readServerSentEvents(
+  response: Response,
+  onEvent: (event: string, data: unknown) => void
+): Promise<void> {
+  if (!response.body) {
+    return;
+  }
+
+  const reader = response.body.getReader();
+  const decoder = new TextDecoder();
+  let buffer = '';
+
+  while (true) {
+    const { done, value } = await reader.read();
+    if (done) {
+      break;
+    }
+
+    buffer += decoder.decode(value, { stream: true });
+
+    // Events are separated by a blank line
+    let boundary = buffer.indexOf('\n\n');
+    while (boundary !== -1) {
+      const block = buffer.slice(0, boundary);
+      buffer = buffer.slice(boundary + 2);
+      boundary = buffer.indexOf('\n\n');
+
+      let event = 'message';
+      const dataLines: string[] = [];
+      for (const line of block.split('\n')) {
+        if (line.startsWith('event:')) {
+          event = line.slice(6).trim();
+        } else if (line.startsWith('data:')) {
+          dataLines.push(line.slice(5).trimStart());
+        }
+      }
+
+      if (dataLines.length > 0) {
+        onEvent(event, JSON.parse(dataLines.join('\n')));
+      }
+    }
+  }
+}
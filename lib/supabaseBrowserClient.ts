@@ -0,0 +1,19 @@
+/**
+ * Supabase client configuration for browser code
+ *
+ * Used by client components (the login page and the dashboard's sign-out
+ * button) to talk to Supabase Auth. The session is stored in cookies so
+ * the server-side client in lib/supabaseClient.ts can read it.
+ */
+
+import { createBrowserClient } from '@supabase/ssr';
+
+/**
+ * Create a Supabase client for use in client components
+ */
+export function createSupabaseBrowserClient() {
+  return createBrowserClient(
+    process.env.NEXT_PUBLIC_SUPABASE_URL!,
+    process.env.NEXT_PUBLIC_SUPABASE_ANON_KEY!
+  );
+}
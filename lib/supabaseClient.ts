@@ -1,11 +1,15 @@
 /**
  * Supabase client configuration for server-side code
- * 
- * This file creates a reusable Supabase client instance that can be imported
- * and used throughout the application for database operations.
+ *
+ * API routes create a session-aware Supabase client per request. The client
+ * reads the signed-in user's auth cookies, so every query runs as that user
+ * and row level security (see supabase/migrations) keeps each user's
+ * relationships, events, insights and messages separate.
  */
 
-import { createClient } from '@supabase/supabase-js';
+import { createServerClient } from '@supabase/ssr';
+import type { SupabaseClient, User } from '@supabase/supabase-js';
+import { cookies } from 'next/headers';
 
 // Read environment variables
 const supabaseUrl = process.env.NEXT_PUBLIC_SUPABASE_URL;
@@ -20,6 +24,47 @@ if (!supabaseAnonKey) {
   throw new Error('Missing NEXT_PUBLIC_SUPABASE_ANON_KEY environment variable');
 }
 
-// Create and export the Supabase client
-export const supabase = createClient(supabaseUrl, supabaseAnonKey);
+/**
+ * Create a Supabase client bound to the current request's auth cookies
+ */
+export async function createSupabaseServerClient(): Promise<SupabaseClient> {
+  const cookieStore = await cookies();
 
+  return createServerClient(supabaseUrl!, supabaseAnonKey!, {
+    cookies: {
+      getAll() {
+        return cookieStore.getAll();
+      },
+      setAll(cookiesToSet) {
+        try {
+          cookiesToSet.forEach(({ name, value, options }) =>
+            cookieStore.set(name, value, options)
+          );
+        } catch {
+          // Cookies can't be written while rendering a Server Component.
+          // The proxy refreshes the session instead, so this is safe to ignore.
+        }
+      },
+    },
+  });
+}
+
+/**
+ * Get a session-aware client together with the signed-in user
+ *
+ * The user is null when the request has no valid session; API routes
+ * should respond with 401 in that case.
+ */
+export async function getSessionContext(): Promise<{
+  supabase: SupabaseClient;
+  user: User | null;
+}> {
+  const supabase = await createSupabaseServerClient();
+
+  // getUser() verifies the token with Supabase Auth instead of trusting the cookie
+  const {
+    data: { user },
+  } = await supabase.auth.getUser();
+
+  return { supabase, user };
+}
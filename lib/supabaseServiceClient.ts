@@ -0,0 +1,34 @@
+/**
+ * Supabase client for background jobs
+ *
+ * Uses the service role key (SUPABASE_SERVICE_ROLE_KEY), which bypasses row
+ * level security. It is only for server code that doesn't run on behalf of
+ * a signed-in user, like the scheduled re-analysis in lib/reanalysis.ts,
+ * and that code must scope every query to a user id itself. Never import
+ * this from client components.
+ */
+
+import { createClient, type SupabaseClient } from '@supabase/supabase-js';
+
+/**
+ * Create a Supabase client with the service role key
+ *
+ * Throws if NEXT_PUBLIC_SUPABASE_URL or SUPABASE_SERVICE_ROLE_KEY is missing.
+ */
+export function createSupabaseServiceClient(): SupabaseClient {
+  const url = process.env.NEXT_PUBLIC_SUPABASE_URL;
+  const serviceRoleKey = process.env.SUPABASE_SERVICE_ROLE_KEY;
+
+  if (!url) {
+    throw new Error('Missing NEXT_PUBLIC_SUPABASE_URL environment variable');
+  }
+
+  if (!serviceRoleKey) {
+    throw new Error('Missing SUPABASE_SERVICE_ROLE_KEY environment variable');
+  }
+
+  return createClient(url, serviceRoleKey, {
+    // No user session to store or refresh
+    auth: { persistSession: false, autoRefreshToken: false },
+  });
+}
@@ -8,16 +8,24 @@
  * Represents a relationship with a person
  * 
  * @property id - Unique identifier (will be generated by database)
+ * @property user_id - ID of the Supabase Auth user who owns this relationship
  * @property person_name - Name of the person in the relationship
  * @property type - Type/category of the relationship (e.g., "friend", "colleague", "family")
  * @property notes - Optional notes about the relationship
+ * @property archived_at - Timestamp when the relationship was archived (null if active)
+ * @property prompt_version - Analysis prompt template pinned for this relationship (null for the latest)
+ * @property reanalyze_every_days - Re-analyze automatically at least this often (null for only on new activity)
  * @property created_at - Timestamp when the relationship was created
  */
 export type Relationship = {
   id?: string;
+  user_id?: string;
   person_name: string;
   type: string;
   notes?: string;
+  archived_at?: string | null;
+  prompt_version?: string | null;
+  reanalyze_every_days?: number | null;
   created_at?: string;
 };
 
@@ -25,16 +33,20 @@ export type Relationship = {
  * Represents an event logged for a relationship
  * 
  * @property id - Unique identifier (will be generated by database)
+ * @property user_id - ID of the user who owns this event
  * @property relationship_id - ID of the relationship this event belongs to
  * @property event_type - Type of event (e.g., "meeting", "call", "message")
  * @property description - Description of what happened in this event
- * @property created_at - Timestamp when the event occurred
+ * @property occurred_at - Timestamp when the event actually happened
+ * @property created_at - Timestamp when the event was logged
  */
 export type Event = {
   id?: string;
+  user_id?: string;
   relationship_id: string;
   event_type: string;
   description: string;
+  occurred_at?: string;
   created_at?: string;
 };
 
@@ -44,17 +56,33 @@ export type Event = {
  * This is the result of analyzing a relationship and its events using OpenAI.
  * 
  * @property id - Unique identifier (will be generated by database)
+ * @property user_id - ID of the user who owns this insight
  * @property relationship_id - ID of the relationship this insight is for
  * @property summary - Brief summary of the relationship
  * @property pattern - Patterns identified in the relationship events
- * @property risk_score - Risk score (0-100, where higher means more risk)
- * @property growth_score - Growth score (0-100, where higher means more growth potential)
+ * @property risk_score - Risk score (integer 0-100, where higher means more risk; see lib/scores.ts)
+ * @property growth_score - Growth score (integer 0-100, where higher means more growth potential)
  * @property recommended_action - Recommended action to take
  * @property suggested_message - Suggested message to send to the person
  * @property created_at - Timestamp when the insight was generated
+ *
+ * Provenance (null for insights created before it was recorded):
+ * @property provider - LLM provider that produced the insight (e.g. "groq")
+ * @property model - Model id reported by the provider
+ * @property prompt_version - Version of the analysis prompt template
+ * @property latency_ms - Total time spent waiting on the model, across attempts
+ * @property prompt_tokens - Prompt tokens used, across attempts
+ * @property completion_tokens - Completion tokens used, across attempts
+ * @property total_tokens - Total tokens used, across attempts
+ * @property attempts - Number of model calls (1 + repairs)
+ * @property context_window - Time window analyzed ("all", "30d", ...)
+ * @property event_ids - Events included in the prompt
+ * @property message_ids - Messages included in the prompt
+ * @property prompt_text - Exact prompt sent to the model (only returned by /api/insights/[id])
  */
 export type Insight = {
   id?: string;
+  user_id?: string;
   relationship_id: string;
   summary: string;
   pattern: string;
@@ -63,5 +91,226 @@ export type Insight = {
   recommended_action: string;
   suggested_message: string;
   created_at?: string;
+  provider?: string | null;
+  model?: string | null;
+  prompt_version?: string | null;
+  latency_ms?: number | null;
+  prompt_tokens?: number | null;
+  completion_tokens?: number | null;
+  total_tokens?: number | null;
+  attempts?: number | null;
+  context_window?: string | null;
+  event_ids?: string[];
+  message_ids?: string[];
+  prompt_text?: string | null;
 };
 
+
+/**
+ * Represents a chat message ingested from a messaging platform
+ *
+ * Messages are grouped into threads (one chat on one platform), and every
+ * thread belongs to a relationship.
+ *
+ * @property id - Unique identifier (will be generated by database)
+ * @property user_id - ID of the user who owns this message
+ * @property relationship_id - ID of the relationship this message belongs to
+ * @property platform - Platform the message came from (e.g. "whatsapp", "telegram")
+ * @property thread_id - ID of the chat thread on that platform
+ * @property from_me - True if the user sent the message, false if the other person did
+ * @property text - Message text
+ * @property timestamp - When the message was sent
+ * @property external_id - The platform's own message id, if the client supplied one
+ * @property message_index - Position within its ingest batch (keeps order for equal timestamps)
+ * @property created_at - Timestamp when the message was ingested
+ */
+export type Message = {
+  id?: string;
+  user_id?: string;
+  relationship_id: string;
+  platform: string;
+  thread_id: string;
+  from_me: boolean;
+  text: string;
+  timestamp: string | null;
+  external_id?: string | null;
+  message_index?: number;
+  created_at?: string;
+};
+
+
+/**
+ * Rolling summary of a relationship's older history, used by analysis
+ *
+ * @property relationship_id - ID of the relationship this summary describes
+ * @property user_id - ID of the user who owns this summary
+ * @property summary - Model-written summary of everything folded in so far
+ * @property events_covered_until - occurred_at of the newest event folded in (null if none)
+ * @property messages_covered_until - timestamp of the newest message folded in (null if none)
+ * @property event_count - Number of events folded in
+ * @property message_count - Number of messages folded in
+ * @property updated_at - When the summary was last extended
+ */
+export type RelationshipSummary = {
+  relationship_id: string;
+  user_id?: string;
+  summary: string;
+  events_covered_until: string | null;
+  messages_covered_until: string | null;
+  event_count: number;
+  message_count: number;
+  updated_at?: string;
+};
+
+/**
+ * One run of the scheduled re-analysis for a relationship (see lib/reanalysis.ts)
+ *
+ * @property reason - Why it ran: "new_activity" (events or messages added since the last insight) or "cadence"
+ * @property status - "running", "succeeded" or "failed"
+ * @property insight_id - The insight it produced (null unless it succeeded)
+ * @property error - What went wrong (null unless it failed)
+ */
+export type AnalysisJob = {
+  id?: string;
+  user_id: string;
+  relationship_id: string;
+  reason: 'new_activity' | 'cadence';
+  status: 'running' | 'succeeded' | 'failed';
+  insight_id?: string | null;
+  error?: string | null;
+  started_at?: string;
+  finished_at?: string | null;
+};
+
+/**
+ * A follow-up task for a relationship, often made from an insight's recommended_action
+ *
+ * @property id - Unique identifier (will be generated by database)
+ * @property user_id - ID of the user who owns this task
+ * @property relationship_id - ID of the relationship this task is for
+ * @property insight_id - Insight whose recommendation the task came from (null if added by hand)
+ * @property title - What to do
+ * @property due_at - When it should be done by (null if undated)
+ * @property completed_at - When it was marked done (null while open)
+ * @property event_id - Event logged when it was completed (null while open)
+ * @property created_at - Timestamp when the task was created
+ * @property relationship - The relationship's name, joined in by /api/tasks
+ */
+export type Task = {
+  id?: string;
+  user_id?: string;
+  relationship_id: string;
+  insight_id?: string | null;
+  title: string;
+  due_at?: string | null;
+  completed_at?: string | null;
+  event_id?: string | null;
+  created_at?: string;
+  relationship?: Pick<Relationship, 'person_name'> | null;
+};
+
+export type DraftTone = 'warm' | 'direct' | 'playful' | 'apologetic';
+
+export type DraftLength = 'short' | 'medium' | 'long';
+
+/**
+ * A draft of a message to send, generated from an insight (see lib/drafts.ts)
+ *
+ * @property insight_id - Insight the draft was written for (null if it was deleted)
+ * @property parent_id - Draft this one was refined from (null for a first draft)
+ * @property tone - Tone it was written in
+ * @property length - Length it was written at
+ * @property text - The message text
+ * @property instruction - Refinement instruction that produced it (null for a first draft)
+ * @property provider - LLM provider that wrote it
+ * @property model - Model that wrote it
+ * @property prompt_version - Prompt template version used
+ * @property sent_at - When the user sent it (null if not sent)
+ * @property message_id - The from_me message recorded when it was sent
+ */
+export type MessageDraft = {
+  id?: string;
+  user_id?: string;
+  relationship_id: string;
+  insight_id?: string | null;
+  parent_id?: string | null;
+  tone: DraftTone;
+  length: DraftLength;
+  text: string;
+  instruction?: string | null;
+  provider?: string | null;
+  model?: string | null;
+  prompt_version?: string | null;
+  sent_at?: string | null;
+  message_id?: string | null;
+  created_at?: string;
+};
+
+/**
+ * A chat about one relationship (see lib/relationshipChat.ts)
+ *
+ * @property title - Short title, taken from the first question unless set
+ * @property updated_at - When the last turn was added
+ */
+export type ChatSession = {
+  id?: string;
+  user_id?: string;
+  relationship_id: string;
+  title?: string | null;
+  created_at?: string;
+  updated_at?: string;
+};
+
+/**
+ * One turn of a chat session
+ *
+ * @property role - "user" for the question, "assistant" for the model's answer
+ * @property provider - LLM provider that answered (assistant turns only)
+ * @property model - Model that answered (assistant turns only)
+ * @property prompt_version - Prompt template version used (assistant turns only)
+ */
+export type ChatSessionMessage = {
+  id?: string;
+  user_id?: string;
+  session_id: string;
+  role: 'user' | 'assistant';
+  content: string;
+  provider?: string | null;
+  model?: string | null;
+  prompt_version?: string | null;
+  created_at?: string;
+};
+
+/**
+ * An event proposed from chat messages, waiting for the user to accept or
+ * reject it (see lib/eventExtraction.ts)
+ *
+ * @property event_type - Proposed event type (e.g. "meeting", "call")
+ * @property description - Proposed description
+ * @property occurred_at - When the event happens or happened (null if the messages don't say)
+ * @property message_ids - Messages the event was found in
+ * @property status - "pending" until reviewed, then "accepted" or "rejected"
+ * @property event_id - Event written when it was accepted
+ * @property provider - LLM provider that proposed it
+ * @property model - Model that proposed it
+ * @property prompt_version - Prompt template version used
+ * @property reviewed_at - When it was accepted or rejected
+ * @property source_messages - The messages themselves, joined in by /api/event-candidates
+ */
+export type EventCandidate = {
+  id?: string;
+  user_id?: string;
+  relationship_id: string;
+  event_type: string;
+  description: string;
+  occurred_at?: string | null;
+  message_ids: string[];
+  status: 'pending' | 'accepted' | 'rejected';
+  event_id?: string | null;
+  provider?: string | null;
+  model?: string | null;
+  prompt_version?: string | null;
+  created_at?: string;
+  reviewed_at?: string | null;
+  source_messages?: Pick<Message, 'id' | 'from_me' | 'text' | 'timestamp'>[];
+};
@@ -3,6 +3,8 @@ import type { NextConfig } from "next";
 const nextConfig: NextConfig = {
   /* config options here */
   reactStrictMode: true,
+  // sql.js (iMessage importer) loads its .wasm file from node_modules at runtime
+  serverExternalPackages: ["sql.js"],
 };
 
 export default nextConfig;
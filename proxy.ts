@@ -0,0 +1,60 @@
+/**
+ * Request proxy (formerly "middleware") for the Relationship Decision Engine
+ *
+ * Runs before every matched request to:
+ * - refresh the Supabase Auth session and write updated cookies
+ * - send signed-out visitors of app pages to /login
+ *
+ * API routes are not redirected; they answer 401 themselves.
+ */
+
+import { createServerClient } from '@supabase/ssr';
+import { NextResponse, type NextRequest } from 'next/server';
+
+// Pages that must stay reachable without a session
+const PUBLIC_PATHS = ['/login', '/auth'];
+
+export async function proxy(request: NextRequest) {
+  let response = NextResponse.next({ request });
+
+  const supabase = createServerClient(
+    process.env.NEXT_PUBLIC_SUPABASE_URL!,
+    process.env.NEXT_PUBLIC_SUPABASE_ANON_KEY!,
+    {
+      cookies: {
+        getAll() {
+          return request.cookies.getAll();
+        },
+        setAll(cookiesToSet) {
+          cookiesToSet.forEach(({ name, value }) => request.cookies.set(name, value));
+          response = NextResponse.next({ request });
+          cookiesToSet.forEach(({ name, value, options }) =>
+            response.cookies.set(name, value, options)
+          );
+        },
+      },
+    }
+  );
+
+  // Refreshes the session if it has expired
+  const {
+    data: { user },
+  } = await supabase.auth.getUser();
+
+  const { pathname } = request.nextUrl;
+  const isPublic = PUBLIC_PATHS.some((path) => pathname.startsWith(path));
+  const isApi = pathname.startsWith('/api');
+
+  if (!user && !isPublic && !isApi) {
+    const loginUrl = request.nextUrl.clone();
+    loginUrl.pathname = '/login';
+    return NextResponse.redirect(loginUrl);
+  }
+
+  return response;
+}
+
+export const config = {
+  // Skip static assets and image optimization files
+  matcher: ['/((?!_next/static|_next/image|favicon.ico|.*\\.(?:svg|png|jpg|jpeg|gif|webp)$).*)'],
+};
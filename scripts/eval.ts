@@ -0,0 +1,384 @@
+/**
+ * Offline evaluation harness for the analysis engine
+ *
+ * Runs the analysis pipeline (prompt selection, model call, repair loop and
+ * validation from lib/analysis.ts) against the synthetic relationships in
+ * evals/fixtures, checks each insight against the fixture's expectations,
+ * and writes a scored report to evals/reports. Nothing touches Supabase.
+ *
+ * Usage:
+ *   npm run eval -- [--provider mock|groq|openai] [--model <id>]
+ *                   [--prompt-version <pin>] [--fixture <id>]...
+ *                   [--label <name>] [--compare <report.json>] [--verbose]
+ *
+ * The provider defaults to LLM_PROVIDER from .env*, or "mock". Each run
+ * writes <label>.json (everything, including latency and tokens) and
+ * <label>.md (checks and scores only, so two runs can be compared with a
+ * plain diff). --compare prints per-fixture score changes against an
+ * earlier JSON report.
+ *
+ * Fixture format (one JSON file per relationship):
+ * {
+ *   "id": "fading-friendship",
+ *   "description": "...",
+ *   "relationship": { "person_name", "type", "notes"? },
+ *   "window": "all" | "30d" ...,     optional, default "all"
+ *   "as_of": ISO date,                optional, the "now" a window is measured from
+ *   "events": [{ "event_type", "description", "occurred_at" }],
+ *   "messages": [{ "from_me", "text", "timestamp" }],
+ *   "tasks": [{ "title", "due_at"?, "completed_at"? }],   optional follow-up tasks
+ *   "expect": {
+ *     "risk_score": { "min", "max" },   optional
+ *     "growth_score": { "min", "max" }, optional
+ *     "forbidden": [regex, ...],        optional, matched case-insensitively against every text field
+ *     "prompt_variant": "friend",       optional, the template variant the type should select
+ *     "max_attempts": 1                 optional, default 1 (a repair counts against the JSON shape)
+ *   }
+ * }
+ */
+
+import { existsSync, mkdirSync, readdirSync, readFileSync, writeFileSync } from 'node:fs';
+import path from 'node:path';
+import { parseArgs } from 'node:util';
+import { loadEnvConfig } from '@next/env';
+import { getLLMProvider, LLMProvider } from '@/lib/llm';
+import { AnalysisError, generateInsight, GeneratedInsight } from '@/lib/analysis';
+import { buildContextFromRows, parseAnalysisWindow } from '@/lib/analysisContext';
+import { parsePromptPin } from '@/lib/prompts';
+import type { Event, Message, Task } from '@/lib/types';
+
+const FIXTURES_DIR = path.join(process.cwd(), 'evals', 'fixtures');
+const REPORTS_DIR = path.join(process.cwd(), 'evals', 'reports');
+
+const TEXT_FIELDS = ['summary', 'pattern', 'recommended_action', 'suggested_message'] as const;
+
+type ScoreRange = { min: number; max: number };
+
+type Fixture = {
+  id: string;
+  description: string;
+  relationship: { person_name: string; type: string; notes?: string };
+  window?: string;
+  as_of?: string;
+  events: Pick<Event, 'event_type' | 'description' | 'occurred_at'>[];
+  messages: Pick<Message, 'from_me' | 'text' | 'timestamp'>[];
+  tasks?: Pick<Task, 'title' | 'due_at' | 'completed_at'>[];
+  expect: {
+    risk_score?: ScoreRange;
+    growth_score?: ScoreRange;
+    forbidden?: string[];
+    prompt_variant?: string;
+    max_attempts?: number;
+  };
+};
+
+/**
+ * One expectation checked against one insight
+ */
+type CheckResult = {
+  name: string;
+  passed: boolean;
+  detail: string;
+};
+
+type FixtureResult = {
+  id: string;
+  prompt: string | null;
+  score: number;
+  passed: boolean;
+  checks: CheckResult[];
+  insight: GeneratedInsight['insight'] | null;
+  error: string | null;
+  attempts: number | null;
+  latency_ms: number | null;
+  total_tokens: number | null;
+};
+
+type Report = {
+  label: string;
+  generated_at: string;
+  provider: string;
+  model: string;
+  prompt_version: string | null;
+  score: number;
+  fixtures_passed: number;
+  fixtures_total: number;
+  results: FixtureResult[];
+};
+
+/**
+ * Load fixtures from evals/fixtures, sorted by id (optionally only the given ids)
+ *
+ * Throws if a fixture file is malformed or a requested id doesn't exist.
+ */
+function loadFixtures(only: string[]): Fixture[] {
+  const fixtures = readdirSync(FIXTURES_DIR)
+    .filter((file) => file.endsWith('.json'))
+    .map((file) => {
+      const fixture = JSON.parse(readFileSync(path.join(FIXTURES_DIR, file), 'utf8')) as Fixture;
+      if (!fixture.id || !fixture.relationship?.person_name || !fixture.expect) {
+        throw new Error(`${file}: id, relationship.person_name and expect are required`);
+      }
+      return fixture;
+    })
+    .sort((a, b) => a.id.localeCompare(b.id));
+
+  const unknown = only.filter((id) => !fixtures.some((f) => f.id === id));
+  if (unknown.length > 0) {
+    throw new Error(`Unknown fixture: ${unknown.join(', ')}`);
+  }
+
+  return only.length > 0 ? fixtures.filter((f) => only.includes(f.id)) : fixtures;
+}
+
+function checkRange(name: string, value: number, range: ScoreRange): CheckResult {
+  return {
+    name,
+    passed: value >= range.min && value <= range.max,
+    detail: `${value} (expected ${range.min}-${range.max})`,
+  };
+}
+
+/**
+ * Check a generated insight against a fixture's expectations
+ */
+function checkInsight(fixture: Fixture, generated: GeneratedInsight): CheckResult[] {
+  const { expect } = fixture;
+  const { insight } = generated;
+  const maxAttempts = expect.max_attempts ?? 1;
+
+  const checks: CheckResult[] = [
+    {
+      name: 'json_shape',
+      passed: generated.attempts <= maxAttempts,
+      detail:
+        generated.attempts === 1
+          ? 'valid on the first attempt'
+          : `valid after ${generated.attempts} attempts (allowed ${maxAttempts})`,
+    },
+  ];
+
+  if (expect.prompt_variant) {
+    checks.push({
+      name: 'prompt_variant',
+      passed: generated.prompt.variant.key === expect.prompt_variant,
+      detail: `${generated.prompt.id} (expected variant ${expect.prompt_variant})`,
+    });
+  }
+
+  if (expect.risk_score) {
+    checks.push(checkRange('risk_score', insight.risk_score, expect.risk_score));
+  }
+  if (expect.growth_score) {
+    checks.push(checkRange('growth_score', insight.growth_score, expect.growth_score));
+  }
+
+  for (const pattern of expect.forbidden ?? []) {
+    const regex = new RegExp(pattern, 'i');
+    const hits = TEXT_FIELDS.filter((field) => regex.test(insight[field]));
+    checks.push({
+      name: `forbidden /${pattern}/`,
+      passed: hits.length === 0,
+      detail: hits.length === 0 ? 'absent' : `found in ${hits.join(', ')}`,
+    });
+  }
+
+  return checks;
+}
+
+/**
+ * Run one fixture through the pipeline and score it
+ *
+ * A fixture whose analysis fails outright (invalid JSON after every repair,
+ * provider error) scores 0 with the error recorded.
+ */
+async function runFixture(fixture: Fixture, provider: LLMProvider, promptVersion: string | null): Promise<FixtureResult> {
+  const asOf = fixture.as_of ? new Date(fixture.as_of) : undefined;
+  const window = parseAnalysisWindow(fixture.window, asOf);
+  if (!window) {
+    throw new Error(`${fixture.id}: invalid window ${fixture.window}`);
+  }
+
+  const context = buildContextFromRows({
+    window,
+    events: fixture.events.map((e) => ({ ...e, relationship_id: fixture.id })),
+    messages: fixture.messages.map((m, index) => ({
+      ...m,
+      relationship_id: fixture.id,
+      platform: 'eval',
+      thread_id: fixture.id,
+      message_index: index,
+    })),
+    tasks: (fixture.tasks ?? []).map((t) => ({ ...t, relationship_id: fixture.id })),
+    now: asOf,
+  });
+
+  try {
+    const generated = await generateInsight({
+      relationship: fixture.relationship,
+      context,
+      provider,
+      promptVersion,
+    });
+    const checks = checkInsight(fixture, generated);
+    const passedChecks = checks.filter((c) => c.passed).length;
+
+    return {
+      id: fixture.id,
+      prompt: generated.prompt.id,
+      score: Math.round((passedChecks / checks.length) * 100),
+      passed: passedChecks === checks.length,
+      checks,
+      insight: generated.insight,
+      error: null,
+      attempts: generated.attempts,
+      latency_ms: generated.latencyMs,
+      total_tokens: generated.usage?.total_tokens ?? null,
+    };
+  } catch (err) {
+    if (err instanceof AnalysisError && err.status === 400) {
+      throw err;
+    }
+
+    return {
+      id: fixture.id,
+      prompt: null,
+      score: 0,
+      passed: false,
+      checks: [],
+      insight: null,
+      error: err instanceof Error ? err.message : String(err),
+      attempts: null,
+      latency_ms: null,
+      total_tokens: null,
+    };
+  }
+}
+
+/**
+ * Render the diffable part of a report: checks and scores, no timings
+ */
+function renderMarkdown(report: Report): string {
+  const lines = [
+    `# Eval report: ${report.label}`,
+    '',
+    `Provider: ${report.provider} (${report.model})`,
+    `Prompt version: ${report.prompt_version ?? 'latest'}`,
+    `Score: ${report.score} (${report.fixtures_passed}/${report.fixtures_total} fixtures passed)`,
+    '',
+  ];
+
+  for (const result of report.results) {
+    lines.push(`## ${result.id}: ${result.score}${result.prompt ? ` (${result.prompt})` : ''}`, '');
+    if (result.error) {
+      lines.push(`- ERROR: ${result.error}`);
+    }
+    for (const check of result.checks) {
+      lines.push(`- ${check.passed ? 'PASS' : 'FAIL'} ${check.name}: ${check.detail}`);
+    }
+    lines.push('');
+  }
+
+  return lines.join('\n');
+}
+
+/**
+ * Print per-fixture score changes against an earlier report
+ */
+function printComparison(report: Report, previous: Report) {
+  console.info(`\nCompared with ${previous.label} (${previous.provider}, ${previous.model}):`);
+  console.info(`  overall ${previous.score} -> ${report.score}`);
+
+  for (const result of report.results) {
+    const before = previous.results.find((r) => r.id === result.id);
+    if (!before) {
+      console.info(`  ${result.id}: new (${result.score})`);
+      continue;
+    }
+    if (before.score === result.score) {
+      continue;
+    }
+    const changed = result.checks
+      .filter((c) => before.checks.find((b) => b.name === c.name)?.passed !== c.passed)
+      .map((c) => `${c.passed ? '+' : '-'}${c.name}`);
+    console.info(`  ${result.id}: ${before.score} -> ${result.score} ${changed.join(' ')}`);
+  }
+}
+
+async function main() {
+  const { values } = parseArgs({
+    options: {
+      provider: { type: 'string' },
+      model: { type: 'string' },
+      'prompt-version': { type: 'string' },
+      fixture: { type: 'string', multiple: true },
+      label: { type: 'string' },
+      compare: { type: 'string' },
+      verbose: { type: 'boolean', default: false },
+    },
+  });
+
+  // Same environment files as the app, then command-line overrides
+  loadEnvConfig(process.cwd());
+  process.env.LLM_PROVIDER = values.provider ?? process.env.LLM_PROVIDER ?? 'mock';
+  if (values.model) {
+    process.env.LLM_MODEL = values.model;
+  }
+
+  const promptVersion = values['prompt-version'] ?? null;
+  if (promptVersion && !parsePromptPin(promptVersion)) {
+    throw new Error(`Unknown prompt version: ${promptVersion}`);
+  }
+
+  const provider = getLLMProvider();
+  const fixtures = loadFixtures(values.fixture ?? []);
+
+  // Read the baseline first: this run may overwrite it if the labels match
+  const previous = values.compare ? (JSON.parse(readFileSync(values.compare, 'utf8')) as Report) : null;
+
+  // The pipeline logs every prompt and response; keep the output readable
+  if (!values.verbose) {
+    console.log = () => {};
+    console.error = () => {};
+  }
+
+  const results: FixtureResult[] = [];
+  for (const fixture of fixtures) {
+    const result = await runFixture(fixture, provider, promptVersion);
+    console.info(`${result.passed ? 'PASS' : 'FAIL'} ${result.id} (${result.score})${result.error ? `: ${result.error}` : ''}`);
+    results.push(result);
+  }
+
+  const label =
+    values.label ?? `${provider.name}-${provider.model}-${promptVersion ?? 'latest'}`.replace(/[^\w.-]+/g, '_');
+  const report: Report = {
+    label,
+    generated_at: new Date().toISOString(),
+    provider: provider.name,
+    model: provider.model,
+    prompt_version: promptVersion,
+    score: results.length > 0 ? Math.round(results.reduce((sum, r) => sum + r.score, 0) / results.length) : 0,
+    fixtures_passed: results.filter((r) => r.passed).length,
+    fixtures_total: results.length,
+    results,
+  };
+
+  if (!existsSync(REPORTS_DIR)) {
+    mkdirSync(REPORTS_DIR, { recursive: true });
+  }
+  const jsonPath = path.join(REPORTS_DIR, `${label}.json`);
+  writeFileSync(jsonPath, `${JSON.stringify(report, null, 2)}\n`);
+  writeFileSync(path.join(REPORTS_DIR, `${label}.md`), renderMarkdown(report));
+
+  console.info(`\nScore: ${report.score} (${report.fixtures_passed}/${report.fixtures_total} fixtures passed)`);
+  console.info(`Report: ${path.relative(process.cwd(), jsonPath)}`);
+
+  if (previous) {
+    printComparison(report, previous);
+  }
+}
+
+main().catch((err) => {
+  console.info(err instanceof Error ? err.message : err);
+  process.exit(1);
+});
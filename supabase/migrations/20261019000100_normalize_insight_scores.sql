@@ -0,0 +1,32 @@
+-- Normalize insight scores onto the canonical 0-100 integer scale.
+--
+-- Early insights were written while the prompt didn't specify a scale, so
+-- some rows hold 0-1 fractions (0.65) instead of 0-100 values (65). Values
+-- above 0 and up to 1 inclusive are treated as fractions and scaled up, so
+-- 1 (the top of the old scale) becomes 100. This mirrors normalizeScore()
+-- in lib/scores.ts.
+
+update insights
+set risk_score = risk_score * 100
+where risk_score > 0 and risk_score <= 1;
+
+update insights
+set growth_score = growth_score * 100
+where growth_score > 0 and growth_score <= 1;
+
+-- Clamp anything outside the range before tightening the column type.
+update insights
+set risk_score = least(100, greatest(0, risk_score))
+where risk_score < 0 or risk_score > 100;
+
+update insights
+set growth_score = least(100, greatest(0, growth_score))
+where growth_score < 0 or growth_score > 100;
+
+alter table insights
+  alter column risk_score type integer using round(risk_score)::integer,
+  alter column growth_score type integer using round(growth_score)::integer;
+
+alter table insights
+  add constraint insights_risk_score_range check (risk_score between 0 and 100),
+  add constraint insights_growth_score_range check (growth_score between 0 and 100);
@@ -0,0 +1,19 @@
+-- Link chat messages to relationships explicitly.
+--
+-- Messages used to be tied to a relationship only through thread_id, and the
+-- dashboard and /api/analyze disagreed on the format (the dashboard wrote
+-- "relationship-<id>", analysis read "<id>"). A relationship_id column lets
+-- one relationship own several threads across platforms.
+
+alter table messages
+  add column if not exists relationship_id uuid references relationships (id);
+
+-- Backfill from both thread_id formats that were in use.
+update messages m
+set relationship_id = r.id
+from relationships r
+where m.relationship_id is null
+  and (m.thread_id = r.id::text or m.thread_id = 'relationship-' || r.id::text);
+
+create index if not exists messages_relationship_id_timestamp_idx
+  on messages (relationship_id, timestamp desc);
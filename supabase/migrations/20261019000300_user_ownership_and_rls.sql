@@ -0,0 +1,80 @@
+-- Per-user ownership of all data, enforced with row level security.
+--
+-- Every table gets a user_id pointing at auth.users. API routes also filter
+-- by user_id explicitly, but these policies are what actually stop one
+-- signed-in user from reading or writing another user's rows.
+
+-- relationships, events and insights had no owner column at all.
+alter table relationships
+  add column if not exists user_id uuid references auth.users (id) on delete cascade default auth.uid();
+
+alter table events
+  add column if not exists user_id uuid references auth.users (id) on delete cascade default auth.uid();
+
+alter table insights
+  add column if not exists user_id uuid references auth.users (id) on delete cascade default auth.uid();
+
+-- messages.user_id used to be a free-form string supplied by the caller
+-- (e.g. 'test-user-1'). Anything that isn't a real user id is dropped.
+alter table messages
+  alter column user_id type uuid
+  using (case
+    when user_id ~* '^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$'
+      then user_id::uuid
+    else null
+  end);
+
+alter table messages
+  alter column user_id set default auth.uid(),
+  add constraint messages_user_id_fkey foreign key (user_id) references auth.users (id) on delete cascade;
+
+-- Rows created before accounts existed have no owner and are invisible to
+-- everyone once RLS is on. To hand them to an existing account, run:
+--
+--   update relationships set user_id = '<user uuid>' where user_id is null;
+--   update events e set user_id = r.user_id from relationships r
+--     where e.relationship_id = r.id and e.user_id is null;
+--   update insights i set user_id = r.user_id from relationships r
+--     where i.relationship_id = r.id and i.user_id is null;
+--   update messages m set user_id = r.user_id from relationships r
+--     where m.relationship_id = r.id and m.user_id is null;
+
+create index if not exists relationships_user_id_idx on relationships (user_id);
+create index if not exists events_user_id_idx on events (user_id);
+create index if not exists insights_user_id_idx on insights (user_id);
+create index if not exists messages_user_id_idx on messages (user_id);
+
+alter table relationships enable row level security;
+alter table events enable row level security;
+alter table insights enable row level security;
+alter table messages enable row level security;
+
+create policy "Users manage their own relationships"
+  on relationships for all
+  using (user_id = auth.uid())
+  with check (user_id = auth.uid());
+
+-- Child rows must belong to the user AND point at one of the user's relationships.
+create policy "Users manage their own events"
+  on events for all
+  using (user_id = auth.uid())
+  with check (
+    user_id = auth.uid()
+    and exists (select 1 from relationships r where r.id = relationship_id and r.user_id = auth.uid())
+  );
+
+create policy "Users manage their own insights"
+  on insights for all
+  using (user_id = auth.uid())
+  with check (
+    user_id = auth.uid()
+    and exists (select 1 from relationships r where r.id = relationship_id and r.user_id = auth.uid())
+  );
+
+create policy "Users manage their own messages"
+  on messages for all
+  using (user_id = auth.uid())
+  with check (
+    user_id = auth.uid()
+    and exists (select 1 from relationships r where r.id = relationship_id and r.user_id = auth.uid())
+  );
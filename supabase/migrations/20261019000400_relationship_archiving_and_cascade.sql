@@ -0,0 +1,26 @@
+-- Soft archiving and cascading deletes for relationships.
+--
+-- archived_at hides a relationship from the default list while keeping its
+-- history. Hard deletes remove the relationship's events, insights and
+-- messages with it, so no orphaned rows are left behind.
+
+alter table relationships
+  add column if not exists archived_at timestamptz;
+
+create index if not exists relationships_user_id_archived_at_idx
+  on relationships (user_id, archived_at);
+
+alter table events
+  drop constraint if exists events_relationship_id_fkey,
+  add constraint events_relationship_id_fkey
+    foreign key (relationship_id) references relationships (id) on delete cascade;
+
+alter table insights
+  drop constraint if exists insights_relationship_id_fkey,
+  add constraint insights_relationship_id_fkey
+    foreign key (relationship_id) references relationships (id) on delete cascade;
+
+alter table messages
+  drop constraint if exists messages_relationship_id_fkey,
+  add constraint messages_relationship_id_fkey
+    foreign key (relationship_id) references relationships (id) on delete cascade;
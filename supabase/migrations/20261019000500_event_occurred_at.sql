@@ -0,0 +1,18 @@
+-- Record when an event actually happened, separately from when it was logged.
+--
+-- Existing events only have created_at, which is the best guess we have for
+-- when they happened, so it is used to backfill occurred_at.
+
+alter table events
+  add column if not exists occurred_at timestamptz;
+
+update events
+set occurred_at = created_at
+where occurred_at is null;
+
+alter table events
+  alter column occurred_at set default now(),
+  alter column occurred_at set not null;
+
+create index if not exists events_relationship_id_occurred_at_idx
+  on events (relationship_id, occurred_at desc);
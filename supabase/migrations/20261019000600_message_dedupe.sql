@@ -0,0 +1,40 @@
+-- Idempotent message ingestion.
+--
+-- external_id holds the platform's own message id when the client has one.
+-- dedupe_key is "ext:<external_id>" or "hash:<sha256 of thread, timestamp,
+-- sender, text>" (see lib/messageIngest.ts), and a unique index on it lets
+-- ingestion use INSERT ... ON CONFLICT DO NOTHING. message_index keeps the
+-- original order of messages that share a timestamp.
+
+-- Remove exact duplicates left behind by re-posted batches, keeping the
+-- earliest copy of each message.
+delete from messages
+where id in (
+  select id from (
+    select
+      id,
+      row_number() over (
+        partition by user_id, platform, thread_id, timestamp, from_me, text
+        order by created_at, id
+      ) as copy_number
+    from messages
+  ) copies
+  where copy_number > 1
+);
+
+alter table messages
+  add column if not exists external_id text,
+  add column if not exists dedupe_key text,
+  add column if not exists message_index integer not null default 0;
+
+-- Existing rows get a key derived from their id so they never collide.
+-- They won't dedupe against re-sent batches, but nothing is lost.
+update messages
+set dedupe_key = 'legacy:' || id::text
+where dedupe_key is null;
+
+alter table messages
+  alter column dedupe_key set not null;
+
+create unique index if not exists messages_dedupe_key_idx
+  on messages (user_id, platform, thread_id, dedupe_key);
@@ -0,0 +1,29 @@
+-- Rolling summaries of older relationship history for analysis.
+--
+-- /api/analyze only has room for the most recent events and messages. Anything
+-- older is folded into this summary (oldest first, a chunk at a time), and the
+-- *_covered_until columns record how far each kind of history has been folded
+-- in, so the summary is extended incrementally instead of being regenerated.
+
+create table if not exists relationship_summaries (
+  relationship_id uuid primary key references relationships (id) on delete cascade,
+  user_id uuid not null references auth.users (id) on delete cascade default auth.uid(),
+  summary text not null default '',
+  events_covered_until timestamptz,
+  messages_covered_until timestamptz,
+  event_count integer not null default 0,
+  message_count integer not null default 0,
+  updated_at timestamptz not null default now()
+);
+
+create index if not exists relationship_summaries_user_id_idx on relationship_summaries (user_id);
+
+alter table relationship_summaries enable row level security;
+
+create policy "Users manage their own relationship summaries"
+  on relationship_summaries for all
+  using (user_id = auth.uid())
+  with check (
+    user_id = auth.uid()
+    and exists (select 1 from relationships r where r.id = relationship_id and r.user_id = auth.uid())
+  );
@@ -0,0 +1,19 @@
+-- Record how each insight was produced, so past recommendations can be
+-- explained and reproduced.
+--
+-- Insights created before this migration have no provenance; every column
+-- is nullable (or defaults to an empty list) for them.
+
+alter table insights
+  add column if not exists provider text,
+  add column if not exists model text,
+  add column if not exists prompt_version text,
+  add column if not exists latency_ms integer,
+  add column if not exists prompt_tokens integer,
+  add column if not exists completion_tokens integer,
+  add column if not exists total_tokens integer,
+  add column if not exists attempts integer,
+  add column if not exists context_window text,
+  add column if not exists event_ids uuid[] not null default '{}',
+  add column if not exists message_ids uuid[] not null default '{}',
+  add column if not exists prompt_text text;
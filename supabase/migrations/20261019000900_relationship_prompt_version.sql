@@ -0,0 +1,8 @@
+-- Let a relationship be pinned to a specific analysis prompt template.
+--
+-- Values are template ids from lib/prompts ("analyze-v1", or
+-- "analyze-v2:ex" to pin a variant too). Null means "latest version,
+-- variant picked from the relationship type".
+
+alter table relationships
+  add column if not exists prompt_version text;
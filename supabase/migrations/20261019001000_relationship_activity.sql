@@ -0,0 +1,38 @@
+-- Last activity per relationship, for the portfolio overview (/api/overview).
+--
+-- Returns the newest event and message time and the number of each for every
+-- relationship of the signed-in user. The function runs with the caller's
+-- permissions, so row level security still applies to every table it reads.
+
+create or replace function relationship_activity()
+returns table (
+  relationship_id uuid,
+  last_event_at timestamptz,
+  event_count bigint,
+  last_message_at timestamptz,
+  message_count bigint
+)
+language sql
+stable
+security invoker
+set search_path = public
+as $$
+  select
+    r.id,
+    e.last_event_at,
+    coalesce(e.event_count, 0),
+    m.last_message_at,
+    coalesce(m.message_count, 0)
+  from relationships r
+  left join lateral (
+    select max(occurred_at) as last_event_at, count(*) as event_count
+    from events
+    where events.relationship_id = r.id
+  ) e on true
+  left join lateral (
+    select max(timestamp) as last_message_at, count(*) as message_count
+    from messages
+    where messages.relationship_id = r.id
+  ) m on true
+  where r.user_id = auth.uid();
+$$;
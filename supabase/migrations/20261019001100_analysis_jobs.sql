@@ -0,0 +1,91 @@
+-- Scheduled re-analysis (POST /api/jobs/reanalyze, see lib/reanalysis.ts).
+--
+-- A relationship is re-analyzed automatically when it has events or messages
+-- newer than its latest insight, or when reanalyze_every_days is set and the
+-- latest insight is older than that. Every run is logged in analysis_jobs.
+-- The job runner uses the service role key, which bypasses row level
+-- security; users can only read their own job log.
+
+alter table relationships
+  add column if not exists reanalyze_every_days integer
+    check (reanalyze_every_days is null or reanalyze_every_days > 0);
+
+create table if not exists analysis_jobs (
+  id uuid primary key default gen_random_uuid(),
+  user_id uuid not null references auth.users (id) on delete cascade,
+  relationship_id uuid not null references relationships (id) on delete cascade,
+  reason text not null check (reason in ('new_activity', 'cadence')),
+  status text not null default 'running' check (status in ('running', 'succeeded', 'failed')),
+  insight_id uuid references insights (id) on delete set null,
+  error text,
+  started_at timestamptz not null default now(),
+  finished_at timestamptz
+);
+
+create index if not exists analysis_jobs_relationship_id_started_at_idx
+  on analysis_jobs (relationship_id, started_at desc);
+create index if not exists analysis_jobs_user_id_started_at_idx
+  on analysis_jobs (user_id, started_at desc);
+
+alter table analysis_jobs enable row level security;
+
+create policy "Users read their own analysis jobs"
+  on analysis_jobs for select
+  using (user_id = auth.uid());
+
+-- Relationships that are due for automatic analysis, across all users, with
+-- what the runner needs to apply its rate limits. Active relationships only,
+-- and only ones with at least one event or message to analyze.
+create or replace function analysis_due_relationships()
+returns table (
+  relationship_id uuid,
+  user_id uuid,
+  reason text,
+  last_insight_at timestamptz,
+  last_activity_at timestamptz,
+  last_job_at timestamptz
+)
+language sql
+stable
+security invoker
+set search_path = public
+as $$
+  select *
+  from (
+    select
+      r.id as relationship_id,
+      r.user_id,
+      case
+        when a.last_activity_at > coalesce(i.last_insight_at, '-infinity') then 'new_activity'
+        when r.reanalyze_every_days is not null
+          and coalesce(i.last_insight_at, '-infinity') < now() - make_interval(days => r.reanalyze_every_days)
+          then 'cadence'
+      end as reason,
+      i.last_insight_at,
+      a.last_activity_at,
+      j.last_job_at
+    from relationships r
+    left join lateral (
+      select max(created_at) as last_insight_at from insights where insights.relationship_id = r.id
+    ) i on true
+    left join lateral (
+      select greatest(
+        (select max(occurred_at) from events where events.relationship_id = r.id),
+        (select max(timestamp) from messages where messages.relationship_id = r.id)
+      ) as last_activity_at
+    ) a on true
+    left join lateral (
+      select max(started_at) as last_job_at from analysis_jobs where analysis_jobs.relationship_id = r.id
+    ) j on true
+    where r.archived_at is null
+      and r.user_id is not null
+      and a.last_activity_at is not null
+  ) due
+  where due.reason is not null
+  -- New activity first, then whatever has waited longest
+  order by due.reason = 'new_activity' desc, due.last_insight_at asc nulls first;
+$$;
+
+-- Only the job runner (service role) may list due relationships across users
+revoke execute on function analysis_due_relationships() from public, anon, authenticated;
+grant execute on function analysis_due_relationships() to service_role;
@@ -0,0 +1,35 @@
+-- Follow-up tasks for relationships.
+--
+-- A task is usually created from an insight's recommended_action (insight_id
+-- records which one) and has an optional due date. Completing it logs an
+-- event for the relationship; event_id points at that event so un-completing
+-- the task can remove it again. Open and recently completed tasks are part
+-- of the analysis prompt.
+
+create table if not exists tasks (
+  id uuid primary key default gen_random_uuid(),
+  user_id uuid not null references auth.users (id) on delete cascade default auth.uid(),
+  relationship_id uuid not null references relationships (id) on delete cascade,
+  insight_id uuid references insights (id) on delete set null,
+  title text not null check (length(trim(title)) > 0),
+  due_at timestamptz,
+  completed_at timestamptz,
+  event_id uuid references events (id) on delete set null,
+  created_at timestamptz not null default now()
+);
+
+create index if not exists tasks_relationship_id_idx on tasks (relationship_id);
+-- Open tasks by due date, for the dashboard's overdue list
+create index if not exists tasks_user_id_open_due_at_idx
+  on tasks (user_id, due_at)
+  where completed_at is null;
+
+alter table tasks enable row level security;
+
+create policy "Users manage their own tasks"
+  on tasks for all
+  using (user_id = auth.uid())
+  with check (
+    user_id = auth.uid()
+    and exists (select 1 from relationships r where r.id = relationship_id and r.user_id = auth.uid())
+  );
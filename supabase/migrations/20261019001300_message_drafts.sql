@@ -0,0 +1,38 @@
+-- Drafts of a message to send, generated from an insight.
+--
+-- A draft is generated in a tone (warm, direct, playful, apologetic) and a
+-- length (short, medium, long). Refining a draft with an instruction such
+-- as "shorter" creates a new draft whose parent_id points at the one it was
+-- refined from. When the user sends a draft it is recorded as a from_me
+-- message; sent_at and message_id note which draft was actually sent.
+
+create table if not exists message_drafts (
+  id uuid primary key default gen_random_uuid(),
+  user_id uuid not null references auth.users (id) on delete cascade default auth.uid(),
+  relationship_id uuid not null references relationships (id) on delete cascade,
+  insight_id uuid references insights (id) on delete set null,
+  parent_id uuid references message_drafts (id) on delete set null,
+  tone text not null check (tone in ('warm', 'direct', 'playful', 'apologetic')),
+  length text not null check (length in ('short', 'medium', 'long')),
+  text text not null,
+  instruction text,
+  provider text,
+  model text,
+  prompt_version text,
+  sent_at timestamptz,
+  message_id uuid references messages (id) on delete set null,
+  created_at timestamptz not null default now()
+);
+
+create index if not exists message_drafts_relationship_id_idx on message_drafts (relationship_id, created_at desc);
+create index if not exists message_drafts_insight_id_idx on message_drafts (insight_id);
+
+alter table message_drafts enable row level security;
+
+create policy "Users manage their own message drafts"
+  on message_drafts for all
+  using (user_id = auth.uid())
+  with check (
+    user_id = auth.uid()
+    and exists (select 1 from relationships r where r.id = relationship_id and r.user_id = auth.uid())
+  );
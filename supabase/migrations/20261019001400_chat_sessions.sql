@@ -0,0 +1,51 @@
+-- Chat sessions about a relationship.
+--
+-- A session is a multi-turn conversation with the model, scoped to one
+-- relationship and grounded in its notes, events, messages, follow-up tasks
+-- and past insights (see lib/relationshipChat.ts). Each turn is a row in
+-- chat_messages; assistant turns record the provider and model that
+-- answered.
+
+create table if not exists chat_sessions (
+  id uuid primary key default gen_random_uuid(),
+  user_id uuid not null references auth.users (id) on delete cascade default auth.uid(),
+  relationship_id uuid not null references relationships (id) on delete cascade,
+  title text,
+  created_at timestamptz not null default now(),
+  updated_at timestamptz not null default now()
+);
+
+create index if not exists chat_sessions_relationship_id_idx on chat_sessions (relationship_id, updated_at desc);
+
+create table if not exists chat_messages (
+  id uuid primary key default gen_random_uuid(),
+  user_id uuid not null references auth.users (id) on delete cascade default auth.uid(),
+  session_id uuid not null references chat_sessions (id) on delete cascade,
+  role text not null check (role in ('user', 'assistant')),
+  content text not null,
+  provider text,
+  model text,
+  prompt_version text,
+  created_at timestamptz not null default now()
+);
+
+create index if not exists chat_messages_session_id_idx on chat_messages (session_id, created_at);
+
+alter table chat_sessions enable row level security;
+alter table chat_messages enable row level security;
+
+create policy "Users manage their own chat sessions"
+  on chat_sessions for all
+  using (user_id = auth.uid())
+  with check (
+    user_id = auth.uid()
+    and exists (select 1 from relationships r where r.id = relationship_id and r.user_id = auth.uid())
+  );
+
+create policy "Users manage their own chat messages"
+  on chat_messages for all
+  using (user_id = auth.uid())
+  with check (
+    user_id = auth.uid()
+    and exists (select 1 from chat_sessions s where s.id = session_id and s.user_id = auth.uid())
+  );
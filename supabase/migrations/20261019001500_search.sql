@@ -0,0 +1,175 @@
+-- Search across event descriptions, message text, relationship notes and
+-- insight summaries (see lib/search.ts).
+--
+-- Two kinds of matching are combined:
+-- - Full-text search with Postgres' English configuration, backed by GIN
+--   expression indexes on each searched column.
+-- - Semantic search over embeddings stored in search_embeddings (pgvector).
+--   Embeddings are computed by the app's embedding provider and filled in
+--   lazily (search_documents_to_embed lists what is missing or stale).
+--   model records which provider and model produced a vector, since vectors
+--   from different models can't be compared.
+
+create extension if not exists vector with schema extensions;
+
+-- Full-text indexes; the expressions must match the ones in search_documents()
+create index if not exists events_description_fts_idx
+  on events using gin (to_tsvector('english', coalesce(description, '')));
+create index if not exists messages_text_fts_idx
+  on messages using gin (to_tsvector('english', coalesce(text, '')));
+create index if not exists relationships_notes_fts_idx
+  on relationships using gin (to_tsvector('english', coalesce(notes, '')));
+create index if not exists insights_summary_fts_idx
+  on insights using gin (to_tsvector('english', coalesce(summary, '')));
+
+create table if not exists search_embeddings (
+  source_type text not null check (source_type in ('event', 'message', 'note', 'insight')),
+  source_id uuid not null,
+  user_id uuid not null references auth.users (id) on delete cascade default auth.uid(),
+  relationship_id uuid not null references relationships (id) on delete cascade,
+  model text not null,
+  content_hash text not null,
+  embedding extensions.vector(256) not null,
+  updated_at timestamptz not null default now(),
+  primary key (source_type, source_id)
+);
+
+create index if not exists search_embeddings_user_id_idx on search_embeddings (user_id, model);
+create index if not exists search_embeddings_embedding_idx
+  on search_embeddings using hnsw (embedding extensions.vector_cosine_ops);
+
+alter table search_embeddings enable row level security;
+
+create policy "Users manage their own search embeddings"
+  on search_embeddings for all
+  using (user_id = auth.uid())
+  with check (
+    user_id = auth.uid()
+    and exists (select 1 from relationships r where r.id = relationship_id and r.user_id = auth.uid())
+  );
+
+-- Everything searchable for the signed-in user, one row per document.
+--
+-- Unlike the other functions this one has no `set search_path` (and uses
+-- qualified names instead), so the planner can inline it into the queries
+-- below and use the full-text indexes.
+create or replace function search_documents()
+returns table (
+  source_type text,
+  source_id uuid,
+  relationship_id uuid,
+  content text,
+  occurred_at timestamptz
+)
+language sql
+stable
+security invoker
+as $$
+  select 'event', e.id, e.relationship_id, coalesce(e.description, ''), coalesce(e.occurred_at, e.created_at)
+  from public.events e
+  where e.user_id = auth.uid()
+  union all
+  select 'message', m.id, m.relationship_id, coalesce(m.text, ''), coalesce(m.timestamp, m.created_at)
+  from public.messages m
+  where m.user_id = auth.uid()
+  union all
+  select 'note', r.id, r.id, coalesce(r.notes, ''), r.created_at
+  from public.relationships r
+  where r.user_id = auth.uid() and r.notes is not null
+  union all
+  select 'insight', i.id, i.relationship_id, coalesce(i.summary, ''), i.created_at
+  from public.insights i
+  where i.user_id = auth.uid();
+$$;
+
+-- Documents without an up-to-date embedding from the given model, oldest first
+create or replace function search_documents_to_embed(embedding_model text, max_count int default 100)
+returns table (
+  source_type text,
+  source_id uuid,
+  relationship_id uuid,
+  content text,
+  content_hash text
+)
+language sql
+stable
+security invoker
+set search_path = public
+as $$
+  select d.source_type, d.source_id, d.relationship_id, d.content, md5(d.content)
+  from search_documents() d
+  left join search_embeddings se
+    on se.source_type = d.source_type and se.source_id = d.source_id
+  where length(trim(d.content)) > 0
+    and (se.source_id is null or se.model <> embedding_model or se.content_hash <> md5(d.content))
+  order by d.occurred_at nulls last
+  limit max_count;
+$$;
+
+-- Keyword and semantic candidates for a query, with their scores.
+--
+-- Returns up to match_count keyword matches (ranked by ts_rank, with a
+-- highlighted headline: matches are wrapped in chr(2) and chr(3)) and up to
+-- match_count semantic matches (ranked by cosine similarity), merged on the
+-- document. query_embedding may be null for keyword-only search.
+create or replace function search_content(
+  query_text text,
+  query_embedding extensions.vector(256),
+  embedding_model text,
+  match_count int default 20,
+  filter_relationship_id uuid default null,
+  filter_source_types text[] default null
+)
+returns table (
+  source_type text,
+  source_id uuid,
+  relationship_id uuid,
+  person_name text,
+  content text,
+  occurred_at timestamptz,
+  headline text,
+  text_rank real,
+  similarity double precision
+)
+language sql
+stable
+security invoker
+set search_path = public, extensions
+as $$
+  with docs as not materialized (
+    select *
+    from search_documents() d
+    where (filter_relationship_id is null or d.relationship_id = filter_relationship_id)
+      and (filter_source_types is null or d.source_type = any (filter_source_types))
+  ),
+  keyword as (
+    select d.source_type, d.source_id, ts_rank(to_tsvector('english', d.content), q) as text_rank,
+      ts_headline('english', d.content, q,
+        'StartSel=' || chr(2) || ', StopSel=' || chr(3) || ', MaxFragments=2, MaxWords=25, MinWords=10') as headline
+    from docs d, websearch_to_tsquery('english', query_text) q
+    where to_tsvector('english', d.content) @@ q
+    order by text_rank desc
+    limit match_count
+  ),
+  semantic as (
+    select d.source_type, d.source_id, 1 - (se.embedding <=> query_embedding) as similarity
+    from docs d
+    join search_embeddings se
+      on se.source_type = d.source_type and se.source_id = d.source_id and se.model = embedding_model
+    where query_embedding is not null
+    order by se.embedding <=> query_embedding
+    limit match_count
+  ),
+  matched as (
+    select coalesce(k.source_type, s.source_type) as source_type,
+      coalesce(k.source_id, s.source_id) as source_id,
+      k.headline, k.text_rank, s.similarity
+    from keyword k
+    full outer join semantic s on s.source_type = k.source_type and s.source_id = k.source_id
+  )
+  select m.source_type, m.source_id, d.relationship_id, r.person_name, d.content, d.occurred_at,
+    m.headline, m.text_rank, m.similarity
+  from matched m
+  join docs d on d.source_type = m.source_type and d.source_id = m.source_id
+  join relationships r on r.id = d.relationship_id;
+$$;
@@ -0,0 +1,36 @@
+-- Events proposed from ingested chat messages (see lib/eventExtraction.ts).
+--
+-- After a batch of messages is stored, the model reads the new ones and
+-- proposes events ("dinner on Friday"). Candidates wait here until the user
+-- accepts one, which writes it to events (event_id points at the result),
+-- or rejects it. message_ids records the messages each one was found in.
+
+create table if not exists event_candidates (
+  id uuid primary key default gen_random_uuid(),
+  user_id uuid not null references auth.users (id) on delete cascade default auth.uid(),
+  relationship_id uuid not null references relationships (id) on delete cascade,
+  event_type text not null check (length(trim(event_type)) > 0),
+  description text not null,
+  occurred_at timestamptz,
+  message_ids uuid[] not null default '{}',
+  status text not null default 'pending' check (status in ('pending', 'accepted', 'rejected')),
+  event_id uuid references events (id) on delete set null,
+  provider text,
+  model text,
+  prompt_version text,
+  created_at timestamptz not null default now(),
+  reviewed_at timestamptz
+);
+
+create index if not exists event_candidates_relationship_id_status_idx
+  on event_candidates (relationship_id, status, created_at desc);
+
+alter table event_candidates enable row level security;
+
+create policy "Users manage their own event candidates"
+  on event_candidates for all
+  using (user_id = auth.uid())
+  with check (
+    user_id = auth.uid()
+    and exists (select 1 from relationships r where r.id = relationship_id and r.user_id = auth.uid())
+  );
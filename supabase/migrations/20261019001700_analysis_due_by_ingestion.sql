@@ -0,0 +1,61 @@
+-- Decide "new activity" for scheduled re-analysis by when events and
+-- messages were added, not by when they happened.
+--
+-- Comparing occurred_at / timestamp with the latest insight's created_at kept
+-- a relationship with a future-dated event (a planned dinner) due on every
+-- run until that date passed, and never noticed imports of older history.
+-- last_activity_at is now the time the newest event or message was added.
+
+create or replace function analysis_due_relationships()
+returns table (
+  relationship_id uuid,
+  user_id uuid,
+  reason text,
+  last_insight_at timestamptz,
+  last_activity_at timestamptz,
+  last_job_at timestamptz
+)
+language sql
+stable
+security invoker
+set search_path = public
+as $$
+  select *
+  from (
+    select
+      r.id as relationship_id,
+      r.user_id,
+      case
+        when a.last_activity_at > coalesce(i.last_insight_at, '-infinity') then 'new_activity'
+        when r.reanalyze_every_days is not null
+          and coalesce(i.last_insight_at, '-infinity') < now() - make_interval(days => r.reanalyze_every_days)
+          then 'cadence'
+      end as reason,
+      i.last_insight_at,
+      a.last_activity_at,
+      j.last_job_at
+    from relationships r
+    left join lateral (
+      select max(created_at) as last_insight_at from insights where insights.relationship_id = r.id
+    ) i on true
+    left join lateral (
+      select greatest(
+        (select max(created_at) from events where events.relationship_id = r.id),
+        (select max(created_at) from messages where messages.relationship_id = r.id)
+      ) as last_activity_at
+    ) a on true
+    left join lateral (
+      select max(started_at) as last_job_at from analysis_jobs where analysis_jobs.relationship_id = r.id
+    ) j on true
+    where r.archived_at is null
+      and r.user_id is not null
+      and a.last_activity_at is not null
+  ) due
+  where due.reason is not null
+  -- New activity first, then whatever has waited longest
+  order by due.reason = 'new_activity' desc, due.last_insight_at asc nulls first;
+$$;
+
+-- Only the job runner (service role) may list due relationships across users
+revoke execute on function analysis_due_relationships() from public, anon, authenticated;
+grant execute on function analysis_due_relationships() to service_role;
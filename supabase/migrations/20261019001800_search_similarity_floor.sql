@@ -0,0 +1,82 @@
+-- Give semantic search a similarity floor.
+--
+-- search_content() returned the match_count nearest documents whatever their
+-- distance, so a query unrelated to everything still got a full page of
+-- "semantic" hits. min_similarity (picked per embedding provider, see
+-- lib/embeddings.ts) drops the ones that aren't close enough, along with
+-- documents whose embedding is all zeros.
+
+drop function if exists search_content(text, extensions.vector, text, int, uuid, text[]);
+
+-- Keyword and semantic candidates for a query, with their scores.
+--
+-- Returns up to match_count keyword matches (ranked by ts_rank, with a
+-- highlighted headline: matches are wrapped in chr(2) and chr(3)) and up to
+-- match_count semantic matches with a cosine similarity of at least
+-- min_similarity, merged on the document. query_embedding may be null for
+-- keyword-only search.
+create or replace function search_content(
+  query_text text,
+  query_embedding extensions.vector(256),
+  embedding_model text,
+  match_count int default 20,
+  filter_relationship_id uuid default null,
+  filter_source_types text[] default null,
+  min_similarity double precision default 0
+)
+returns table (
+  source_type text,
+  source_id uuid,
+  relationship_id uuid,
+  person_name text,
+  content text,
+  occurred_at timestamptz,
+  headline text,
+  text_rank real,
+  similarity double precision
+)
+language sql
+stable
+security invoker
+set search_path = public, extensions
+as $$
+  with docs as not materialized (
+    select *
+    from search_documents() d
+    where (filter_relationship_id is null or d.relationship_id = filter_relationship_id)
+      and (filter_source_types is null or d.source_type = any (filter_source_types))
+  ),
+  keyword as (
+    select d.source_type, d.source_id, ts_rank(to_tsvector('english', d.content), q) as text_rank,
+      ts_headline('english', d.content, q,
+        'StartSel=' || chr(2) || ', StopSel=' || chr(3) || ', MaxFragments=2, MaxWords=25, MinWords=10') as headline
+    from docs d, websearch_to_tsquery('english', query_text) q
+    where to_tsvector('english', d.content) @@ q
+    order by text_rank desc
+    limit match_count
+  ),
+  semantic as (
+    select d.source_type, d.source_id, 1 - (se.embedding <=> query_embedding) as similarity
+    from docs d
+    join search_embeddings se
+      on se.source_type = d.source_type and se.source_id = d.source_id and se.model = embedding_model
+    where query_embedding is not null
+      -- Zero vectors (text with no usable words) have no direction: <=> gives NaN
+      and (se.embedding <=> query_embedding) <> 'NaN'
+      and 1 - (se.embedding <=> query_embedding) >= min_similarity
+    order by se.embedding <=> query_embedding
+    limit match_count
+  ),
+  matched as (
+    select coalesce(k.source_type, s.source_type) as source_type,
+      coalesce(k.source_id, s.source_id) as source_id,
+      k.headline, k.text_rank, s.similarity
+    from keyword k
+    full outer join semantic s on s.source_type = k.source_type and s.source_id = k.source_id
+  )
+  select m.source_type, m.source_id, d.relationship_id, r.person_name, d.content, d.occurred_at,
+    m.headline, m.text_rank, m.similarity
+  from matched m
+  join docs d on d.source_type = m.source_type and d.source_id = m.source_id
+  join relationships r on r.id = d.relationship_id;
+$$;
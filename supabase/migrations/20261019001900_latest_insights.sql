@@ -0,0 +1,38 @@
+-- The newest insights per relationship, for the portfolio overview
+-- (/api/overview).
+--
+-- The overview needs each relationship's latest insight and the one before
+-- it. Fetching every insight and picking them out in the route grows with
+-- the whole history and gets cut off at PostgREST's max-rows, so the
+-- picking happens here. Runs with the caller's permissions, so row level
+-- security still applies.
+
+create index if not exists insights_relationship_id_created_at_idx
+  on insights (relationship_id, created_at desc);
+
+create or replace function latest_insights(per_relationship int default 2)
+returns table (
+  id uuid,
+  relationship_id uuid,
+  summary text,
+  risk_score integer,
+  growth_score integer,
+  recommended_action text,
+  created_at timestamptz
+)
+language sql
+stable
+security invoker
+set search_path = public
+as $$
+  select ranked.id, ranked.relationship_id, ranked.summary, ranked.risk_score, ranked.growth_score,
+    ranked.recommended_action, ranked.created_at
+  from (
+    select i.*,
+      row_number() over (partition by i.relationship_id order by i.created_at desc) as position
+    from insights i
+    where i.user_id = auth.uid()
+  ) ranked
+  where ranked.position <= per_relationship
+  order by ranked.relationship_id, ranked.created_at desc;
+$$;
@@ -0,0 +1,47 @@
+-- Tell the overview when a relationship's events and messages were added,
+-- not only when they happened.
+--
+-- The overview flagged "new activity since the last insight" by comparing
+-- the newest occurred_at / timestamp with the insight's created_at, so a
+-- future-dated event kept a relationship flagged and imported older history
+-- never flagged it. last_added_at is compared instead, matching
+-- analysis_due_relationships(); the other columns still drive "last contact".
+--
+-- The return type changes, so the function is dropped and recreated.
+
+drop function if exists relationship_activity();
+
+create function relationship_activity()
+returns table (
+  relationship_id uuid,
+  last_event_at timestamptz,
+  event_count bigint,
+  last_message_at timestamptz,
+  message_count bigint,
+  last_added_at timestamptz
+)
+language sql
+stable
+security invoker
+set search_path = public
+as $$
+  select
+    r.id,
+    e.last_event_at,
+    coalesce(e.event_count, 0),
+    m.last_message_at,
+    coalesce(m.message_count, 0),
+    greatest(e.last_added_at, m.last_added_at)
+  from relationships r
+  left join lateral (
+    select max(occurred_at) as last_event_at, count(*) as event_count, max(created_at) as last_added_at
+    from events
+    where events.relationship_id = r.id
+  ) e on true
+  left join lateral (
+    select max(timestamp) as last_message_at, count(*) as message_count, max(created_at) as last_added_at
+    from messages
+    where messages.relationship_id = r.id
+  ) m on true
+  where r.user_id = auth.uid();
+$$;